@@ -6,6 +6,7 @@ import { AuthenticatedUser, TerminalTheme, EditorTheme } from '../../models/User
 import { Session, SessionStatus } from '../../models/Session';
 import { sessionStore } from '../../services/sessionStore';
 import { ampService } from '../../services/ampService';
+import { ContainerManager } from '../../docker/containerManager';
 import * as sessionController from '../../controllers/sessionController';
 
 // Mock GitHub API service
@@ -88,8 +89,29 @@ describe('SessionController - Thread Bootstrap', () => {
     };
 
     // Default mock responses
+    const storedSessions = new Map<string, Session>();
     mockSessionStore.getUserSessions.mockReturnValue([]);
-    mockSessionStore.getSession.mockReturnValue(null);
+    mockSessionStore.createSession.mockImplementation((session: Session) => {
+      storedSessions.set(session.id, session);
+      return true;
+    });
+    mockSessionStore.getSession.mockImplementation((sessionId: string) => storedSessions.get(sessionId) || null);
+    mockSessionStore.updateSession.mockImplementation((sessionId: string, updates: Partial<Session>) => {
+      const session = storedSessions.get(sessionId);
+      if (!session) return false;
+      storedSessions.set(sessionId, { ...session, ...updates });
+      return true;
+    });
+    mockSessionStore.deleteSession.mockImplementation((sessionId: string) => storedSessions.delete(sessionId));
+
+    (ContainerManager as unknown as jest.Mock).mockImplementation(() => ({
+      getContainerInfo: jest.fn().mockResolvedValue(null),
+      createContainer: jest.fn().mockResolvedValue({
+        success: true,
+        container: { id: 'container-123', name: 'amplify-test', status: 'created', created: '', ports: [] }
+      }),
+      startContainer: jest.fn().mockResolvedValue({ success: true })
+    }));
     mockAmpService.createThread.mockResolvedValue({
       success: true,
       threadId: 'thread_abc123',
@@ -104,7 +126,7 @@ describe('SessionController - Thread Bootstrap', () => {
       sessionName: 'Test Session'
     };
 
-    it('should create amp thread during session creation', async () => {
+    it('should create amp thread inside the session container', async () => {
       const result = await sessionController.createSession(testUser, validSessionData);
 
       expect(mockAmpService.createThread).toHaveBeenCalledWith(
@@ -114,7 +136,9 @@ describe('SessionController - Thread Bootstrap', () => {
             REPOSITORY_URL: validSessionData.repositoryUrl,
             REPOSITORY_BRANCH: validSessionData.branch,
             USER_ID: testUser.id
-          }
+          },
+          containerId: 'container-123',
+          workingDirectory: '/workspace/repo'
         }
       );
 
@@ -122,22 +146,15 @@ describe('SessionController - Thread Bootstrap', () => {
     });
 
     it('should store thread ID and amp log path in session', async () => {
-      let capturedSession: Session | undefined;
-      
-      mockSessionStore.createSession.mockImplementation((session: Session) => {
-        capturedSession = session;
-        return true;
-      });
-
       const result = await sessionController.createSession(testUser, validSessionData);
 
       expect(result.success).toBe(true);
       expect(mockSessionStore.createSession).toHaveBeenCalled();
-      expect(capturedSession!.threadId).toBe('thread_abc123');
-      expect(capturedSession!.ampLogPath).toBe('/tmp/amplify-data/session-123/amp.log');
+      expect(result.data!.threadId).toBe('thread_abc123');
+      expect(result.data!.ampLogPath).toBe('/tmp/amplify-data/session-123/amp.log');
     });
 
-    it('should fail session creation if thread creation fails', async () => {
+    it('should fail session creation and discard the session if thread creation fails', async () => {
       mockAmpService.createThread.mockResolvedValue({
         success: false,
         error: 'Failed to create thread'
@@ -147,7 +164,23 @@ describe('SessionController - Thread Bootstrap', () => {
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('Failed to create thread');
-      expect(mockSessionStore.createSession).not.toHaveBeenCalled();
+      expect(mockSessionStore.deleteSession).toHaveBeenCalledWith(
+        expect.stringMatching(/^session-\d+-[a-z0-9]+$/)
+      );
+    });
+
+    it('should not create a thread if the container fails to start', async () => {
+      (ContainerManager as unknown as jest.Mock).mockImplementation(() => ({
+        getContainerInfo: jest.fn().mockResolvedValue(null),
+        createContainer: jest.fn().mockResolvedValue({ success: false, error: 'image not found' })
+      }));
+
+      const result = await sessionController.createSession(testUser, validSessionData);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('image not found');
+      expect(mockAmpService.createThread).not.toHaveBeenCalled();
+      expect(mockSessionStore.deleteSession).toHaveBeenCalled();
     });
 
     it('should pass correct environment variables to amp thread creation', async () => {
@@ -155,28 +188,33 @@ describe('SessionController - Thread Bootstrap', () => {
 
       expect(mockAmpService.createThread).toHaveBeenCalledWith(
         expect.any(String),
-        {
+        expect.objectContaining({
           environment: {
             REPOSITORY_URL: 'https://github.com/test/repo',
             REPOSITORY_BRANCH: 'main',
             USER_ID: 'test-user-thread'
           }
-        }
+        })
       );
     });
 
-    it('should create session with READY status after successful thread creation', async () => {
+    it('should leave session RUNNING after successful thread creation', async () => {
       let capturedSession: Session | undefined;
       
-      mockSessionStore.createSession.mockImplementation((session: Session) => {
+      mockSessionStore.createSession.mockImplementationOnce((session: Session) => {
         capturedSession = session;
+        mockSessionStore.getSession.mockReturnValue(session);
         return true;
       });
 
       const result = await sessionController.createSession(testUser, validSessionData);
 
       expect(result.success).toBe(true);
-      expect(capturedSession!.status).toBe(SessionStatus.READY);
+      expect(capturedSession!.status).toBe(SessionStatus.CREATING);
+      expect(mockSessionStore.updateSession).toHaveBeenCalledWith(
+        capturedSession!.id,
+        expect.objectContaining({ status: SessionStatus.RUNNING })
+      );
     });
 
     it('should handle thread creation timeout gracefully', async () => {
@@ -0,0 +1,195 @@
+/**
+ * Session network and egress proxy tests
+ */
+
+import http from 'http';
+import net from 'net';
+import { AddressInfo } from 'net';
+import Docker from 'dockerode';
+import webConfig from '../../config/webConfig';
+import { NetworkManager } from '../../docker/networkManager';
+import { EgressProxy } from '../../docker/egressProxy';
+
+describe('NetworkManager', () => {
+  const originalEgress = { ...webConfig.container.egress };
+  let network: any;
+  let docker: { getNetwork: jest.Mock; createNetwork: jest.Mock };
+  let manager: NetworkManager;
+
+  beforeEach(() => {
+    network = null;
+    const handle = {
+      inspect: jest.fn(async () => {
+        if (!network) {
+          throw Object.assign(new Error('no such network'), { statusCode: 404 });
+        }
+        return network;
+      }),
+      remove: jest.fn(async () => { network = null; })
+    };
+    docker = {
+      getNetwork: jest.fn(() => handle),
+      createNetwork: jest.fn(async (options: any) => {
+        network = {
+          Name: options.Name,
+          Internal: options.Internal,
+          Options: options.Options,
+          Containers: {},
+          IPAM: { Config: [{ Subnet: '172.30.0.0/16', Gateway: '127.0.0.1' }] }
+        };
+      })
+    };
+    manager = new NetworkManager(docker as unknown as Docker);
+    webConfig.container.egress.proxyPort = 0;
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+    Object.assign(webConfig.container.egress, originalEgress);
+  });
+
+  it('should create an isolated network with full egress', async () => {
+    webConfig.container.egress.mode = 'full';
+
+    const result = await manager.ensureNetwork();
+
+    expect(result).toEqual({ success: true, networkName: webConfig.container.networkName });
+    expect(docker.createNetwork).toHaveBeenCalledWith(expect.objectContaining({
+      Name: webConfig.container.networkName,
+      Internal: false,
+      Options: { 'com.docker.network.bridge.enable_icc': 'false' }
+    }));
+  });
+
+  it('should make the network internal when egress is off', async () => {
+    webConfig.container.egress.mode = 'none';
+
+    await manager.ensureNetwork();
+
+    expect(docker.createNetwork).toHaveBeenCalledWith(expect.objectContaining({ Internal: true }));
+  });
+
+  it('should only create the network once', async () => {
+    await manager.ensureNetwork();
+    await manager.ensureNetwork();
+
+    expect(docker.createNetwork).toHaveBeenCalledTimes(1);
+  });
+
+  it('should recreate an empty network whose policy does not match', async () => {
+    webConfig.container.egress.mode = 'none';
+    network = { Internal: false, Options: {}, Containers: {} };
+
+    await manager.ensureNetwork();
+
+    expect(docker.createNetwork).toHaveBeenCalledWith(expect.objectContaining({ Internal: true }));
+  });
+
+  it('should refuse to replace a mismatched network that still has containers', async () => {
+    webConfig.container.egress.mode = 'none';
+    network = { Internal: false, Options: {}, Containers: { abc: {} } };
+
+    const result = await manager.ensureNetwork();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/does not match egress mode none/);
+    expect(docker.createNetwork).not.toHaveBeenCalled();
+  });
+
+  it('should start the egress proxy on the gateway in allowlist mode', async () => {
+    webConfig.container.egress.mode = 'allowlist';
+
+    const result = await manager.ensureNetwork();
+
+    expect(result.success).toBe(true);
+    expect(result.proxyUrl).toBe('http://127.0.0.1:0');
+    expect(manager.getProxyEnvironment(result.proxyUrl)).toEqual(expect.objectContaining({
+      HTTPS_PROXY: 'http://127.0.0.1:0',
+      NO_PROXY: 'localhost,127.0.0.1'
+    }));
+  });
+
+  it('should always let sessions reach GitHub and amp', async () => {
+    webConfig.container.egress.mode = 'allowlist';
+    webConfig.container.egress.allowlist = ['registry.npmjs.org'];
+
+    expect(manager.getEgressAllowlist('allowlist')).toEqual(expect.arrayContaining(['github.com', 'ampcode.com', 'registry.npmjs.org']));
+    expect(manager.getEgressAllowlist('none')).toEqual(expect.arrayContaining(['github.com', 'ampcode.com']));
+    expect(manager.getEgressAllowlist('none')).not.toContain('registry.npmjs.org');
+  });
+
+  it('should proxy GitHub and amp when egress is off so sessions can still clone', async () => {
+    webConfig.container.egress.mode = 'none';
+
+    const result = await manager.ensureNetwork();
+
+    expect(result.proxyUrl).toBe('http://127.0.0.1:0');
+    expect(docker.createNetwork).toHaveBeenCalledWith(expect.objectContaining({ Internal: true }));
+  });
+});
+
+describe('EgressProxy', () => {
+  let proxy: EgressProxy;
+  let target: http.Server;
+  let proxyPort: number;
+  let targetPort: number;
+
+  beforeEach(async () => {
+    target = http.createServer((_req, res) => res.end('upstream ok'));
+    await new Promise<void>(resolve => target.listen(0, '127.0.0.1', resolve));
+    targetPort = (target.address() as AddressInfo).port;
+
+    proxy = new EgressProxy(['localhost', '*.example.com']);
+    await proxy.start('127.0.0.1', 0);
+    proxyPort = proxy.getPort()!;
+  });
+
+  afterEach(async () => {
+    await proxy.stop();
+    await new Promise<void>(resolve => target.close(() => resolve()));
+  });
+
+  const proxyGet = (url: string) => new Promise<{ status: number; body: string }>((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port: proxyPort, path: url }, res => {
+      let body = '';
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode || 0, body }));
+    }).on('error', reject);
+  });
+
+  const connectThrough = (authority: string) => new Promise<string>((resolve, reject) => {
+    const socket = net.connect(proxyPort, '127.0.0.1', () => {
+      socket.write(`CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n\r\n`);
+    });
+    socket.once('data', data => {
+      socket.destroy();
+      resolve(data.toString().split('\r\n')[0] || '');
+    });
+    socket.on('error', reject);
+  });
+
+  it('should match hosts against the allowlist', () => {
+    expect(proxy.isAllowed('localhost')).toBe(true);
+    expect(proxy.isAllowed('api.example.com')).toBe(true);
+    expect(proxy.isAllowed('API.Example.com.')).toBe(true);
+    expect(proxy.isAllowed('example.com')).toBe(false);
+    expect(proxy.isAllowed('badexample.com')).toBe(false);
+  });
+
+  it('should forward plain HTTP requests to allowlisted hosts', async () => {
+    const response = await proxyGet(`http://localhost:${targetPort}/`);
+
+    expect(response).toEqual({ status: 200, body: 'upstream ok' });
+  });
+
+  it('should block plain HTTP requests to other hosts', async () => {
+    const response = await proxyGet(`http://127.0.0.1:${targetPort}/`);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should tunnel CONNECT requests to allowlisted hosts only', async () => {
+    expect(await connectThrough(`localhost:${targetPort}`)).toBe('HTTP/1.1 200 Connection Established');
+    expect(await connectThrough(`127.0.0.1:${targetPort}`)).toBe('HTTP/1.1 403 Forbidden');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Admin console route tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import webConfig from '../../config/webConfig';
+import { createAdminRoutes } from '../../routes/admin';
+import { generateJWT } from '../../auth/github';
+import { userStore } from '../../services/userStore';
+import { sessionStore } from '../../services/sessionStore';
+import { noticeBoard } from '../../services/noticeBoard';
+import { CleanupService } from '../../services/cleanup';
+import { ContainerManager } from '../../docker/containerManager';
+import { AuthenticatedUser, TerminalTheme, EditorTheme } from '../../models/User';
+import { SessionStatus } from '../../models/Session';
+
+describe('Admin Routes', () => {
+  const originalAdminConfig = { ...webConfig.admin };
+  let app: express.Application;
+  let cleanupService: CleanupService;
+  let adminToken: string;
+  let userToken: string;
+
+  const githubUser = (githubId: number, username: string): AuthenticatedUser => ({
+    isAuthenticated: true,
+    id: `github_${githubId}`,
+    githubId,
+    username,
+    accessToken: 'gho_token',
+    scopes: ['repo'],
+    createdAt: new Date(),
+    lastLoginAt: new Date(),
+    profile: { publicRepos: 0, privateRepos: 0, followers: 0, following: 0 },
+    preferences: {
+      terminalTheme: TerminalTheme.DARK,
+      editorTheme: EditorTheme.VS_DARK,
+      notifications: { sessionExpiry: true, containerErrors: true, gitOperations: true, email: false }
+    }
+  });
+
+  beforeAll(() => {
+    webConfig.admin.usernames = ['Operator'];
+    webConfig.admin.orgs = [];
+
+    adminToken = generateJWT(userStore.recordLogin(githubUser(801, 'operator')));
+    userToken = generateJWT(userStore.recordLogin(githubUser(802, 'developer')));
+
+    sessionStore.createSession({
+      id: 'admin-test-session',
+      userId: 'github_802',
+      repositoryUrl: 'https://github.com/octo/app',
+      repositoryName: 'octo/app',
+      branch: 'main',
+      status: SessionStatus.RUNNING,
+      environment: { NPM_TOKEN: 'npm_secret' },
+      createdAt: new Date(),
+      lastAccessedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      metadata: {}
+    });
+
+    cleanupService = new CleanupService(sessionStore, new ContainerManager(), { idleTimeout: 0 });
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', createAdminRoutes(cleanupService));
+  });
+
+  afterAll(() => {
+    Object.assign(webConfig.admin, originalAdminConfig);
+    cleanupService.destroy();
+    sessionStore.deleteSession('admin-test-session');
+  });
+
+  it('should reject users without the admin role', async () => {
+    await request(app)
+      .get('/api/admin/sessions')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(403);
+  });
+
+  it('should list sessions across users with their owners', async () => {
+    const response = await request(app)
+      .get('/api/admin/sessions')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.data).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: 'admin-test-session', ownerUsername: 'developer' })
+    ]));
+    expect(JSON.stringify(response.body.data)).not.toContain('npm_secret');
+    expect(response.body.meta.statusCounts.running).toBeGreaterThanOrEqual(1);
+  });
+
+  it('should record manual cleanup runs', async () => {
+    cleanupService.start();
+
+    const run = await request(app)
+      .post('/api/admin/cleanup/run')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    const cleanup = await request(app)
+      .get('/api/admin/cleanup')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(run.body.data).toMatchObject({ trigger: 'manual', expiredSessions: 0 });
+    expect(cleanup.body.data.runs[0]).toMatchObject({ trigger: 'manual' });
+    cleanupService.stop();
+  });
+
+  it('should post and take down maintenance notices', async () => {
+    const posted = await request(app)
+      .post('/api/admin/notices')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ message: 'Docker host restarts at 18:00 UTC', level: 'warning' })
+      .expect(201);
+
+    expect(noticeBoard.list()).toEqual([
+      expect.objectContaining({ message: 'Docker host restarts at 18:00 UTC', level: 'warning', createdBy: 'operator' })
+    ]);
+
+    await request(app)
+      .delete(`/api/admin/notices/${posted.body.data.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(noticeBoard.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Terminal recording route tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import recordingRoutes from '../../routes/recordings';
+import { authenticateUser } from '../../middleware/auth';
+import { generateJWT } from '../../auth/github';
+import { userStore } from '../../services/userStore';
+import { sessionStore } from '../../services/sessionStore';
+import { terminalRecorder } from '../../services/terminalRecorder';
+import { AuthenticatedUser, TerminalTheme, EditorTheme } from '../../models/User';
+import { SessionStatus } from '../../models/Session';
+
+describe('Recording routes', () => {
+  // Same shape as the IDs the session controller generates
+  const sessionId = 'session-1700000000000-rec4x9k2q';
+  const cast = '{"version":2,"width":80,"height":24}\n[0.5,"o","$ ls\\r\\n"]\n';
+  let app: express.Application;
+  let ownerToken: string;
+  let outsiderToken: string;
+
+  const githubUser = (githubId: number, username: string): AuthenticatedUser => ({
+    isAuthenticated: true,
+    id: `github_${githubId}`,
+    githubId,
+    username,
+    accessToken: 'gho_token',
+    scopes: ['repo'],
+    createdAt: new Date(),
+    lastLoginAt: new Date(),
+    profile: { publicRepos: 0, privateRepos: 0, followers: 0, following: 0 },
+    preferences: {
+      terminalTheme: TerminalTheme.DARK,
+      editorTheme: EditorTheme.VS_DARK,
+      notifications: { sessionExpiry: true, containerErrors: true, gitOperations: true, email: false }
+    }
+  });
+
+  beforeAll(() => {
+    ownerToken = generateJWT(userStore.recordLogin(githubUser(951, 'recorder')));
+    outsiderToken = generateJWT(userStore.recordLogin(githubUser(952, 'stranger')));
+
+    app = express();
+    app.use(authenticateUser);
+    app.use('/api/sessions', recordingRoutes);
+  });
+
+  beforeEach(() => {
+    sessionStore.createSession({
+      id: sessionId,
+      userId: 'github_951',
+      repositoryUrl: 'https://github.com/octo/app',
+      repositoryName: 'octo/app',
+      branch: 'main',
+      status: SessionStatus.RUNNING,
+      createdAt: new Date(),
+      lastAccessedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      metadata: {}
+    });
+
+    jest.spyOn(terminalRecorder, 'listRecordings').mockResolvedValue([{
+      id: '2024-01-01T00-00-00-000Z',
+      sessionId,
+      startedAt: '2024-01-01T00:00:00.000Z',
+      duration: 0.5,
+      cols: 80,
+      rows: 24,
+      size: cast.length,
+      isRecording: false
+    }]);
+    jest.spyOn(terminalRecorder, 'readRecording').mockResolvedValue(cast);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    sessionStore.deleteSession(sessionId);
+  });
+
+  it('should list the recordings of a session', async () => {
+    const response = await request(app)
+      .get(`/api/sessions/${sessionId}/recordings`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(response.body.data).toEqual([expect.objectContaining({ id: '2024-01-01T00-00-00-000Z', sessionId })]);
+    expect(terminalRecorder.listRecordings).toHaveBeenCalledWith(sessionId);
+  });
+
+  it('should download a recording as an asciicast file', async () => {
+    const response = await request(app)
+      .get(`/api/sessions/${sessionId}/recordings/2024-01-01T00-00-00-000Z?download`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^application\/x-asciicast/);
+    expect(response.headers['content-disposition']).toContain('2024-01-01T00-00-00-000Z.cast');
+    expect(response.text).toBe(cast);
+    expect(terminalRecorder.readRecording).toHaveBeenCalledWith(sessionId, '2024-01-01T00-00-00-000Z');
+  });
+
+  it('should hide recordings from users the session is not shared with', async () => {
+    await request(app)
+      .get(`/api/sessions/${sessionId}/recordings`)
+      .set('Authorization', `Bearer ${outsiderToken}`)
+      .expect(404);
+  });
+
+  it('should reject malformed session IDs', async () => {
+    await request(app)
+      .get('/api/sessions/not a session/recordings')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(400);
+  });
+});
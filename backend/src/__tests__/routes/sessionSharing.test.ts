@@ -0,0 +1,184 @@
+/**
+ * Session sharing route tests
+ */
+
+import request from 'supertest';
+import express from 'express';
+import sessionRoutes from '../../routes/sessions';
+import gitRoutes from '../../routes/git';
+import { authenticateUser } from '../../middleware/auth';
+import { generateJWT } from '../../auth/github';
+import { userStore } from '../../services/userStore';
+import { sessionStore } from '../../services/sessionStore';
+import { gitOperationsService } from '../../services/gitOperations';
+import { AuthenticatedUser, TerminalTheme, EditorTheme } from '../../models/User';
+import { SessionStatus } from '../../models/Session';
+
+jest.mock('../../services/gitOperations');
+
+describe('Session sharing routes', () => {
+  const sessionId = 'session-1700000000000-share1';
+  let app: express.Application;
+  let ownerToken: string;
+  let viewerToken: string;
+  let collaboratorToken: string;
+  let outsiderToken: string;
+
+  const githubUser = (githubId: number, username: string): AuthenticatedUser => ({
+    isAuthenticated: true,
+    id: `github_${githubId}`,
+    githubId,
+    username,
+    accessToken: 'gho_token',
+    scopes: ['repo'],
+    createdAt: new Date(),
+    lastLoginAt: new Date(),
+    profile: { publicRepos: 0, privateRepos: 0, followers: 0, following: 0 },
+    preferences: {
+      terminalTheme: TerminalTheme.DARK,
+      editorTheme: EditorTheme.VS_DARK,
+      notifications: { sessionExpiry: true, containerErrors: true, gitOperations: true, email: false }
+    }
+  });
+
+  beforeAll(() => {
+    ownerToken = generateJWT(userStore.recordLogin(githubUser(901, 'owner')));
+    viewerToken = generateJWT(userStore.recordLogin(githubUser(902, 'Watcher')));
+    collaboratorToken = generateJWT(userStore.recordLogin(githubUser(903, 'pairer')));
+    outsiderToken = generateJWT(userStore.recordLogin(githubUser(904, 'stranger')));
+
+    app = express();
+    app.use(express.json());
+    app.use(authenticateUser);
+    app.use('/api/sessions', sessionRoutes);
+    app.use('/api/sessions', gitRoutes);
+  });
+
+  beforeEach(() => {
+    sessionStore.createSession({
+      id: sessionId,
+      userId: 'github_901',
+      repositoryUrl: 'https://github.com/octo/app',
+      repositoryName: 'octo/app',
+      branch: 'main',
+      status: SessionStatus.RUNNING,
+      createdAt: new Date(),
+      lastAccessedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      metadata: {}
+    });
+  });
+
+  afterEach(() => {
+    sessionStore.deleteSession(sessionId);
+  });
+
+  const share = (username: string, role: string) => request(app)
+    .put(`/api/sessions/${sessionId}/shares/${username}`)
+    .set('Authorization', `Bearer ${ownerToken}`)
+    .send({ role });
+
+  it('should let the owner invite users by GitHub username', async () => {
+    const response = await share('watcher', 'viewer').expect(200);
+
+    expect(response.body.data).toEqual([
+      expect.objectContaining({ username: 'watcher', role: 'viewer', invitedBy: 'owner' })
+    ]);
+
+    const shared = await request(app)
+      .get('/api/sessions/shared')
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .expect(200);
+
+    expect(shared.body.data).toEqual([
+      expect.objectContaining({ id: sessionId, role: 'viewer', ownerUsername: 'owner' })
+    ]);
+  });
+
+  it('should only let the owner manage shares', async () => {
+    await share('watcher', 'collaborator').expect(200);
+
+    await request(app)
+      .put(`/api/sessions/${sessionId}/shares/stranger`)
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .send({ role: 'viewer' })
+      .expect(404);
+
+    await share('owner', 'viewer').expect(400);
+    await share('watcher', 'admin').expect(400);
+  });
+
+  it('should give viewers read-only access', async () => {
+    (gitOperationsService.getStatus as jest.Mock).mockResolvedValue({ success: true, message: 'clean' });
+    await share('watcher', 'viewer').expect(200);
+
+    const session = await request(app)
+      .get(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .expect(200);
+    expect(session.body.data.role).toBe('viewer');
+
+    await request(app)
+      .get(`/api/sessions/${sessionId}/git/status`)
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .expect(200);
+
+    await request(app)
+      .post(`/api/sessions/${sessionId}/git/commit`)
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .send({ message: 'Sneaky commit' })
+      .expect(403);
+
+    await request(app)
+      .post(`/api/sessions/${sessionId}/stop`)
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .expect(404);
+
+    await request(app)
+      .get(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${outsiderToken}`)
+      .expect(404);
+  });
+
+  it('should let collaborators commit', async () => {
+    (gitOperationsService.commit as jest.Mock).mockResolvedValue({ success: true, message: 'Committed', commitHash: 'abc123' });
+    await share('pairer', 'collaborator').expect(200);
+
+    await request(app)
+      .post(`/api/sessions/${sessionId}/git/commit`)
+      .set('Authorization', `Bearer ${collaboratorToken}`)
+      .send({ message: 'Pair commit' })
+      .expect(200);
+  });
+
+  it('should revoke access when a share is removed', async () => {
+    await share('watcher', 'viewer').expect(200);
+
+    await request(app)
+      .delete(`/api/sessions/${sessionId}/shares/watcher`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    await request(app)
+      .get(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .expect(404);
+  });
+
+  it('should report who is connected', async () => {
+    await share('watcher', 'viewer').expect(200);
+    sessionStore.addConnection(sessionId, 'terminal_1', 'github_901');
+    sessionStore.addConnection(sessionId, 'thread_ws_1', 'github_901');
+    sessionStore.addConnection(sessionId, 'terminal_2', 'github_902');
+
+    const response = await request(app)
+      .get(`/api/sessions/${sessionId}/presence`)
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .expect(200);
+
+    expect(response.body.data).toEqual([
+      expect.objectContaining({ username: 'owner', role: 'owner', connectionCount: 2 }),
+      expect.objectContaining({ username: 'Watcher', role: 'viewer', connectionCount: 1 })
+    ]);
+  });
+});
@@ -5,6 +5,8 @@ import * as path from 'path';
 import * as os from 'os';
 import threadRoutes from '../../routes/threads';
 import { threadStorage } from '../../services/threadStorage';
+import { sessionStore } from '../../services/sessionStore';
+import { threadWebSocketManager } from '../../websocket/threadWebSocket';
 import { ThreadMessage, MessageType } from '../../types/threadMessage';
 
 describe('Thread Routes', () => {
@@ -39,7 +41,7 @@ describe('Thread Routes', () => {
     if (fs.existsSync(tempDir)) {
       const files = fs.readdirSync(tempDir);
       for (const file of files) {
-        fs.unlinkSync(path.join(tempDir, file));
+        fs.rmSync(path.join(tempDir, file), { recursive: true, force: true });
       }
     }
   });
@@ -313,4 +315,173 @@ describe('Thread Routes', () => {
       });
     });
   });
+  describe('GET /api/threads/search', () => {
+    let searchApp: express.Application;
+
+    beforeAll(() => {
+      searchApp = express();
+      searchApp.use((req, _res, next) => {
+        (req as any).user = { id: 'search-user', isAuthenticated: true };
+        next();
+      });
+      searchApp.use('/api', threadRoutes);
+    });
+
+    beforeEach(() => {
+      jest.spyOn(sessionStore, 'getUserSessions').mockReturnValue([
+        { id: 'own-session', repositoryName: 'test/repo' } as any
+      ]);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/threads/search?q=migration')
+        .expect(401);
+    });
+
+    it('should require a query', async () => {
+      await request(searchApp)
+        .get('/api/threads/search')
+        .expect(400);
+    });
+
+    it("should only return matches from the user's sessions", async () => {
+      await threadStorage.appendMessage('own-session', createTestMessage('own-1', MessageType.ASSISTANT, 'Fixed the migration'));
+      await threadStorage.appendMessage('other-session', createTestMessage('other-1', MessageType.ASSISTANT, 'Another migration'));
+
+      const response = await request(searchApp)
+        .get('/api/threads/search?q=migration')
+        .expect(200);
+
+      expect(sessionStore.getUserSessions).toHaveBeenCalledWith('search-user');
+      expect(response.body.results).toHaveLength(1);
+      expect(response.body.results[0]).toMatchObject({
+        sessionId: 'own-session',
+        messageId: 'own-1',
+        link: '/terminal/own-session?tab=thread&message=own-1'
+      });
+      expect(response.body.results[0].highlights).toHaveLength(1);
+    });
+  });
+
+  describe('POST /api/sessions/:sessionId/thread/cancel', () => {
+    let userApp: express.Application;
+
+    beforeAll(() => {
+      userApp = express();
+      userApp.use((req, _res, next) => {
+        (req as any).user = { id: 'cancel-user', isAuthenticated: true };
+        next();
+      });
+      userApp.use('/api', threadRoutes);
+    });
+
+    beforeEach(() => {
+      jest.spyOn(sessionStore, 'getSession').mockImplementation((id: string) =>
+        id === 'own-session' ? { id, userId: 'cancel-user' } as any : null
+      );
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should not cancel turns in other users\' sessions', async () => {
+      const cancelSpy = jest.spyOn(threadWebSocketManager, 'cancelTurn');
+
+      await request(userApp)
+        .post('/api/sessions/other-session/thread/cancel')
+        .expect(404);
+
+      expect(cancelSpy).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the running turn', async () => {
+      jest.spyOn(threadWebSocketManager, 'cancelTurn').mockResolvedValue(true);
+
+      const response = await request(userApp)
+        .post('/api/sessions/own-session/thread/cancel')
+        .expect(200);
+
+      expect(threadWebSocketManager.cancelTurn).toHaveBeenCalledWith('own-session');
+      expect(response.body.success).toBe(true);
+    });
+
+    it('should return 409 when no turn is running', async () => {
+      jest.spyOn(threadWebSocketManager, 'cancelTurn').mockResolvedValue(false);
+
+      await request(userApp)
+        .post('/api/sessions/own-session/thread/cancel')
+        .expect(409);
+    });
+  });
+
+  describe('session thread collection', () => {
+    let userApp: express.Application;
+
+    beforeAll(() => {
+      userApp = express();
+      userApp.use(express.json());
+      userApp.use((req, _res, next) => {
+        (req as any).user = { id: 'threads-user', isAuthenticated: true };
+        next();
+      });
+      userApp.use('/api', threadRoutes);
+    });
+
+    beforeEach(() => {
+      jest.spyOn(sessionStore, 'getSession').mockImplementation((id: string) =>
+        id === 'own-session'
+          ? { id, userId: 'threads-user', threadId: 'T-1', createdAt: new Date() } as any
+          : null
+      );
+      jest.spyOn(sessionStore, 'getSessionThreads').mockReturnValue([
+        { id: 'T-1', title: 'Thread 1', ampLogPath: '/tmp/t1.log', createdAt: new Date('2024-01-01T10:00:00Z') },
+        { id: 'T-2', title: 'Thread 2', ampLogPath: '/tmp/t2.log', createdAt: new Date('2024-01-02T10:00:00Z') }
+      ]);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should list the session threads with the active one marked', async () => {
+      await threadStorage.appendMessage('own-session', createTestMessage('t2-1', MessageType.USER, 'Hello'), 'T-2');
+
+      const response = await request(userApp)
+        .get('/api/sessions/own-session/threads')
+        .expect(200);
+
+      expect(response.body.threads).toEqual([
+        expect.objectContaining({ id: 'T-1', isActive: true, messageCount: 0 }),
+        expect.objectContaining({ id: 'T-2', isActive: false, messageCount: 1 })
+      ]);
+    });
+
+    it("should not expose other users' threads", async () => {
+      await request(userApp)
+        .get('/api/sessions/other-session/threads')
+        .expect(404);
+    });
+
+    it('should return 404 when switching to an unknown thread', async () => {
+      await request(userApp)
+        .post('/api/sessions/own-session/threads/T-missing/activate')
+        .expect(404);
+    });
+
+    it('should read another thread when requested', async () => {
+      await threadStorage.appendMessage('own-session', createTestMessage('t2-1', MessageType.USER, 'Hello'), 'T-2');
+
+      const response = await request(userApp)
+        .get('/api/sessions/own-session/thread?threadId=T-2')
+        .expect(200);
+
+      expect(response.body.messages.map((m: any) => m.id)).toEqual(['t2-1']);
+    });
+  });
 });
@@ -0,0 +1,78 @@
+/**
+ * Per-user amp API key validation and selection tests
+ */
+
+import webConfig from '../../config/webConfig';
+import { userStore } from '../../services/userStore';
+import { validateAmpApiKey, resolveAmpApiKey } from '../../services/ampKeys';
+import { AuthenticatedUser, TerminalTheme, EditorTheme } from '../../models/User';
+
+describe('ampKeys', () => {
+  const originalAmpConfig = { ...webConfig.amp };
+
+  const githubUser = (githubId: number, username: string): AuthenticatedUser => ({
+    isAuthenticated: true,
+    id: `github_${githubId}`,
+    githubId,
+    username,
+    accessToken: 'gho_token',
+    scopes: ['repo'],
+    createdAt: new Date(),
+    lastLoginAt: new Date(),
+    profile: { publicRepos: 0, privateRepos: 0, followers: 0, following: 0 },
+    preferences: {
+      terminalTheme: TerminalTheme.DARK,
+      editorTheme: EditorTheme.VS_DARK,
+      notifications: { sessionExpiry: true, containerErrors: true, gitOperations: true, email: false }
+    }
+  });
+
+  beforeAll(() => {
+    userStore.recordLogin(githubUser(901, 'has-key'));
+    userStore.recordLogin(githubUser(902, 'Trusted'));
+    userStore.recordLogin(githubUser(903, 'stranger'));
+    userStore.setAmpApiKey('github_901', 'sgamp_own_key');
+  });
+
+  beforeEach(() => {
+    webConfig.amp.sharedApiKey = 'sgamp_server_key';
+    webConfig.amp.sharedKeyUsers = ['trusted'];
+  });
+
+  afterEach(() => {
+    Object.assign(webConfig.amp, originalAmpConfig);
+    jest.restoreAllMocks();
+  });
+
+  it('should prefer the user\'s own key and only fall back to the shared key when allowed', () => {
+    expect(resolveAmpApiKey('github_901')).toBe('sgamp_own_key');
+    expect(resolveAmpApiKey('github_902')).toBe('sgamp_server_key');
+    expect(resolveAmpApiKey('github_903')).toBeUndefined();
+
+    webConfig.amp.sharedKeyUsers = ['*'];
+    expect(resolveAmpApiKey('github_903')).toBe('sgamp_server_key');
+
+    webConfig.amp.sharedApiKey = undefined;
+    expect(resolveAmpApiKey('github_903')).toBeUndefined();
+  });
+
+  it('should validate a key with an authenticated request to amp', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('{}', { status: 200 }));
+
+    await expect(validateAmpApiKey('sgamp_candidate')).resolves.toEqual({ valid: true });
+    expect(fetchMock).toHaveBeenCalledWith(webConfig.amp.keyValidationUrl, expect.objectContaining({
+      headers: { Authorization: 'Bearer sgamp_candidate' }
+    }));
+  });
+
+  it('should report rejected keys and unreachable amp differently', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValueOnce(new Response('', { status: 401 }));
+    await expect(validateAmpApiKey('sgamp_bad')).resolves.toEqual({ valid: false, error: 'amp rejected this API key' });
+
+    jest.spyOn(global, 'fetch').mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'));
+    await expect(validateAmpApiKey('sgamp_bad')).resolves.toEqual({
+      valid: false,
+      error: 'Could not reach amp to validate the API key'
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * AmpLogParser streaming delta tests
+ */
+
+import { AmpLogParser } from '../../services/ampLogParser';
+import { MessageType, ThreadMessage, ThreadMessageDelta } from '../../types/threadMessage';
+
+describe('AmpLogParser - streaming', () => {
+  let messages: ThreadMessage[];
+  let deltas: ThreadMessageDelta[];
+  let parser: AmpLogParser;
+
+  const threadState = (content: any[]) => JSON.stringify({
+    level: 'info',
+    message: 'thread-state',
+    timestamp: '2024-12-17T10:30:45.123Z',
+    event: {
+      type: 'thread-state',
+      thread: {
+        id: 'T-1',
+        messages: [
+          { role: 'user', content: [{ type: 'text', text: 'Fix the bug' }] },
+          { role: 'assistant', content }
+        ]
+      }
+    }
+  });
+
+  const messageEvent = (content: any[]) => JSON.stringify({
+    level: 'info',
+    message: 'message',
+    timestamp: '2024-12-17T10:30:50.000Z',
+    event: { type: 'message', message: { role: 'assistant', content } }
+  });
+
+  beforeEach(() => {
+    messages = [];
+    deltas = [];
+    parser = new AmpLogParser('worker-1', m => messages.push(m), d => deltas.push(d));
+  });
+
+  it('should emit the appended text for each thread-state snapshot', () => {
+    parser.parseLine(threadState([{ type: 'text', text: 'I found' }]));
+    parser.parseLine(threadState([{ type: 'text', text: 'I found the bug' }]));
+    parser.parseLine(threadState([{ type: 'text', text: 'I found the bug' }]));
+
+    expect(deltas.map(d => d.delta)).toEqual(['I found', ' the bug']);
+    expect(deltas[1]).toMatchObject({ id: 'stream_T-1_1_0', type: MessageType.ASSISTANT, content: 'I found the bug' });
+    expect(messages).toHaveLength(0);
+  });
+
+  it('should stream in-progress tool calls', () => {
+    parser.parseLine(threadState([{ type: 'tool_use', id: 'tool-1', name: 'edit_file', input: { path: 'src/app.ts' } }]));
+
+    expect(deltas[0]).toMatchObject({
+      id: 'stream_T-1_1_0',
+      type: MessageType.TOOL,
+      metadata: { type: 'tool_use', tool_name: 'edit_file', status: 'in_progress' }
+    });
+  });
+
+  it('should link the completed message to its stream and stop streaming it', () => {
+    parser.parseLine(threadState([{ type: 'text', text: 'Done' }]));
+    parser.parseLine(messageEvent([{ type: 'text', text: 'Done' }]));
+    parser.parseLine(threadState([{ type: 'text', text: 'Done' }, { type: 'text', text: 'Anything else?' }]));
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]?.metadata?.stream_id).toBe('stream_T-1_1_0');
+    expect(deltas.map(d => d.id)).toEqual(['stream_T-1_1_0', 'stream_T-1_1_1']);
+  });
+
+  it('should not attach a stream id to messages that were never streamed', () => {
+    parser.parseLine(messageEvent([{ type: 'text', text: 'Hello' }]));
+
+    expect(messages[0]?.metadata).toBeUndefined();
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * GitOperationsService push and snapshot tests
+ */
+
+import { GitOperationsService, GitErrorCode } from '../../services/gitOperations';
+import { AuthenticatedUser } from '../../models/User';
+import { createGitHubService } from '../../services/github';
+import { sessionStore } from '../../services/sessionStore';
+import { threadStorage } from '../../services/threadStorage';
+import { resumeIfIdle } from '../../services/sessionHibernation';
+import { MessageType } from '../../types/threadMessage';
+
+jest.mock('../../services/sessionHibernation');
+
+type GitCall = { command: string[]; environment?: Record<string, string> | undefined };
+
+describe('GitOperationsService - push', () => {
+  let service: GitOperationsService;
+  let calls: GitCall[];
+  let responses: Record<string, { success: boolean; output: string; error?: string }>;
+  const user = { id: 'user-1', accessToken: 'gho_secret' } as AuthenticatedUser;
+
+  beforeEach(() => {
+    service = new GitOperationsService();
+    calls = [];
+    responses = {
+      'branch --show-current': { success: true, output: 'feature/test' },
+      'fetch': { success: true, output: '' },
+      'rev-list': { success: true, output: '2\t0' },
+      'push': { success: true, output: '' },
+      'branch --set-upstream-to=origin/feature/test': { success: true, output: '' }
+    };
+
+    (service as any).executeGitCommand = jest.fn(async (
+      _sessionId: string,
+      command: string[],
+      _workingDir?: string,
+      environment?: Record<string, string>
+    ) => {
+      calls.push({ command, environment });
+      const args = command.filter((_, i) => command[i] !== '-c' && command[i - 1] !== '-c');
+      const key = Object.keys(responses).find(k => args.join(' ').startsWith(k));
+      return key ? responses[key] : { success: true, output: '' };
+    });
+  });
+
+  it('should pass the token only through the exec environment', async () => {
+    const result = await service.push('session-1', user);
+
+    expect(result.success).toBe(true);
+    const pushCall = calls.find(c => c.command.includes('push'))!;
+    expect(pushCall.command.join(' ')).not.toContain('gho_secret');
+    expect(pushCall.environment).toEqual(expect.objectContaining({ AMPLIFY_GIT_TOKEN: 'gho_secret' }));
+  });
+
+  it('should report ahead and behind counts', async () => {
+    const result = await service.push('session-1', user);
+
+    expect(result.branch).toBe('feature/test');
+    expect(result.ahead).toBe(2);
+    expect(result.behind).toBe(0);
+  });
+
+  it('should classify non-fast-forward rejections', async () => {
+    responses['rev-list'] = { success: true, output: '1\t3' };
+    responses['push'] = {
+      success: false,
+      output: '',
+      error: '!\trefs/heads/feature/test:refs/heads/feature/test\t[rejected] (non-fast-forward)'
+    };
+
+    const result = await service.push('session-1', user);
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe(GitErrorCode.NON_FAST_FORWARD);
+    expect(result.behind).toBe(3);
+    expect(result.error).not.toContain('refs/heads');
+  });
+
+  it('should classify protected branch failures', async () => {
+    responses['push'] = {
+      success: false,
+      output: '',
+      error: 'remote: error: GH006: Protected branch update failed for refs/heads/main.'
+    };
+
+    const result = await service.push('session-1', user);
+
+    expect(result.errorCode).toBe(GitErrorCode.PROTECTED_BRANCH);
+  });
+
+  it('should stop early when GitHub rejects the credentials', async () => {
+    responses['fetch'] = { success: false, output: '', error: 'fatal: Authentication failed for https://github.com/test/repo' };
+
+    const result = await service.push('session-1', user);
+
+    expect(result.errorCode).toBe(GitErrorCode.AUTHENTICATION_FAILED);
+    expect(calls.some(c => c.command.includes('push'))).toBe(false);
+  });
+
+  describe('pull requests', () => {
+    let github: { getRepository: jest.Mock; createPullRequest: jest.Mock };
+
+    beforeEach(() => {
+      github = {
+        getRepository: jest.fn().mockResolvedValue({ success: true, data: { defaultBranch: 'main' } }),
+        createPullRequest: jest.fn().mockResolvedValue({
+          success: true,
+          data: { number: 7, htmlUrl: 'https://github.com/test/repo/pull/7' }
+        })
+      };
+      (createGitHubService as jest.Mock).mockReturnValue(github);
+      jest.spyOn(sessionStore, 'getSession').mockReturnValue({ repositoryName: 'test/repo' } as any);
+      jest.spyOn(threadStorage, 'getLatestMessages').mockResolvedValue([
+        { id: '1', type: MessageType.SYSTEM, content: 'Thread: Fix login', timestamp: new Date(), metadata: { thread_title: 'Fix login' } },
+        { id: '2', type: MessageType.ASSISTANT, content: 'Fixed the redirect loop.', timestamp: new Date() }
+      ]);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should create a branch when pushing from the default branch', async () => {
+      responses['branch --show-current'] = { success: true, output: 'main' };
+
+      const result = await service.push('session-1', user, { createPullRequest: true, pullRequestDraft: true });
+
+      expect(result.success).toBe(true);
+      expect(result.pullRequestUrl).toBe('https://github.com/test/repo/pull/7');
+      expect(calls.some(c => c.command[0] === 'checkout' && c.command[1] === '-b')).toBe(true);
+      expect(github.createPullRequest).toHaveBeenCalledWith('test', 'repo', expect.objectContaining({
+        head: expect.stringMatching(/^amplify\/fix-login-/),
+        base: 'main',
+        draft: true
+      }));
+    });
+
+    it('should prefill the body from the thread title and last assistant message', async () => {
+      await service.push('session-1', user, { createPullRequest: true, pullRequestBase: 'develop' });
+
+      expect(github.getRepository).not.toHaveBeenCalled();
+      expect(github.createPullRequest).toHaveBeenCalledWith('test', 'repo', expect.objectContaining({
+        title: 'Fix login',
+        head: 'feature/test',
+        base: 'develop',
+        body: expect.stringContaining('Fixed the redirect loop.')
+      }));
+    });
+  });
+});
+
+describe('GitOperationsService - snapshots', () => {
+  let service: GitOperationsService;
+  let calls: GitCall[];
+  let responses: Record<string, { success: boolean; output: string; error?: string }>;
+
+  beforeEach(() => {
+    service = new GitOperationsService();
+    calls = [];
+    responses = {
+      'rev-parse --verify -q HEAD^{commit}': { success: true, output: 'head123' },
+      'rev-parse --verify -q refs/amplify/snapshots/T-1/msg1^{commit}': { success: true, output: 'snap123' },
+      'write-tree': { success: true, output: 'tree123' },
+      'commit-tree': { success: true, output: 'snap123\n' }
+    };
+
+    (service as any).executeGitCommand = jest.fn(async (
+      _sessionId: string,
+      command: string[],
+      _workingDir?: string,
+      environment?: Record<string, string>
+    ) => {
+      calls.push({ command, environment });
+      const key = Object.keys(responses).find(k => command.join(' ').startsWith(k));
+      return key ? responses[key] : { success: true, output: '' };
+    });
+  });
+
+  it('should stage the snapshot in a scratch index and store it on a hidden ref', async () => {
+    const result = await service.createSnapshot('session-1', 'T-1', 'msg1');
+
+    expect(result).toEqual(expect.objectContaining({
+      success: true,
+      ref: 'refs/amplify/snapshots/T-1/msg1',
+      commitHash: 'snap123'
+    }));
+    const addCall = calls.find(c => c.command[0] === 'add')!;
+    expect(addCall.command).toEqual(['add', '-A']);
+    expect(addCall.environment?.GIT_INDEX_FILE).toBe('.git/amplify-snapshot-index');
+    expect(calls.find(c => c.command[0] === 'commit-tree')?.command).toEqual(
+      expect.arrayContaining(['tree123', '-p', 'head123'])
+    );
+    expect(calls.find(c => c.command[0] === 'update-ref')?.command).toEqual(['update-ref', 'refs/amplify/snapshots/T-1/msg1', 'snap123']);
+    expect(calls.some(c => c.command[0] === 'commit' || c.command[0] === 'stash')).toBe(false);
+  });
+
+  it('should keep only the newest snapshots of a thread', async () => {
+    const refs = Array.from({ length: 52 }, (_, i) => `refs/amplify/snapshots/T-1/msg${52 - i}`);
+    responses['for-each-ref'] = { success: true, output: refs.join('\n') };
+
+    await service.createSnapshot('session-1', 'T-1', 'msg52');
+
+    const listCall = calls.find(c => c.command[0] === 'for-each-ref')!;
+    expect(listCall.command).toEqual(expect.arrayContaining(['--sort=-committerdate', 'refs/amplify/snapshots/T-1/']));
+    expect(calls.filter(c => c.command[0] === 'update-ref' && c.command[1] === '-d').map(c => c.command[2])).toEqual([
+      'refs/amplify/snapshots/T-1/msg2',
+      'refs/amplify/snapshots/T-1/msg1'
+    ]);
+  });
+
+  it('should delete every snapshot of an archived thread', async () => {
+    responses['for-each-ref'] = {
+      success: true,
+      output: 'refs/amplify/snapshots/T-1/msg2\nrefs/amplify/snapshots/T-1/msg1'
+    };
+
+    await service.deleteThreadSnapshots('session-1', 'T-1');
+
+    expect(calls.slice(1).map(c => c.command.join(' '))).toEqual([
+      'update-ref -d refs/amplify/snapshots/T-1/msg2',
+      'update-ref -d refs/amplify/snapshots/T-1/msg1'
+    ]);
+  });
+
+  it('should not snapshot a repository without commits', async () => {
+    responses['rev-parse --verify -q HEAD^{commit}'] = { success: false, output: '' };
+
+    const result = await service.createSnapshot('session-1', 'T-1', 'msg1');
+
+    expect(result.success).toBe(false);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should reset to the snapshot base and check out the snapshot tree', async () => {
+    const result = await service.restoreSnapshot('session-1', 'T-1', 'msg1');
+
+    expect(result.success).toBe(true);
+    expect(calls.slice(1).map(c => c.command.join(' '))).toEqual([
+      'reset -q --hard refs/amplify/snapshots/T-1/msg1^',
+      'clean -fdq',
+      'read-tree -u --reset refs/amplify/snapshots/T-1/msg1',
+      'reset -q'
+    ]);
+  });
+
+  it('should report missing snapshots without touching the workspace', async () => {
+    responses['rev-parse --verify -q refs/amplify/snapshots/T-1/unknown'] = { success: false, output: '' };
+
+    const result = await service.restoreSnapshot('session-1', 'T-1', 'unknown');
+
+    expect(result.errorCode).toBe(GitErrorCode.SNAPSHOT_NOT_FOUND);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should reject snapshot IDs that are not safe ref names', async () => {
+    const result = await service.restoreSnapshot('session-1', 'T-1', '../heads/main');
+
+    expect(result.errorCode).toBe(GitErrorCode.SNAPSHOT_NOT_FOUND);
+    expect(calls).toHaveLength(0);
+  });
+});
+
+describe('GitOperationsService - hibernated sessions', () => {
+  it('should wake the container before running git in it', async () => {
+    const service = new GitOperationsService();
+    const executeCommand = jest.fn();
+    (service as any).containerManager = { executeCommand };
+    (resumeIfIdle as jest.Mock).mockResolvedValue({ success: false, error: 'Failed to resume container: gone' });
+
+    const result = await service.getDiff('session-1');
+
+    expect(resumeIfIdle).toHaveBeenCalledWith('session-1');
+    expect(executeCommand).not.toHaveBeenCalled();
+    expect(result).toEqual({ success: false, error: 'Failed to resume container: gone' });
+  });
+});
@@ -103,6 +103,19 @@ describe('LogTailer', () => {
     expect(logTailer.getPosition()).toBe(0);
     expect(logTailer.getLineNumber()).toBe(0);
   });
+
+  test('should not start watching when stopped while starting', async () => {
+    fs.writeFileSync(logFile, 'line 1\n');
+
+    logTailer = new LogTailer(logFile, 'test-worker');
+    const starting = logTailer.start();
+    logTailer.stop();
+    await starting;
+
+    // Nothing may be left open to keep the process alive
+    expect((logTailer as any).watcher).toBeNull();
+    expect((logTailer as any).pollTimer).toBeNull();
+  });
 });
 
 describe('LogTailerWithParser', () => {
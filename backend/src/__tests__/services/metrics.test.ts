@@ -0,0 +1,82 @@
+/**
+ * Prometheus exposition format and scrape endpoint tests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import webConfig from '../../config/webConfig';
+import { MetricsRegistry, metrics, terminalBytes, recordGithubRateLimit } from '../../services/metrics';
+import metricsRoutes from '../../routes/metrics';
+
+describe('metrics', () => {
+  it('should render counters, gauges and histograms in the text exposition format', () => {
+    const registry = new MetricsRegistry();
+    const bytes = registry.counter('test_bytes_total', 'Bytes moved');
+    const duration = registry.histogram('test_duration_seconds', 'How long it took', [0.5, 1]);
+    registry.gauge('test_sessions', 'Sessions by status', () => [
+      { labels: { status: 'running' }, value: 2 },
+      { labels: { status: 'with "quotes"' }, value: 0 }
+    ]);
+
+    bytes.inc({ direction: 'in' }, 10);
+    bytes.inc({ direction: 'in' }, 5);
+    duration.observe({}, 0.25);
+    duration.observe({}, 0.75);
+
+    expect(registry.render()).toBe([
+      '# HELP test_bytes_total Bytes moved',
+      '# TYPE test_bytes_total counter',
+      'test_bytes_total{direction="in"} 15',
+      '# HELP test_duration_seconds How long it took',
+      '# TYPE test_duration_seconds histogram',
+      'test_duration_seconds_bucket{le="0.5"} 1',
+      'test_duration_seconds_bucket{le="1"} 2',
+      'test_duration_seconds_bucket{le="+Inf"} 2',
+      'test_duration_seconds_sum 1',
+      'test_duration_seconds_count 2',
+      '# HELP test_sessions Sessions by status',
+      '# TYPE test_sessions gauge',
+      'test_sessions{status="running"} 2',
+      'test_sessions{status="with \\"quotes\\""} 0',
+      ''
+    ].join('\n'));
+  });
+
+  it('should report the lowest GitHub rate limit left without naming users', () => {
+    const inAnHour = new Date(Date.now() + 3600 * 1000);
+    recordGithubRateLimit('user-1', 4200, inAnHour);
+    recordGithubRateLimit('user-2', 12, inAnHour);
+    recordGithubRateLimit('user-3', 3, new Date(Date.now() - 1000));
+
+    const lines = metrics.render().split('\n').filter(line => line.startsWith('amplify_github_rate_limit_remaining'));
+
+    expect(lines).toEqual(['amplify_github_rate_limit_remaining 12']);
+  });
+
+  describe('GET /metrics', () => {
+    const app = express();
+    app.use('/metrics', metricsRoutes);
+
+    afterEach(() => {
+      webConfig.metrics.token = undefined;
+    });
+
+    it('should serve the registry as plain text', async () => {
+      terminalBytes.inc({ direction: 'out' }, 42);
+
+      const response = await request(app).get('/metrics');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0.0.4/);
+      expect(response.text).toBe(metrics.render());
+      expect(response.text).toContain('amplify_terminal_bytes_total{direction="out"} 42');
+    });
+
+    it('should require the scrape token when one is configured', async () => {
+      webConfig.metrics.token = 'scrape-secret';
+
+      expect((await request(app).get('/metrics')).status).toBe(401);
+      expect((await request(app).get('/metrics').set('Authorization', 'Bearer scrape-secret')).status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Preview proxy and port discovery tests
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { previewProxyService, parseListeningPorts, PreviewTarget } from '../../services/previewProxy';
+import { sessionStore } from '../../services/sessionStore';
+import { userStore } from '../../services/userStore';
+import { resumeIfIdle } from '../../services/sessionHibernation';
+import { Session, SessionStatus } from '../../models/Session';
+
+jest.mock('../../services/sessionHibernation');
+
+const PROC_NET_TCP = `  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode
+   0: 00000000:0BB8 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 1 1 0 100 0 0 10 0
+   1: 0100007F:1F90 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 2 1 0 100 0 0 10 0
+   2: 0200A8C0:0BB8 0300A8C0:D431 01 00000000:00000000 00:00000000 00000000  1000        0 3 1 0 100 0 0 10 0
+  sl  local_address                         remote_address                        st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode
+   0: 00000000000000000000000001000000:1F90 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 4 1 0 100 0 0 10 0
+   1: 00000000000000000000000000000000:1389 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 5 1 0 100 0 0 10 0
+`;
+
+describe('parseListeningPorts', () => {
+  it('should list listening ports once each, noting which are bound to loopback', () => {
+    expect(parseListeningPorts(PROC_NET_TCP)).toEqual([
+      { port: 3000, address: '0.0.0.0', reachable: true },
+      { port: 5001, address: '::', reachable: true },
+      { port: 8080, address: '127.0.0.1', reachable: false }
+    ]);
+  });
+
+  it('should return nothing for empty output', () => {
+    expect(parseListeningPorts('')).toEqual([]);
+  });
+});
+
+describe('PreviewProxyService', () => {
+  const containerManager = (previewProxyService as any).containerManager;
+  const owner = { id: 'preview-user', username: 'previewer' };
+
+  const createSession = (id: string, overrides: Partial<Session> = {}) => {
+    sessionStore.createSession({
+      id,
+      userId: 'preview-user',
+      repositoryUrl: 'https://github.com/test/repo',
+      repositoryName: 'test/repo',
+      branch: 'main',
+      status: SessionStatus.RUNNING,
+      containerId: 'container-123',
+      createdAt: new Date(),
+      lastAccessedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000),
+      metadata: {},
+      ...overrides
+    });
+  };
+
+  beforeEach(() => {
+    containerManager.getContainerAddress = jest.fn().mockResolvedValue('172.30.0.5');
+    (resumeIfIdle as jest.Mock).mockResolvedValue({ success: true });
+  });
+
+  afterEach(() => {
+    ['preview-session', 'stopped-session', 'idle-session'].forEach(id => sessionStore.deleteSession(id));
+  });
+
+  describe('resolveTarget', () => {
+    it('should resolve the container address for the session owner', async () => {
+      createSession('preview-session');
+
+      const result = await previewProxyService.resolveTarget('preview-session', owner, 3000, 'preview-token');
+
+      expect(result).toEqual({
+        success: true,
+        data: { host: '172.30.0.5', port: 3000, prefix: '/api/sessions/preview-session/preview/preview-token/3000' }
+      });
+      expect(containerManager.getContainerAddress).toHaveBeenCalledWith('container-123');
+    });
+
+    it("should not resolve another user's session", async () => {
+      createSession('preview-session');
+
+      const result = await previewProxyService.resolveTarget('preview-session', { id: 'someone-else', username: 'stranger' }, 3000, 'preview-token');
+
+      expect(result).toEqual({ success: false, error: 'Session not found' });
+    });
+
+    it('should resolve sessions shared with the user', async () => {
+      createSession('preview-session', {
+        shares: [{ username: 'Watcher', role: 'viewer', invitedBy: 'previewer', invitedAt: new Date() }]
+      });
+
+      const result = await previewProxyService.resolveTarget(
+        'preview-session', { id: 'watcher-user', username: 'watcher' }, 3000, 'preview-token'
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should wake a hibernated session before resolving it', async () => {
+      createSession('idle-session', { status: SessionStatus.IDLE });
+      (resumeIfIdle as jest.Mock).mockImplementationOnce(async (sessionId: string) => {
+        sessionStore.updateSession(sessionId, { status: SessionStatus.RUNNING });
+        return { success: true };
+      });
+
+      const result = await previewProxyService.resolveTarget('idle-session', owner, 3000, 'preview-token');
+
+      expect(resumeIfIdle).toHaveBeenCalledWith('idle-session');
+      expect(result.success).toBe(true);
+    });
+
+    it('should refuse sessions whose container is not running', async () => {
+      createSession('stopped-session', { status: SessionStatus.STOPPED });
+
+      const result = await previewProxyService.resolveTarget('stopped-session', owner, 3000, 'preview-token');
+
+      expect(result).toEqual({ success: false, error: 'Session container is not running' });
+    });
+  });
+
+  describe('preview tokens', () => {
+    beforeEach(() => {
+      jest.spyOn(userStore, 'getTokenId').mockReturnValue('token-id-1');
+      jest.spyOn(userStore, 'getUser').mockImplementation(id => ({ id, username: 'previewer' }) as any);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should identify the user only for the session the token was issued for', () => {
+      const token = previewProxyService.issuePreviewToken('preview-session', 'preview-user');
+
+      expect(previewProxyService.verifyPreviewToken(token, 'preview-session')).toMatchObject({ id: 'preview-user' });
+      expect(previewProxyService.verifyPreviewToken(token, 'other-session')).toBeNull();
+      expect(previewProxyService.verifyPreviewToken('not-a-token', 'preview-session')).toBeNull();
+    });
+
+    it('should reject tokens once the user signs out everywhere', () => {
+      const token = previewProxyService.issuePreviewToken('preview-session', 'preview-user');
+
+      jest.spyOn(userStore, 'getTokenId').mockReturnValue('token-id-2');
+
+      expect(previewProxyService.verifyPreviewToken(token, 'preview-session')).toBeNull();
+    });
+  });
+
+  describe('isAllowedUpgradeOrigin', () => {
+    const upgrade = (headers: http.IncomingHttpHeaders) => ({ headers }) as http.IncomingMessage;
+
+    it('should allow the app itself and sandboxed preview pages', () => {
+      expect(previewProxyService.isAllowedUpgradeOrigin(upgrade({ host: 'amplify.test' }))).toBe(true);
+      expect(previewProxyService.isAllowedUpgradeOrigin(upgrade({ host: 'amplify.test', origin: 'null' }))).toBe(true);
+      expect(previewProxyService.isAllowedUpgradeOrigin(
+        upgrade({ host: 'amplify.test', origin: 'https://amplify.test' })
+      )).toBe(true);
+    });
+
+    it('should reject other sites', () => {
+      expect(previewProxyService.isAllowedUpgradeOrigin(
+        upgrade({ host: 'amplify.test', origin: 'https://evil.example' })
+      )).toBe(false);
+    });
+  });
+
+  describe('proxyRequest', () => {
+    let upstream: http.Server;
+    let proxy: http.Server;
+    let target: PreviewTarget;
+    let received: http.IncomingHttpHeaders;
+
+    beforeEach(async () => {
+      upstream = http.createServer((req, res) => {
+        received = req.headers;
+        if (req.url === '/login') {
+          res.writeHead(302, { Location: '/dashboard' });
+          res.end();
+          return;
+        }
+        if (req.url === '/session') {
+          res.writeHead(200, {
+            'Set-Cookie': 'amplify_auth=fixated; Path=/',
+            'Content-Security-Policy': "default-src 'self'"
+          });
+          res.end('ok');
+          return;
+        }
+        res.end(`upstream ${req.url}`);
+      });
+      await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+
+      target = {
+        host: '127.0.0.1',
+        port: (upstream.address() as AddressInfo).port,
+        prefix: '/api/sessions/preview-session/preview/preview-token/3000'
+      };
+
+      proxy = http.createServer((req, res) => {
+        previewProxyService.proxyRequest(req, res, target, (req.url || '').slice(target.prefix.length) || '/');
+      });
+      await new Promise<void>(resolve => proxy.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterEach(async () => {
+      await new Promise<void>(resolve => proxy.close(() => resolve()));
+      await new Promise<void>(resolve => upstream.close(() => resolve()));
+    });
+
+    const get = (path: string, headers: http.OutgoingHttpHeaders = {}) =>
+      new Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }>((resolve, reject) => {
+        http.get({ host: '127.0.0.1', port: (proxy.address() as AddressInfo).port, path, headers }, res => {
+          let body = '';
+          res.on('data', chunk => { body += chunk; });
+          res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body }));
+        }).on('error', reject);
+      });
+
+    it('should forward the request path and query', async () => {
+      const response = await get(`${target.prefix}/assets/app.js?v=1`);
+
+      expect(response.body).toBe('upstream /assets/app.js?v=1');
+      expect(received['x-forwarded-prefix']).toBe(target.prefix);
+      expect(received.host).toBe(`localhost:${target.port}`);
+    });
+
+    it('should not pass Amplify credentials to the container', async () => {
+      await get(`${target.prefix}/`, {
+        cookie: 'theme=dark; amplify_auth=secret-token',
+        authorization: 'Bearer secret-token'
+      });
+
+      expect(received.cookie).toBe('theme=dark');
+      expect(received.authorization).toBeUndefined();
+    });
+
+    it('should sandbox the page and drop cookies it tries to set', async () => {
+      const response = await get(`${target.prefix}/session`);
+
+      expect(response.headers['set-cookie']).toBeUndefined();
+      expect(response.headers['content-security-policy']).toBe(
+        "default-src 'self', sandbox allow-scripts allow-forms"
+      );
+      expect(response.headers['referrer-policy']).toBe('no-referrer');
+
+      const plain = await get(`${target.prefix}/`);
+      expect(plain.headers['content-security-policy']).toBe('sandbox allow-scripts allow-forms');
+    });
+
+    it('should keep redirects inside the preview path', async () => {
+      const response = await get(`${target.prefix}/login`);
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe(`${target.prefix}/dashboard`);
+    });
+
+    it('should report when nothing is listening', async () => {
+      target.port = 1;
+
+      const response = await get(`${target.prefix}/`);
+
+      expect(response.status).toBe(502);
+      expect(response.body).toBe('Nothing is responding on port 1');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * .amplify.yml parsing and validation tests
+ */
+
+import { parseRepoConfig } from '../../services/repoConfig';
+
+describe('parseRepoConfig', () => {
+  it('should read every supported setting', () => {
+    const result = parseRepoConfig([
+      'image: ghcr.io/acme/amplify-node:20',
+      'setup:',
+      '  - npm ci',
+      '  - npm run db:seed',
+      'teardown: docker compose down',
+      'preview:',
+      '  ports: [3000, 5173, 3000]',
+      'amp:',
+      '  instructions: |',
+      '    Run npm test before finishing.'
+    ].join('\n'), ['ghcr.io/acme/amplify-*']);
+
+    expect(result).toEqual({
+      found: true,
+      errors: [],
+      config: {
+        image: 'ghcr.io/acme/amplify-node:20',
+        setup: ['npm ci', 'npm run db:seed'],
+        teardown: ['docker compose down'],
+        previewPorts: [3000, 5173],
+        instructions: 'Run npm test before finishing.'
+      }
+    });
+  });
+
+  it('should reject images the server does not allow', () => {
+    const result = parseRepoConfig('image: evil/miner:latest', ['amplify-base:latest', 'ghcr.io/acme/amplify-*']);
+
+    expect(result).toEqual({
+      found: true,
+      errors: ['image evil/miner:latest is not one of the images this server allows']
+    });
+    expect(parseRepoConfig('image: amplify-base:latest', ['amplify-base:latest']).config?.image).toBe('amplify-base:latest');
+  });
+
+  it('should treat an empty file as an empty config', () => {
+    expect(parseRepoConfig('')).toEqual({
+      found: true,
+      errors: [],
+      config: { setup: [], teardown: [], previewPorts: [] }
+    });
+  });
+
+  it('should report every validation error and drop the config', () => {
+    const result = parseRepoConfig([
+      'image: "not an image"',
+      'setup: [1, 2]',
+      'preview:',
+      '  ports: [80000]',
+      'amp: yes',
+      'services: []'
+    ].join('\n'));
+
+    expect(result.config).toBeUndefined();
+    expect(result.errors).toEqual([
+      'Unknown setting "services"',
+      'image must be a Docker image reference',
+      'setup must be a list of commands',
+      'preview.ports must be a list of port numbers',
+      'amp.instructions must be text'
+    ]);
+  });
+
+  it('should report YAML syntax errors', () => {
+    const result = parseRepoConfig('setup: [npm ci');
+
+    expect(result.found).toBe(true);
+    expect(result.errors[0]).toMatch(/^Invalid YAML: /);
+  });
+
+  it('should reject files that are not a mapping', () => {
+    expect(parseRepoConfig('- npm ci').errors).toEqual(['.amplify.yml must be a mapping of settings']);
+  });
+});
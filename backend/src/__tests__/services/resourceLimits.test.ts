@@ -0,0 +1,162 @@
+/**
+ * Resource limit resolution and user quota tests
+ */
+
+import webConfig, { ContainerResourceLimits } from '../../config/webConfig';
+import { resolveResourceLimits, checkUserQuota, getUserTier } from '../../services/resourceLimits';
+import { sessionStore } from '../../services/sessionStore';
+import { startSession } from '../../controllers/sessionController';
+import { ContainerManager } from '../../docker/containerManager';
+import { Session, SessionStatus } from '../../models/Session';
+
+describe('resourceLimits', () => {
+  const originalContainerConfig = { ...webConfig.container };
+  const defaults: ContainerResourceLimits = {
+    memory: '2g',
+    cpus: '1',
+    pidsLimit: 256,
+    diskQuota: '',
+    networkMode: 'bridge'
+  };
+  const createdSessionIds: string[] = [];
+
+  const addSession = (status: SessionStatus, resourceLimits?: ContainerResourceLimits) => {
+    const id = `quota-session-${createdSessionIds.length}`;
+    const session: Session = {
+      id,
+      userId: 'quota-user',
+      repositoryUrl: 'https://github.com/test/repo',
+      repositoryName: 'test/repo',
+      branch: 'main',
+      status,
+      ...(resourceLimits && { resourceLimits }),
+      createdAt: new Date(),
+      lastAccessedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000),
+      metadata: {}
+    };
+    sessionStore.createSession(session);
+    createdSessionIds.push(id);
+  };
+
+  beforeEach(() => {
+    webConfig.container.resourceLimits = { ...defaults };
+    webConfig.container.userQuota = { memory: '4g', cpus: '2' };
+    webConfig.container.tiers = {
+      pro: {
+        resourceLimits: { memory: '8g', cpus: '4', networkMode: 'amplify-network' },
+        userQuota: { memory: '16g', cpus: '8' }
+      }
+    };
+    webConfig.container.userTiers = { octocat: 'pro' };
+  });
+
+  afterEach(() => {
+    Object.assign(webConfig.container, originalContainerConfig);
+    createdSessionIds.splice(0).forEach(id => sessionStore.deleteSession(id));
+  });
+
+  describe('resolveResourceLimits', () => {
+    it('should use the configured defaults for users without a tier', () => {
+      expect(getUserTier('someone')).toBe('default');
+      expect(resolveResourceLimits('someone')).toEqual({ success: true, data: defaults });
+    });
+
+    it('should apply the tier on top of the defaults', () => {
+      const result = resolveResourceLimits('octocat');
+
+      expect(result.data).toEqual({ ...defaults, memory: '8g', cpus: '4', networkMode: 'amplify-network' });
+    });
+
+    it('should let a session ask for less than its tier allows', () => {
+      const result = resolveResourceLimits('octocat', { memory: '1g', pidsLimit: 64, networkMode: 'none' }, true);
+
+      expect(result.data).toEqual(expect.objectContaining({ memory: '1g', pidsLimit: 64, networkMode: 'none' }));
+    });
+
+    it('should refuse to cut a session off from the network before its workspace is cloned', () => {
+      expect(resolveResourceLimits('octocat', { networkMode: 'none' })).toEqual({
+        success: false,
+        error: 'Network mode none needs a workspace that is already cloned; use the egress policy to restrict new sessions'
+      });
+
+      webConfig.container.resourceLimits.networkMode = 'none';
+      expect(resolveResourceLimits('someone').success).toBe(false);
+    });
+
+    it('should reject overrides above the tier maximum', () => {
+      expect(resolveResourceLimits('someone', { memory: '4g' })).toEqual({
+        success: false,
+        error: 'Memory limit 4g exceeds the default tier maximum of 2g'
+      });
+      expect(resolveResourceLimits('someone', { cpus: '1.5' }).success).toBe(false);
+      expect(resolveResourceLimits('someone', { pidsLimit: 1000 }).success).toBe(false);
+    });
+
+    it('should only allow switching the network off', () => {
+      expect(resolveResourceLimits('someone', { networkMode: 'host' }).error)
+        .toBe('Network mode host is not available on the default tier');
+    });
+
+    it('should cap disk quotas when the tier has one', () => {
+      webConfig.container.resourceLimits.diskQuota = '10g';
+
+      expect(resolveResourceLimits('someone', { diskQuota: '5g' }).data?.diskQuota).toBe('5g');
+      expect(resolveResourceLimits('someone', { diskQuota: '20g' }).success).toBe(false);
+    });
+  });
+
+  describe('checkUserQuota', () => {
+    it('should allow sessions that fit in the remaining quota', () => {
+      addSession(SessionStatus.RUNNING);
+
+      expect(checkUserQuota('quota-user', 'someone', defaults)).toEqual({ success: true });
+    });
+
+    it('should reject sessions that would exceed the memory quota', () => {
+      addSession(SessionStatus.RUNNING, { ...defaults, memory: '3g', cpus: '0.5' });
+
+      const result = checkUserQuota('quota-user', 'someone', defaults);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        'Quota exceeded: this session needs 2g of memory but only 1g of your 4g quota is free. Stop or delete a session first.'
+      );
+    });
+
+    it('should reject sessions that would exceed the CPU quota', () => {
+      addSession(SessionStatus.RUNNING, { ...defaults, memory: '512m', cpus: '1.5' });
+
+      expect(checkUserQuota('quota-user', 'someone', defaults).error).toMatch(/needs 1 CPUs but only 0.5/);
+    });
+
+    it('should not count stopped or failed sessions', () => {
+      addSession(SessionStatus.STOPPED, { ...defaults, memory: '4g' });
+      addSession(SessionStatus.ERROR, { ...defaults, memory: '4g' });
+
+      expect(checkUserQuota('quota-user', 'someone', defaults).success).toBe(true);
+    });
+
+    it("should use the tier's quota", () => {
+      addSession(SessionStatus.RUNNING, { ...defaults, memory: '8g', cpus: '4' });
+
+      expect(checkUserQuota('quota-user', 'octocat', { ...defaults, memory: '8g', cpus: '4' }).success).toBe(true);
+    });
+  });
+
+  describe('starting a stopped session', () => {
+    it('should refuse when the session no longer fits in the quota', async () => {
+      addSession(SessionStatus.RUNNING, { ...defaults, memory: '3g', cpus: '0.5' });
+      addSession(SessionStatus.STOPPED, { ...defaults, memory: '2g', cpus: '0.5' });
+      (ContainerManager as unknown as jest.Mock).mockClear();
+
+      const result = await startSession('quota-user', 'quota-session-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/^Quota exceeded: this session needs 2g of memory/);
+      expect(sessionStore.getSession('quota-session-1')?.status).toBe(SessionStatus.STOPPED);
+      const containerManager = (ContainerManager as unknown as jest.Mock).mock.results[0]?.value;
+      expect(containerManager.createContainer).not.toHaveBeenCalled();
+    });
+  });
+});
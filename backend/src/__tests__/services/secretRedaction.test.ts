@@ -0,0 +1,59 @@
+/**
+ * Secret redaction tests for plain text and chunked output
+ */
+
+import { redactSecrets, StreamRedactor, createRedactingStream } from '../../services/secretRedaction';
+import { SessionSecret } from '../../models/Secret';
+
+describe('secretRedaction', () => {
+  const secrets: SessionSecret[] = [
+    { name: 'API_TOKEN', value: 'tok_12345678', target: 'environment' },
+    { name: 'NPMRC', value: 'line "one"\nline two', target: 'file', filePath: '~/.npmrc' },
+    { name: 'PIN', value: '42', target: 'environment' }
+  ];
+
+  it('should redact plain, JSON-escaped and terminal forms of each value', () => {
+    expect(redactSecrets('export API_TOKEN=tok_12345678', secrets)).toBe('export API_TOKEN=[REDACTED:API_TOKEN]');
+    expect(redactSecrets(JSON.stringify({ content: 'line "one"\nline two' }), secrets))
+      .toBe('{"content":"[REDACTED:NPMRC]"}');
+    expect(redactSecrets('$ cat ~/.npmrc\r\nline "one"\r\nline two\r\n', secrets))
+      .toBe('$ cat ~/.npmrc\r\n[REDACTED:NPMRC]\r\n');
+  });
+
+  it('should leave values too short to redact safely alone', () => {
+    expect(redactSecrets('answer: 42', secrets)).toBe('answer: 42');
+  });
+
+  it('should redact values split across chunks', () => {
+    const redactor = new StreamRedactor(() => secrets);
+
+    expect(redactor.push('token: tok_123')).toBe('token: ');
+    expect(redactor.push('45678 done')).toBe('[REDACTED:API_TOKEN] done');
+    expect(redactor.push('ends with tok')).toBe('ends with ');
+    expect(redactor.flush()).toBe('tok');
+  });
+
+  it('should release held back output after a short delay', () => {
+    jest.useFakeTimers();
+    const flushed: string[] = [];
+    const redactor = new StreamRedactor(() => secrets, text => flushed.push(text));
+
+    expect(redactor.push('prompt$ tok')).toBe('prompt$ ');
+    jest.advanceTimersByTime(100);
+
+    expect(flushed).toEqual(['tok']);
+    jest.useRealTimers();
+  });
+
+  it('should pass output through untouched when the session has no secrets', async () => {
+    const stream = createRedactingStream(undefined);
+    const output: string[] = [];
+    stream.on('data', (chunk: Buffer) => output.push(chunk.toString()));
+
+    stream.write(Buffer.from('{"type":"text"}\n'));
+    stream.end();
+    await new Promise(resolve => stream.on('end', resolve));
+
+    expect(output.join('')).toBe('{"type":"text"}\n');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Secret store encryption, scoping and persistence tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SecretStore } from '../../services/secretStore';
+
+describe('SecretStore', () => {
+  let tempDir: string;
+  let filePath: string;
+  let store: SecretStore;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'secret-store-test-'));
+    filePath = path.join(tempDir, 'secrets.json');
+    store = new SecretStore('test-encryption-key', filePath, 0);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should never return or persist values in plain text', async () => {
+    const secret = store.createSecret('user-1', { name: 'NPM_TOKEN', value: 'npm_abcdef123456', scope: 'user' });
+    await store.flush();
+
+    expect(secret).not.toHaveProperty('value');
+    expect(secret).not.toHaveProperty('encryptedValue');
+    expect(store.listSecrets('user-1')).toEqual([secret]);
+    expect(fs.readFileSync(filePath, 'utf-8')).not.toContain('npm_abcdef123456');
+
+    const reloaded = new SecretStore('test-encryption-key', filePath, 0);
+    await reloaded.load();
+    expect(reloaded.getSessionSecrets('user-1', 'octo/app')).toEqual([
+      { name: 'NPM_TOKEN', value: 'npm_abcdef123456', target: 'environment' }
+    ]);
+  });
+
+  it('should let repository secrets replace user secrets only for their repository', () => {
+    store.createSecret('user-1', { name: 'API_TOKEN', value: 'user-wide-token', scope: 'user' });
+    store.createSecret('user-1', { name: 'API_TOKEN', value: 'repo-token', scope: 'repository', repositoryName: 'Octo/App' });
+    store.createSecret('user-1', {
+      name: 'NPMRC', value: '//registry.npmjs.org/:_authToken=abc', scope: 'user', target: 'file', filePath: '~/.npmrc'
+    });
+
+    expect(store.getSessionSecrets('user-1', 'octo/app')).toEqual([
+      { name: 'API_TOKEN', value: 'repo-token', target: 'environment' },
+      { name: 'NPMRC', value: '//registry.npmjs.org/:_authToken=abc', target: 'file', filePath: '~/.npmrc' }
+    ]);
+    expect(store.getSessionSecrets('user-1', 'octo/other')[0]!.value).toBe('user-wide-token');
+    expect(store.getSessionSecrets('user-2', 'octo/app')).toEqual([]);
+  });
+
+  it('should reject duplicate names and keep the value when an update omits it', () => {
+    const secret = store.createSecret('user-1', { name: 'API_TOKEN', value: 'first-value', scope: 'user' })!;
+
+    expect(store.createSecret('user-1', { name: 'API_TOKEN', value: 'other-value', scope: 'user' })).toBeNull();
+
+    store.updateSecret(secret.id, 'user-1', { name: 'API_TOKEN', scope: 'user', target: 'file', filePath: '/run/token' });
+    expect(store.getSessionSecrets('user-1', 'octo/app')).toEqual([
+      { name: 'API_TOKEN', value: 'first-value', target: 'file', filePath: '/run/token' }
+    ]);
+
+    expect(store.updateSecret(secret.id, 'user-2', { name: 'API_TOKEN', scope: 'user', value: 'stolen' })).toBeNull();
+    expect(store.deleteSecret(secret.id, 'user-2')).toBe(false);
+    expect(store.deleteSecret(secret.id, 'user-1')).toBe(true);
+    expect(store.getSessionSecrets('user-1', 'octo/app')).toEqual([]);
+  });
+
+  it('should skip values that no longer decrypt', async () => {
+    store.createSecret('user-1', { name: 'API_TOKEN', value: 'first-value', scope: 'user' });
+    await store.flush();
+
+    const rekeyed = new SecretStore('another-key', filePath, 0);
+    await rekeyed.load();
+
+    expect(rekeyed.listSecrets('user-1')).toHaveLength(1);
+    expect(rekeyed.getSessionSecrets('user-1', 'octo/app')).toEqual([]);
+  });
+});
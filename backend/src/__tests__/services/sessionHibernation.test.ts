@@ -0,0 +1,169 @@
+/**
+ * Idle session hibernation and resume tests
+ */
+
+import webConfig from '../../config/webConfig';
+import { ContainerManager } from '../../docker/containerManager';
+import { hibernateSession, resumeSession, resumeIfIdle } from '../../services/sessionHibernation';
+import { CleanupService } from '../../services/cleanup';
+import { sessionStore } from '../../services/sessionStore';
+import { ampService } from '../../services/ampService';
+import { Session, SessionStatus } from '../../models/Session';
+
+describe('sessionHibernation', () => {
+  const originalIdleAction = webConfig.session.idleAction;
+  const sessionIds: string[] = [];
+  let containerManager: {
+    suspendContainer: jest.Mock;
+    resumeContainer: jest.Mock;
+    stopContainer: jest.Mock;
+    removeWorkspaceVolume: jest.Mock;
+  };
+
+  const createSession = (id: string, overrides: Partial<Session> = {}) => {
+    sessionStore.createSession({
+      id,
+      userId: 'idle-user',
+      repositoryUrl: 'https://github.com/test/repo',
+      repositoryName: 'test/repo',
+      branch: 'main',
+      status: SessionStatus.RUNNING,
+      containerId: `container-${id}`,
+      threadId: `T-${id}`,
+      createdAt: new Date(),
+      lastAccessedAt: new Date(Date.now() - 60 * 60 * 1000),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      metadata: {},
+      ...overrides
+    });
+    sessionIds.push(id);
+  };
+
+  beforeEach(() => {
+    containerManager = {
+      suspendContainer: jest.fn().mockResolvedValue(true),
+      resumeContainer: jest.fn().mockResolvedValue({ success: true }),
+      stopContainer: jest.fn().mockResolvedValue(true),
+      removeWorkspaceVolume: jest.fn().mockResolvedValue(true)
+    };
+  });
+
+  afterEach(() => {
+    webConfig.session.idleAction = originalIdleAction;
+    sessionIds.splice(0).forEach(id => sessionStore.deleteSession(id));
+    jest.restoreAllMocks();
+  });
+
+  describe('findIdleSessions', () => {
+    it('should find running sessions without open connections', () => {
+      createSession('idle-1');
+      createSession('idle-2');
+      createSession('idle-3', { status: SessionStatus.STOPPED });
+      sessionStore.addConnection('idle-2', 'ws-1');
+
+      const idle = sessionStore.findIdleSessions(30 * 60 * 1000);
+
+      expect(idle.map(session => session.id)).toEqual(['idle-1']);
+    });
+
+    it('should count time from the last disconnect', () => {
+      createSession('idle-1');
+      sessionStore.addConnection('idle-1', 'ws-1');
+      sessionStore.removeConnection('idle-1', 'ws-1');
+
+      expect(sessionStore.findIdleSessions(30 * 60 * 1000)).toEqual([]);
+    });
+  });
+
+  describe('hibernateSession', () => {
+    it('should suspend the container with the configured action and mark the session idle', async () => {
+      webConfig.session.idleAction = 'stop';
+      createSession('idle-1');
+
+      const result = await hibernateSession('idle-1', containerManager as unknown as ContainerManager);
+
+      expect(result).toEqual({ success: true });
+      expect(containerManager.suspendContainer).toHaveBeenCalledWith('container-idle-1', 'stop');
+      expect(sessionStore.getSession('idle-1')?.status).toBe(SessionStatus.IDLE);
+    });
+
+    it('should leave sessions with an amp turn in progress alone', async () => {
+      createSession('idle-1');
+      jest.spyOn(ampService, 'isTurnActive').mockImplementation(threadId => threadId === 'T-idle-1');
+
+      const result = await hibernateSession('idle-1', containerManager as unknown as ContainerManager);
+
+      expect(result).toEqual({ success: false, error: 'An amp turn is running' });
+      expect(containerManager.suspendContainer).not.toHaveBeenCalled();
+    });
+
+    it('should keep the session running if the container cannot be suspended', async () => {
+      createSession('idle-1');
+      containerManager.suspendContainer.mockResolvedValue(false);
+
+      const result = await hibernateSession('idle-1', containerManager as unknown as ContainerManager);
+
+      expect(result.success).toBe(false);
+      expect(sessionStore.getSession('idle-1')?.status).toBe(SessionStatus.RUNNING);
+    });
+  });
+
+  describe('resumeSession', () => {
+    it('should resume the existing container and mark the session running', async () => {
+      createSession('idle-1', { status: SessionStatus.IDLE });
+
+      const result = await resumeSession('idle-1', containerManager as unknown as ContainerManager);
+
+      expect(result).toEqual({ success: true });
+      expect(containerManager.resumeContainer).toHaveBeenCalledWith('container-idle-1');
+      expect(sessionStore.getSession('idle-1')?.status).toBe(SessionStatus.RUNNING);
+    });
+
+    it('should share one resume between concurrent callers', async () => {
+      createSession('idle-1', { status: SessionStatus.IDLE });
+
+      await Promise.all([
+        resumeSession('idle-1', containerManager as unknown as ContainerManager),
+        resumeSession('idle-1', containerManager as unknown as ContainerManager)
+      ]);
+
+      expect(containerManager.resumeContainer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not touch sessions that are not idle', async () => {
+      createSession('idle-1');
+
+      expect(await resumeIfIdle('idle-1')).toEqual({ success: true });
+    });
+  });
+
+  describe('CleanupService', () => {
+    it('should hibernate idle sessions during a cleanup cycle', async () => {
+      createSession('idle-1');
+      createSession('idle-2');
+      sessionStore.addConnection('idle-2', 'ws-1');
+
+      const cleanup = new CleanupService(sessionStore, containerManager as unknown as ContainerManager, {
+        idleTimeout: 30 * 60 * 1000
+      });
+
+      expect(await cleanup.hibernateIdleSessions()).toBe(1);
+      expect(sessionStore.getSession('idle-1')?.status).toBe(SessionStatus.IDLE);
+      expect(sessionStore.getSession('idle-2')?.status).toBe(SessionStatus.RUNNING);
+
+      cleanup.destroy();
+    });
+
+    it('should not hibernate when the idle timeout is disabled', async () => {
+      createSession('idle-1');
+
+      const cleanup = new CleanupService(sessionStore, containerManager as unknown as ContainerManager, {
+        idleTimeout: 0
+      });
+
+      expect(await cleanup.hibernateIdleSessions()).toBe(0);
+
+      cleanup.destroy();
+    });
+  });
+});
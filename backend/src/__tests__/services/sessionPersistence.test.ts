@@ -0,0 +1,127 @@
+/**
+ * Session persistence and restore tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionStore, ContainerInspector } from '../../services/sessionStore';
+import { FileSessionPersistence } from '../../services/sessionPersistence';
+import { Session, SessionStatus } from '../../models/Session';
+
+describe('SessionStore - Persistence', () => {
+  let tempDir: string;
+  let filePath: string;
+  let store: SessionStore;
+
+  const createSession = (id: string, overrides: Partial<Session> = {}): Session => ({
+    id,
+    userId: 'test-user-1',
+    repositoryUrl: 'https://github.com/test/repo',
+    repositoryName: 'test/repo',
+    branch: 'main',
+    status: SessionStatus.RUNNING,
+    createdAt: new Date(),
+    lastAccessedAt: new Date(),
+    expiresAt: new Date(Date.now() + 60000),
+    metadata: { tags: [] },
+    ...overrides
+  });
+
+  const inspector = (containers: Record<string, string>): ContainerInspector => ({
+    getContainerInfo: jest.fn(async (ref: string) => {
+      const status = containers[ref];
+      return status ? { id: ref, name: ref, status, created: '', ports: [] } : null;
+    })
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-store-test-'));
+    filePath = path.join(tempDir, 'sessions.json');
+    store = new SessionStore({ cleanupInterval: 30000 }, new FileSessionPersistence(filePath, 0));
+  });
+
+  afterEach(() => {
+    store.destroy();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write sessions to disk and revive dates on load', async () => {
+    store.createSession(createSession('session-1', { containerId: 'container-1' }));
+    await store.flush();
+
+    const loaded = await new FileSessionPersistence(filePath).load();
+
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0]?.id).toBe('session-1');
+    expect(loaded[0]?.createdAt).toBeInstanceOf(Date);
+    expect(loaded[0]?.expiresAt).toBeInstanceOf(Date);
+  });
+
+  it('should drop deleted sessions from disk', async () => {
+    store.createSession(createSession('session-1'));
+    store.createSession(createSession('session-2'));
+    store.deleteSession('session-1');
+    await store.flush();
+
+    const loaded = await new FileSessionPersistence(filePath).load();
+    expect(loaded.map(s => s.id)).toEqual(['session-2']);
+  });
+
+  it('should reattach running containers and stop sessions whose containers are gone', async () => {
+    store.createSession(createSession('session-1', { containerId: 'container-1' }));
+    store.createSession(createSession('session-2', { containerId: 'container-2' }));
+    store.createSession(createSession('session-3', { containerId: 'container-3' }));
+    await store.flush();
+    store.destroy();
+
+    const restored = new SessionStore({ cleanupInterval: 30000 }, new FileSessionPersistence(filePath, 0));
+    const result = await restored.restore(inspector({
+      'container-1': 'running',
+      'container-2': 'exited'
+    }));
+
+    expect(result).toEqual({ restored: 3, reattached: 1, stopped: 2 });
+    expect(restored.getSession('session-1')?.status).toBe(SessionStatus.RUNNING);
+    expect(restored.getSession('session-2')?.status).toBe(SessionStatus.STOPPED);
+    expect(restored.getSession('session-2')?.containerId).toBe('container-2');
+    expect(restored.getSession('session-3')?.status).toBe(SessionStatus.STOPPED);
+    expect(restored.getSession('session-3')?.containerId).toBeUndefined();
+    expect(restored.getUserSessions('test-user-1')).toHaveLength(3);
+
+    restored.destroy();
+  });
+
+  it('should keep hibernated containers so idle sessions can resume', async () => {
+    store.createSession(createSession('session-1', { containerId: 'container-1', status: SessionStatus.IDLE }));
+    store.createSession(createSession('session-2', { containerId: 'container-2', status: SessionStatus.IDLE }));
+    await store.flush();
+    store.destroy();
+
+    const restored = new SessionStore({ cleanupInterval: 30000 }, new FileSessionPersistence(filePath, 0));
+    await restored.restore(inspector({
+      'container-1': 'paused',
+      'container-2': 'exited'
+    }));
+
+    expect(restored.getSession('session-1')?.status).toBe(SessionStatus.IDLE);
+    expect(restored.getSession('session-2')?.status).toBe(SessionStatus.IDLE);
+    expect(restored.getSession('session-2')?.containerId).toBe('container-2');
+
+    restored.destroy();
+  });
+
+  it('should find containers by name for sessions without a container id', async () => {
+    store.createSession(createSession('session-1', { status: SessionStatus.CREATING }));
+    await store.flush();
+    store.destroy();
+
+    const restored = new SessionStore({ cleanupInterval: 30000 }, new FileSessionPersistence(filePath, 0));
+    await restored.restore(inspector({ 'amplify-session-1': 'running' }));
+
+    expect(restored.getSession('session-1')?.containerId).toBe('amplify-session-1');
+    expect(restored.getSession('session-1')?.status).toBe(SessionStatus.RUNNING);
+
+    restored.destroy();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Session setup command runner and .amplify.yml loading tests
+ */
+
+import { PassThrough, Writable } from 'stream';
+import { ContainerManager } from '../../docker/containerManager';
+import { runSetupCommands, loadRepoConfig } from '../../services/sessionSetup';
+
+describe('sessionSetup', () => {
+  // Fake exec whose output stream emits the given chunks and then ends
+  const fakeContainerManager = (chunks: string[], exitCode: number) => {
+    const exec = {
+      start: jest.fn(async () => {
+        const stream = new PassThrough();
+        setImmediate(() => {
+          chunks.forEach(chunk => stream.write(chunk));
+          stream.end();
+        });
+        return stream;
+      }),
+      inspect: jest.fn().mockResolvedValue({ ExitCode: exitCode })
+    };
+
+    return {
+      exec,
+      executeCommand: jest.fn().mockResolvedValue(exec),
+      getDocker: () => ({
+        modem: {
+          demuxStream: (stream: PassThrough, stdout: Writable) => stream.pipe(stdout)
+        }
+      })
+    };
+  };
+
+  it('should run nothing when there are no commands', async () => {
+    const containerManager = fakeContainerManager([], 0);
+
+    const result = await runSetupCommands(containerManager as unknown as ContainerManager, 'c1', '/workspace/repo', []);
+
+    expect(result).toEqual({ success: true });
+    expect(containerManager.executeCommand).not.toHaveBeenCalled();
+  });
+
+  it('should run the commands in the checkout and forward their output', async () => {
+    const containerManager = fakeContainerManager(['$ npm ci\n', 'added 10 packages\n'], 0);
+    const output: string[] = [];
+
+    const result = await runSetupCommands(
+      containerManager as unknown as ContainerManager,
+      'c1',
+      '/workspace/repo',
+      ['npm ci', 'npm run seed'],
+      chunk => output.push(chunk)
+    );
+
+    expect(result).toEqual({ success: true });
+    const command = containerManager.executeCommand.mock.calls[0][1];
+    expect(command.slice(0, 2)).toEqual(['sh', '-c']);
+    expect(command.slice(3)).toEqual(['amplify-setup', '/workspace/repo', 'npm ci', 'npm run seed']);
+    expect(output.join('')).toBe('$ npm ci\nadded 10 packages\n');
+  });
+
+  it('should report the last line of output when a command fails', async () => {
+    const containerManager = fakeContainerManager(['$ npm ci\n', 'Setup command exited with code 1: npm ci\n'], 1);
+
+    const result = await runSetupCommands(containerManager as unknown as ContainerManager, 'c1', '/workspace/repo', ['npm ci']);
+
+    expect(result).toEqual({ success: false, error: 'Setup command exited with code 1: npm ci' });
+  });
+
+  it('should load and validate .amplify.yml from the checkout', async () => {
+    const containerManager = fakeContainerManager(['setup:\n  - npm ci\npreview:\n  ports: [3000]\n'], 0);
+
+    const result = await loadRepoConfig(containerManager as unknown as ContainerManager, 'c1', '/workspace/repo');
+
+    expect(containerManager.executeCommand.mock.calls[0][1].slice(-1)).toEqual(['/workspace/repo/.amplify.yml']);
+    expect(result.config).toEqual({ setup: ['npm ci'], teardown: [], previewPorts: [3000] });
+  });
+
+  it('should report a missing .amplify.yml as not found', async () => {
+    const containerManager = fakeContainerManager([], 3);
+
+    const result = await loadRepoConfig(containerManager as unknown as ContainerManager, 'c1', '/workspace/repo');
+
+    expect(result).toEqual({ found: false, errors: [] });
+  });
+});
@@ -337,6 +337,43 @@ describe('SessionStore - Thread Associations', () => {
     });
   });
 
+  describe('Thread Collection', () => {
+    beforeEach(() => {
+      store.createSession(testSession);
+    });
+
+    it('should report the original thread of sessions created before threads were tracked', () => {
+      const threads = store.getSessionThreads('test-session-1');
+
+      expect(threads).toEqual([
+        expect.objectContaining({ id: 'thread_abc123', title: 'Thread 1', ampLogPath: testSession.ampLogPath })
+      ]);
+    });
+
+    it('should keep earlier threads when the association changes', () => {
+      store.updateThreadAssociation('test-session-1', 'thread_new123', '/tmp/new-path/amp.log', 'Refactor');
+      store.updateThreadAssociation('test-session-1', 'thread_abc123', testSession.ampLogPath!);
+
+      const threads = store.getSessionThreads('test-session-1');
+      expect(threads.map(thread => thread.id)).toEqual(['thread_abc123', 'thread_new123']);
+      expect(threads[1]?.title).toBe('Refactor');
+      expect(store.getSession('test-session-1')?.threadId).toBe('thread_abc123');
+      expect(store.getSessionByThreadId('thread_new123')?.id).toBe('test-session-1');
+    });
+
+    it('should archive a thread without removing it', () => {
+      store.updateThreadAssociation('test-session-1', 'thread_new123', '/tmp/new-path/amp.log');
+
+      expect(store.archiveThread('test-session-1', 'thread_abc123')).toBe(true);
+      expect(store.archiveThread('test-session-1', 'thread_missing')).toBe(false);
+
+      const threads = store.getSessionThreads('test-session-1');
+      expect(threads).toHaveLength(2);
+      expect(threads[0]?.archivedAt).toBeInstanceOf(Date);
+      expect(threads[1]?.archivedAt).toBeUndefined();
+    });
+  });
+
   describe('Event Emissions', () => {
     beforeEach(() => {
       store.createSession(testSession);
@@ -0,0 +1,124 @@
+/**
+ * SessionThreadService tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionThreadService } from '../../services/sessionThreads';
+import { sessionStore } from '../../services/sessionStore';
+import { threadStorage } from '../../services/threadStorage';
+import { ampService } from '../../services/ampService';
+import { Session, SessionStatus } from '../../models/Session';
+import { MessageType } from '../../types/threadMessage';
+
+jest.mock('../../services/ampService');
+
+describe('SessionThreadService', () => {
+  let service: SessionThreadService;
+  let tempDir: string;
+  let originalBaseDir: string;
+
+  const session: Session = {
+    id: 'threads-session',
+    userId: 'threads-user',
+    repositoryUrl: 'https://github.com/test/repo',
+    repositoryName: 'test/repo',
+    branch: 'main',
+    status: SessionStatus.RUNNING,
+    containerId: 'container_123',
+    threadId: 'T-first',
+    ampLogPath: '/tmp/amplify-data/threads-session/amp.log',
+    createdAt: new Date(),
+    lastAccessedAt: new Date(),
+    expiresAt: new Date(Date.now() + 60000),
+    metadata: {}
+  };
+
+  beforeEach(() => {
+    service = new SessionThreadService();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-threads-test-'));
+    originalBaseDir = (threadStorage as any).baseDir;
+    (threadStorage as any).baseDir = tempDir;
+
+    sessionStore.createSession({ ...session });
+    (ampService.isTurnActive as jest.Mock).mockReturnValue(false);
+    (ampService.createThread as jest.Mock).mockResolvedValue({
+      success: true,
+      threadId: 'T-second',
+      ampLogPath: '/tmp/amplify-data/threads-session/amp-2.log'
+    });
+  });
+
+  afterEach(() => {
+    sessionStore.deleteSession(session.id);
+    (threadStorage as any).baseDir = originalBaseDir;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  it('should file history from before per-thread storage under the first thread', async () => {
+    await threadStorage.appendMessage(session.id, {
+      id: 'legacy-1',
+      type: MessageType.USER,
+      content: 'Fix the bug',
+      timestamp: new Date()
+    });
+
+    const threads = await service.listThreads(session.id);
+
+    expect(threads).toEqual([
+      expect.objectContaining({ id: 'T-first', isActive: true, messageCount: 1 })
+    ]);
+    expect((await threadStorage.getAllMessages(session.id, 'T-first'))[0]?.id).toBe('legacy-1');
+  });
+
+  it('should create a new thread next to the first one and make it active', async () => {
+    const result = await service.createThread(session.id, 'Docs');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ id: 'T-second', title: 'Docs' });
+    expect(ampService.createThread).toHaveBeenCalledWith(session.id, expect.objectContaining({
+      containerId: 'container_123',
+      workingDirectory: '/workspace/repo',
+      ampLogPath: expect.stringMatching(/^\/tmp\/amplify-data\/threads-session\/amp-\d+\.log$/)
+    }));
+    expect(sessionStore.getSession(session.id)?.threadId).toBe('T-second');
+    expect(service.getThreads(session.id)).toHaveLength(2);
+  });
+
+  it('should switch back to an earlier thread', async () => {
+    await service.createThread(session.id);
+
+    const result = service.switchThread(session.id, 'T-first');
+
+    expect(result.success).toBe(true);
+    expect(sessionStore.getSession(session.id)?.ampLogPath).toBe(session.ampLogPath);
+  });
+
+  it('should not switch away while amp is working', async () => {
+    await service.createThread(session.id);
+    (ampService.isTurnActive as jest.Mock).mockReturnValue(true);
+
+    const result = service.switchThread(session.id, 'T-first');
+
+    expect(result).toEqual({ success: false, error: 'Amp is still working on the current thread' });
+  });
+
+  it('should move to the latest open thread when the active one is archived', async () => {
+    await service.createThread(session.id);
+    service.switchThread(session.id, 'T-first');
+
+    const result = service.archiveThread(session.id, 'T-first');
+
+    expect(result.data?.archivedAt).toBeInstanceOf(Date);
+    expect(sessionStore.getSession(session.id)?.threadId).toBe('T-second');
+    expect(service.switchThread(session.id, 'T-first').error).toBe('Thread is archived');
+  });
+
+  it('should refuse to archive the only open thread', () => {
+    const result = service.archiveThread(session.id, 'T-first');
+
+    expect(result).toEqual({ success: false, error: 'Cannot archive the only open thread' });
+  });
+});
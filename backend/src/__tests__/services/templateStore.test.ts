@@ -0,0 +1,77 @@
+/**
+ * Session template store access and persistence tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateStore } from '../../services/templateStore';
+import { SessionTemplateInput } from '../../models/SessionTemplate';
+
+describe('TemplateStore', () => {
+  let tempDir: string;
+  let filePath: string;
+  let store: TemplateStore;
+
+  const input = (overrides: Partial<SessionTemplateInput> = {}): SessionTemplateInput => ({
+    name: 'Node app',
+    scope: 'user',
+    setupCommands: ['npm ci', ''],
+    environment: { NODE_ENV: 'development' },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'template-store-test-'));
+    filePath = path.join(tempDir, 'templates.json');
+    store = new TemplateStore(filePath, 0);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep user templates private to their owner', () => {
+    const template = store.createTemplate('user-1', input());
+
+    expect(template.setupCommands).toEqual(['npm ci']);
+    expect(store.listTemplates('user-1')).toHaveLength(1);
+    expect(store.listTemplates('user-2', 'test/repo')).toEqual([]);
+    expect(store.getTemplate(template.id, 'user-2', 'test/repo')).toBeNull();
+  });
+
+  it('should offer repository templates to everyone creating a session for that repository', () => {
+    const template = store.createTemplate('user-1', input({ scope: 'repository', repositoryName: 'Test/Repo' }));
+
+    expect(store.listTemplates('user-2', 'test/repo').map(t => t.id)).toEqual([template.id]);
+    expect(store.getTemplate(template.id, 'user-2', 'test/repo')).not.toBeNull();
+    expect(store.getTemplate(template.id, 'user-2', 'other/repo')).toBeNull();
+  });
+
+  it('should only let the owner change or delete a template', () => {
+    const template = store.createTemplate('user-1', input({ scope: 'repository', repositoryName: 'test/repo' }));
+
+    expect(store.updateTemplate(template.id, 'user-2', input({ name: 'Hijacked' }))).toBeNull();
+    expect(store.deleteTemplate(template.id, 'user-2')).toBe(false);
+
+    const updated = store.updateTemplate(template.id, 'user-1', input({ name: 'Renamed', initialPrompt: 'Run the tests' }));
+    expect(updated?.name).toBe('Renamed');
+    expect(updated?.scope).toBe('user');
+    expect(updated?.repositoryName).toBeUndefined();
+    expect(updated?.createdAt).toEqual(template.createdAt);
+    expect(store.deleteTemplate(template.id, 'user-1')).toBe(true);
+  });
+
+  it('should reload templates from disk', async () => {
+    const template = store.createTemplate('user-1', input({ image: 'node:20', initialPrompt: 'Run the tests' }));
+    await store.flush();
+
+    const reloaded = new TemplateStore(filePath);
+    expect(await reloaded.load()).toBe(1);
+
+    const loaded = reloaded.getTemplate(template.id, 'user-1');
+    expect(loaded?.image).toBe('node:20');
+    expect(loaded?.environment).toEqual({ NODE_ENV: 'development' });
+    expect(loaded?.createdAt).toBeInstanceOf(Date);
+  });
+});
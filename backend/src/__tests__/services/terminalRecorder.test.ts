@@ -0,0 +1,105 @@
+/**
+ * Terminal recorder asciicast output and listing tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TerminalRecorder } from '../../services/terminalRecorder';
+
+describe('TerminalRecorder', () => {
+  const sessionId = 'recorded-session';
+  let tempDir: string;
+  let recorder: TerminalRecorder;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-recorder-test-'));
+    recorder = new TerminalRecorder(tempDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write an asciicast v2 file in the session data directory', async () => {
+    const recording = recorder.start(sessionId, { cols: 80, rows: 24, title: 'octo/app' });
+    recording.output('$ ls\r\n');
+    recording.resize(100, 30);
+    recording.marker('hubot is driving');
+    await recording.close();
+
+    const [header, ...events] = fs.readFileSync(recording.filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+    expect(path.dirname(recording.filePath)).toBe(path.join(tempDir, sessionId, 'recordings'));
+    expect(header).toMatchObject({ version: 2, width: 80, height: 24, title: 'octo/app' });
+    expect(events.map(([, type, data]) => [type, data])).toEqual([
+      ['o', '$ ls\r\n'],
+      ['r', '100x30'],
+      ['m', 'hubot is driving']
+    ]);
+    expect(typeof events[0][0]).toBe('number');
+  });
+
+  it('should list recordings and read them back', async () => {
+    const recording = recorder.start(sessionId, { cols: 80, rows: 24 });
+    recording.output('hello\r\n');
+
+    const [active] = await recorder.listRecordings(sessionId);
+    expect(active).toMatchObject({ id: recording.id, sessionId, cols: 80, rows: 24, isRecording: true });
+
+    await recording.close();
+
+    const [finished] = await recorder.listRecordings(sessionId);
+    expect(finished!.isRecording).toBe(false);
+    expect(await recorder.readRecording(sessionId, recording.id)).toContain('hello');
+  });
+
+  it('should not read outside the recordings directory', async () => {
+    fs.writeFileSync(path.join(tempDir, 'secrets.cast'), 'nope');
+
+    expect(await recorder.readRecording(sessionId, '../../secrets')).toBeNull();
+    expect(await recorder.readRecording(sessionId, 'missing')).toBeNull();
+    expect(await recorder.listRecordings('no-recordings')).toEqual([]);
+  });
+
+  it('should keep only the newest finished recordings within the limits', async () => {
+    recorder = new TerminalRecorder(tempDir, { maxRecordings: 2, maxBytes: 1024 * 1024 });
+
+    const first = recorder.start(sessionId, { cols: 80, rows: 24 });
+    await first.close();
+    // Ids are start times, so space the recordings out
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = recorder.start(sessionId, { cols: 80, rows: 24 });
+    await second.close();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const third = recorder.start(sessionId, { cols: 80, rows: 24 });
+
+    const ids = (await recorder.listRecordings(sessionId)).map(recording => recording.id);
+    expect(ids).toEqual([third.id, second.id]);
+    await third.close();
+  });
+
+  it('should drop old recordings once they exceed the size limit', async () => {
+    recorder = new TerminalRecorder(tempDir, { maxRecordings: 10, maxBytes: 1000 });
+
+    const large = recorder.start(sessionId, { cols: 80, rows: 24 });
+    large.output('x'.repeat(2000));
+    await large.close();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const next = recorder.start(sessionId, { cols: 80, rows: 24 });
+
+    const ids = (await recorder.listRecordings(sessionId)).map(recording => recording.id);
+    expect(ids).toEqual([next.id]);
+    await next.close();
+  });
+
+  it('should delete a session\'s recordings', async () => {
+    const recording = recorder.start(sessionId, { cols: 80, rows: 24 });
+    await recording.close();
+
+    await recorder.deleteRecordings(sessionId);
+
+    expect(await recorder.listRecordings(sessionId)).toEqual([]);
+    expect(fs.existsSync(path.join(tempDir, sessionId, 'recordings'))).toBe(false);
+  });
+});
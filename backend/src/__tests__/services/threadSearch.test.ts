@@ -0,0 +1,83 @@
+/**
+ * Thread search tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ThreadStorage } from '../../services/threadStorage';
+import { ThreadSearchService } from '../../services/threadSearch';
+import { MessageType, ThreadMessage } from '../../types/threadMessage';
+
+describe('ThreadSearchService', () => {
+  let tempDir: string;
+  let storage: ThreadStorage;
+  let search: ThreadSearchService;
+
+  const sessions = [
+    { id: 'session-1', repositoryName: 'test/api' },
+    { id: 'session-2', repositoryName: 'test/web' }
+  ];
+
+  const message = (id: string, content: string, overrides: Partial<ThreadMessage> = {}): ThreadMessage => ({
+    id,
+    type: MessageType.ASSISTANT,
+    content,
+    timestamp: new Date(),
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'thread-search-test-'));
+    storage = new ThreadStorage(tempDir);
+    search = new ThreadSearchService(storage);
+
+    await storage.appendMessage('session-1', message('m1', 'I fixed the migration bug by adding the missing column.'));
+    await storage.appendMessage('session-1', message('m2', 'Running the tests now', {
+      type: MessageType.TOOL,
+      metadata: { tool_name: 'edit_file', files: ['db/migrations/004_add_users.sql'] }
+    }));
+    await storage.appendMessage('session-2', message('m3', 'The migration for the web app is unrelated.'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should require every term to match', async () => {
+    const results = await search.search(sessions, 'migration bug');
+
+    expect(results.map(r => r.messageId)).toEqual(['m1']);
+    expect(results[0]?.link).toBe('/terminal/session-1?tab=thread&message=m1');
+  });
+
+  it('should highlight the matched terms within the snippet', async () => {
+    const [result] = await search.search(sessions, 'migration bug');
+
+    const highlighted = result!.highlights.map(h => result!.snippet.slice(h.start, h.end));
+    expect(highlighted).toEqual(['migration', 'bug']);
+  });
+
+  it('should match tool names and file paths', async () => {
+    const byTool = await search.search(sessions, 'edit_file');
+    const byFile = await search.search(sessions, 'add_users');
+
+    expect(byTool.map(r => r.messageId)).toEqual(['m2']);
+    expect(byTool[0]?.field).toBe('tool');
+    expect(byFile[0]?.field).toBe('file');
+  });
+
+  it('should only search the given sessions', async () => {
+    const results = await search.search([sessions[1]!], 'migration');
+
+    expect(results.map(r => r.sessionId)).toEqual(['session-2']);
+  });
+
+  it('should pick up messages appended after the index was built', async () => {
+    expect(await search.search(sessions, 'rollback')).toHaveLength(0);
+
+    await storage.appendMessage('session-2', message('m4', 'Added a rollback step.'));
+
+    expect((await search.search(sessions, 'rollback')).map(r => r.messageId)).toEqual(['m4']);
+  });
+});
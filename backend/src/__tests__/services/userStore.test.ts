@@ -0,0 +1,118 @@
+/**
+ * User store persistence, encryption and revocation tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UserStore } from '../../services/userStore';
+import { AuthenticatedUser, TerminalTheme, EditorTheme } from '../../models/User';
+
+describe('UserStore', () => {
+  let tempDir: string;
+  let filePath: string;
+  let store: UserStore;
+
+  const githubUser = (overrides: Partial<AuthenticatedUser> = {}): AuthenticatedUser => ({
+    isAuthenticated: true,
+    id: 'github_123456',
+    githubId: 123456,
+    username: 'testuser',
+    email: 'test@example.com',
+    name: 'Test User',
+    avatarUrl: 'https://github.com/avatar.jpg',
+    accessToken: 'gho_secret',
+    scopes: ['repo'],
+    createdAt: new Date(),
+    lastLoginAt: new Date(),
+    profile: { publicRepos: 1, privateRepos: 0, followers: 0, following: 0 },
+    preferences: {
+      terminalTheme: TerminalTheme.DARK,
+      editorTheme: EditorTheme.VS_DARK,
+      notifications: { sessionExpiry: true, containerErrors: true, gitOperations: true, email: false }
+    },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'user-store-test-'));
+    filePath = path.join(tempDir, 'users.json');
+    store = new UserStore('test-encryption-key', filePath, 0);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should never write the access token to disk in plain text', async () => {
+    store.recordLogin(githubUser());
+    await store.flush();
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    expect(content).not.toContain('gho_secret');
+
+    const reloaded = new UserStore('test-encryption-key', filePath);
+    await reloaded.load();
+    expect(reloaded.getUser('github_123456')?.accessToken).toBe('gho_secret');
+  });
+
+  it('should keep createdAt and preferences across logins and restarts', async () => {
+    const first = store.recordLogin(githubUser());
+    store.updatePreferences('github_123456', { terminalTheme: TerminalTheme.LIGHT });
+    await store.flush();
+
+    const reloaded = new UserStore('test-encryption-key', filePath, 0);
+    await reloaded.load();
+    const second = reloaded.recordLogin(githubUser({ accessToken: 'gho_new' }));
+
+    expect(second.createdAt).toEqual(first.createdAt);
+    expect(second.preferences.terminalTheme).toBe(TerminalTheme.LIGHT);
+    expect(second.preferences.notifications.sessionExpiry).toBe(true);
+    expect(second.accessToken).toBe('gho_new');
+  });
+
+  it('should keep the JWT id stable across logins and rotate it on revocation', () => {
+    store.recordLogin(githubUser());
+    const tokenId = store.getTokenId('github_123456');
+
+    store.recordLogin(githubUser());
+    expect(store.getTokenId('github_123456')).toBe(tokenId);
+
+    expect(store.revokeToken('github_123456')).toBe(true);
+    expect(store.getTokenId('github_123456')).not.toBe(tokenId);
+    expect(store.getUser('github_123456')?.accessToken).toBe('');
+  });
+
+  it('should treat tokens encrypted with another key as missing', async () => {
+    store.recordLogin(githubUser());
+    await store.flush();
+
+    const reloaded = new UserStore('another-key', filePath);
+    await reloaded.load();
+
+    expect(reloaded.getUserByGithubId(123456)?.accessToken).toBe('');
+  });
+
+  it('should keep the amp API key encrypted, across logins and out of the request user', async () => {
+    store.recordLogin(githubUser());
+    store.setAmpApiKey('github_123456', 'sgamp_user_key_1234');
+    store.recordLogin(githubUser());
+    await store.flush();
+
+    expect(fs.readFileSync(filePath, 'utf-8')).not.toContain('sgamp_user_key_1234');
+    expect(store.getUser('github_123456')).not.toHaveProperty('encryptedAmpApiKey');
+
+    const reloaded = new UserStore('test-encryption-key', filePath);
+    await reloaded.load();
+    expect(reloaded.getAmpApiKey('github_123456')).toBe('sgamp_user_key_1234');
+    expect(reloaded.getAmpApiKeyStatus('github_123456')).toEqual({
+      configured: true,
+      hint: '1234',
+      updatedAt: expect.any(Date)
+    });
+
+    reloaded.clearAmpApiKey('github_123456');
+    expect(reloaded.getAmpApiKey('github_123456')).toBeUndefined();
+    expect(reloaded.getAmpApiKeyStatus('github_123456')).toEqual({ configured: false });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Per-session workspace volume lifecycle tests
+ */
+
+import { ContainerManager } from '../../docker/containerManager';
+import { CleanupService } from '../../services/cleanup';
+import { sessionStore } from '../../services/sessionStore';
+import { getSessionStatus } from '../../controllers/sessionController';
+import { Session, SessionStatus } from '../../models/Session';
+
+describe('workspace volumes', () => {
+  const sessionIds: string[] = [];
+  let containerManager: {
+    stopContainer: jest.Mock;
+    removeWorkspaceVolume: jest.Mock;
+    getContainerInfo: jest.Mock;
+    getWorkspaceSize: jest.Mock;
+  };
+  let cleanup: CleanupService | undefined;
+
+  const createSession = (id: string, overrides: Partial<Session> = {}) => {
+    sessionStore.createSession({
+      id,
+      userId: 'volume-user',
+      repositoryUrl: 'https://github.com/test/repo',
+      repositoryName: 'test/repo',
+      branch: 'main',
+      status: SessionStatus.RUNNING,
+      containerId: `container-${id}`,
+      createdAt: new Date(),
+      lastAccessedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      metadata: {},
+      ...overrides
+    });
+    sessionIds.push(id);
+  };
+
+  // The deletion listener works in a setImmediate callback with a few awaits inside
+  const flushCleanup = async () => {
+    for (let i = 0; i < 5; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    containerManager = {
+      stopContainer: jest.fn().mockResolvedValue(true),
+      removeWorkspaceVolume: jest.fn().mockResolvedValue(true),
+      getContainerInfo: jest.fn().mockResolvedValue({ id: 'c', name: 'c', status: 'running', created: '', ports: [] }),
+      getWorkspaceSize: jest.fn().mockResolvedValue(4096)
+    };
+    (ContainerManager as unknown as jest.Mock).mockImplementation(() => containerManager);
+  });
+
+  afterEach(() => {
+    cleanup?.destroy();
+    cleanup = undefined;
+    sessionIds.splice(0).forEach(id => sessionStore.deleteSession(id));
+  });
+
+  it('should remove the workspace volume after the container when a session is deleted', async () => {
+    cleanup = new CleanupService(sessionStore, containerManager as unknown as ContainerManager);
+    createSession('volume-1');
+
+    sessionStore.deleteSession('volume-1');
+    await flushCleanup();
+
+    expect(containerManager.stopContainer).toHaveBeenCalledWith('container-volume-1');
+    expect(containerManager.removeWorkspaceVolume).toHaveBeenCalledWith('volume-1');
+    expect(containerManager.stopContainer.mock.invocationCallOrder[0])
+      .toBeLessThan(containerManager.removeWorkspaceVolume.mock.invocationCallOrder[0]!);
+  });
+
+  it('should remove the workspace volume of stopped sessions too', async () => {
+    cleanup = new CleanupService(sessionStore, containerManager as unknown as ContainerManager);
+    createSession('volume-1', { status: SessionStatus.STOPPED });
+
+    sessionStore.deleteSession('volume-1');
+    await flushCleanup();
+
+    expect(containerManager.stopContainer).not.toHaveBeenCalled();
+    expect(containerManager.removeWorkspaceVolume).toHaveBeenCalledWith('volume-1');
+  });
+
+  it('should record the workspace size of running sessions', async () => {
+    createSession('volume-1');
+
+    const result = await getSessionStatus('volume-user', 'volume-1');
+    await flushCleanup();
+
+    expect(result.success).toBe(true);
+    expect(containerManager.getWorkspaceSize).toHaveBeenCalledWith('container-volume-1');
+    expect(sessionStore.getSession('volume-1')?.metadata.workspaceSize).toBe(4096);
+  });
+
+  it('should keep a hibernated session idle when its status is polled', async () => {
+    createSession('volume-1', { status: SessionStatus.IDLE });
+    containerManager.getContainerInfo.mockResolvedValue({ id: 'c', name: 'c', status: 'paused', created: '', ports: [] });
+
+    const result = await getSessionStatus('volume-user', 'volume-1');
+
+    expect(result.data?.status).toBe(SessionStatus.IDLE);
+    expect(sessionStore.getSession('volume-1')?.status).toBe(SessionStatus.IDLE);
+    expect(containerManager.getWorkspaceSize).not.toHaveBeenCalled();
+  });
+
+  it('should mark an idle session stopped once its container is gone', async () => {
+    createSession('volume-1', { status: SessionStatus.IDLE });
+    containerManager.getContainerInfo.mockResolvedValue(null);
+
+    await getSessionStatus('volume-user', 'volume-1');
+
+    expect(sessionStore.getSession('volume-1')?.status).toBe(SessionStatus.STOPPED);
+  });
+
+  it('should not measure the workspace again on every status poll', async () => {
+    createSession('volume-1');
+
+    await getSessionStatus('volume-user', 'volume-1');
+    await getSessionStatus('volume-user', 'volume-1');
+    await flushCleanup();
+
+    expect(containerManager.getWorkspaceSize).toHaveBeenCalledTimes(1);
+  });
+});
@@ -3,9 +3,10 @@
  */
 
 import request from 'supertest';
-import jwt from 'jsonwebtoken';
 import { createWebApp } from '../app';
 import { sessionStore } from '../services/sessionStore';
+import { userStore } from '../services/userStore';
+import { generateJWT } from '../auth/github';
 import { AuthenticatedUser, TerminalTheme, EditorTheme } from '../models/User';
 
 describe('Session API Endpoints', () => {
@@ -60,13 +61,9 @@ describe('Session API Endpoints', () => {
       }
     };
 
-    // Create JWT token
-    const jwtSecret = process.env.JWT_SECRET || 'amplify-dev-secret-key';
-    authToken = jwt.sign(testUser, jwtSecret, {
-      expiresIn: '1h',
-      issuer: 'amplify-web',
-      audience: 'amplify-users'
-    });
+    // Register the user and issue a JWT for it
+    userStore.recordLogin(testUser);
+    authToken = generateJWT(testUser);
   });
 
   beforeEach(() => {
@@ -29,6 +29,8 @@ jest.mock('../docker/containerManager', () => ({
     createContainer: jest.fn(),
     startContainer: jest.fn(),
     stopContainer: jest.fn(),
+    removeWorkspaceVolume: jest.fn().mockResolvedValue(true),
+    getWorkspaceSize: jest.fn().mockResolvedValue(null),
     cleanup: jest.fn()
   }))
 }));
@@ -0,0 +1,92 @@
+/**
+ * Structured logging and correlation ID tests
+ */
+
+import { EventEmitter } from 'events';
+import express from 'express';
+import request from 'supertest';
+import { Logger } from '../../utils/logger';
+import { runWithLogContext, setLogContext, bindLogContext } from '../../utils/logContext';
+import { requestLogger } from '../../server/middleware';
+
+describe('logger', () => {
+  const originalEnv = { ...process.env };
+  let logSpy: jest.SpyInstance;
+
+  /**
+   * Parse the JSON lines written to console.log
+   */
+  const jsonLines = () => logSpy.mock.calls.map(([line]) => JSON.parse(line));
+
+  beforeEach(() => {
+    process.env.LOG_FORMAT = 'json';
+    process.env.LOG_LEVEL = 'info';
+    delete process.env.DEBUG;
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+  });
+
+  it('should write one JSON object per line with level, component and context IDs', () => {
+    const logger = new Logger('Amplify').child('Sessions');
+
+    runWithLogContext({ requestId: 'req-1', sessionId: 'session-1' }, () => {
+      setLogContext({ userId: 'github_1' });
+      logger.info('Session started', { error: new Error('boom') });
+    });
+    logger.info('Outside');
+
+    const [inside, outside] = jsonLines();
+    expect(inside).toMatchObject({
+      level: 'info',
+      component: 'Amplify:Sessions',
+      message: 'Session started',
+      requestId: 'req-1',
+      sessionId: 'session-1',
+      userId: 'github_1',
+      details: { error: { name: 'Error', message: 'boom' } }
+    });
+    expect(outside.requestId).toBeUndefined();
+  });
+
+  it('should drop messages below LOG_LEVEL', () => {
+    const logger = new Logger('Test');
+
+    logger.debug('hidden');
+    process.env.LOG_LEVEL = 'debug';
+    logger.debug('shown');
+
+    expect(jsonLines().map(line => line.message)).toEqual(['shown']);
+  });
+
+  it('should keep context in listeners bound to it', () => {
+    const logger = new Logger('Test');
+    const socket = new EventEmitter();
+
+    runWithLogContext({ connectionId: 'thread_ws_1' }, () => {
+      socket.on('message', bindLogContext(() => logger.info('message received')));
+    });
+    socket.emit('message');
+
+    expect(jsonLines()[0].connectionId).toBe('thread_ws_1');
+  });
+
+  it('should tag requests with a request ID and echo it back', async () => {
+    const app = express();
+    app.use(requestLogger);
+    app.get('/ping', (_req, res) => {
+      new Logger('Route').info('handled');
+      res.json({ ok: true });
+    });
+
+    const generated = await request(app).get('/ping');
+    const forwarded = await request(app).get('/ping').set('X-Request-Id', 'upstream-42');
+
+    expect(generated.headers['x-request-id']).toEqual(expect.any(String));
+    expect(forwarded.headers['x-request-id']).toBe('upstream-42');
+    expect(jsonLines().map(line => line.requestId)).toEqual([generated.headers['x-request-id'], 'upstream-42']);
+  });
+});
@@ -0,0 +1,203 @@
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import { TerminalBridge } from '../../websocket/terminalBridge';
+import { DockerExecManager } from '../../docker/execManager';
+import { Session } from '../../models/Session';
+
+class FakeSocket extends EventEmitter {
+  readyState: number = WebSocket.OPEN;
+  send = jest.fn();
+  ping = jest.fn();
+  close = jest.fn(() => {
+    this.readyState = WebSocket.CLOSED;
+    this.emit('close');
+  });
+
+  messages(type?: string): any[] {
+    return this.send.mock.calls
+      .map(([raw]) => JSON.parse(raw))
+      .filter(message => !type || message.type === type);
+  }
+
+  output(): string {
+    return this.messages('output').map(message => message.data).join('');
+  }
+
+  lastState(): any {
+    return this.messages('state').pop()?.data;
+  }
+
+  receive(type: string, data: unknown): void {
+    this.emit('message', JSON.stringify({ type, data, timestamp: Date.now() }));
+  }
+}
+
+class FakeExecManager extends EventEmitter {
+  createExecSession = jest.fn(async (id: string) => ({ id, isActive: false }));
+  startExecSession = jest.fn(async () => new EventEmitter());
+  writeToSession = jest.fn(async () => true);
+  resizeSession = jest.fn(async () => undefined);
+  killSession = jest.fn(async () => undefined);
+  cleanup = jest.fn();
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('TerminalBridge shared terminals', () => {
+  const sessionId = 'shared-terminal-session';
+  let execManager: FakeExecManager;
+  let bridge: TerminalBridge;
+
+  const connect = async (access?: { userId: string; username: string; role: 'owner' | 'collaborator' | 'viewer' }) => {
+    const socket = new FakeSocket();
+    await bridge.handleConnection(socket as unknown as WebSocket, sessionId, {}, access);
+    await flush();
+    return socket;
+  };
+
+  const shellOutput = (text: string) => {
+    const shellSessionId = execManager.createExecSession.mock.calls[0]![0];
+    execManager.emit('output', shellSessionId, Buffer.from(text));
+  };
+
+  beforeEach(() => {
+    execManager = new FakeExecManager();
+    bridge = new TerminalBridge(execManager as unknown as DockerExecManager);
+  });
+
+  afterEach(() => {
+    bridge.cleanupAll();
+  });
+
+  it('attaches every client to one shell and fans output out', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    expect(execManager.createExecSession).toHaveBeenCalledTimes(1);
+    expect(bridge.getConnectionCount()).toBe(2);
+
+    shellOutput('hello from the shell');
+
+    expect(first.output()).toContain('hello from the shell');
+    expect(second.output()).toContain('hello from the shell');
+  });
+
+  it('replays scrollback to clients that join late', async () => {
+    await connect();
+    shellOutput('$ npm test\r\nall green\r\n');
+
+    const late = await connect();
+
+    expect(late.output()).toContain('$ npm test\r\nall green\r\n');
+  });
+
+  it('only writes input from the driver until the lock is handed over', async () => {
+    const owner = await connect({ userId: 'github_1', username: 'owner', role: 'owner' });
+    const pair = await connect({ userId: 'github_2', username: 'pairer', role: 'collaborator' });
+    const ownerId = owner.lastState().connectionId;
+    const pairId = pair.lastState().connectionId;
+
+    expect(pair.lastState()).toMatchObject({ driverId: ownerId, canDrive: true });
+
+    pair.receive('input', 'rm -rf /tmp/x\r');
+    await flush();
+    expect(execManager.writeToSession).not.toHaveBeenCalledWith(expect.anything(), 'rm -rf /tmp/x\r');
+
+    pair.receive('driver', { action: 'request' });
+    await flush();
+    expect(owner.lastState().requests).toEqual([pairId]);
+
+    owner.receive('driver', { action: 'handover', connectionId: pairId });
+    await flush();
+    expect(owner.lastState()).toMatchObject({ driverId: pairId, requests: [] });
+
+    pair.receive('input', 'ls\r');
+    owner.receive('input', 'whoami\r');
+    await flush();
+    expect(execManager.writeToSession).toHaveBeenCalledWith(expect.anything(), 'ls\r');
+    expect(execManager.writeToSession).not.toHaveBeenCalledWith(expect.anything(), 'whoami\r');
+  });
+
+  it('passes the lock to the next requester when the driver leaves', async () => {
+    const owner = await connect({ userId: 'github_1', username: 'owner', role: 'owner' });
+    const pair = await connect({ userId: 'github_2', username: 'pairer', role: 'collaborator' });
+    const pairId = pair.lastState().connectionId;
+
+    pair.receive('driver', { action: 'request' });
+    await flush();
+    owner.close();
+
+    expect(pair.lastState()).toMatchObject({ driverId: pairId, requests: [] });
+    expect(pair.lastState().clients).toEqual([{ connectionId: pairId, username: 'pairer', canDrive: true }]);
+  });
+
+  it('keeps viewers read-only', async () => {
+    const owner = await connect({ userId: 'github_1', username: 'owner', role: 'owner' });
+    const viewer = await connect({ userId: 'github_3', username: 'watcher', role: 'viewer' });
+
+    expect(viewer.output()).toContain('(read-only)');
+    expect(viewer.lastState()).toMatchObject({ canDrive: false, driverId: owner.lastState().connectionId });
+
+    viewer.receive('driver', { action: 'request' });
+    await flush();
+
+    expect(viewer.output()).toContain('Viewers cannot type in this terminal');
+    expect(owner.lastState().requests).toEqual([]);
+  });
+
+  it('follows share changes for clients already attached', async () => {
+    const owner = await connect({ userId: 'github_1', username: 'owner', role: 'owner' });
+    const pair = await connect({ userId: 'github_2', username: 'pairer', role: 'collaborator' });
+    const viewer = await connect({ userId: 'github_3', username: 'watcher', role: 'viewer' });
+    const pairId = pair.lastState().connectionId;
+
+    owner.receive('driver', { action: 'handover', connectionId: pairId });
+    await flush();
+
+    // The pairer is demoted to viewer and the watcher is removed
+    bridge.updateAccess({
+      id: sessionId,
+      userId: 'github_1',
+      shares: [{ username: 'Pairer', role: 'viewer', invitedBy: 'owner', invitedAt: new Date() }]
+    } as Session);
+
+    expect(viewer.output()).toContain('Your access to this session was removed');
+    expect(viewer.close).toHaveBeenCalled();
+    expect(owner.lastState().clients.map((client: any) => client.username)).toEqual(['owner', 'pairer']);
+    expect(pair.lastState()).toMatchObject({ canDrive: false, driverId: null });
+
+    pair.receive('input', 'ls\r');
+    await flush();
+    expect(execManager.writeToSession).not.toHaveBeenCalledWith(expect.anything(), 'ls\r');
+  });
+
+  it('sizes the shell to the smallest attached viewport', async () => {
+    const wide = await connect();
+    const narrow = await connect();
+
+    wide.receive('resize', { cols: 160, rows: 50 });
+    narrow.receive('resize', { cols: 80, rows: 60 });
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(execManager.resizeSession).toHaveBeenLastCalledWith(expect.anything(), 80, 50);
+    expect(wide.lastState().size).toEqual({ cols: 80, rows: 50 });
+
+    narrow.close();
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(execManager.resizeSession).toHaveBeenLastCalledWith(expect.anything(), 160, 50);
+  });
+
+  it('ends the shell when the last client leaves', async () => {
+    const first = await connect();
+    const second = await connect();
+    const shellSessionId = execManager.createExecSession.mock.calls[0]![0];
+
+    first.close();
+    expect(execManager.cleanup).not.toHaveBeenCalled();
+
+    second.close();
+    expect(execManager.cleanup).toHaveBeenCalledWith(shellSessionId);
+    expect(bridge.getSession(sessionId)).toBeUndefined();
+  });
+});
@@ -6,11 +6,14 @@ import * as os from 'os';
 import { ThreadWebSocketManager } from '../../websocket/threadWebSocket';
 import { sessionStore } from '../../services/sessionStore';
 import { threadStorage } from '../../services/threadStorage';
+import { ampService } from '../../services/ampService';
+import { gitOperationsService } from '../../services/gitOperations';
 import { MessageType } from '../../types/threadMessage';
 
 // Mock session store
 jest.mock('../../services/sessionStore');
 jest.mock('../../services/ampService');
+jest.mock('../../services/gitOperations');
 
 const mockSessionStore = {
   getSession: jest.fn(),
@@ -45,10 +48,13 @@ describe('ThreadWebSocketManager', () => {
 
     // Mock session store
     (sessionStore.getSession as jest.Mock) = mockSessionStore.getSession;
+    (sessionStore.getSessionThreads as jest.Mock).mockReturnValue([]);
+    (gitOperationsService.createSnapshot as jest.Mock).mockResolvedValue({ success: false, error: 'No container' });
     mockSessionStore.getSession.mockResolvedValue({
       id: 'test-session',
       userId: 'test-user',
       repositoryUrl: 'test-repo',
+      repositoryName: 'test/repo',
       branch: 'main',
       sessionName: 'Test Session',
       status: 'active' as any,
@@ -140,6 +146,38 @@ describe('ThreadWebSocketManager', () => {
       );
     });
 
+    it('should snapshot the workspace before amp starts the turn', async () => {
+      (gitOperationsService.createSnapshot as jest.Mock).mockResolvedValue({
+        success: true,
+        ref: 'refs/amplify/snapshots/abc'
+      });
+      (ampService.continueThread as jest.Mock).mockResolvedValue({ success: true });
+
+      await messageHandler(Buffer.from(JSON.stringify({
+        type: 'user_message',
+        data: { content: 'Refactor the parser', sessionId: 'test-session' }
+      })));
+
+      const [message] = (await threadStorage.getMessages('test-session', {}, 'thread_123')).messages;
+      expect(gitOperationsService.createSnapshot).toHaveBeenCalledWith('test-session', 'thread_123', message?.id);
+      expect(message?.metadata).toEqual({ snapshot_ref: 'refs/amplify/snapshots/abc' });
+      expect((gitOperationsService.createSnapshot as jest.Mock).mock.invocationCallOrder[0])
+        .toBeLessThan((ampService.continueThread as jest.Mock).mock.invocationCallOrder[0]!);
+    });
+
+    it('should still send the message when the snapshot fails', async () => {
+      (ampService.continueThread as jest.Mock).mockResolvedValue({ success: true });
+
+      await messageHandler(Buffer.from(JSON.stringify({
+        type: 'user_message',
+        data: { content: 'Refactor the parser', sessionId: 'test-session' }
+      })));
+
+      const [message] = (await threadStorage.getMessages('test-session', {}, 'thread_123')).messages;
+      expect(message?.metadata).toBeUndefined();
+      expect(ampService.continueThread).toHaveBeenCalledWith('thread_123', 'Refactor the parser', expect.any(Object));
+    });
+
     it('should handle ping messages', async () => {
       const pingMessage = {
         type: 'ping',
@@ -154,6 +192,31 @@ describe('ThreadWebSocketManager', () => {
       );
     });
 
+    it('should cancel a running amp turn and record it in the thread', async () => {
+      (ampService.cancelTurn as jest.Mock).mockResolvedValue(true);
+
+      await messageHandler(Buffer.from(JSON.stringify({ type: 'cancel' })));
+
+      expect(ampService.cancelTurn).toHaveBeenCalledWith('thread_123');
+      const messages = await threadStorage.getMessages('test-session', {}, 'thread_123');
+      expect(messages.messages).toEqual([
+        expect.objectContaining({ type: MessageType.SYSTEM, metadata: { type: 'turn_cancelled' } })
+      ]);
+      expect(mockWebSocket.send).toHaveBeenCalledWith(
+        expect.stringContaining('"message":"Turn cancelled"')
+      );
+    });
+
+    it('should report an error when cancelling with no turn running', async () => {
+      (ampService.cancelTurn as jest.Mock).mockResolvedValue(false);
+
+      await messageHandler(Buffer.from(JSON.stringify({ type: 'cancel' })));
+
+      expect(mockWebSocket.send).toHaveBeenCalledWith(
+        expect.stringContaining('No amp turn is running')
+      );
+    });
+
     it('should handle invalid JSON gracefully', async () => {
       await messageHandler(Buffer.from('invalid json'));
 
@@ -208,6 +271,114 @@ describe('ThreadWebSocketManager', () => {
     });
   });
 
+  describe('shared sessions', () => {
+    const createMockWebSocket = (): jest.Mocked<WebSocket> => ({
+      readyState: WebSocket.OPEN,
+      send: jest.fn(),
+      close: jest.fn(),
+      on: jest.fn(),
+      off: jest.fn(),
+      removeAllListeners: jest.fn()
+    } as any);
+
+    const getHandler = (ws: jest.Mocked<WebSocket>, event: string): Function =>
+      (ws.on as jest.Mock).mock.calls.find(call => call[0] === event)[1];
+
+    it('should broadcast thread messages to every client watching the session', async () => {
+      const viewerWebSocket = createMockWebSocket();
+      await manager.handleConnection(mockWebSocket, 'test-session', {});
+      await manager.handleConnection(viewerWebSocket, 'test-session', {}, { userId: 'viewer-user', username: 'viewer', role: 'viewer' });
+
+      (manager as any).broadcastThreadMessage('test-session', {
+        id: 'msg_shared',
+        type: MessageType.ASSISTANT,
+        content: 'Shared response',
+        timestamp: new Date()
+      });
+
+      expect(mockWebSocket.send).toHaveBeenCalledWith(expect.stringContaining('"id":"msg_shared"'));
+      expect(viewerWebSocket.send).toHaveBeenCalledWith(expect.stringContaining('"id":"msg_shared"'));
+    });
+
+    it('should not let viewers send messages or cancel turns', async () => {
+      const viewerWebSocket = createMockWebSocket();
+      await manager.handleConnection(viewerWebSocket, 'test-session', {}, { userId: 'viewer-user', username: 'viewer', role: 'viewer' });
+      const messageHandler = getHandler(viewerWebSocket, 'message');
+
+      await messageHandler(Buffer.from(JSON.stringify({
+        type: 'user_message',
+        data: { content: 'Let me drive', sessionId: 'test-session' }
+      })));
+      await messageHandler(Buffer.from(JSON.stringify({ type: 'cancel' })));
+
+      expect(ampService.continueThread).not.toHaveBeenCalled();
+      expect(ampService.cancelTurn).not.toHaveBeenCalled();
+      expect(viewerWebSocket.send).toHaveBeenCalledWith(expect.stringContaining('Viewers cannot send messages'));
+      expect(viewerWebSocket.send).toHaveBeenCalledWith(expect.stringContaining('Viewers cannot cancel amp turns'));
+    });
+
+    it('should keep other clients connected when one leaves', async () => {
+      const collaboratorWebSocket = createMockWebSocket();
+      await manager.handleConnection(mockWebSocket, 'test-session', {});
+      await manager.handleConnection(collaboratorWebSocket, 'test-session', {}, { userId: 'pair-user', username: 'pairer', role: 'collaborator' });
+
+      getHandler(mockWebSocket, 'close')();
+      (manager as any).handleThreadSwitch('test-session', 'thread_456');
+
+      expect(manager.getStats().activeConnections).toBe(1);
+      expect(collaboratorWebSocket.send).toHaveBeenCalledWith(
+        JSON.stringify({ type: 'thread_switched', data: { threadId: 'thread_456' } })
+      );
+    });
+
+    it('should follow share changes for clients already connected', async () => {
+      const viewerWebSocket = createMockWebSocket();
+      const pairWebSocket = createMockWebSocket();
+      await manager.handleConnection(viewerWebSocket, 'test-session', {}, { userId: 'viewer-user', username: 'viewer', role: 'viewer' });
+      await manager.handleConnection(pairWebSocket, 'test-session', {}, { userId: 'pair-user', username: 'pairer', role: 'collaborator' });
+
+      // The pairer is demoted to viewer and the viewer is removed
+      (manager as any).handleSessionUpdated(
+        { id: 'test-session', userId: 'test-user', shares: [{ username: 'Pairer', role: 'viewer' }] },
+        { shares: [] }
+      );
+
+      expect(viewerWebSocket.send).toHaveBeenCalledWith(expect.stringContaining('Your access to this session was removed'));
+      expect(viewerWebSocket.close).toHaveBeenCalled();
+      expect(manager.getStats().activeConnections).toBe(1);
+
+      await getHandler(pairWebSocket, 'message')(Buffer.from(JSON.stringify({
+        type: 'user_message',
+        data: { content: 'Still driving?', sessionId: 'test-session' }
+      })));
+
+      expect(ampService.continueThread).not.toHaveBeenCalled();
+      expect(pairWebSocket.send).toHaveBeenCalledWith(expect.stringContaining('Viewers cannot send messages'));
+    });
+  });
+
+  describe('thread switching', () => {
+    it('should tell the client when the active thread changes', async () => {
+      await manager.handleConnection(mockWebSocket, 'test-session', {});
+      (mockWebSocket.send as jest.Mock).mockClear();
+
+      (manager as any).handleThreadSwitch('test-session', 'thread_456');
+
+      expect(mockWebSocket.send).toHaveBeenCalledWith(
+        JSON.stringify({ type: 'thread_switched', data: { threadId: 'thread_456' } })
+      );
+    });
+
+    it('should ignore switches to the thread already being followed', async () => {
+      await manager.handleConnection(mockWebSocket, 'test-session', {});
+      (mockWebSocket.send as jest.Mock).mockClear();
+
+      (manager as any).handleThreadSwitch('test-session', 'thread_123');
+
+      expect(mockWebSocket.send).not.toHaveBeenCalled();
+    });
+  });
+
   describe('session management', () => {
     it('should track active sessions', async () => {
       expect(manager.getStats().activeConnections).toBe(0);
@@ -3,8 +3,9 @@
  */
 
 import express from 'express';
-import { createServer } from 'http';
-import { WebSocketServer } from 'ws';
+import { createServer, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
 import cookieParser from 'cookie-parser';
 import compression from 'compression';
 import helmet from 'helmet';
@@ -12,12 +13,20 @@ import passport from 'passport';
 
 import webConfig, { validateConfig } from './config/webConfig';
 import { sessionStore } from './services/sessionStore';
+import { userStore } from './services/userStore';
+import { templateStore } from './services/templateStore';
+import { secretStore } from './services/secretStore';
 import { CleanupService } from './services/cleanup';
 import { ContainerManager } from './docker/containerManager';
+import { networkManager } from './docker/networkManager';
 import { DockerExecManager } from './docker/execManager';
 import { TerminalBridge } from './websocket/terminalBridge';
 import { threadWebSocketManager } from './websocket/threadWebSocket';
 import { logger } from './utils/logger';
+import { runWithLogContext } from './utils/logContext';
+import { metrics } from './services/metrics';
+import { getSessionRole } from './services/sessionAccess';
+import { Session } from './models/Session';
 
 import {
   requestLogger,
@@ -30,14 +39,21 @@ import {
   createRateLimiter
 } from './server/middleware';
 
-import { authenticateUser, logAuthEvents } from './middleware/auth';
+import { authenticateUser, authenticateUpgradeRequest, logAuthEvents } from './middleware/auth';
 import authRoutes from './routes/auth';
 import githubRoutes from './routes/github';
 import sessionRoutes from './routes/sessions';
 import gitRoutes from './routes/git';
 import diffRoutes from './routes/diff';
+import recordingRoutes from './routes/recordings';
 import threadRoutes from './routes/threads';
+import previewRoutes, { handlePreviewUpgrade } from './routes/preview';
 import devThreadRoutes from './routes/devThreads';
+import templateRoutes from './routes/templates';
+import secretRoutes from './routes/secrets';
+import metricsRoutes from './routes/metrics';
+import { createAdminRoutes } from './routes/admin';
+import noticeRoutes from './routes/notices';
 
 const appLogger = logger.child('WebApp');
 
@@ -83,6 +99,10 @@ export class WebApp {
       this.app.set('trust proxy', 1);
     }
 
+    // Preview traffic is proxied ahead of the security headers, rate limiting and body parsing,
+    // all of which would alter the previewed server's requests and responses
+    this.app.use('/api/sessions', cookieParser(webConfig.security.cookieSecret), previewRoutes);
+
     // Security middleware
     if (!webConfig.development.isDevelopment) {
       this.app.use(helmet({
@@ -96,7 +116,7 @@ export class WebApp {
             fontSrc: ["'self'"],
             objectSrc: ["'none'"],
             mediaSrc: ["'self'"],
-            frameSrc: ["'none'"]
+            frameSrc: ["'self'"] // session previews
           }
         }
       }));
@@ -208,10 +228,29 @@ export class WebApp {
     
     // Diff routes for Monaco editor
     this.app.use('/api/sessions', diffRoutes);
+
+    // Terminal recording playback
+    this.app.use('/api/sessions', recordingRoutes);
+    
+    // Session template routes
+    this.app.use('/api/templates', templateRoutes);
+    
+    // User secret routes
+    this.app.use('/api/secrets', secretRoutes);
+    
+    // Maintenance notices and the admin console
+    this.app.use('/api/notices', noticeRoutes);
+    this.app.use('/api/admin', createAdminRoutes(this.cleanupService));
     
     // Thread message routes
     this.app.use('/api', threadRoutes);
     
+    // Prometheus scrape endpoint
+    if (webConfig.metrics.enabled) {
+      this.registerMetricCollectors();
+      this.app.use('/metrics', metricsRoutes);
+    }
+    
     // Development thread routes (no authentication required)
     if (webConfig.development.isDevelopment) {
       appLogger.info('Mounting development thread routes at /api/dev/thread');
@@ -223,6 +262,40 @@ export class WebApp {
     appLogger.info('Routes configured');
   }
 
+  /**
+   * Gauges read from the stores and connection managers at scrape time
+   */
+  private registerMetricCollectors(): void {
+    metrics.gauge('amplify_sessions', 'Sessions by status', () =>
+      Object.entries(sessionStore.getStatusCounts()).map(([status, value]) => ({ labels: { status }, value }))
+    );
+
+    metrics.gauge('amplify_session_connections', 'Connections registered against sessions', () => {
+      const stats = sessionStore.getStats();
+      return [
+        { labels: { state: 'active' }, value: stats.activeConnections },
+        { labels: { state: 'inactive' }, value: stats.totalConnections - stats.activeConnections }
+      ];
+    });
+
+    metrics.gauge('amplify_sessions_with_threads', 'Sessions with an amp thread, by whether it can be used', () => {
+      const stats = sessionStore.getThreadAssociationStats();
+      return [
+        { labels: { state: 'active' }, value: stats.activeThreads },
+        { labels: { state: 'orphaned' }, value: stats.orphanedThreads }
+      ];
+    });
+
+    metrics.gauge('amplify_websocket_connections', 'Open WebSocket connections by type', () => [
+      { labels: { type: 'terminal' }, value: this.terminalBridge?.getConnectionCount() ?? 0 },
+      { labels: { type: 'thread' }, value: threadWebSocketManager.getStats().activeConnections }
+    ]);
+
+    metrics.gauge('amplify_cleanup_running', 'Whether the session cleanup service is running', () => [
+      { labels: {}, value: this.cleanupService.getStats().isRunning ? 1 : 0 }
+    ]);
+  }
+
   /**
    * Setup WebSocket server for terminal and thread connections
    */
@@ -232,8 +305,17 @@ export class WebApp {
     }
 
     // Create WebSocket server (no path restriction to handle /ws/:sessionId)
-    this.wss = new WebSocketServer({
-      server: this.server
+    this.wss = new WebSocketServer({ noServer: true });
+
+    // Preview WebSockets are proxied into the session container; everything else is ours
+    this.server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (handlePreviewUpgrade(request, socket, head)) {
+        return;
+      }
+
+      this.wss!.handleUpgrade(request, socket, head, ws => {
+        this.wss!.emit('connection', ws, request);
+      });
     });
 
     // Create default Docker exec manager for fallback
@@ -244,61 +326,23 @@ export class WebApp {
     // Initialize terminal bridge
     this.terminalBridge = new TerminalBridge(defaultExecManager);
 
-    this.wss.on('connection', async (ws, request) => {
-      try {
-        // Only handle WebSocket connections for /ws paths
-        const url = request.url || '';
-        if (!url.startsWith('/ws')) {
-          appLogger.warn('WebSocket connection attempted on non-/ws path', { url });
-          ws.close();
-          return;
-        }
-
-        const clientInfo = {
-          ...(request.socket.remoteAddress && { remoteAddress: request.socket.remoteAddress }),
-          ...(request.headers['user-agent'] && { userAgent: request.headers['user-agent'] })
-        };
-
-        // Route to appropriate handler based on URL path
-        if (url.startsWith('/ws/thread/')) {
-          // Thread WebSocket connection: /ws/thread/:sessionId
-          const sessionIdMatch = url.match(/^\/ws\/thread\/([^/?]+)/);
-          const sessionId = sessionIdMatch ? sessionIdMatch[1] : undefined;
-
-          const wsSessionId = await threadWebSocketManager.handleConnection(
-            ws, 
-            sessionId, 
-            clientInfo
-          );
-          
-          appLogger.info(`WebSocket thread connection established: ${wsSessionId}`, {
-            sessionId,
-            clientIp: request.socket.remoteAddress,
-            userAgent: request.headers['user-agent']
-          });
-        } else {
-          // Terminal WebSocket connection: /ws/:sessionId
-          const sessionIdMatch = url.match(/^\/ws\/([^/?]+)/);
-          const sessionId = sessionIdMatch ? sessionIdMatch[1] : undefined;
-
-          const actualSessionId = await this.terminalBridge!.handleConnection(
-            ws, 
-            sessionId, 
-            clientInfo
-          );
-          
-          appLogger.info(`WebSocket terminal connection established: ${actualSessionId}`, {
-            requestedSessionId: sessionId,
-            clientIp: request.socket.remoteAddress,
-            userAgent: request.headers['user-agent']
-          });
-        }
-      } catch (error) {
-        appLogger.error('Failed to handle WebSocket connection:', error);
-        ws.close();
+    // Shells follow the session's shares, so revoked users cannot keep typing
+    sessionStore.on('sessionUpdated', (session: Session, updates: Partial<Session>) => {
+      if ('shares' in updates) {
+        this.terminalBridge?.updateAccess(session);
       }
     });
 
+    this.wss.on('connection', (ws, request) => {
+      // Tag everything the connection logs with who opened it and for which session
+      const sessionId = (request.url || '').match(/^\/ws\/(?:thread\/)?([^/?]+)/)?.[1];
+      const userId = authenticateUpgradeRequest(request)?.id;
+      runWithLogContext({
+        ...(sessionId && { sessionId }),
+        ...(userId && { userId })
+      }, () => this.handleWebSocketConnection(ws, request));
+    });
+
     // Set up periodic ping to keep connections alive
     const pingInterval = setInterval(() => {
       if (this.terminalBridge) {
@@ -314,6 +358,81 @@ export class WebApp {
     appLogger.info('WebSocket server configured with terminal bridge');
   }
 
+  /**
+   * Route a WebSocket connection to the thread or terminal handler
+   */
+  private async handleWebSocketConnection(ws: WebSocket, request: IncomingMessage): Promise<void> {
+    try {
+      // Only handle WebSocket connections for /ws paths
+      const url = request.url || '';
+      if (!url.startsWith('/ws')) {
+        appLogger.warn('WebSocket connection attempted on non-/ws path', { url });
+        ws.close();
+        return;
+      }
+
+      const clientInfo = {
+        ...(request.socket.remoteAddress && { remoteAddress: request.socket.remoteAddress }),
+        ...(request.headers['user-agent'] && { userAgent: request.headers['user-agent'] })
+      };
+
+      // Connections to a session need its owner or someone it was shared with
+      const requestedSessionId = url.match(/^\/ws\/(?:thread\/)?([^/?]+)/)?.[1];
+      const session = requestedSessionId ? sessionStore.getSession(requestedSessionId) : null;
+      const user = authenticateUpgradeRequest(request);
+      const role = session && user ? getSessionRole(session, user) : null;
+      if (session && !role) {
+        appLogger.warn('WebSocket connection refused without access to the session', {
+          sessionId: requestedSessionId,
+          userId: user?.id
+        });
+        ws.close();
+        return;
+      }
+      const access = user && role ? { userId: user.id, username: user.username, role } : undefined;
+
+      // Route to appropriate handler based on URL path
+      if (url.startsWith('/ws/thread/')) {
+        // Thread WebSocket connection: /ws/thread/:sessionId
+        const sessionIdMatch = url.match(/^\/ws\/thread\/([^/?]+)/);
+        const sessionId = sessionIdMatch ? sessionIdMatch[1] : undefined;
+
+        const wsSessionId = await threadWebSocketManager.handleConnection(
+          ws, 
+          sessionId, 
+          clientInfo,
+          access
+        );
+        
+        appLogger.info(`WebSocket thread connection established: ${wsSessionId}`, {
+          sessionId,
+          clientIp: request.socket.remoteAddress,
+          userAgent: request.headers['user-agent']
+        });
+      } else {
+        // Terminal WebSocket connection: /ws/:sessionId
+        const sessionIdMatch = url.match(/^\/ws\/([^/?]+)/);
+        const sessionId = sessionIdMatch ? sessionIdMatch[1] : undefined;
+
+        const actualSessionId = await this.terminalBridge!.handleConnection(
+          ws, 
+          sessionId, 
+          clientInfo,
+          access
+        );
+        
+        appLogger.info(`WebSocket terminal connection established: ${actualSessionId}`, {
+          requestedSessionId: sessionId,
+          clientIp: request.socket.remoteAddress,
+          userAgent: request.headers['user-agent']
+        });
+      }
+    } catch (error) {
+      appLogger.error('Failed to handle WebSocket connection:', error);
+      ws.close();
+    }
+  }
+
   /**
    * Setup error handling middleware
    */
@@ -332,6 +451,18 @@ export class WebApp {
    */
   async start(): Promise<{ success: boolean; url?: string; error?: string }> {
     try {
+      // Reload persisted users and sessions before requests or cleanup can act on them
+      await userStore.load();
+      await templateStore.load();
+      await secretStore.load();
+      await sessionStore.restore(this.containerManager);
+
+      // Create the session network up front; container creation retries if docker is not ready yet
+      const network = await this.containerManager.ensureNetwork();
+      if (!network.success) {
+        appLogger.warn('Session network is not ready', { error: network.error });
+      }
+
       // Start cleanup service
       this.cleanupService.start();
 
@@ -386,6 +517,15 @@ export class WebApp {
     // Shutdown thread WebSocket manager
     threadWebSocketManager.shutdown();
 
+    // Stop the egress proxy
+    await networkManager.shutdown();
+
+    // Persist any pending session changes
+    await sessionStore.flush();
+    await userStore.flush();
+    await templateStore.flush();
+    await secretStore.flush();
+
     // Close HTTP server
     if (this.server) {
       await new Promise<void>(resolve => {
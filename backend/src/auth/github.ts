@@ -9,6 +9,7 @@ import { Request, Response } from 'express';
 
 import webConfig from '../config/webConfig';
 import { User, AuthenticatedUser, TerminalTheme, EditorTheme } from '../models/User';
+import { userStore } from '../services/userStore';
 import { logger } from '../utils/logger';
 
 const authLogger = logger.child('GitHubAuth');
@@ -48,8 +49,10 @@ export function initializeGitHubStrategy(): void {
         username: profile.username
       });
 
-      // Create user object from GitHub profile
-      const user = await createUserFromGitHubProfile(profile, accessToken, refreshToken);
+      // Create user object from GitHub profile and merge it with what we already know
+      const user = userStore.recordLogin(
+        await createUserFromGitHubProfile(profile, accessToken, refreshToken)
+      );
       
       authLogger.info('User authenticated successfully', {
         id: user.id,
@@ -71,9 +74,7 @@ export function initializeGitHubStrategy(): void {
   // Deserialize user from session
   passport.deserializeUser(async (id: string, done) => {
     try {
-      // In a real app, you'd fetch from database
-      // For now, we'll just pass through the user
-      done(null, { id });
+      done(null, userStore.getUser(id));
     } catch (error) {
       done(error, null);
     }
@@ -140,26 +141,21 @@ async function createUserFromGitHubProfile(
 
 /**
  * Generate JWT token for authenticated user
+ *
+ * The token only identifies the user; profile, preferences and the GitHub
+ * access token are loaded from the user store on each request.
  */
 export function generateJWT(user: AuthenticatedUser): string {
-  const payload = {
-    id: user.id,
-    githubId: user.githubId,
-    username: user.username,
-    email: user.email,
-    name: user.name,
-    avatarUrl: user.avatarUrl,
-    accessToken: user.accessToken,
-    scopes: user.scopes,
-    profile: user.profile,
-    preferences: user.preferences,
-    iat: Math.floor(Date.now() / 1000)
-  };
+  const tokenId = userStore.getTokenId(user.id);
+  if (!tokenId) {
+    throw new Error(`Cannot issue a token for unknown user ${user.id}`);
+  }
 
-  return jwt.sign(payload, webConfig.security.jwtSecret, {
+  return jwt.sign({ id: user.id }, webConfig.security.jwtSecret, {
     expiresIn: '7d',
     issuer: 'amplify-web',
-    audience: 'amplify-users'
+    audience: 'amplify-users',
+    jwtid: tokenId
   });
 }
 
@@ -8,6 +8,75 @@ import { resolve } from 'path';
 // Load environment variables
 config();
 
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  m: 1024 * 1024,
+  g: 1024 * 1024 * 1024
+};
+
+/**
+ * Convert a docker-style size such as '512m' or '2g' to bytes. Returns NaN if it can't be parsed.
+ */
+export function parseSize(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)([bkmg]?)$/);
+  if (!match) {
+    return NaN;
+  }
+
+  return Math.round(parseFloat(match[1]!) * SIZE_UNITS[match[2] || 'b']!);
+}
+
+/**
+ * Parse a JSON object from an environment variable, falling back to an empty object
+ */
+function parseJsonEnv<T>(value: string | undefined): Record<string, T> {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Parse a comma separated list of key=value pairs
+ */
+function parsePairsEnv(value: string | undefined): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const entry of (value || '').split(',')) {
+    const [key, pairValue] = entry.split('=').map(part => part.trim());
+    if (key && pairValue) {
+      pairs[key] = pairValue;
+    }
+  }
+  return pairs;
+}
+
+export interface ContainerResourceLimits {
+  memory: string; // e.g. '2g'
+  cpus: string; // e.g. '1.5'
+  pidsLimit: number;
+  diskQuota: string; // e.g. '10g'; empty for none. Needs a storage driver that supports size limits
+  networkMode: string;
+}
+
+export interface UserResourceQuota {
+  memory: string; // combined memory of all of a user's live sessions
+  cpus: string; // combined CPUs of all of a user's live sessions
+}
+
+export type EgressMode = 'full' | 'allowlist' | 'none';
+
+export interface ContainerTier {
+  resourceLimits?: Partial<ContainerResourceLimits>;
+  userQuota?: Partial<UserResourceQuota>;
+}
+
 export interface WebConfig {
   server: {
     port: number;
@@ -20,18 +89,51 @@ export interface WebConfig {
     defaultTTL: number; // Session TTL in milliseconds
     maxSessionsPerUser: number;
     cleanupInterval: number; // Cleanup interval in milliseconds
+    idleTimeout: number; // Hibernate sessions with no connections for this long (ms); 0 disables
+    idleAction: 'pause' | 'stop'; // pause keeps memory, stop frees it; both keep the container's files
+    persistence: {
+      backend: 'memory' | 'file';
+      filePath: string;
+    };
+  };
+
+  users: {
+    backend: 'memory' | 'file';
+    filePath: string;
+  };
+
+  templates: {
+    backend: 'memory' | 'file';
+    filePath: string;
+  };
+
+  secrets: {
+    backend: 'memory' | 'file';
+    filePath: string;
   };
   
   container: {
     baseImage: string;
+    allowedImages: string[]; // images .amplify.yml may ask for besides the base image; 'registry/org/*' matches a prefix
     networkName: string;
-    resourceLimits: {
-      memory: string;
-      cpus: string;
+    egress: {
+      mode: EgressMode; // full: unrestricted, allowlist: via the egress proxy only, none: GitHub and amp only
+      allowlist: string[]; // hostnames besides GitHub and amp, which are always allowed; '*.example.com' matches subdomains
+      proxyPort: number;
     };
+    resourceLimits: ContainerResourceLimits;
+    userQuota: UserResourceQuota;
+    tiers: Record<string, ContainerTier>; // named tiers that raise or lower the defaults
+    userTiers: Record<string, string>; // GitHub username -> tier name
     gracefulShutdownTimeout: number;
   };
   
+  amp: {
+    sharedApiKey?: string | undefined; // server-wide key, only used for users allowed below
+    sharedKeyUsers: string[]; // GitHub usernames that may fall back to the shared key; '*' for everyone
+    keyValidationUrl: string; // requested with a user's key to check it before it is stored
+  };
+  
   github: {
     clientId: string;
     clientSecret: string;
@@ -42,6 +144,7 @@ export interface WebConfig {
   security: {
     jwtSecret: string;
     cookieSecret: string;
+    encryptionKey: string; // Key for secrets stored at rest (e.g. GitHub tokens)
     cookieMaxAge: number; // Cookie max age in milliseconds
     rateLimiting: {
       windowMs: number;
@@ -49,6 +152,16 @@ export interface WebConfig {
     };
   };
   
+  admin: {
+    usernames: string[]; // GitHub usernames with admin access
+    orgs: string[]; // members of these GitHub organizations are admins too
+  };
+  
+  metrics: {
+    enabled: boolean;
+    token?: string | undefined; // when set, scrapes must send it as a bearer token
+  };
+  
   development: {
     isDevelopment: boolean;
     enableDebugLogs: boolean;
@@ -67,19 +180,64 @@ const webConfig: WebConfig = {
   session: {
     defaultTTL: parseInt(process.env.SESSION_TTL || '14400000', 10), // 4 hours
     maxSessionsPerUser: parseInt(process.env.MAX_SESSIONS_PER_USER || '10', 10),
-    cleanupInterval: parseInt(process.env.CLEANUP_INTERVAL || '300000', 10) // 5 minutes
+    cleanupInterval: parseInt(process.env.CLEANUP_INTERVAL || '300000', 10), // 5 minutes
+    idleTimeout: parseInt(process.env.SESSION_IDLE_TIMEOUT || '1800000', 10), // 30 minutes
+    idleAction: (process.env.SESSION_IDLE_ACTION || 'pause') as 'pause' | 'stop',
+    persistence: {
+      backend: (process.env.SESSION_STORE_BACKEND || (process.env.NODE_ENV === 'test' ? 'memory' : 'file')) as 'memory' | 'file',
+      filePath: process.env.SESSION_STORE_PATH || resolve(process.env.DATA_DIR || '/tmp/amplify-data', 'sessions.json')
+    }
+  },
+
+  users: {
+    backend: (process.env.USER_STORE_BACKEND || (process.env.NODE_ENV === 'test' ? 'memory' : 'file')) as 'memory' | 'file',
+    filePath: process.env.USER_STORE_PATH || resolve(process.env.DATA_DIR || '/tmp/amplify-data', 'users.json')
+  },
+
+  templates: {
+    backend: (process.env.TEMPLATE_STORE_BACKEND || (process.env.NODE_ENV === 'test' ? 'memory' : 'file')) as 'memory' | 'file',
+    filePath: process.env.TEMPLATE_STORE_PATH || resolve(process.env.DATA_DIR || '/tmp/amplify-data', 'templates.json')
+  },
+
+  secrets: {
+    backend: (process.env.SECRET_STORE_BACKEND || (process.env.NODE_ENV === 'test' ? 'memory' : 'file')) as 'memory' | 'file',
+    filePath: process.env.SECRET_STORE_PATH || resolve(process.env.DATA_DIR || '/tmp/amplify-data', 'secrets.json')
   },
   
   container: {
     baseImage: process.env.DOCKER_BASE_IMAGE || 'amplify-base:latest',
+    allowedImages: (process.env.CONTAINER_ALLOWED_IMAGES || '')
+      .split(',').map(image => image.trim()).filter(Boolean),
     networkName: process.env.DOCKER_NETWORK || 'amplify-network',
+    egress: {
+      mode: (process.env.CONTAINER_EGRESS_MODE || 'full') as EgressMode,
+      allowlist: (process.env.CONTAINER_EGRESS_ALLOWLIST ||
+        'github.com,*.github.com,*.githubusercontent.com,ampcode.com,*.ampcode.com,registry.npmjs.org'
+      ).split(',').map(host => host.trim()).filter(Boolean),
+      proxyPort: parseInt(process.env.CONTAINER_EGRESS_PROXY_PORT || '3128', 10)
+    },
     resourceLimits: {
       memory: process.env.CONTAINER_MEMORY_LIMIT || '2g',
-      cpus: process.env.CONTAINER_CPU_LIMIT || '1.0'
+      cpus: process.env.CONTAINER_CPU_LIMIT || '1.0',
+      pidsLimit: parseInt(process.env.CONTAINER_PIDS_LIMIT || '512', 10),
+      diskQuota: process.env.CONTAINER_DISK_QUOTA || '',
+      networkMode: process.env.CONTAINER_NETWORK_MODE || process.env.DOCKER_NETWORK || 'amplify-network'
     },
+    userQuota: {
+      memory: process.env.USER_QUOTA_MEMORY || '8g',
+      cpus: process.env.USER_QUOTA_CPUS || '4'
+    },
+    tiers: parseJsonEnv<ContainerTier>(process.env.CONTAINER_TIERS),
+    userTiers: parsePairsEnv(process.env.CONTAINER_USER_TIERS),
     gracefulShutdownTimeout: parseInt(process.env.CONTAINER_SHUTDOWN_TIMEOUT || '30000', 10)
   },
   
+  amp: {
+    sharedApiKey: process.env.AMP_API_KEY || undefined,
+    sharedKeyUsers: (process.env.AMP_SHARED_KEY_USERS || '').split(',').map(user => user.trim()).filter(Boolean),
+    keyValidationUrl: process.env.AMP_KEY_VALIDATION_URL || `${process.env.AMP_URL || 'https://ampcode.com'}/api/user`
+  },
+  
   github: {
     clientId: process.env.GITHUB_CLIENT_ID || '',
     clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
@@ -90,6 +248,7 @@ const webConfig: WebConfig = {
   security: {
     jwtSecret: process.env.JWT_SECRET || 'your-jwt-secret-change-this',
     cookieSecret: process.env.COOKIE_SECRET || 'your-cookie-secret-change-this',
+    encryptionKey: process.env.ENCRYPTION_KEY || 'your-encryption-key-change-this',
     cookieMaxAge: parseInt(process.env.COOKIE_MAX_AGE || '604800000', 10), // 7 days
     rateLimiting: {
       windowMs: parseInt(process.env.RATE_LIMIT_WINDOW || '60000', 10), // 1 minute
@@ -97,6 +256,16 @@ const webConfig: WebConfig = {
     }
   },
   
+  admin: {
+    usernames: (process.env.ADMIN_USERS || '').split(',').map(user => user.trim()).filter(Boolean),
+    orgs: (process.env.ADMIN_ORGS || '').split(',').map(org => org.trim()).filter(Boolean)
+  },
+  
+  metrics: {
+    enabled: process.env.METRICS_ENABLED !== 'false',
+    token: process.env.METRICS_TOKEN || undefined
+  },
+  
   development: {
     isDevelopment: process.env.NODE_ENV !== 'production',
     enableDebugLogs: process.env.DEBUG_LOGS === 'true',
@@ -128,6 +297,14 @@ export function validateConfig(): { isValid: boolean; errors: string[] } {
     if (webConfig.security.cookieSecret === 'your-cookie-secret-change-this') {
       errors.push('COOKIE_SECRET must be set in production');
     }
+
+    if (webConfig.security.encryptionKey === 'your-encryption-key-change-this') {
+      errors.push('ENCRYPTION_KEY must be set in production');
+    }
+
+    if (webConfig.metrics.enabled && !webConfig.metrics.token) {
+      errors.push('METRICS_TOKEN must be set in production, or disable metrics with METRICS_ENABLED=false');
+    }
   }
   
   // Validate port range
@@ -143,6 +320,72 @@ export function validateConfig(): { isValid: boolean; errors: string[] } {
   if (webConfig.session.maxSessionsPerUser < 1) {
     errors.push('MAX_SESSIONS_PER_USER must be at least 1');
   }
+
+  if (isNaN(webConfig.session.idleTimeout) || webConfig.session.idleTimeout < 0) {
+    errors.push('SESSION_IDLE_TIMEOUT must be 0 (disabled) or a positive number of milliseconds');
+  }
+
+  if (!['pause', 'stop'].includes(webConfig.session.idleAction)) {
+    errors.push('SESSION_IDLE_ACTION must be "pause" or "stop"');
+  }
+
+  if (!['memory', 'file'].includes(webConfig.session.persistence.backend)) {
+    errors.push('SESSION_STORE_BACKEND must be "memory" or "file"');
+  }
+
+  if (!['memory', 'file'].includes(webConfig.users.backend)) {
+    errors.push('USER_STORE_BACKEND must be "memory" or "file"');
+  }
+
+  if (!['memory', 'file'].includes(webConfig.templates.backend)) {
+    errors.push('TEMPLATE_STORE_BACKEND must be "memory" or "file"');
+  }
+
+  if (!['memory', 'file'].includes(webConfig.secrets.backend)) {
+    errors.push('SECRET_STORE_BACKEND must be "memory" or "file"');
+  }
+
+  // Validate container limits
+  if (!(parseSize(webConfig.container.resourceLimits.memory) > 0)) {
+    errors.push('CONTAINER_MEMORY_LIMIT must be a size such as 512m or 2g');
+  }
+
+  if (!(parseFloat(webConfig.container.resourceLimits.cpus) > 0)) {
+    errors.push('CONTAINER_CPU_LIMIT must be a positive number');
+  }
+
+  if (webConfig.container.resourceLimits.diskQuota && !(parseSize(webConfig.container.resourceLimits.diskQuota) > 0)) {
+    errors.push('CONTAINER_DISK_QUOTA must be a size such as 10g');
+  }
+
+  if (!(parseSize(webConfig.container.userQuota.memory) > 0) || !(parseFloat(webConfig.container.userQuota.cpus) > 0)) {
+    errors.push('USER_QUOTA_MEMORY and USER_QUOTA_CPUS must be positive');
+  }
+
+  if (!(webConfig.container.resourceLimits.pidsLimit > 0)) {
+    errors.push('CONTAINER_PIDS_LIMIT must be at least 1');
+  }
+
+  if (process.env.CONTAINER_TIERS && Object.keys(webConfig.container.tiers).length === 0) {
+    errors.push('CONTAINER_TIERS must be a JSON object of tier names to limits');
+  }
+
+  if (!['full', 'allowlist', 'none'].includes(webConfig.container.egress.mode)) {
+    errors.push('CONTAINER_EGRESS_MODE must be "full", "allowlist" or "none"');
+  }
+
+  if (webConfig.container.egress.mode !== 'full') {
+    const { proxyPort } = webConfig.container.egress;
+    if (isNaN(proxyPort) || proxyPort < 1 || proxyPort > 65535) {
+      errors.push('CONTAINER_EGRESS_PROXY_PORT must be a valid port');
+    }
+  }
+
+  for (const [username, tier] of Object.entries(webConfig.container.userTiers)) {
+    if (!webConfig.container.tiers[tier]) {
+      errors.push(`CONTAINER_USER_TIERS assigns ${username} to unknown tier "${tier}"`);
+    }
+  }
   
   return {
     isValid: errors.length === 0,
@@ -3,20 +3,44 @@
  */
 
 import { AuthenticatedUser } from '../models/User';
-import { Session, SessionStatus } from '../models/Session';
+import { Session, SessionStatus, SessionRole, SessionShare, ShareRole } from '../models/Session';
 import { sessionStore } from '../services/sessionStore';
 import { ContainerManager } from '../docker/containerManager';
 import { createGitHubApiService } from '../services/githubApi';
 
+import webConfig from '../config/webConfig';
 import { logger } from '../utils/logger';
 import { ampService } from '../services/ampService';
+import { resolveResourceLimits, checkUserQuota, ResourceLimitOverrides } from '../services/resourceLimits';
+import { resumeSession } from '../services/sessionHibernation';
+import { templateStore } from '../services/templateStore';
+import { secretStore } from '../services/secretStore';
+import { resolveAmpApiKey } from '../services/ampKeys';
+import { userStore } from '../services/userStore';
+import { getSessionRole } from '../services/sessionAccess';
+import {
+  runSetupCommands,
+  loadRepoConfig,
+  installSecretFiles,
+  installAmpInstructions,
+  sendInitialPrompt,
+  SessionProgressListener
+} from '../services/sessionSetup';
+import { REPO_CONFIG_FILE } from '../services/repoConfig';
 
 const sessionControllerLogger = logger.child('SessionController');
 
+const DEFAULT_IMAGE = 'amplify-base';
+const TEARDOWN_TIMEOUT = 2 * 60 * 1000;
+// Measuring the workspace walks the whole volume, so status polls reuse the last size for a while
+const WORKSPACE_SIZE_REFRESH_INTERVAL = 5 * 60 * 1000;
+
 export interface SessionData {
   repositoryUrl: string;
   branch: string;
   sessionName: string;
+  resourceLimits?: ResourceLimitOverrides;
+  templateId?: string;
 }
 
 export interface SessionUpdateData {
@@ -29,6 +53,15 @@ export interface SessionResult<T = any> {
   error?: string;
 }
 
+export interface SessionParticipant {
+  userId: string;
+  username: string;
+  avatarUrl?: string;
+  role: SessionRole;
+  connectionCount: number;
+  connectedAt: Date; // when their earliest open connection was made
+}
+
 /**
  * Get all sessions for a user
  */
@@ -71,11 +104,12 @@ export async function getUserSessions(userId: string): Promise<SessionResult<Ses
 }
 
 /**
- * Create a new session with GitHub repository cloning
+ * Create a new session with GitHub repository cloning, reporting each step to onProgress
  */
 export async function createSession(
   user: AuthenticatedUser, 
-  sessionData: SessionData
+  sessionData: SessionData,
+  onProgress?: SessionProgressListener
 ): Promise<SessionResult<Session>> {
   try {
     sessionControllerLogger.info('Creating new session', {
@@ -86,6 +120,7 @@ export async function createSession(
     });
 
     // Step 1: Validate GitHub repository access
+    onProgress?.({ stage: 'validating', message: 'Checking repository access' });
     const githubApi = createGitHubApiService(user);
     const repoUrl = sessionData.repositoryUrl;
     
@@ -157,46 +192,50 @@ export async function createSession(
       };
     }
 
-    // Step 4: Create amp thread
-    sessionControllerLogger.info('Creating amp thread for session', {
-      userId: user.id,
-      repositoryUrl: sessionData.repositoryUrl,
-      branch: sessionData.branch
-    });
-
-    const sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    const threadResult = await ampService.createThread(sessionId, {
-      environment: {
-        REPOSITORY_URL: sessionData.repositoryUrl,
-        REPOSITORY_BRANCH: sessionData.branch,
-        USER_ID: user.id
-      }
-    });
+    // Resolve container limits for the user's tier and make sure they fit the user's quota
+    const limitsResult = resolveResourceLimits(user.username, sessionData.resourceLimits);
+    if (!limitsResult.success || !limitsResult.data) {
+      return {
+        success: false,
+        error: limitsResult.error || 'Invalid resource limits'
+      };
+    }
 
-    if (!threadResult.success) {
-      sessionControllerLogger.error('Failed to create amp thread', {
-        userId: user.id,
-        sessionId,
-        error: threadResult.error
-      });
+    const quotaResult = checkUserQuota(user.id, user.username, limitsResult.data);
+    if (!quotaResult.success) {
+      return {
+        success: false,
+        error: quotaResult.error || 'Quota exceeded'
+      };
+    }
 
+    // Templates are offered per repository, so check the template against this one
+    const template = sessionData.templateId
+      ? templateStore.getTemplate(sessionData.templateId, user.id, `${owner}/${repoName}`)
+      : null;
+    if (sessionData.templateId && !template) {
       return {
         success: false,
-        error: `Failed to create thread: ${threadResult.error}`
+        error: 'Template not found'
       };
     }
 
-    // Step 5: Create session with thread data
+    // Step 4: Create session record so the container can be started for it
+    const sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
     const session: Session = {
       id: sessionId,
       userId: user.id,
       repositoryUrl: sessionData.repositoryUrl,
       repositoryName: `${owner}/${repoName}`,
       branch: sessionData.branch,
-      status: SessionStatus.READY,
-      threadId: threadResult.threadId!,
-      ampLogPath: threadResult.ampLogPath!,
+      status: SessionStatus.CREATING,
+      resourceLimits: limitsResult.data,
+      ...(template && {
+        templateId: template.id,
+        ...(template.image && { image: template.image }),
+        environment: { ...template.environment }
+      }),
       createdAt: new Date(),
       lastAccessedAt: new Date(),
       expiresAt: new Date(Date.now() + 14400000), // 4 hours default TTL
@@ -205,36 +244,173 @@ export async function createSession(
       }
     };
 
-    // Store session
     sessionStore.createSession(session);
 
-    sessionControllerLogger.info('Session created successfully', {
+    // Step 5: Start the container; amp runs inside it against the cloned repository
+    sessionControllerLogger.info('Starting container for new session', { sessionId });
+    onProgress?.({ stage: 'container', message: 'Starting session container' });
+    const startResult = await startSession(user.id, sessionId);
+
+    if (!startResult.success || !startResult.data) {
+      sessionControllerLogger.error('Failed to start session container', {
+        userId: user.id,
+        sessionId,
+        error: startResult.error
+      });
+
+      sessionStore.deleteSession(sessionId);
+      return {
+        success: false,
+        error: startResult.error || 'Failed to start session container'
+      };
+    }
+
+    const workingDirectory = `/workspace/${repoName}`;
+    const containerManager = new ContainerManager();
+    let containerId = startResult.data.containerId;
+
+    // Step 6: Read the repository's .amplify.yml once the clone has finished.
+    // An invalid file is reported through the session status rather than failing the session
+    onProgress?.({ stage: 'config', message: 'Reading .amplify.yml' });
+    const repoConfigResult = await loadRepoConfig(containerManager, containerId, workingDirectory);
+    const repoConfig = repoConfigResult.config;
+
+    if (repoConfigResult.errors.length > 0) {
+      sessionControllerLogger.warn('Ignoring invalid .amplify.yml', {
+        sessionId,
+        errors: repoConfigResult.errors
+      });
+      onProgress?.({ stage: 'config', message: `Ignoring invalid .amplify.yml: ${repoConfigResult.errors.join('; ')}` });
+    }
+
+    sessionStore.updateSession(sessionId, {
+      ...(repoConfig && { repoConfig }),
+      ...(repoConfigResult.errors.length > 0 && { repoConfigErrors: repoConfigResult.errors })
+    });
+
+    // The repository may ask for one of the allowed images; an image picked through a template wins.
+    // The checkout lives in the workspace volume, so the new container starts from it
+    if (repoConfig?.image && !template?.image && repoConfig.image !== DEFAULT_IMAGE) {
+      onProgress?.({ stage: 'container', message: `Switching to image ${repoConfig.image}` });
+      await containerManager.stopContainer(containerId);
+      sessionStore.updateSession(sessionId, { image: repoConfig.image });
+
+      const restartResult = await startSession(user.id, sessionId);
+      if (!restartResult.success || !restartResult.data) {
+        sessionStore.deleteSession(sessionId);
+        return {
+          success: false,
+          error: restartResult.error || `Failed to start container from ${repoConfig.image}`
+        };
+      }
+      containerId = restartResult.data.containerId;
+    }
+
+    // Step 7: Run the repository's setup commands, then the template's
+    const setupCommands = [...(repoConfig?.setup || []), ...(template?.setupCommands || [])];
+    if (setupCommands.length > 0) {
+      onProgress?.({ stage: 'setup', message: `Running ${setupCommands.length} setup commands` });
+
+      const setupResult = await runSetupCommands(
+        containerManager,
+        containerId,
+        workingDirectory,
+        setupCommands,
+        output => onProgress?.({ stage: 'setup', message: 'Setup output', output })
+      );
+
+      if (!setupResult.success) {
+        sessionControllerLogger.error('Session setup failed', {
+          userId: user.id,
+          sessionId,
+          templateId: template?.id,
+          error: setupResult.error
+        });
+
+        sessionStore.deleteSession(sessionId);
+        return {
+          success: false,
+          error: `Setup failed: ${setupResult.error}`
+        };
+      }
+    }
+
+    if (repoConfig?.instructions) {
+      const instructionsResult = await installAmpInstructions(containerManager, containerId, repoConfig.instructions);
+      if (!instructionsResult.success) {
+        sessionControllerLogger.warn('Failed to install amp instructions from .amplify.yml', {
+          sessionId,
+          error: instructionsResult.error
+        });
+      }
+    }
+
+    // Step 8: Create amp thread inside the container
+    onProgress?.({ stage: 'thread', message: 'Creating amp thread' });
+    sessionControllerLogger.info('Creating amp thread for session', {
       userId: user.id,
       sessionId,
       repositoryUrl: sessionData.repositoryUrl,
-      branch: sessionData.branch,
-      threadId: threadResult.threadId,
-      ampLogPath: threadResult.ampLogPath
+      branch: sessionData.branch
     });
 
-    // Automatically start the session so it's ready for immediate use
-    sessionControllerLogger.info('Auto-starting session for immediate use', { sessionId });
-    const startResult = await startSession(user.id, sessionId);
-    
-    if (!startResult.success) {
-      sessionControllerLogger.warn('Failed to auto-start session, but session creation succeeded', {
-        sessionId,
-        startError: startResult.error
+    let threadResult;
+    try {
+      threadResult = await ampService.createThread(sessionId, {
+        environment: {
+          REPOSITORY_URL: sessionData.repositoryUrl,
+          REPOSITORY_BRANCH: sessionData.branch,
+          USER_ID: user.id
+        },
+        containerId,
+        workingDirectory
       });
-      // Don't fail the whole creation - user can manually start later if needed
-    } else {
-      sessionControllerLogger.info('Session created and started successfully', {
+    } catch (error) {
+      sessionStore.deleteSession(sessionId);
+      throw error;
+    }
+
+    if (!threadResult.success) {
+      sessionControllerLogger.error('Failed to create amp thread', {
+        userId: user.id,
         sessionId,
-        containerId: startResult.data?.containerId
+        error: threadResult.error
+      });
+
+      // Deleting the session also removes its container
+      sessionStore.deleteSession(sessionId);
+      return {
+        success: false,
+        error: `Failed to create thread: ${threadResult.error}`
+      };
+    }
+
+    sessionStore.updateSession(sessionId, {
+      threadId: threadResult.threadId!,
+      ampLogPath: threadResult.ampLogPath!
+    });
+
+    if (template?.initialPrompt) {
+      onProgress?.({ stage: 'prompt', message: 'Sending the initial prompt to amp' });
+      await sendInitialPrompt(sessionId, threadResult.threadId!, template.initialPrompt, {
+        containerId,
+        workingDirectory,
+        ampLogPath: threadResult.ampLogPath!
       });
     }
 
-    // Return the updated session with container info if start succeeded
+    onProgress?.({ stage: 'ready', message: 'Session is ready' });
+
+    sessionControllerLogger.info('Session created and started successfully', {
+      userId: user.id,
+      sessionId,
+      repositoryUrl: sessionData.repositoryUrl,
+      branch: sessionData.branch,
+      containerId,
+      threadId: threadResult.threadId,
+      ampLogPath: threadResult.ampLogPath
+    });
+
     const updatedSession = sessionStore.getSession(sessionId) || session;
 
     return {
@@ -309,6 +485,209 @@ export async function getSessionById(userId: string, sessionId: string): Promise
   }
 }
 
+/**
+ * Get a session the user owns or was invited to, with their role in it
+ */
+export async function getAccessibleSession(
+  userId: string,
+  sessionId: string
+): Promise<SessionResult<{ session: Session; role: SessionRole }>> {
+  const session = sessionStore.getSession(sessionId);
+
+  // Invitees are matched by GitHub username, so look up who is asking
+  let role: SessionRole | null = null;
+  if (session?.userId === userId) {
+    role = 'owner';
+  } else if (session) {
+    const user = userStore.getUser(userId);
+    role = user ? getSessionRole(session, user) : null;
+  }
+
+  if (!session || !role) {
+    return {
+      success: false,
+      error: 'Session not found' // Don't reveal existence to users without access
+    };
+  }
+
+  sessionStore.updateSession(sessionId, { lastAccessedAt: new Date() });
+
+  return {
+    success: true,
+    data: { session, role }
+  };
+}
+
+/**
+ * Sessions other users shared with this user, with their role and the owner's username
+ */
+export async function getSharedSessions(user: AuthenticatedUser): Promise<SessionResult<Array<Session & {
+  role: SessionRole;
+  ownerUsername: string;
+}>>> {
+  try {
+    const sessions = sessionStore.getSessionsSharedWith(user.username)
+      .filter(session => session.userId !== user.id)
+      .map(session => ({
+        ...session,
+        role: getSessionRole(session, user)!,
+        ownerUsername: userStore.getUser(session.userId)?.username || session.userId
+      }));
+
+    return {
+      success: true,
+      data: sessions
+    };
+  } catch (error: any) {
+    sessionControllerLogger.error('Failed to get shared sessions', {
+      userId: user.id,
+      error: error.message
+    });
+
+    return {
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Invite a GitHub user to the owner's session, or change the role of someone already invited
+ */
+export async function shareSession(
+  owner: AuthenticatedUser,
+  sessionId: string,
+  username: string,
+  role: ShareRole
+): Promise<SessionResult<SessionShare[]>> {
+  const sessionResult = await getSessionById(owner.id, sessionId);
+  if (!sessionResult.success || !sessionResult.data) {
+    return {
+      success: false,
+      error: sessionResult.error || 'Session not found'
+    };
+  }
+
+  if (username.toLowerCase() === owner.username.toLowerCase()) {
+    return {
+      success: false,
+      error: 'Cannot share a session with its owner'
+    };
+  }
+
+  const others = (sessionResult.data.shares || [])
+    .filter(share => share.username.toLowerCase() !== username.toLowerCase());
+  const shares: SessionShare[] = [
+    ...others,
+    { username, role, invitedBy: owner.username, invitedAt: new Date() }
+  ];
+
+  sessionStore.updateSession(sessionId, { shares });
+
+  sessionControllerLogger.info('Session shared', {
+    userId: owner.id,
+    sessionId,
+    username,
+    role
+  });
+
+  return {
+    success: true,
+    data: shares
+  };
+}
+
+/**
+ * Revoke a user's access to the owner's session
+ */
+export async function unshareSession(
+  ownerId: string,
+  sessionId: string,
+  username: string
+): Promise<SessionResult<SessionShare[]>> {
+  const sessionResult = await getSessionById(ownerId, sessionId);
+  if (!sessionResult.success || !sessionResult.data) {
+    return {
+      success: false,
+      error: sessionResult.error || 'Session not found'
+    };
+  }
+
+  const existing = sessionResult.data.shares || [];
+  const shares = existing.filter(share => share.username.toLowerCase() !== username.toLowerCase());
+  if (shares.length === existing.length) {
+    return {
+      success: false,
+      error: `Session is not shared with ${username}`
+    };
+  }
+
+  sessionStore.updateSession(sessionId, { shares });
+
+  sessionControllerLogger.info('Session share removed', {
+    userId: ownerId,
+    sessionId,
+    username
+  });
+
+  return {
+    success: true,
+    data: shares
+  };
+}
+
+/**
+ * Who currently has the session open, from its active connections
+ */
+export async function getSessionPresence(userId: string, sessionId: string): Promise<SessionResult<SessionParticipant[]>> {
+  const access = await getAccessibleSession(userId, sessionId);
+  if (!access.success || !access.data) {
+    return {
+      success: false,
+      error: access.error || 'Session not found'
+    };
+  }
+
+  const { session } = access.data;
+  const participants: Map<string, SessionParticipant> = new Map();
+
+  for (const connection of sessionStore.getActiveConnections(sessionId)) {
+    if (!connection.userId) {
+      continue;
+    }
+
+    const existing = participants.get(connection.userId);
+    if (existing) {
+      existing.connectionCount++;
+      if (connection.connectedAt < existing.connectedAt) {
+        existing.connectedAt = connection.connectedAt;
+      }
+      continue;
+    }
+
+    const participant = userStore.getUser(connection.userId);
+    const role = participant ? getSessionRole(session, participant) : null;
+    if (!participant || !role) {
+      continue; // access was revoked while connected
+    }
+
+    participants.set(connection.userId, {
+      userId: participant.id,
+      username: participant.username,
+      ...(participant.avatarUrl && { avatarUrl: participant.avatarUrl }),
+      role,
+      connectionCount: 1,
+      connectedAt: connection.connectedAt
+    });
+  }
+
+  return {
+    success: true,
+    data: Array.from(participants.values())
+      .sort((a, b) => a.connectedAt.getTime() - b.connectedAt.getTime())
+  };
+}
+
 /**
  * Update a session
  */
@@ -409,6 +788,7 @@ export async function deleteSession(userId: string, sessionId: string): Promise<
     // Stop and cleanup container if it exists
     if (session.containerId) {
       try {
+        await runTeardown(containerManager, session);
         await containerManager.stopContainer(session.containerId);
         
         sessionControllerLogger.info('Container cleaned up during session deletion', {
@@ -427,7 +807,7 @@ export async function deleteSession(userId: string, sessionId: string): Promise<
       }
     }
 
-    // Remove session from store
+    // Remove session from store; the cleanup service removes the workspace volume
     sessionStore.deleteSession(sessionId);
 
     sessionControllerLogger.info('Session deleted successfully', {
@@ -477,6 +857,21 @@ export async function startSession(userId: string, sessionId: string): Promise<S
     const session = sessionResult.data;
     const containerManager = new ContainerManager();
 
+    // Stopped and failed sessions are left out of the quota, so bringing one back has to fit in what is free
+    if (session.status === SessionStatus.STOPPED || session.status === SessionStatus.ERROR) {
+      const quotaResult = checkUserQuota(
+        userId,
+        userStore.getUser(userId)?.username || '',
+        session.resourceLimits || webConfig.container.resourceLimits
+      );
+      if (!quotaResult.success) {
+        return {
+          success: false,
+          error: quotaResult.error || 'Quota exceeded'
+        };
+      }
+    }
+
     // If container already exists and is running, return its info
     if (session.containerId) {
       try {
@@ -498,6 +893,34 @@ export async function startSession(userId: string, sessionId: string): Promise<S
             }
           };
         }
+
+        // Paused or stopped containers still hold the workspace, so bring them back rather than re-cloning
+        if (containerInfo && ['paused', 'exited', 'created'].includes(containerInfo.status)) {
+          const resumed = await resumeSession(sessionId, containerManager);
+          if (!resumed.success) {
+            return {
+              success: false,
+              error: resumed.error || 'Failed to resume session'
+            };
+          }
+
+          sessionControllerLogger.info('Session container resumed', {
+            userId,
+            sessionId,
+            containerId: session.containerId,
+            from: containerInfo.status
+          });
+
+          return {
+            success: true,
+            data: {
+              sessionId,
+              containerId: session.containerId,
+              status: 'running',
+              workingDirectory: `/workspace/${sessionId}`
+            }
+          };
+        }
       } catch (inspectError: any) {
         sessionControllerLogger.warn('Failed to inspect existing container, will create new one', {
           userId,
@@ -516,18 +939,34 @@ export async function startSession(userId: string, sessionId: string): Promise<S
       branch: session.branch
     });
 
+    const ampApiKey = resolveAmpApiKey(userId);
+    if (!ampApiKey) {
+      sessionControllerLogger.warn('No amp API key for session; amp will ask to log in inside the container', {
+        userId,
+        sessionId
+      });
+    }
+
+    const secrets = secretStore.getSessionSecrets(userId, session.repositoryName);
+    const secretEnvironment = Object.fromEntries(
+      secrets.filter(secret => secret.target === 'environment').map(secret => [secret.name, secret.value])
+    );
+
     const containerResult = await containerManager.createContainer({
       sessionId,
       workspaceDir: `/workspace/${sessionId}`, // Not used since no volume mount, but keep for compatibility
       environment: {
+        ...session.environment,
+        ...secretEnvironment,
         SESSION_ID: sessionId,
         USER_ID: userId,
         REPOSITORY_URL: session.repositoryUrl,
         REPOSITORY_BRANCH: session.branch,
-        // Pass AMP_API_KEY if available
-        ...(process.env.AMP_API_KEY && { AMP_API_KEY: process.env.AMP_API_KEY })
+        // The user's own amp key, or the shared one if an admin allows it
+        ...(ampApiKey && { AMP_API_KEY: ampApiKey })
       },
-      baseImage: 'amplify-base'
+      baseImage: session.image || DEFAULT_IMAGE,
+      ...(session.resourceLimits && { resourceLimits: session.resourceLimits })
     });
 
     if (!containerResult.success || !containerResult.container) {
@@ -546,6 +985,16 @@ export async function startSession(userId: string, sessionId: string): Promise<S
       };
     }
 
+    // File secrets can only be written once the container is running
+    const secretFiles = await installSecretFiles(containerManager, containerResult.container.id, secrets);
+    if (!secretFiles.success) {
+      sessionControllerLogger.warn('Failed to write secret files', {
+        userId,
+        sessionId,
+        error: secretFiles.error
+      });
+    }
+
     // Update session with container info
     sessionStore.updateSession(sessionId, {
       containerId: containerResult.container.id,
@@ -613,6 +1062,13 @@ export async function stopSession(userId: string, sessionId: string): Promise<Se
 
     const containerManager = new ContainerManager();
 
+    // Record the workspace size while the container can still be measured
+    if (session.status === SessionStatus.RUNNING) {
+      await refreshWorkspaceSize(containerManager, sessionId, session.containerId);
+    }
+
+    await runTeardown(containerManager, session);
+
     // Stop container
     await containerManager.stopContainer(session.containerId);
 
@@ -660,21 +1116,29 @@ export async function getSessionStatus(userId: string, sessionId: string): Promi
     cloned: boolean;
     lastSync: Date | null;
   };
+  config: {
+    file: string;
+    found: boolean;
+    valid: boolean;
+    errors: string[]; // validation errors in the repository's .amplify.yml
+    previewPorts: number[];
+  };
   lastAccessed: Date;
+  role: SessionRole; // the requesting user's role
 }>> {
   try {
     sessionControllerLogger.debug('Getting session status', { userId, sessionId });
 
-    // Get and validate session
-    const sessionResult = await getSessionById(userId, sessionId);
-    if (!sessionResult.success || !sessionResult.data) {
+    // Get and validate session; anyone it is shared with may see its status
+    const access = await getAccessibleSession(userId, sessionId);
+    if (!access.success || !access.data) {
       return {
         success: false,
-        error: sessionResult.error || 'Session not found'
+        error: access.error || 'Session not found'
       };
     }
 
-    const session = sessionResult.data;
+    const { session, role } = access.data;
     const containerManager = new ContainerManager();
 
     let containerRunning = false;
@@ -684,10 +1148,21 @@ export async function getSessionStatus(userId: string, sessionId: string): Promi
       try {
         const containerInfo = await containerManager.getContainerInfo(session.containerId);
         containerRunning = containerInfo?.status === 'running';
+
+        if (containerRunning) {
+          refreshWorkspaceSize(containerManager, sessionId, session.containerId).catch(error => {
+            sessionControllerLogger.debug('Failed to measure workspace size', { sessionId, error: error.message });
+          });
+        }
         
+        // A hibernated session's container is paused or exited on purpose; it stays IDLE so the
+        // next connection resumes it
+        const hibernated = session.status === SessionStatus.IDLE &&
+          (containerInfo?.status === 'paused' || containerInfo?.status === 'exited');
+
         // Update session container status if it differs
         const expectedStatus = containerRunning ? SessionStatus.RUNNING : SessionStatus.STOPPED;
-        if (expectedStatus !== session.status) {
+        if (!hibernated && expectedStatus !== session.status) {
           sessionStore.updateSession(sessionId, {
             status: expectedStatus
           });
@@ -721,7 +1196,15 @@ export async function getSessionStatus(userId: string, sessionId: string): Promi
           cloned: !!session.metadata.gitCommitHash,
           lastSync: null // Not tracked in current model
         },
-        lastAccessed: session.lastAccessedAt
+        config: {
+          file: REPO_CONFIG_FILE,
+          found: !!session.repoConfig || !!session.repoConfigErrors?.length,
+          valid: !session.repoConfigErrors?.length,
+          errors: session.repoConfigErrors || [],
+          previewPorts: session.repoConfig?.previewPorts || []
+        },
+        lastAccessed: session.lastAccessedAt,
+        role
       }
     };
 
@@ -738,3 +1221,61 @@ export async function getSessionStatus(userId: string, sessionId: string): Promi
     };
   }
 }
+
+/**
+ * Measure a running session's workspace volume and store it in the session metadata,
+ * unless it was measured within the refresh interval
+ */
+async function refreshWorkspaceSize(
+  containerManager: ContainerManager,
+  sessionId: string,
+  containerId: string
+): Promise<void> {
+  const session = sessionStore.getSession(sessionId);
+  const checkedAt = session?.metadata.workspaceSizeCheckedAt || 0;
+  if (!session || Date.now() - checkedAt < WORKSPACE_SIZE_REFRESH_INTERVAL) {
+    return;
+  }
+
+  // Claim the refresh up front so concurrent polls do not measure too
+  sessionStore.updateSession(sessionId, {
+    metadata: { ...session.metadata, workspaceSizeCheckedAt: Date.now() }
+  });
+
+  const workspaceSize = await containerManager.getWorkspaceSize(containerId);
+  const current = sessionStore.getSession(sessionId);
+  if (workspaceSize === null || !current) {
+    return;
+  }
+
+  sessionStore.updateSession(sessionId, {
+    metadata: { ...current.metadata, workspaceSize }
+  });
+}
+
+/**
+ * Run the repository's .amplify.yml teardown commands before its container goes away
+ */
+async function runTeardown(containerManager: ContainerManager, session: Session): Promise<void> {
+  const teardown = session.repoConfig?.teardown || [];
+  if (!session.containerId || teardown.length === 0 || session.status !== SessionStatus.RUNNING) {
+    return;
+  }
+
+  const repoName = session.repositoryName.split('/').pop() || session.repositoryName;
+  const result = await runSetupCommands(
+    containerManager,
+    session.containerId,
+    `/workspace/${repoName}`,
+    teardown,
+    undefined,
+    TEARDOWN_TIMEOUT
+  );
+
+  if (!result.success) {
+    sessionControllerLogger.warn('Teardown commands failed', {
+      sessionId: session.id,
+      error: result.error
+    });
+  }
+}
@@ -1,5 +1,12 @@
 import { Request, Response } from 'express';
 import { threadStorage, ThreadMessageQuery } from '../services/threadStorage';
+import { threadSearchService, SearchField, SearchHighlight } from '../services/threadSearch';
+import { sessionStore } from '../services/sessionStore';
+import { getSessionRole, roleAllows } from '../services/sessionAccess';
+import { SessionRole } from '../models/Session';
+import { sessionThreadService, SessionThreadSummary } from '../services/sessionThreads';
+import { threadWebSocketManager } from '../websocket/threadWebSocket';
+import { getUserFromRequest } from '../auth/github';
 import { logger } from '../utils/logger';
 import { ThreadMessage } from '../types/threadMessage';
 
@@ -20,6 +27,7 @@ export interface GetThreadMessagesRequest extends Request {
     offset?: string;
     after?: string;
     before?: string;
+    threadId?: string;
   };
 }
 
@@ -37,6 +45,49 @@ export interface ThreadStatsResponse {
   lastMessageTime?: string | undefined;
 }
 
+export interface SessionThreadDTO {
+  id: string;
+  title: string;
+  createdAt: string;
+  archivedAt?: string | undefined;
+  isActive: boolean;
+  messageCount: number;
+  lastMessageTime?: string | undefined;
+}
+
+export interface ThreadSearchResultDTO {
+  sessionId: string;
+  threadId?: string | undefined;
+  repositoryName: string;
+  messageId: string;
+  messageType: string;
+  timestamp: string;
+  field: SearchField;
+  snippet: string;
+  highlights: SearchHighlight[];
+  link: string;
+}
+
+export interface ThreadSearchResponse {
+  query: string;
+  results: ThreadSearchResultDTO[];
+}
+
+/**
+ * Convert a session thread to DTO for API response
+ */
+function toSessionThreadDTO(thread: SessionThreadSummary): SessionThreadDTO {
+  return {
+    id: thread.id,
+    title: thread.title,
+    createdAt: thread.createdAt.toISOString(),
+    archivedAt: thread.archivedAt?.toISOString(),
+    isActive: thread.isActive,
+    messageCount: thread.messageCount,
+    lastMessageTime: thread.lastMessageTime?.toISOString()
+  };
+}
+
 /**
  * Convert ThreadMessage to DTO for API response
  */
@@ -60,6 +111,7 @@ export async function getThreadMessages(
   try {
     const { sessionId } = req.params;
     const { limit, offset, after, before } = req.query;
+    const threadId = req.query.threadId || sessionThreadService.getActiveThreadId(sessionId);
 
     // Parse query parameters
     const query: ThreadMessageQuery = {};
@@ -101,7 +153,7 @@ export async function getThreadMessages(
     }
 
     // Get messages from storage
-    const result = await threadStorage.getMessages(sessionId, query);
+    const result = await threadStorage.getMessages(sessionId, query, threadId);
 
     // Convert to DTOs
     const messages = result.messages.map(toThreadMessageDTO);
@@ -156,7 +208,8 @@ export async function getLatestThreadMessages(
       return;
     }
 
-    const messages = await threadStorage.getLatestMessages(sessionId, countNum);
+    const threadId = sessionThreadService.getActiveThreadId(sessionId);
+    const messages = await threadStorage.getLatestMessages(sessionId, countNum, threadId);
     const dtoMessages = messages.map(toThreadMessageDTO);
 
     logger.debug('Latest thread messages retrieved', {
@@ -188,7 +241,8 @@ export async function getThreadStats(
   try {
     const { sessionId } = req.params;
 
-    const stats = await threadStorage.getThreadStats(sessionId);
+    const threadId = sessionThreadService.getActiveThreadId(sessionId);
+    const stats = await threadStorage.getThreadStats(sessionId, threadId);
 
     const response: ThreadStatsResponse = {
       sessionId,
@@ -224,7 +278,8 @@ export async function clearThreadMessages(
   try {
     const { sessionId } = req.params;
 
-    await threadStorage.clearMessages(sessionId);
+    const threadId = sessionThreadService.getActiveThreadId(sessionId);
+    await threadStorage.clearMessages(sessionId, threadId);
 
     logger.info('Thread messages cleared', { sessionId });
 
@@ -244,3 +299,290 @@ export async function clearThreadMessages(
     });
   }
 }
+
+/**
+ * Stop the amp turn currently running for a session
+ */
+export async function cancelThreadTurn(
+  req: Request<{ sessionId: string }>,
+  res: Response<{ success: boolean; message: string }>
+): Promise<void> {
+  const { sessionId } = req.params;
+
+  try {
+    const user = getUserFromRequest(req as Request);
+    if (!user) {
+      res.status(401).json({
+        error: 'Authentication required'
+      } as any);
+      return;
+    }
+
+    const session = sessionStore.getSession(sessionId);
+    const role = session ? getSessionRole(session, user) : null;
+    if (!role) {
+      res.status(404).json({
+        error: 'Session not found'
+      } as any);
+      return;
+    }
+
+    if (!roleAllows(role, 'collaborator')) {
+      res.status(403).json({
+        success: false,
+        message: 'Viewers cannot cancel amp turns'
+      });
+      return;
+    }
+
+    const cancelled = await threadWebSocketManager.cancelTurn(sessionId);
+    if (!cancelled) {
+      res.status(409).json({
+        success: false,
+        message: 'No amp turn is running'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Amp turn cancelled'
+    });
+  } catch (error) {
+    logger.error('Failed to cancel amp turn', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
+
+/**
+ * Check the user has at least the given role in the request's session, responding with an error if not
+ */
+function checkSessionAccess(req: Request<{ sessionId: string }>, res: Response, minimum: SessionRole): boolean {
+  const user = getUserFromRequest(req as Request);
+  if (!user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return false;
+  }
+
+  const session = sessionStore.getSession(req.params.sessionId);
+  const role = session ? getSessionRole(session, user) : null;
+  if (!role) {
+    res.status(404).json({ error: 'Session not found' });
+    return false;
+  }
+
+  if (!roleAllows(role, minimum)) {
+    res.status(403).json({ error: 'Viewers cannot change this session' });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Send the result of a thread collection change, refreshed with its summary
+ */
+async function sendThreadResult(
+  res: Response,
+  sessionId: string,
+  result: { success: boolean; data?: { id: string } | undefined; error?: string | undefined },
+  status: number = 200
+): Promise<void> {
+  if (!result.success || !result.data) {
+    const notFound = result.error === 'Thread not found' || result.error === 'Session not found';
+    res.status(notFound ? 404 : 409).json({ error: result.error });
+    return;
+  }
+
+  const threadId = result.data.id;
+  const threads = await sessionThreadService.listThreads(sessionId);
+  const thread = threads.find(t => t.id === threadId);
+  res.status(status).json({ thread: thread && toSessionThreadDTO(thread) });
+}
+
+/**
+ * List the amp threads in a session
+ */
+export async function listSessionThreads(
+  req: Request<{ sessionId: string }>,
+  res: Response<{ threads: SessionThreadDTO[] }>
+): Promise<void> {
+  try {
+    if (!checkSessionAccess(req, res, 'viewer')) {
+      return;
+    }
+
+    const threads = await sessionThreadService.listThreads(req.params.sessionId);
+    res.json({ threads: threads.map(toSessionThreadDTO) });
+  } catch (error) {
+    logger.error('Failed to list session threads', {
+      sessionId: req.params.sessionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'Internal server error'
+    } as any);
+  }
+}
+
+/**
+ * Start a new amp thread in a session and make it active
+ */
+export async function createSessionThread(
+  req: Request<{ sessionId: string }, any, { title?: string }>,
+  res: Response
+): Promise<void> {
+  try {
+    if (!checkSessionAccess(req, res, 'collaborator')) {
+      return;
+    }
+
+    const { sessionId } = req.params;
+    const title = typeof req.body?.title === 'string' ? req.body.title : undefined;
+    const result = await sessionThreadService.createThread(sessionId, title);
+    await sendThreadResult(res, sessionId, result, 201);
+  } catch (error) {
+    logger.error('Failed to create session thread', {
+      sessionId: req.params.sessionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+}
+
+/**
+ * Make one of a session's threads the active one
+ */
+export async function switchSessionThread(
+  req: Request<{ sessionId: string; threadId: string }>,
+  res: Response
+): Promise<void> {
+  try {
+    if (!checkSessionAccess(req, res, 'collaborator')) {
+      return;
+    }
+
+    const { sessionId, threadId } = req.params;
+    await sendThreadResult(res, sessionId, sessionThreadService.switchThread(sessionId, threadId));
+  } catch (error) {
+    logger.error('Failed to switch session thread', {
+      sessionId: req.params.sessionId,
+      threadId: req.params.threadId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+}
+
+/**
+ * Archive one of a session's threads, keeping its history
+ */
+export async function archiveSessionThread(
+  req: Request<{ sessionId: string; threadId: string }>,
+  res: Response
+): Promise<void> {
+  try {
+    if (!checkSessionAccess(req, res, 'collaborator')) {
+      return;
+    }
+
+    const { sessionId, threadId } = req.params;
+    await sendThreadResult(res, sessionId, sessionThreadService.archiveThread(sessionId, threadId));
+  } catch (error) {
+    logger.error('Failed to archive session thread', {
+      sessionId: req.params.sessionId,
+      threadId: req.params.threadId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+}
+
+/**
+ * Search message content, tool names and file paths across the user's sessions
+ */
+export async function searchThreads(
+  req: Request<{}, ThreadSearchResponse, {}, { q?: string; limit?: string }>,
+  res: Response<ThreadSearchResponse>
+): Promise<void> {
+  const query = (req.query.q || '').trim();
+
+  try {
+    const user = getUserFromRequest(req as Request);
+    if (!user) {
+      res.status(401).json({
+        error: 'Authentication required'
+      } as any);
+      return;
+    }
+
+    if (!query) {
+      res.status(400).json({
+        error: 'Query parameter q is required'
+      } as any);
+      return;
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit, 10) : 20;
+    if (isNaN(limit) || limit < 1 || limit > 50) {
+      res.status(400).json({
+        error: 'Limit must be between 1 and 50'
+      } as any);
+      return;
+    }
+
+    const sessions = sessionStore.getUserSessions(user.id).map(session => ({
+      ...session,
+      threadIds: sessionThreadService.getThreads(session.id).map(thread => thread.id)
+    }));
+    const results = await threadSearchService.search(sessions, query, limit);
+
+    logger.debug('Thread search completed', {
+      userId: user.id,
+      sessionCount: sessions.length,
+      resultCount: results.length
+    });
+
+    res.json({
+      query,
+      results: results.map(result => ({
+        sessionId: result.sessionId,
+        threadId: result.threadId,
+        repositoryName: result.repositoryName,
+        messageId: result.messageId,
+        messageType: result.messageType,
+        timestamp: result.timestamp.toISOString(),
+        field: result.field,
+        snippet: result.snippet,
+        highlights: result.highlights,
+        link: result.link
+      }))
+    });
+  } catch (error) {
+    logger.error('Failed to search threads', {
+      query,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'Internal server error'
+    } as any);
+  }
+}
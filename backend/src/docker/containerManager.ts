@@ -6,12 +6,16 @@ import Docker from 'dockerode';
 import { dockerLogger } from '../utils/logger';
 import { EnvironmentConfig } from '../config/environment';
 import { ContainerCleanup, createContainerCleanup } from './cleanup';
+import webConfig, { ContainerResourceLimits, parseSize } from '../config/webConfig';
+import { networkManager, NetworkSetupResult } from './networkManager';
+import { containerCreateDuration, containerStartDuration } from '../services/metrics';
 
 export interface ContainerConfig {
   sessionId: string;
   workspaceDir: string;
   environment: Record<string, string>;
   baseImage: string;
+  resourceLimits?: ContainerResourceLimits;
 }
 
 export interface ContainerInfo {
@@ -22,12 +26,39 @@ export interface ContainerInfo {
   ports: Array<{ host: number; container: number; type: string }>;
 }
 
+// Operator view of a container; deliberately leaves out its environment, which holds keys and secrets
+export interface ContainerInspection extends ContainerInfo {
+  image: string;
+  state: {
+    running: boolean;
+    paused: boolean;
+    startedAt: string;
+    finishedAt: string;
+    exitCode: number;
+    oomKilled: boolean;
+    restartCount: number;
+  };
+  resources: {
+    memory: number; // bytes; 0 when unlimited
+    cpus: number; // 0 when unlimited
+    pidsLimit: number | null;
+  };
+  networks: string[];
+  mounts: Array<{ type: string; source: string; destination: string }>;
+  labels: Record<string, string>;
+}
+
 export interface ContainerCreateResult {
   success: boolean;
   container?: ContainerInfo;
   error?: string;
 }
 
+export interface ExecCommandOptions {
+  tty?: boolean;
+  environment?: Record<string, string>;
+}
+
 export interface ContainerRunResult {
   success: boolean;
   containerId?: string;
@@ -51,29 +82,40 @@ export class ContainerManager {
       dockerLogger.info(`Creating container for session: ${config.sessionId}`);
       
       const containerName = `amplify-${config.sessionId}`;
+      const limits = config.resourceLimits || webConfig.container.resourceLimits;
+
+      // Sessions on the managed network pick up its egress policy
+      let proxyEnvironment: Record<string, string> = {};
+      if (limits.networkMode === webConfig.container.networkName) {
+        const network = await this.ensureNetwork();
+        if (!network.success) {
+          return { success: false, error: `Failed to prepare container network: ${network.error}` };
+        }
+        proxyEnvironment = networkManager.getProxyEnvironment(network.proxyUrl);
+      }
+      
+      // Templates and .amplify.yml can name images that have not been pulled yet
+      await this.ensureImage(config.baseImage);
+
+      // The workspace lives in a per-session volume so it survives container removal
+      const workspaceVolume = await this.ensureWorkspaceVolume(config.sessionId);
       
       // Container configuration matching PRD specifications
       const containerOptions = {
         name: containerName,
         Image: config.baseImage,
-        Env: this.formatEnvironmentVariables(config.environment),
+        Env: this.formatEnvironmentVariables({ ...config.environment, ...proxyEnvironment }),
         WorkingDir: '/workspace',
         User: 'amplify',
         HostConfig: {
-          // Expose ports for potential web server and SSH
-          PortBindings: {
-            '22/tcp': [{ HostPort: '' }], // Dynamic port assignment
-            '80/tcp': [{ HostPort: '' }]  // Dynamic port assignment
-          },
-          // Resource limits
-          Memory: 512 * 1024 * 1024, // 512MB
-          CpuShares: 512,
+          // Ports are reachable on the session network only; nothing is published on the host
+          Mounts: [{ Type: 'volume' as const, Source: workspaceVolume, Target: '/workspace' }],
+          // Resource limits and network mode
+          ...this.toHostConfigLimits(limits),
           // Auto-remove when stopped
           AutoRemove: false, // We handle cleanup manually for better control
           // Security options
-          ReadonlyRootfs: false, // amp needs to write to some locations
-          // Network mode
-          NetworkMode: 'bridge'
+          ReadonlyRootfs: false // amp needs to write to some locations
         },
         ExposedPorts: {
           '22/tcp': {},
@@ -98,10 +140,13 @@ export class ContainerManager {
         name: containerName,
         image: config.baseImage,
         workspace: config.workspaceDir,
-        envVars: Object.keys(config.environment).length
+        envVars: Object.keys(config.environment).length,
+        limits
       });
 
+      const endCreate = containerCreateDuration.startTimer();
       const container = await this.docker.createContainer(containerOptions);
+      endCreate();
       
       dockerLogger.info(`Container created: ${containerName}`, {
         id: container.id.substring(0, 12)
@@ -141,7 +186,9 @@ export class ContainerManager {
       dockerLogger.info(`Starting container: ${containerId.substring(0, 12)}`);
       
       const container = this.docker.getContainer(containerId);
+      const endStart = containerStartDuration.startTimer();
       await container.start();
+      endStart();
       
       // Get container info after starting
       const containerInfo = await container.inspect();
@@ -168,6 +215,162 @@ export class ContainerManager {
     }
   }
 
+  /**
+   * Name of the volume holding a session's workspace
+   */
+  getWorkspaceVolumeName(sessionId: string): string {
+    return `amplify-workspace-${sessionId}`;
+  }
+
+  /**
+   * Create the session's workspace volume if it does not exist yet
+   */
+  async ensureWorkspaceVolume(sessionId: string): Promise<string> {
+    const name = this.getWorkspaceVolumeName(sessionId);
+
+    // Creating a volume that already exists returns the existing one
+    await this.docker.createVolume({
+      Name: name,
+      Labels: {
+        'amplify.session': sessionId,
+        'amplify.workspace': 'true'
+      }
+    });
+
+    return name;
+  }
+
+  /**
+   * Remove the session's workspace volume. Its container must already be removed.
+   */
+  async removeWorkspaceVolume(sessionId: string): Promise<boolean> {
+    const name = this.getWorkspaceVolumeName(sessionId);
+
+    try {
+      await this.docker.getVolume(name).remove();
+      dockerLogger.info(`Workspace volume removed: ${name}`);
+      return true;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return true;
+      }
+      dockerLogger.error(`Failed to remove workspace volume: ${name}`, { error: error.message });
+      return false;
+    }
+  }
+
+  /**
+   * Pull an image unless it is already present locally
+   */
+  private async ensureImage(image: string): Promise<void> {
+    try {
+      await this.docker.getImage(image).inspect();
+      return;
+    } catch (error: any) {
+      if (error.statusCode !== 404) {
+        throw error;
+      }
+    }
+
+    dockerLogger.info(`Pulling image: ${image}`);
+    const stream = await this.docker.pull(image);
+    await new Promise<void>((resolve, reject) => {
+      this.docker.modem.followProgress(stream, (error: Error | null) => error ? reject(error) : resolve());
+    });
+  }
+
+  /**
+   * Measure the workspace of a running container in bytes
+   */
+  async getWorkspaceSize(containerId: string): Promise<number | null> {
+    try {
+      const exec = await this.executeCommand(containerId, ['du', '-sb', '/workspace'], '/', { tty: true });
+      const stream = await exec.start();
+
+      const output = await new Promise<string>((resolve, reject) => {
+        let data = '';
+        stream.on('data', (chunk: Buffer) => { data += chunk.toString(); });
+        stream.on('end', () => resolve(data));
+        stream.on('error', reject);
+      });
+
+      const size = parseInt(output.trim().split(/\s+/)[0] || '', 10);
+      return isNaN(size) ? null : size;
+    } catch (error: any) {
+      dockerLogger.warn(`Failed to measure workspace: ${containerId.substring(0, 12)}`, { error: error.message });
+      return null;
+    }
+  }
+
+  /**
+   * Pause or stop a container without removing it, so its files survive until it is resumed
+   */
+  async suspendContainer(containerId: string, action: 'pause' | 'stop'): Promise<boolean> {
+    try {
+      const container = this.docker.getContainer(containerId);
+
+      if (action === 'pause') {
+        await container.pause();
+      } else {
+        await container.stop({ t: 10 });
+      }
+
+      dockerLogger.info(`Container suspended: ${containerId.substring(0, 12)}`, { action });
+      return true;
+    } catch (error: any) {
+      dockerLogger.error(`Failed to suspend container: ${containerId.substring(0, 12)}`, {
+        action,
+        error: error.message
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Bring a paused or stopped container back to running
+   */
+  async resumeContainer(containerId: string): Promise<ContainerRunResult> {
+    try {
+      const container = this.docker.getContainer(containerId);
+      const { State } = await container.inspect();
+
+      if (State.Paused) {
+        await container.unpause();
+      } else if (!State.Running) {
+        await container.start();
+      }
+
+      dockerLogger.info(`Container resumed: ${containerId.substring(0, 12)}`, { from: State.Status });
+      return { success: true, containerId };
+    } catch (error: any) {
+      dockerLogger.error(`Failed to resume container: ${containerId.substring(0, 12)}`, {
+        error: error.message
+      });
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Make sure the session network exists with the configured egress policy
+   */
+  async ensureNetwork(): Promise<NetworkSetupResult> {
+    return networkManager.ensureNetwork();
+  }
+
+  /**
+   * Translate resource limits into docker HostConfig fields
+   */
+  private toHostConfigLimits(limits: ContainerResourceLimits): Record<string, any> {
+    return {
+      Memory: parseSize(limits.memory),
+      MemorySwap: parseSize(limits.memory), // no swap beyond the memory limit
+      NanoCpus: Math.round(parseFloat(limits.cpus) * 1e9),
+      PidsLimit: limits.pidsLimit,
+      NetworkMode: limits.networkMode,
+      ...(limits.diskQuota && { StorageOpt: { size: limits.diskQuota.toUpperCase() } })
+    };
+  }
+
   /**
    * Create and start a container in one operation
    */
@@ -209,6 +412,52 @@ export class ContainerManager {
     };
   }
 
+  /**
+   * Inspect a container for operators, without its environment
+   */
+  async inspectContainer(containerId: string): Promise<ContainerInspection | null> {
+    try {
+      const containerInfo = await this.docker.getContainer(containerId).inspect();
+      const { State: state, HostConfig: hostConfig } = containerInfo;
+
+      return {
+        id: containerInfo.Id,
+        name: containerInfo.Name.replace(/^\//, ''),
+        status: state.Status,
+        created: containerInfo.Created,
+        ports: this.extractPortMappings(containerInfo),
+        image: containerInfo.Config.Image,
+        state: {
+          running: state.Running,
+          paused: state.Paused,
+          startedAt: state.StartedAt,
+          finishedAt: state.FinishedAt,
+          exitCode: state.ExitCode,
+          oomKilled: state.OOMKilled,
+          restartCount: containerInfo.RestartCount
+        },
+        resources: {
+          memory: hostConfig.Memory || 0,
+          cpus: (hostConfig.NanoCpus || 0) / 1e9,
+          pidsLimit: hostConfig.PidsLimit || null
+        },
+        networks: Object.keys(containerInfo.NetworkSettings.Networks || {}),
+        mounts: (containerInfo.Mounts || []).map(mount => ({
+          type: mount.Type,
+          source: mount.Name || mount.Source,
+          destination: mount.Destination
+        })),
+        labels: containerInfo.Config.Labels || {}
+      };
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return null;
+      }
+      dockerLogger.error(`Error inspecting container: ${containerId.substring(0, 12)}`, error);
+      return null;
+    }
+  }
+
   /**
    * Get container status and info
    */
@@ -236,6 +485,24 @@ export class ContainerManager {
     }
   }
 
+  /**
+   * Get the container's IP address, preferring the session network
+   */
+  async getContainerAddress(containerId: string): Promise<string | null> {
+    try {
+      const containerInfo = await this.docker.getContainer(containerId).inspect();
+      const networks: Record<string, { IPAddress?: string }> = containerInfo.NetworkSettings?.Networks || {};
+      const address = networks[webConfig.container.networkName]?.IPAddress
+        || Object.values(networks).map(network => network.IPAddress).find(Boolean)
+        || containerInfo.NetworkSettings?.IPAddress;
+
+      return address || null;
+    } catch (error: any) {
+      dockerLogger.error(`Error getting container address: ${containerId.substring(0, 12)}`, { error: error.message });
+      return null;
+    }
+  }
+
   /**
    * Stop and remove a container
    */
@@ -290,7 +557,12 @@ export class ContainerManager {
   /**
    * Execute a command in the container
    */
-  async executeCommand(containerId: string, command: string[], workingDir?: string): Promise<any> {
+  async executeCommand(
+    containerId: string,
+    command: string[],
+    workingDir?: string,
+    options: ExecCommandOptions = {}
+  ): Promise<any> {
     try {
       const container = this.docker.getContainer(containerId);
       
@@ -299,9 +571,10 @@ export class ContainerManager {
         AttachStdout: true,
         AttachStderr: true,
         AttachStdin: true,
-        Tty: true,
+        Tty: options.tty ?? true,
         User: 'amplify',
-        ...(workingDir && { WorkingDir: workingDir })
+        ...(workingDir && { WorkingDir: workingDir }),
+        ...(options.environment && { Env: this.formatEnvironmentVariables(options.environment) })
       });
 
       return exec;
@@ -0,0 +1,137 @@
+/**
+ * Forward proxy that lets containers on an internal network reach allowlisted hosts only.
+ * Handles CONNECT tunnels for HTTPS and absolute-URL requests for plain HTTP.
+ */
+
+import http from 'http';
+import net from 'net';
+import { dockerLogger } from '../utils/logger';
+
+export class EgressProxy {
+  private server: http.Server | null = null;
+  private allowlist: string[];
+
+  constructor(allowlist: string[]) {
+    this.allowlist = allowlist.map(entry => entry.trim().toLowerCase()).filter(Boolean);
+  }
+
+  /**
+   * Check a hostname against the allowlist. `*.example.com` matches subdomains only.
+   */
+  isAllowed(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/\.$/, '');
+
+    return this.allowlist.some(entry => entry.startsWith('*.')
+      ? host.endsWith(entry.slice(1))
+      : host === entry
+    );
+  }
+
+  /**
+   * Start listening. Resolves once the proxy accepts connections.
+   */
+  async start(host: string, port: number): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    server.on('connect', (req, socket, head) => this.handleConnect(req, socket as net.Socket, head));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    dockerLogger.info('Egress proxy listening', { host, port, allowlist: this.allowlist });
+  }
+
+  /**
+   * Stop accepting connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Get the port the proxy is listening on, if it is running
+   */
+  getPort(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : undefined;
+  }
+
+  /**
+   * Tunnel an HTTPS connection to an allowlisted host
+   */
+  private handleConnect(req: http.IncomingMessage, clientSocket: net.Socket, head: Buffer): void {
+    const [hostname = '', portText] = (req.url || '').split(':');
+    const port = parseInt(portText || '443', 10);
+
+    if (!hostname || isNaN(port) || !this.isAllowed(hostname)) {
+      dockerLogger.warn('Egress proxy blocked connection', { host: hostname, port });
+      clientSocket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+
+    const upstream = net.connect(port, hostname, () => {
+      clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length > 0) {
+        upstream.write(head);
+      }
+      upstream.pipe(clientSocket);
+      clientSocket.pipe(upstream);
+    });
+
+    upstream.on('error', () => clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n'));
+    clientSocket.on('error', () => upstream.destroy());
+  }
+
+  /**
+   * Forward a plain HTTP request to an allowlisted host
+   */
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let target: URL;
+    try {
+      target = new URL(req.url || '');
+    } catch {
+      res.writeHead(400).end('Proxy requests must use an absolute URL');
+      return;
+    }
+
+    if (target.protocol !== 'http:' || !this.isAllowed(target.hostname)) {
+      dockerLogger.warn('Egress proxy blocked request', { host: target.hostname });
+      res.writeHead(403).end('Host is not on the egress allowlist');
+      return;
+    }
+
+    const upstream = http.request({
+      hostname: target.hostname,
+      port: target.port || 80,
+      path: `${target.pathname}${target.search}`,
+      method: req.method,
+      headers: req.headers
+    }, upstreamRes => {
+      res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+      upstreamRes.pipe(res);
+    });
+
+    upstream.on('error', () => {
+      if (!res.headersSent) {
+        res.writeHead(502);
+      }
+      res.end();
+    });
+    req.pipe(upstream);
+  }
+}
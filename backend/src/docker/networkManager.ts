@@ -0,0 +1,187 @@
+/**
+ * Session network management - owns the dedicated docker network that session containers join
+ * and applies the configured egress policy to it
+ */
+
+import Docker from 'dockerode';
+import { dockerLogger } from '../utils/logger';
+import webConfig, { EgressMode } from '../config/webConfig';
+import { EgressProxy } from './egressProxy';
+
+// Stops containers on the same bridge from talking to each other
+const ICC_OPTION = 'com.docker.network.bridge.enable_icc';
+
+// Sessions cannot work without these whatever the policy: the entrypoint clones from GitHub,
+// pushes go back to it and amp talks to its API
+export const REQUIRED_EGRESS_HOSTS = [
+  'github.com',
+  '*.github.com',
+  '*.githubusercontent.com',
+  'ampcode.com',
+  '*.ampcode.com'
+];
+
+export interface NetworkSetupResult {
+  success: boolean;
+  networkName?: string;
+  proxyUrl?: string; // set unless egress is full; containers must route outbound traffic through it
+  error?: string;
+}
+
+export class NetworkManager {
+  private docker: Docker;
+  private egressProxy: EgressProxy | null = null;
+  private setup: Promise<NetworkSetupResult> | null = null;
+
+  constructor(docker: Docker = new Docker()) {
+    this.docker = docker;
+  }
+
+  /**
+   * Make sure the session network exists with the configured policy. Safe to call repeatedly.
+   */
+  async ensureNetwork(): Promise<NetworkSetupResult> {
+    if (!this.setup) {
+      this.setup = this.setupNetwork().then(result => {
+        // Let the next caller retry, e.g. once the docker daemon is reachable
+        if (!result.success) {
+          this.setup = null;
+        }
+        return result;
+      });
+    }
+    return this.setup;
+  }
+
+  /**
+   * Environment variables that point a container at the egress proxy, if there is one
+   */
+  getProxyEnvironment(proxyUrl: string | undefined): Record<string, string> {
+    if (!proxyUrl) {
+      return {};
+    }
+
+    const noProxy = 'localhost,127.0.0.1';
+    return {
+      HTTP_PROXY: proxyUrl,
+      HTTPS_PROXY: proxyUrl,
+      http_proxy: proxyUrl,
+      https_proxy: proxyUrl,
+      NO_PROXY: noProxy,
+      no_proxy: noProxy,
+      // Node's own http and fetch ignore the variables above unless asked to use them
+      NODE_USE_ENV_PROXY: '1'
+    };
+  }
+
+  /**
+   * Stop the egress proxy
+   */
+  async shutdown(): Promise<void> {
+    await this.egressProxy?.stop();
+    this.egressProxy = null;
+    this.setup = null;
+  }
+
+  /**
+   * Hosts the egress proxy lets through: the required ones, plus the configured allowlist
+   * in allowlist mode
+   */
+  getEgressAllowlist(mode: EgressMode): string[] {
+    return mode === 'allowlist'
+      ? Array.from(new Set([...REQUIRED_EGRESS_HOSTS, ...webConfig.container.egress.allowlist]))
+      : REQUIRED_EGRESS_HOSTS;
+  }
+
+  /**
+   * Create or reuse the network, then start the egress proxy when the policy needs one
+   */
+  private async setupNetwork(): Promise<NetworkSetupResult> {
+    const { networkName, egress } = webConfig.container;
+
+    try {
+      let network = await this.inspectNetwork(networkName);
+
+      if (network && !this.matchesPolicy(network, egress.mode)) {
+        const attached = Object.keys(network.Containers || {}).length;
+        if (attached > 0) {
+          return {
+            success: false,
+            error: `Network ${networkName} does not match egress mode ${egress.mode} and still has ${attached} containers attached`
+          };
+        }
+
+        dockerLogger.warn(`Recreating network ${networkName} for egress mode ${egress.mode}`);
+        await this.docker.getNetwork(networkName).remove();
+        network = null;
+      }
+
+      if (!network) {
+        await this.docker.createNetwork({
+          Name: networkName,
+          Driver: 'bridge',
+          CheckDuplicate: true,
+          // Internal networks have no route out; the other modes get out through the proxy instead
+          Internal: egress.mode !== 'full',
+          Options: { [ICC_OPTION]: 'false' },
+          Labels: {
+            'amplify.managed': 'true',
+            'amplify.egress': egress.mode
+          }
+        });
+        network = await this.inspectNetwork(networkName);
+        dockerLogger.info(`Created network ${networkName}`, { egress: egress.mode });
+      }
+
+      if (egress.mode === 'full') {
+        return { success: true, networkName };
+      }
+
+      // Containers on an internal network can still reach the host at the bridge gateway
+      const gateway = network?.IPAM?.Config?.[0]?.Gateway;
+      if (!gateway) {
+        return { success: false, error: `Network ${networkName} has no gateway for the egress proxy` };
+      }
+
+      if (!this.egressProxy) {
+        this.egressProxy = new EgressProxy(this.getEgressAllowlist(egress.mode));
+      }
+      await this.egressProxy.start(gateway, egress.proxyPort);
+
+      return {
+        success: true,
+        networkName,
+        proxyUrl: `http://${gateway}:${egress.proxyPort}`
+      };
+    } catch (error: any) {
+      dockerLogger.error(`Failed to set up network ${networkName}`, { error: error.message });
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Inspect a network, or null if it does not exist
+   */
+  private async inspectNetwork(name: string): Promise<any | null> {
+    try {
+      return await this.docker.getNetwork(name).inspect();
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check an existing network against the egress mode and isolation settings
+   */
+  private matchesPolicy(network: any, mode: EgressMode): boolean {
+    return network.Internal === (mode !== 'full') && network.Options?.[ICC_OPTION] === 'false';
+  }
+}
+
+/**
+ * Shared instance; every ContainerManager uses the same network and egress proxy
+ */
+export const networkManager = new NetworkManager();
@@ -3,13 +3,17 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { IncomingMessage } from 'http';
 import { 
   extractTokenFromRequest, 
   verifyJWT, 
   clearAuthCookie 
 } from '../auth/github';
-import { AuthenticatedUser, TerminalTheme, EditorTheme } from '../models/User';
+import { AuthenticatedUser } from '../models/User';
+import { userStore } from '../services/userStore';
+import { isAdmin } from '../services/adminAccess';
 import { logger } from '../utils/logger';
+import { setLogContext } from '../utils/logContext';
 
 const authLogger = logger.child('AuthMiddleware');
 
@@ -24,57 +28,17 @@ export function authenticateUser(req: Request, res: Response, next: NextFunction
     return next(); // Continue without authentication
   }
 
-  const verification = verifyJWT(token);
+  const user = loadUserFromToken(token);
 
-  if (!verification.valid) {
-    authLogger.warn('Invalid authentication token', { error: verification.error });
-    
+  if (!user) {
     // Clear invalid cookie
     clearAuthCookie(res);
     return next(); // Continue without authentication
   }
 
-  // Create authenticated user object from JWT payload
-  const payload = verification.payload;
-  const user: AuthenticatedUser = {
-    isAuthenticated: true,
-    id: payload.id,
-    githubId: payload.githubId,
-    username: payload.username,
-    email: payload.email,
-    name: payload.name || '',
-    avatarUrl: payload.avatarUrl || '',
-    accessToken: payload.accessToken || '', // Use access token from JWT payload (for testing)
-    scopes: payload.scopes || [],
-    createdAt: new Date(payload.iat * 1000),
-    lastLoginAt: new Date(),
-    profile: payload.profile || {
-      bio: '',
-      company: '',
-      location: '',
-      blog: '',
-      twitterUsername: '',
-      publicRepos: 0,
-      privateRepos: 0,
-      followers: 0,
-      following: 0
-    },
-    preferences: payload.preferences || {
-      terminalTheme: TerminalTheme.DARK,
-      editorTheme: EditorTheme.VS_DARK,
-      sessionTimeout: 240,
-      autoSaveInterval: 30,
-      notifications: {
-        sessionExpiry: true,
-        containerErrors: true,
-        gitOperations: true,
-        email: false
-      }
-    }
-  };
-
   // Attach user to request
   (req as any).user = user;
+  setLogContext({ userId: user.id });
 
   authLogger.debug('User authenticated from token', {
     id: user.id,
@@ -84,6 +48,46 @@ export function authenticateUser(req: Request, res: Response, next: NextFunction
   next();
 }
 
+/**
+ * Authenticate a WebSocket upgrade, which bypasses the express middleware chain
+ */
+export function authenticateUpgradeRequest(req: IncomingMessage): AuthenticatedUser | null {
+  const cookieToken = (req.headers.cookie || '')
+    .split(';')
+    .map(cookie => cookie.trim())
+    .find(cookie => cookie.startsWith('amplify_auth='))
+    ?.slice('amplify_auth='.length);
+  const authHeader = req.headers.authorization;
+  const token = cookieToken
+    ? decodeURIComponent(cookieToken)
+    : authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+
+  return token ? loadUserFromToken(token) : null;
+}
+
+/**
+ * Verify a token and load the user it identifies
+ */
+function loadUserFromToken(token: string): AuthenticatedUser | null {
+  const verification = verifyJWT(token);
+
+  if (!verification.valid) {
+    authLogger.warn('Invalid authentication token', { error: verification.error });
+    return null;
+  }
+
+  // Tokens issued before a revocation carry a stale id
+  const payload = verification.payload;
+  const user = userStore.getUser(payload.id);
+
+  if (!user || payload.jti !== userStore.getTokenId(user.id) || !user.accessToken) {
+    authLogger.warn('Authentication token no longer valid', { id: payload.id });
+    return null;
+  }
+
+  return user;
+}
+
 /**
  * Middleware to require authentication
  */
@@ -113,6 +117,29 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
   next();
 }
 
+/**
+ * Middleware to require the admin role; use after requireAuth
+ */
+export async function requireAdmin(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const user = (req as any).user as AuthenticatedUser;
+
+  if (!user || !(await isAdmin(user))) {
+    authLogger.warn('Access denied - admin role required', {
+      userId: user?.id,
+      path: req.path,
+      method: req.method
+    });
+
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'Admin access required'
+    });
+    return;
+  }
+
+  next();
+}
+
 /**
  * Middleware to require specific GitHub scopes
  */
@@ -58,18 +58,193 @@ export const validateCreateSession = [
     .trim()
     .isLength({ min: 1, max: 200 })
     .withMessage('Session name must be between 1 and 200 characters'),
+
+  body('resourceLimits')
+    .optional()
+    .isObject()
+    .withMessage('Resource limits must be an object'),
+
+  body(['resourceLimits.memory', 'resourceLimits.diskQuota'])
+    .optional()
+    .isString()
+    .matches(/^\d+(\.\d+)?[bkmg]?$/i)
+    .withMessage('Memory and disk limits must be sizes such as 512m or 2g'),
+
+  body('resourceLimits.cpus')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('CPU limit must be a positive number')
+    .customSanitizer(value => String(value)),
+
+  body('resourceLimits.pidsLimit')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('PID limit must be a positive integer')
+    .toInt(),
+
+  body('resourceLimits.networkMode')
+    .optional()
+    .isString()
+    .withMessage('Network mode must be a string'),
+
+  body('templateId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Template ID must be a non-empty string'),
   
   handleValidationErrors,
 ];
 
+// Session template validation rules
+export const validateSessionTemplate = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Template name must be between 1 and 100 characters'),
+
+  body('description')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters'),
+
+  body('scope')
+    .isIn(['user', 'repository'])
+    .withMessage('Scope must be "user" or "repository"'),
+
+  body('repositoryName')
+    .if(body('scope').equals('repository'))
+    .isString()
+    .trim()
+    .matches(/^[\w.-]+\/[\w.-]+$/)
+    .withMessage('Repository templates need a repository in owner/repo form'),
+
+  body('image')
+    .optional()
+    .isString()
+    .trim()
+    .matches(/^[\w][\w.\-/:@]*$/)
+    .withMessage('Image must be a Docker image reference'),
+
+  body('setupCommands')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Setup commands must be a list of at most 50 commands'),
+
+  body('setupCommands.*')
+    .isString()
+    .isLength({ max: 2000 })
+    .withMessage('Each setup command must be a string of at most 2000 characters'),
+
+  body('environment')
+    .optional()
+    .isObject()
+    .withMessage('Environment must be an object of variable names to values')
+    .custom((environment: Record<string, unknown>) => Object.entries(environment).every(
+      ([name, value]) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && typeof value === 'string'
+    ))
+    .withMessage('Environment variable names must be valid identifiers with string values'),
+
+  body('initialPrompt')
+    .optional()
+    .isString()
+    .isLength({ max: 10000 })
+    .withMessage('Initial prompt must be at most 10000 characters'),
+
+  handleValidationErrors,
+];
+
+export const validateSecret = [
+  body('name')
+    .isString()
+    .matches(/^[A-Za-z_][A-Za-z0-9_]{0,99}$/)
+    .withMessage('Secret name must be a valid environment variable name'),
+
+  body('value')
+    .if((value: unknown, { req }) => req.method === 'POST' || value !== undefined)
+    .isString()
+    .isLength({ min: 1, max: 65536 })
+    .withMessage('Secret value must be between 1 and 65536 characters'),
+
+  body('scope')
+    .isIn(['user', 'repository'])
+    .withMessage('Scope must be "user" or "repository"'),
+
+  body('repositoryName')
+    .if(body('scope').equals('repository'))
+    .isString()
+    .trim()
+    .matches(/^[\w.-]+\/[\w.-]+$/)
+    .withMessage('Repository secrets need a repository in owner/repo form'),
+
+  body('target')
+    .optional()
+    .isIn(['environment', 'file'])
+    .withMessage('Target must be "environment" or "file"'),
+
+  body('filePath')
+    .if(body('target').equals('file'))
+    .isString()
+    .matches(/^~?\/[^\0]+$/)
+    .custom((filePath: string) => !filePath.split('/').includes('..'))
+    .withMessage('File secrets need an absolute path or one under ~/'),
+
+  handleValidationErrors,
+];
+
+export const validateNotice = [
+  body('message')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Notice message must be between 1 and 500 characters'),
+
+  body('level')
+    .optional()
+    .isIn(['info', 'warning'])
+    .withMessage('Level must be "info" or "warning"'),
+
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('expiresAt must be an ISO 8601 date'),
+
+  handleValidationErrors,
+];
+
+export const validateSessionShare = [
+  param('username')
+    .matches(/^[a-zA-Z0-9](?:[a-zA-Z0-9]|-(?=[a-zA-Z0-9])){0,38}$/)
+    .withMessage('Username must be a valid GitHub username'),
+
+  body('role')
+    .isIn(['viewer', 'collaborator'])
+    .withMessage('Role must be "viewer" or "collaborator"'),
+
+  handleValidationErrors,
+];
+
 export const validateSessionId = [
+  // Matches the IDs the session controller and the dev thread routes generate
   param('sessionId')
-    .isUUID()
-    .withMessage('Session ID must be a valid UUID'),
+    .matches(/^(?:dev-)?session-\d+-[a-z0-9]+$/)
+    .withMessage('Session ID is not valid'),
   
   handleValidationErrors,
 ];
 
+export const validateRecordingId = [
+  param('recordingId')
+    .matches(/^[\w-]+$/)
+    .withMessage('Recording ID may only contain letters, numbers, dashes and underscores'),
+
+  handleValidationErrors,
+];
+
 // Git operation validation rules
 export const validateCommitMessage = [
   body('message')
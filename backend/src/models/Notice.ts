@@ -0,0 +1,20 @@
+/**
+ * Maintenance notice data model
+ */
+
+export type NoticeLevel = 'info' | 'warning';
+
+export interface Notice {
+  id: string;
+  message: string;
+  level: NoticeLevel;
+  createdBy: string; // GitHub username of the admin who posted it
+  createdAt: Date;
+  expiresAt?: Date; // shown until removed when omitted
+}
+
+export interface NoticeInput {
+  message: string;
+  level?: NoticeLevel;
+  expiresAt?: Date;
+}
@@ -0,0 +1,17 @@
+/**
+ * Repository configuration read from a checked-in .amplify.yml
+ */
+
+export interface RepoConfig {
+  image?: string; // must be built from amplify-base so the entrypoint and amp are present
+  setup: string[]; // run in the checkout after cloning, before any template setup
+  teardown: string[]; // run in the checkout before the container is stopped or removed
+  previewPorts: number[]; // ports the repository serves web previews on
+  instructions?: string; // default amp instructions for every thread in the session
+}
+
+export interface RepoConfigResult {
+  found: boolean;
+  config?: RepoConfig; // only set when the file is valid
+  errors: string[];
+}
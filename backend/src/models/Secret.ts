@@ -0,0 +1,35 @@
+/**
+ * User secret data model and interfaces
+ */
+
+export type SecretScope = 'user' | 'repository';
+
+export type SecretTarget = 'environment' | 'file';
+
+export interface Secret {
+  id: string;
+  ownerId: string;
+  name: string; // environment variable name; also labels the value where it is redacted
+  scope: SecretScope; // user secrets go into every session; repository secrets only into sessions for that repository
+  repositoryName?: string; // owner/repo; required for repository secrets
+  target: SecretTarget;
+  filePath?: string; // where file secrets are written in the container; absolute or relative to ~
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SecretInput {
+  name: string;
+  value?: string; // required when creating; omitted on update to keep the stored value
+  scope: SecretScope;
+  repositoryName?: string;
+  target?: SecretTarget;
+  filePath?: string;
+}
+
+export interface SessionSecret {
+  name: string;
+  value: string;
+  target: SecretTarget;
+  filePath?: string;
+}
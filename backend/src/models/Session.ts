@@ -2,6 +2,9 @@
  * Session data model and interfaces
  */
 
+import { ContainerResourceLimits } from '../config/webConfig';
+import { RepoConfig } from './RepoConfig';
+
 export interface Session {
   id: string;
   userId: string;
@@ -11,14 +14,45 @@ export interface Session {
   status: SessionStatus;
   containerId?: string;
   containerName?: string;
-  threadId?: string;
+  threadId?: string; // The active thread; see threads for the full collection
   ampLogPath?: string;
+  threads?: SessionThread[];
+  resourceLimits?: ContainerResourceLimits; // limits the container was created with
+  templateId?: string; // template the session was created from
+  image?: string; // container image; the default base image when omitted
+  environment?: Record<string, string>; // extra container environment, e.g. from a template
+  repoConfig?: RepoConfig; // the repository's .amplify.yml, when present and valid
+  repoConfigErrors?: string[]; // why the repository's .amplify.yml was rejected
+  shares?: SessionShare[]; // teammates the owner invited
   createdAt: Date;
   lastAccessedAt: Date;
   expiresAt: Date;
   metadata: SessionMetadata;
 }
 
+export interface SessionThread {
+  id: string; // amp thread ID
+  title: string;
+  ampLogPath: string;
+  createdAt: Date;
+  archivedAt?: Date;
+}
+
+/**
+ * What a user may do in a session. Owners manage it; collaborators can also prompt amp
+ * and commit; viewers only watch.
+ */
+export type SessionRole = 'owner' | 'collaborator' | 'viewer';
+
+export type ShareRole = Exclude<SessionRole, 'owner'>;
+
+export interface SessionShare {
+  username: string; // GitHub username; the invitee need not have signed in yet
+  role: ShareRole;
+  invitedBy: string;
+  invitedAt: Date;
+}
+
 export enum SessionStatus {
   CREATING = 'creating',
   READY = 'ready',
@@ -32,6 +66,7 @@ export enum SessionStatus {
 export interface SessionMetadata {
   gitCommitHash?: string;
   workspaceSize?: number;
+  workspaceSizeCheckedAt?: number; // epoch ms of the last workspace measurement
   lastCommand?: string;
   errorCount?: number;
   connectionCount?: number;
@@ -42,6 +77,7 @@ export interface CreateSessionRequest {
   repositoryUrl: string;
   branch: string;
   tags?: string[];
+  resourceLimits?: Partial<ContainerResourceLimits>; // may only tighten the user's tier limits
 }
 
 export interface SessionSummary {
@@ -58,6 +94,7 @@ export interface SessionSummary {
 export interface SessionConnection {
   sessionId: string;
   connectionId: string;
+  userId?: string; // who opened the connection, for presence
   connectedAt: Date;
   lastActivityAt: Date;
   isActive: boolean;
@@ -0,0 +1,31 @@
+/**
+ * Session template data model and interfaces
+ */
+
+export type SessionTemplateScope = 'user' | 'repository';
+
+export interface SessionTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  scope: SessionTemplateScope; // user templates are private; repository templates are offered to everyone creating a session for that repository
+  ownerId: string; // user who created the template and may change it
+  repositoryName?: string; // owner/repo; required for repository templates
+  image?: string; // container image; the default base image when omitted
+  setupCommands: string[]; // run in order in the repository checkout before amp starts
+  environment: Record<string, string>;
+  initialPrompt?: string; // sent as the first amp turn once setup is done
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SessionTemplateInput {
+  name: string;
+  description?: string;
+  scope: SessionTemplateScope;
+  repositoryName?: string;
+  image?: string;
+  setupCommands?: string[];
+  environment?: Record<string, string>;
+  initialPrompt?: string;
+}
@@ -95,6 +95,16 @@ export interface GitHubBranch {
   protected: boolean;
 }
 
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  htmlUrl: string;
+  state: string;
+  draft: boolean;
+  head: string;
+  base: string;
+}
+
 export interface AuthenticatedUser extends User {
   isAuthenticated: true;
 }
@@ -0,0 +1,205 @@
+/**
+ * Operator endpoints across all users; only reachable with the admin role
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  authenticateUser,
+  requireAuth,
+  requireAdmin,
+  getAuthenticatedUser
+} from '../middleware/auth';
+import { validateNotice } from '../middleware/validation';
+import * as sessionController from '../controllers/sessionController';
+import { sessionStore } from '../services/sessionStore';
+import { userStore } from '../services/userStore';
+import { noticeBoard } from '../services/noticeBoard';
+import { CleanupService } from '../services/cleanup';
+import { ContainerManager } from '../docker/containerManager';
+import { sessionLogContext } from '../server/middleware';
+import { logger } from '../utils/logger';
+
+const adminRoutesLogger = logger.child('AdminRoutes');
+
+/**
+ * Admin routes; the cleanup service is owned by the app, so it is passed in
+ */
+export function createAdminRoutes(cleanupService: CleanupService): Router {
+  const router = Router();
+
+  // Tag logs from these routes with the session they act on
+  router.param('sessionId', sessionLogContext);
+
+  router.use(authenticateUser);
+  router.use(requireAuth);
+  router.use(requireAdmin);
+
+  /**
+   * GET /api/admin/sessions
+   * All sessions across users, with their owners and overall counts. The environment is left
+   * out because template variables often hold tokens
+   */
+  router.get('/sessions', (req: Request, res: Response): void => {
+    const sessions = sessionStore.getAllSessions().map(({ environment: _environment, ...session }) => ({
+      ...session,
+      ownerUsername: userStore.getUser(session.userId)?.username || session.userId
+    }));
+
+    res.json({
+      success: true,
+      data: sessions,
+      meta: {
+        stats: sessionStore.getStats(),
+        statusCounts: sessionStore.getStatusCounts()
+      }
+    });
+  });
+
+  /**
+   * POST /api/admin/sessions/:sessionId/stop
+   * Stop any user's session
+   */
+  router.post('/sessions/:sessionId/stop', async (req: Request, res: Response): Promise<void> => {
+    const admin = getAuthenticatedUser(req)!;
+    const session = sessionStore.getSession(req.params.sessionId!);
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    adminRoutesLogger.info('Admin stopping session', { admin: admin.username, sessionId: session.id, ownerId: session.userId });
+
+    const result = await sessionController.stopSession(session.userId, session.id);
+    if (!result.success) {
+      const statusCode = result.error?.includes('no running container') ? 409 : 500;
+      res.status(statusCode).json({ error: 'Failed to stop session', message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Session stopped' });
+  });
+
+  /**
+   * DELETE /api/admin/sessions/:sessionId
+   * Delete any user's session with its container and workspace
+   */
+  router.delete('/sessions/:sessionId', async (req: Request, res: Response): Promise<void> => {
+    const admin = getAuthenticatedUser(req)!;
+    const session = sessionStore.getSession(req.params.sessionId!);
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    adminRoutesLogger.info('Admin deleting session', { admin: admin.username, sessionId: session.id, ownerId: session.userId });
+
+    const result = await sessionController.deleteSession(session.userId, session.id);
+    if (!result.success) {
+      res.status(500).json({ error: 'Failed to delete session', message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Session deleted' });
+  });
+
+  /**
+   * GET /api/admin/sessions/:sessionId/container
+   * Docker's view of the session container, without its environment
+   */
+  router.get('/sessions/:sessionId/container', async (req: Request, res: Response): Promise<void> => {
+    const session = sessionStore.getSession(req.params.sessionId!);
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (!session.containerId) {
+      res.status(404).json({ error: 'Session has no container' });
+      return;
+    }
+
+    const container = await new ContainerManager().inspectContainer(session.containerId);
+    if (!container) {
+      res.status(404).json({ error: 'Container not found', message: `Container ${session.containerId.substring(0, 12)} no longer exists` });
+      return;
+    }
+
+    res.json({ success: true, data: container });
+  });
+
+  /**
+   * GET /api/admin/cleanup
+   * Cleanup service state and its recent runs
+   */
+  router.get('/cleanup', (req: Request, res: Response): void => {
+    res.json({
+      success: true,
+      data: {
+        ...cleanupService.getStats(),
+        runs: cleanupService.getRecentRuns()
+      }
+    });
+  });
+
+  /**
+   * POST /api/admin/cleanup/run
+   * Run a cleanup cycle now
+   */
+  router.post('/cleanup/run', async (req: Request, res: Response): Promise<void> => {
+    const admin = getAuthenticatedUser(req)!;
+    adminRoutesLogger.info('Admin triggered cleanup', { admin: admin.username });
+
+    const run = await cleanupService.runCleanup('manual');
+    if (!run) {
+      res.status(409).json({ error: 'Cleanup service is not running' });
+      return;
+    }
+
+    res.json({ success: true, data: run });
+  });
+
+  /**
+   * GET /api/admin/notices
+   * Notices currently shown to users
+   */
+  router.get('/notices', (req: Request, res: Response): void => {
+    res.json({ success: true, data: noticeBoard.list() });
+  });
+
+  /**
+   * POST /api/admin/notices
+   * Show a maintenance notice to every signed-in user
+   */
+  router.post('/notices', validateNotice, (req: Request, res: Response): void => {
+    const admin = getAuthenticatedUser(req)!;
+    const { message, level, expiresAt } = req.body;
+
+    const notice = noticeBoard.post({
+      message,
+      ...(level && { level }),
+      ...(expiresAt && { expiresAt: new Date(expiresAt) })
+    }, admin.username);
+
+    res.status(201).json({ success: true, data: notice });
+  });
+
+  /**
+   * DELETE /api/admin/notices/:noticeId
+   * Take a notice down
+   */
+  router.delete('/notices/:noticeId', (req: Request, res: Response): void => {
+    if (!noticeBoard.remove(req.params.noticeId!)) {
+      res.status(404).json({ error: 'Notice not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Notice removed' });
+  });
+
+  return router;
+}
+
+export default createAdminRoutes;
@@ -11,6 +11,9 @@ import {
   initializeGitHubStrategy 
 } from '../auth/github';
 import { AuthenticatedUser } from '../models/User';
+import { userStore } from '../services/userStore';
+import { validateAmpApiKey, canUseSharedKey } from '../services/ampKeys';
+import { isAdmin, clearAdminCache } from '../services/adminAccess';
 import { logger } from '../utils/logger';
 import webConfig from '../config/webConfig';
 
@@ -76,6 +79,7 @@ router.post('/logout', (req: Request, res: Response) => {
       id: user.id,
       username: user.username
     });
+    clearAdminCache(user.id);
   }
 
   // Clear authentication cookie
@@ -87,11 +91,39 @@ router.post('/logout', (req: Request, res: Response) => {
   });
 });
 
+/**
+ * POST /auth/revoke
+ * Forget the stored GitHub token and invalidate every issued login token
+ */
+router.post('/revoke', (req: Request, res: Response) => {
+  const user = (req as any).user as AuthenticatedUser;
+
+  if (!user || !user.isAuthenticated) {
+    res.status(401).json({
+      error: 'Not authenticated'
+    });
+    return;
+  }
+
+  userStore.revokeToken(user.id);
+  clearAuthCookie(res);
+
+  authLogger.info('User tokens revoked', {
+    id: user.id,
+    username: user.username
+  });
+
+  res.json({
+    success: true,
+    message: 'Tokens revoked successfully'
+  });
+});
+
 /**
  * GET /auth/me
  * Get current authenticated user info
  */
-router.get('/me', (req: Request, res: Response) => {
+router.get('/me', async (req: Request, res: Response) => {
   const user = (req as any).user as AuthenticatedUser;
   
   if (!user || !user.isAuthenticated) {
@@ -113,7 +145,8 @@ router.get('/me', (req: Request, res: Response) => {
     profile: user.profile,
     preferences: user.preferences,
     createdAt: user.createdAt,
-    lastLoginAt: user.lastLoginAt
+    lastLoginAt: user.lastLoginAt,
+    isAdmin: await isAdmin(user)
   };
 
   res.json({ 
@@ -164,9 +197,16 @@ router.put('/preferences', (req: Request, res: Response) => {
   }
 
   try {
-    // In a real app, you'd update the database
-    // For now, we'll just merge the preferences
-    user.preferences = { ...user.preferences, ...preferences };
+    const updated = userStore.updatePreferences(user.id, preferences);
+
+    if (!updated) {
+      res.status(404).json({
+        error: 'User not found'
+      });
+      return;
+    }
+
+    user.preferences = updated;
 
     authLogger.info('User preferences updated', {
       id: user.id,
@@ -175,7 +215,7 @@ router.put('/preferences', (req: Request, res: Response) => {
 
     res.json({ 
       success: true, 
-      preferences: user.preferences 
+      preferences: updated 
     });
   } catch (error) {
     authLogger.error('Failed to update preferences:', error);
@@ -185,6 +225,106 @@ router.put('/preferences', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /auth/amp-key
+ * Whether the user has an amp API key and whether sessions can fall back to the shared one
+ */
+router.get('/amp-key', (req: Request, res: Response) => {
+  const user = (req as any).user as AuthenticatedUser;
+
+  if (!user || !user.isAuthenticated) {
+    res.status(401).json({
+      error: 'Not authenticated'
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...(userStore.getAmpApiKeyStatus(user.id) || { configured: false }),
+      sharedKeyAllowed: canUseSharedKey(user.username)
+    }
+  });
+});
+
+/**
+ * PUT /auth/amp-key
+ * Validate and store the user's amp API key; sessions started afterwards use it
+ */
+router.put('/amp-key', async (req: Request, res: Response) => {
+  const user = (req as any).user as AuthenticatedUser;
+
+  if (!user || !user.isAuthenticated) {
+    res.status(401).json({
+      error: 'Not authenticated'
+    });
+    return;
+  }
+
+  const apiKey = typeof req.body.apiKey === 'string' ? req.body.apiKey.trim() : '';
+
+  if (!apiKey || apiKey.length > 512) {
+    res.status(400).json({
+      error: 'An amp API key is required'
+    });
+    return;
+  }
+
+  const validation = await validateAmpApiKey(apiKey);
+
+  if (!validation.valid) {
+    const statusCode = validation.error?.includes('rejected') ? 400 : 502;
+    res.status(statusCode).json({
+      error: 'Invalid amp API key',
+      message: validation.error
+    });
+    return;
+  }
+
+  if (!userStore.setAmpApiKey(user.id, apiKey)) {
+    res.status(404).json({
+      error: 'User not found'
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...userStore.getAmpApiKeyStatus(user.id),
+      sharedKeyAllowed: canUseSharedKey(user.username)
+    }
+  });
+});
+
+/**
+ * DELETE /auth/amp-key
+ * Forget the user's amp API key
+ */
+router.delete('/amp-key', (req: Request, res: Response) => {
+  const user = (req as any).user as AuthenticatedUser;
+
+  if (!user || !user.isAuthenticated) {
+    res.status(401).json({
+      error: 'Not authenticated'
+    });
+    return;
+  }
+
+  userStore.clearAmpApiKey(user.id);
+
+  authLogger.info('User amp API key removed', {
+    id: user.id,
+    username: user.username
+  });
+
+  res.json({
+    success: true,
+    message: 'amp API key removed'
+  });
+});
+
 /**
  * Helper function to get frontend URL
  */
@@ -5,10 +5,16 @@
 import { Router, Request, Response } from 'express';
 import { getAuthenticatedUser } from '../middleware/auth';
 import { sessionStore } from '../services/sessionStore';
+import { hasSessionRole } from '../services/sessionAccess';
 import { gitOperationsService } from '../services/gitOperations';
 import { logger } from '../utils/logger';
+import { sessionLogContext } from '../server/middleware';
 
 const router = Router();
+
+// Tag logs from these routes with the session they act on
+router.param('sessionId', sessionLogContext);
+
 const diffRoutesLogger = logger.child('DiffRoutes');
 
 /**
@@ -24,9 +30,9 @@ router.get('/:sessionId/diff', async (req: Request, res: Response): Promise<void
       sessionId
     });
 
-    // Validate session ownership
+    // Validate session access
     const session = sessionStore.getSession(sessionId!);
-    if (!session || session.userId !== user.id) {
+    if (!session || !hasSessionRole(session, user, 'viewer')) {
       res.status(404).json({
         success: false,
         error: 'Session not found'
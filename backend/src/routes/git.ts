@@ -4,11 +4,18 @@
 
 import { Router, Request, Response } from 'express';
 import { getAuthenticatedUser } from '../middleware/auth';
-import { gitOperationsService } from '../services/gitOperations';
+import { gitOperationsService, GitErrorCode } from '../services/gitOperations';
 import { sessionStore } from '../services/sessionStore';
+import { getSessionRole, hasSessionRole, roleAllows } from '../services/sessionAccess';
+import { ampService } from '../services/ampService';
 import { logger } from '../utils/logger';
+import { sessionLogContext } from '../server/middleware';
 
 const router = Router();
+
+// Tag logs from these routes with the session they act on
+router.param('sessionId', sessionLogContext);
+
 const gitRoutesLogger = logger.child('GitRoutes');
 
 /**
@@ -24,9 +31,9 @@ router.get('/:sessionId/git/status', async (req: Request, res: Response): Promis
       sessionId
     });
 
-    // Validate session ownership
+    // Validate session access
     const session = sessionStore.getSession(sessionId!);
-    if (!session || session.userId !== user.id) {
+    if (!session || !hasSessionRole(session, user, 'viewer')) {
       res.status(404).json({
         success: false,
         error: 'Session not found'
@@ -77,9 +84,9 @@ router.get('/:sessionId/git/diff', async (req: Request, res: Response): Promise<
       sessionId
     });
 
-    // Validate session ownership
+    // Validate session access
     const session = sessionStore.getSession(sessionId!);
-    if (!session || session.userId !== user.id) {
+    if (!session || !hasSessionRole(session, user, 'viewer')) {
       res.status(404).json({
         success: false,
         error: 'Session not found'
@@ -143,9 +150,10 @@ router.post('/:sessionId/git/commit', async (req: Request, res: Response): Promi
       fileCount: files?.length
     });
 
-    // Validate session ownership
+    // Validate session access; viewers may only watch
     const session = sessionStore.getSession(sessionId!);
-    if (!session || session.userId !== user.id) {
+    const role = session ? getSessionRole(session, user) : null;
+    if (!session || !role) {
       res.status(404).json({
         success: false,
         error: 'Session not found'
@@ -153,6 +161,14 @@ router.post('/:sessionId/git/commit', async (req: Request, res: Response): Promi
       return;
     }
 
+    if (!roleAllows(role, 'collaborator')) {
+      res.status(403).json({
+        success: false,
+        error: 'Viewers cannot commit'
+      });
+      return;
+    }
+
     const result = await gitOperationsService.commit(sessionId!, {
       message: message.trim(),
       description: description?.trim(),
@@ -210,7 +226,14 @@ router.post('/:sessionId/git/push', async (req: Request, res: Response): Promise
   try {
     const user = getAuthenticatedUser(req)!;
     const { sessionId } = req.params;
-    const { force, createPullRequest, pullRequestTitle, pullRequestDescription } = req.body;
+    const {
+      force,
+      createPullRequest,
+      pullRequestTitle,
+      pullRequestDescription,
+      pullRequestBase,
+      pullRequestDraft
+    } = req.body;
 
     gitRoutesLogger.info('Pushing changes', {
       userId: user.id,
@@ -219,9 +242,10 @@ router.post('/:sessionId/git/push', async (req: Request, res: Response): Promise
       createPR: !!createPullRequest
     });
 
-    // Validate session ownership
+    // Validate session access; viewers may only watch
     const session = sessionStore.getSession(sessionId!);
-    if (!session || session.userId !== user.id) {
+    const role = session ? getSessionRole(session, user) : null;
+    if (!session || !role) {
       res.status(404).json({
         success: false,
         error: 'Session not found'
@@ -229,11 +253,21 @@ router.post('/:sessionId/git/push', async (req: Request, res: Response): Promise
       return;
     }
 
-    const result = await gitOperationsService.push(sessionId!, {
+    if (!roleAllows(role, 'collaborator')) {
+      res.status(403).json({
+        success: false,
+        error: 'Viewers cannot push'
+      });
+      return;
+    }
+
+    const result = await gitOperationsService.push(sessionId!, user, {
       force: !!force,
       createPullRequest: !!createPullRequest,
       pullRequestTitle,
-      pullRequestDescription
+      pullRequestDescription,
+      pullRequestBase,
+      pullRequestDraft: !!pullRequestDraft
     });
 
     if (result.success) {
@@ -247,19 +281,35 @@ router.post('/:sessionId/git/push', async (req: Request, res: Response): Promise
         success: true,
         message: result.message,
         data: {
-          pullRequestUrl: result.pullRequestUrl
+          pullRequestUrl: result.pullRequestUrl,
+          branch: result.branch,
+          ahead: result.ahead,
+          behind: result.behind
         }
       });
     } else {
       gitRoutesLogger.warn('Failed to push changes', {
         userId: user.id,
         sessionId,
-        error: result.error
+        error: result.error,
+        errorCode: result.errorCode
       });
 
-      res.status(500).json({
+      const statusCode = result.errorCode === GitErrorCode.NON_FAST_FORWARD ? 409 :
+                        result.errorCode === GitErrorCode.PROTECTED_BRANCH ? 403 :
+                        result.errorCode === GitErrorCode.PERMISSION_DENIED ? 403 :
+                        result.errorCode === GitErrorCode.AUTHENTICATION_FAILED ? 401 :
+                        result.errorCode === GitErrorCode.PULL_REQUEST_FAILED ? 502 : 500;
+
+      res.status(statusCode).json({
         success: false,
-        error: result.error || 'Failed to push changes'
+        error: result.error || 'Failed to push changes',
+        code: result.errorCode,
+        data: {
+          branch: result.branch,
+          ahead: result.ahead,
+          behind: result.behind
+        }
       });
     }
 
@@ -276,6 +326,119 @@ router.post('/:sessionId/git/push', async (req: Request, res: Response): Promise
   }
 });
 
+/**
+ * Revert the workspace to the snapshot taken before a user message was sent to amp
+ */
+router.post('/:sessionId/git/snapshots/:messageId/restore', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = getAuthenticatedUser(req)!;
+    const { sessionId, messageId } = req.params;
+
+    gitRoutesLogger.info('Restoring workspace snapshot', {
+      userId: user.id,
+      sessionId,
+      messageId
+    });
+
+    // Validate session access; viewers may only watch
+    const session = sessionStore.getSession(sessionId!);
+    const role = session ? getSessionRole(session, user) : null;
+    if (!session || !role) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+      return;
+    }
+
+    if (!roleAllows(role, 'collaborator')) {
+      res.status(403).json({
+        success: false,
+        error: 'Viewers cannot restore snapshots'
+      });
+      return;
+    }
+
+    if (session.threadId && ampService.isTurnActive(session.threadId)) {
+      res.status(409).json({
+        success: false,
+        error: 'Amp is still working. Stop the turn before reverting.'
+      });
+      return;
+    }
+
+    // Only the active thread's messages can be reverted
+    const result = session.threadId
+      ? await gitOperationsService.restoreSnapshot(sessionId!, session.threadId, messageId!)
+      : { success: false, error: 'Snapshot not found', errorCode: GitErrorCode.SNAPSHOT_NOT_FOUND };
+
+    if (result.success) {
+      res.json({
+        success: true,
+        message: result.message,
+        data: {
+          commitHash: result.commitHash
+        }
+      });
+    } else {
+      res.status(result.errorCode === GitErrorCode.SNAPSHOT_NOT_FOUND ? 404 : 500).json({
+        success: false,
+        error: result.error || 'Failed to restore snapshot',
+        code: result.errorCode
+      });
+    }
+
+  } catch (error: any) {
+    gitRoutesLogger.error('Failed to restore workspace snapshot', {
+      sessionId: req.params.sessionId,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * Get prefilled pull request title and body for a session
+ */
+router.get('/:sessionId/git/pull-request/defaults', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = getAuthenticatedUser(req)!;
+    const { sessionId } = req.params;
+
+    // Validate session access
+    const session = sessionStore.getSession(sessionId!);
+    if (!session || !hasSessionRole(session, user, 'viewer')) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+      return;
+    }
+
+    const defaults = await gitOperationsService.getPullRequestDefaults(sessionId!);
+
+    res.json({
+      success: true,
+      data: defaults
+    });
+
+  } catch (error: any) {
+    gitRoutesLogger.error('Failed to get pull request defaults', {
+      sessionId: req.params.sessionId,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
 /**
  * Get commit log for a session
  */
@@ -291,9 +454,9 @@ router.get('/:sessionId/git/log', async (req: Request, res: Response): Promise<v
       limit
     });
 
-    // Validate session ownership
+    // Validate session access
     const session = sessionStore.getSession(sessionId!);
-    if (!session || session.userId !== user.id) {
+    if (!session || !hasSessionRole(session, user, 'viewer')) {
       res.status(404).json({
         success: false,
         error: 'Session not found'
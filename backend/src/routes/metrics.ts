@@ -0,0 +1,40 @@
+/**
+ * Prometheus scrape endpoint
+ */
+
+import { Router, Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import webConfig from '../config/webConfig';
+import { metrics } from '../services/metrics';
+
+const router = Router();
+
+/**
+ * Whether the request carries the configured scrape token, if one is required
+ */
+function isAuthorizedScrape(req: Request): boolean {
+  const { token } = webConfig.metrics;
+  if (!token) {
+    return true;
+  }
+
+  const header = req.get('Authorization') || '';
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * GET /metrics
+ * Current metrics in the text exposition format
+ */
+router.get('/', (req: Request, res: Response): void => {
+  if (!isAuthorizedScrape(req)) {
+    res.status(401).type('text/plain').send('Unauthorized\n');
+    return;
+  }
+
+  res.type('text/plain; version=0.0.4; charset=utf-8').send(metrics.render());
+});
+
+export default router;
@@ -0,0 +1,22 @@
+/**
+ * Maintenance notices for signed-in users; admins post them through /api/admin/notices
+ */
+
+import { Router, Request, Response } from 'express';
+import { authenticateUser, requireAuth } from '../middleware/auth';
+import { noticeBoard } from '../services/noticeBoard';
+
+const router = Router();
+
+router.use(authenticateUser);
+router.use(requireAuth);
+
+/**
+ * GET /api/notices
+ * Notices that should currently be shown
+ */
+router.get('/', (req: Request, res: Response): void => {
+  res.json({ success: true, data: noticeBoard.list() });
+});
+
+export default router;
@@ -0,0 +1,188 @@
+/**
+ * Preview routes that proxy HTTP and WebSocket traffic to web servers inside session containers
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { authenticateUser, requireAuth, getAuthenticatedUser } from '../middleware/auth';
+import { previewProxyService, PreviewResult, PreviewTarget } from '../services/previewProxy';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const previewRoutesLogger = logger.child('PreviewRoutes');
+
+const PREVIEW_UPGRADE_PATH = /^\/api\/sessions\/([^/?]+)\/preview\/([^/?]+)\/(\d+)(\/[^?]*)?(\?.*)?$/;
+
+/**
+ * Map a preview error to an HTTP status
+ */
+function getErrorStatus(error: string | undefined): number {
+  if (error === 'Session not found') {
+    return 404;
+  }
+  if (error === 'Invalid preview token') {
+    return 401;
+  }
+  if (error?.includes('not running')) {
+    return 409;
+  }
+  return 502;
+}
+
+/**
+ * Parse a port parameter, or null if it is not a valid TCP port
+ */
+function parsePort(value: string | undefined): number | null {
+  const port = parseInt(value || '', 10);
+  return port >= 1 && port <= 65535 ? port : null;
+}
+
+/**
+ * List the ports servers are listening on inside the session container, with the token
+ * preview URLs are built from
+ */
+router.get('/:sessionId/preview/ports', authenticateUser, requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = getAuthenticatedUser(req)!;
+    const { sessionId } = req.params;
+
+    const result = await previewProxyService.listPorts(sessionId!, user);
+
+    if (!result.success) {
+      res.status(getErrorStatus(result.error)).json({
+        success: false,
+        error: result.error || 'Failed to list ports'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ports: result.data,
+        token: previewProxyService.issuePreviewToken(sessionId!, user.id)
+      }
+    });
+
+  } catch (error: any) {
+    previewRoutesLogger.error('Failed to list preview ports', {
+      sessionId: req.params.sessionId,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * Redirect to the trailing-slash form so relative URLs in the previewed page resolve
+ */
+router.all('/:sessionId/preview/:token/:port(\\d+)', (req: Request, res: Response, next: NextFunction): void => {
+  // Non-strict routing also sends the trailing-slash form here
+  if (req.path.endsWith('/')) {
+    return next();
+  }
+
+  const query = req.originalUrl.includes('?') ? req.originalUrl.slice(req.originalUrl.indexOf('?')) : '';
+  res.redirect(`${req.baseUrl}${req.path}/${query}`);
+});
+
+/**
+ * Proxy HTTP requests to a port inside the session container. The token in the path
+ * authenticates them, since sandboxed preview pages send no cookies.
+ */
+router.all('/:sessionId/preview/:token/:port(\\d+)/*', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { sessionId, token } = req.params;
+    const port = parsePort(req.params.port);
+
+    if (!port) {
+      res.status(400).json({ success: false, error: 'Invalid port' });
+      return;
+    }
+
+    const user = previewProxyService.verifyPreviewToken(token!, sessionId!);
+    const result: PreviewResult<PreviewTarget> = user
+      ? await previewProxyService.resolveTarget(sessionId!, user, port, token!)
+      : { success: false, error: 'Invalid preview token' };
+
+    if (!result.success || !result.data) {
+      res.status(getErrorStatus(result.error)).json({
+        success: false,
+        error: result.error || 'Preview unavailable'
+      });
+      return;
+    }
+
+    const path = req.originalUrl.slice(result.data.prefix.length) || '/';
+    previewProxyService.proxyRequest(req, res, result.data, path);
+
+  } catch (error: any) {
+    previewRoutesLogger.error('Failed to proxy preview request', {
+      sessionId: req.params.sessionId,
+      error: error.message
+    });
+
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+});
+
+/**
+ * Proxy a WebSocket upgrade for a preview URL. Returns false if the URL is not a preview URL.
+ */
+export function handlePreviewUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean {
+  const match = (req.url || '').match(PREVIEW_UPGRADE_PATH);
+  if (!match) {
+    return false;
+  }
+
+  const [, sessionId = '', token = '', portParam, path = '/', query = ''] = match;
+  const reject = (status: string) => {
+    socket.end(`HTTP/1.1 ${status}\r\n\r\n`);
+  };
+
+  if (!previewProxyService.isAllowedUpgradeOrigin(req)) {
+    previewRoutesLogger.warn('Rejected preview WebSocket from another origin', { sessionId, origin: req.headers.origin });
+    reject('403 Forbidden');
+    return true;
+  }
+
+  const user = previewProxyService.verifyPreviewToken(token, sessionId);
+  const port = parsePort(portParam);
+  if (!user) {
+    reject('401 Unauthorized');
+    return true;
+  }
+  if (!port) {
+    reject('400 Bad Request');
+    return true;
+  }
+
+  previewProxyService.resolveTarget(sessionId, user, port, token)
+    .then(result => {
+      if (!result.success || !result.data) {
+        const status = getErrorStatus(result.error);
+        reject(status === 404 ? '404 Not Found' : status === 409 ? '409 Conflict' : '502 Bad Gateway');
+        return;
+      }
+
+      previewProxyService.proxyUpgrade(req, socket, head, result.data, `${path}${query}`);
+    })
+    .catch(error => {
+      previewRoutesLogger.error('Failed to proxy preview WebSocket', { sessionId, error: error.message });
+      reject('500 Internal Server Error');
+    });
+
+  return true;
+}
+
+export default router;
@@ -0,0 +1,105 @@
+/**
+ * Terminal recording routes for audit and playback
+ */
+
+import { Router, Request, Response } from 'express';
+import { getAuthenticatedUser } from '../middleware/auth';
+import { validateSessionId, validateRecordingId } from '../middleware/validation';
+import { sessionStore } from '../services/sessionStore';
+import { hasSessionRole } from '../services/sessionAccess';
+import { terminalRecorder } from '../services/terminalRecorder';
+import { logger } from '../utils/logger';
+import { sessionLogContext } from '../server/middleware';
+
+const router = Router();
+
+// Tag logs from these routes with the session they act on
+router.param('sessionId', sessionLogContext);
+
+const recordingRoutesLogger = logger.child('RecordingRoutes');
+
+/**
+ * Whether the user may watch the session; anyone it is shared with may
+ */
+function canViewSession(req: Request): boolean {
+  const user = getAuthenticatedUser(req)!;
+  const session = sessionStore.getSession(req.params.sessionId!);
+  return !!session && hasSessionRole(session, user, 'viewer');
+}
+
+/**
+ * List a session's terminal recordings, newest first.
+ * Only the shared terminal is recorded; commands amp runs in the container are not.
+ * Old recordings are pruned as new ones start and all are deleted with the session
+ */
+router.get('/:sessionId/recordings', validateSessionId, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!canViewSession(req)) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+      return;
+    }
+
+    const recordings = await terminalRecorder.listRecordings(req.params.sessionId!);
+
+    res.json({
+      success: true,
+      data: recordings
+    });
+  } catch (error: any) {
+    recordingRoutesLogger.error('Failed to list recordings', {
+      sessionId: req.params.sessionId,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * Get a recording as an asciicast v2 file
+ */
+router.get(
+  '/:sessionId/recordings/:recordingId',
+  validateSessionId,
+  validateRecordingId,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId, recordingId } = req.params;
+      const recording = canViewSession(req)
+        ? await terminalRecorder.readRecording(sessionId!, recordingId!)
+        : null;
+
+      if (recording === null) {
+        res.status(404).json({
+          success: false,
+          error: 'Recording not found'
+        });
+        return;
+      }
+
+      if (req.query.download !== undefined) {
+        res.attachment(`${recordingId}.cast`);
+      }
+      res.type('application/x-asciicast').send(recording);
+    } catch (error: any) {
+      recordingRoutesLogger.error('Failed to read recording', {
+        sessionId: req.params.sessionId,
+        recordingId: req.params.recordingId,
+        error: error.message
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+);
+
+export default router;
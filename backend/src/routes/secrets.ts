@@ -0,0 +1,129 @@
+/**
+ * User secret endpoints; values are write-only and never returned
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  authenticateUser,
+  requireAuth,
+  getAuthenticatedUser
+} from '../middleware/auth';
+import { generalRateLimit } from '../middleware/rateLimit';
+import { validateSecret } from '../middleware/validation';
+import { secretStore } from '../services/secretStore';
+import { SecretInput } from '../models/Secret';
+import { logger } from '../utils/logger';
+
+const secretRoutesLogger = logger.child('SecretRoutes');
+const router = Router();
+
+// Apply authentication and rate limiting to all routes
+router.use(authenticateUser);
+router.use(requireAuth);
+router.use(generalRateLimit.middleware);
+
+/**
+ * Pick the secret fields out of a validated request body
+ */
+function toSecretInput(body: any): SecretInput {
+  return {
+    name: body.name,
+    scope: body.scope,
+    ...(body.value !== undefined && { value: body.value }),
+    ...(body.repositoryName && { repositoryName: body.repositoryName }),
+    ...(body.target && { target: body.target }),
+    ...(body.filePath && { filePath: body.filePath })
+  };
+}
+
+/**
+ * GET /api/secrets
+ * List the user's secrets without their values
+ */
+router.get('/', (req: Request, res: Response): void => {
+  const user = getAuthenticatedUser(req)!;
+  const secrets = secretStore.listSecrets(user.id);
+
+  res.json({
+    success: true,
+    data: secrets,
+    meta: {
+      total: secrets.length
+    }
+  });
+});
+
+/**
+ * POST /api/secrets
+ * Create a secret; it is injected into sessions started afterwards
+ */
+router.post('/', validateSecret, (req: Request, res: Response): void => {
+  const user = getAuthenticatedUser(req)!;
+  const secret = secretStore.createSecret(user.id, { ...toSecretInput(req.body), value: req.body.value });
+
+  if (!secret) {
+    res.status(409).json({
+      error: 'Failed to create secret',
+      message: 'A secret with this name already exists'
+    });
+    return;
+  }
+
+  secretRoutesLogger.info('Secret created', {
+    userId: user.id,
+    secretId: secret.id,
+    scope: secret.scope
+  });
+
+  res.status(201).json({
+    success: true,
+    data: secret,
+    message: 'Secret created successfully'
+  });
+});
+
+/**
+ * PUT /api/secrets/:secretId
+ * Replace one of the user's secrets; the value is kept when omitted
+ */
+router.put('/:secretId', validateSecret, (req: Request, res: Response): void => {
+  const user = getAuthenticatedUser(req)!;
+  const secret = secretStore.updateSecret(req.params.secretId!, user.id, toSecretInput(req.body));
+
+  if (!secret) {
+    res.status(404).json({
+      error: 'Failed to update secret',
+      message: 'Secret not found or its name is already taken'
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: secret,
+    message: 'Secret updated successfully'
+  });
+});
+
+/**
+ * DELETE /api/secrets/:secretId
+ * Delete one of the user's secrets
+ */
+router.delete('/:secretId', (req: Request, res: Response): void => {
+  const user = getAuthenticatedUser(req)!;
+
+  if (!secretStore.deleteSecret(req.params.secretId!, user.id)) {
+    res.status(404).json({
+      error: 'Failed to delete secret',
+      message: 'Secret not found'
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    message: 'Secret deleted successfully'
+  });
+});
+
+export default router;
@@ -12,14 +12,19 @@ import { generalRateLimit } from '../middleware/rateLimit';
 import { 
   validateCreateSession,
   validateSessionId,
+  validateSessionShare,
   handleServerError 
 } from '../middleware/validation';
 import * as sessionController from '../controllers/sessionController';
 import { logger } from '../utils/logger';
+import { sessionLogContext } from '../server/middleware';
 
 const sessionRoutesLogger = logger.child('SessionRoutes');
 const router = Router();
 
+// Tag logs from these routes with the session they act on
+router.param('sessionId', sessionLogContext);
+
 // Apply authentication and rate limiting to all routes
 router.use(authenticateUser);
 router.use(requireAuth);
@@ -77,12 +82,16 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
 
 /**
  * POST /api/sessions
- * Create a new session with GitHub repository cloning
+ * Create a new session with GitHub repository cloning.
+ * Clients that accept application/x-ndjson get one progress event per line while
+ * the session is set up, ending with a result or error line.
  */
 router.post('/', validateCreateSession, async (req: Request, res: Response): Promise<void> => {
+  const streamProgress = !!req.get('Accept')?.includes('application/x-ndjson');
+
   try {
     const user = getAuthenticatedUser(req)!;
-    const { repositoryUrl, branch, sessionName } = req.body;
+    const { repositoryUrl, branch, sessionName, resourceLimits, templateId } = req.body;
 
     sessionRoutesLogger.info('Session creation request body', {
       userId: user.id,
@@ -100,13 +109,27 @@ router.post('/', validateCreateSession, async (req: Request, res: Response): Pro
     const sessionData = {
       repositoryUrl,
       branch: branch || 'main',
-      sessionName: sessionName || 'Untitled Session'
+      sessionName: sessionName || 'Untitled Session',
+      ...(resourceLimits && { resourceLimits }),
+      ...(templateId && { templateId })
     };
 
-    const result = await sessionController.createSession(user, sessionData);
+    if (streamProgress) {
+      // no-transform keeps compression from buffering the events
+      res.status(200);
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      res.flushHeaders();
+    }
+
+    const result = await sessionController.createSession(user, sessionData, streamProgress
+      ? event => res.write(JSON.stringify({ type: 'progress', ...event }) + '\n')
+      : undefined);
 
     if (!result.success) {
-      const statusCode = result.error?.includes('already exists') ? 409 : 
+      const statusCode = result.error?.startsWith('Quota exceeded') ? 403 :
+                        result.error?.includes('tier') ? 400 :
+                        result.error?.includes('already exists') ? 409 : 
                         result.error?.includes('not found') ? 404 :
                         result.error?.includes('access denied') ? 403 : 500;
 
@@ -117,6 +140,11 @@ router.post('/', validateCreateSession, async (req: Request, res: Response): Pro
         sessionData
       });
 
+      if (streamProgress) {
+        res.end(JSON.stringify({ type: 'error', statusCode, error: 'Failed to create session', message: result.error }) + '\n');
+        return;
+      }
+
       res.status(statusCode).json({
         error: 'Failed to create session',
         message: result.error
@@ -130,6 +158,11 @@ router.post('/', validateCreateSession, async (req: Request, res: Response): Pro
       repositoryUrl
     });
 
+    if (streamProgress) {
+      res.end(JSON.stringify({ type: 'result', success: true, data: result.data, message: 'Session created successfully' }) + '\n');
+      return;
+    }
+
     res.status(201).json({
       success: true,
       data: result.data,
@@ -143,6 +176,11 @@ router.post('/', validateCreateSession, async (req: Request, res: Response): Pro
       body: req.body
     });
 
+    if (res.headersSent) {
+      res.end(JSON.stringify({ type: 'error', statusCode: 500, error: 'Internal server error', message: 'Failed to create session' }) + '\n');
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to create session'
@@ -150,6 +188,45 @@ router.post('/', validateCreateSession, async (req: Request, res: Response): Pro
   }
 });
 
+/**
+ * GET /api/sessions/shared
+ * Sessions other users shared with the authenticated user
+ */
+router.get('/shared', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = getAuthenticatedUser(req)!;
+
+    const result = await sessionController.getSharedSessions(user);
+
+    if (!result.success) {
+      res.status(500).json({
+        error: 'Failed to fetch shared sessions',
+        message: result.error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      meta: {
+        total: result.data?.length || 0
+      }
+    });
+
+  } catch (error: any) {
+    sessionRoutesLogger.error('Error in GET /sessions/shared', {
+      error: error.message,
+      stack: error.stack
+    });
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch shared sessions'
+    });
+  }
+});
+
 /**
  * GET /api/sessions/:sessionId
  * Get a specific session by ID
@@ -172,9 +249,9 @@ router.get('/:sessionId', validateSessionId, async (req: Request, res: Response)
       sessionId
     });
 
-    const result = await sessionController.getSessionById(user.id, sessionId);
+    const result = await sessionController.getAccessibleSession(user.id, sessionId);
 
-    if (!result.success) {
+    if (!result.success || !result.data) {
       const statusCode = result.error?.includes('not found') ? 404 : 500;
       
       sessionRoutesLogger.error('Failed to fetch session', {
@@ -193,7 +270,10 @@ router.get('/:sessionId', validateSessionId, async (req: Request, res: Response)
 
     res.json({
       success: true,
-      data: result.data
+      data: {
+        ...result.data.session,
+        role: result.data.role
+      }
     });
 
   } catch (error: any) {
@@ -536,6 +616,127 @@ router.get('/:sessionId/status', async (req: Request, res: Response): Promise<vo
   }
 });
 
+/**
+ * PUT /api/sessions/:sessionId/shares/:username
+ * Invite a GitHub user to the session as a viewer or collaborator, or change their role
+ */
+router.put('/:sessionId/shares/:username', validateSessionShare, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = getAuthenticatedUser(req)!;
+    const { sessionId, username } = req.params;
+
+    const result = await sessionController.shareSession(user, sessionId!, username!, req.body.role);
+
+    if (!result.success) {
+      const statusCode = result.error?.includes('not found') ? 404 :
+        result.error?.includes('owner') ? 400 : 500;
+
+      res.status(statusCode).json({
+        error: 'Failed to share session',
+        message: result.error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.data
+    });
+
+  } catch (error: any) {
+    sessionRoutesLogger.error('Error in PUT /sessions/:sessionId/shares/:username', {
+      error: error.message,
+      stack: error.stack,
+      params: req.params
+    });
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to share session'
+    });
+  }
+});
+
+/**
+ * DELETE /api/sessions/:sessionId/shares/:username
+ * Revoke a user's access to the session
+ */
+router.delete('/:sessionId/shares/:username', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = getAuthenticatedUser(req)!;
+    const { sessionId, username } = req.params;
+
+    const result = await sessionController.unshareSession(user.id, sessionId!, username!);
+
+    if (!result.success) {
+      const statusCode = result.error?.includes('not found') || result.error?.includes('not shared') ? 404 : 500;
+
+      res.status(statusCode).json({
+        error: 'Failed to remove share',
+        message: result.error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.data
+    });
+
+  } catch (error: any) {
+    sessionRoutesLogger.error('Error in DELETE /sessions/:sessionId/shares/:username', {
+      error: error.message,
+      stack: error.stack,
+      params: req.params
+    });
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to remove share'
+    });
+  }
+});
+
+/**
+ * GET /api/sessions/:sessionId/presence
+ * Who has the session open right now
+ */
+router.get('/:sessionId/presence', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = getAuthenticatedUser(req)!;
+    const { sessionId } = req.params;
+
+    const result = await sessionController.getSessionPresence(user.id, sessionId!);
+
+    if (!result.success) {
+      const statusCode = result.error?.includes('not found') ? 404 : 500;
+
+      res.status(statusCode).json({
+        error: 'Failed to get session presence',
+        message: result.error
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.data
+    });
+
+  } catch (error: any) {
+    sessionRoutesLogger.error('Error in GET /sessions/:sessionId/presence', {
+      error: error.message,
+      stack: error.stack,
+      params: req.params
+    });
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to get session presence'
+    });
+  }
+});
+
 // Add error handling middleware to catch any unhandled errors
 router.use(handleServerError);
 
@@ -0,0 +1,125 @@
+/**
+ * Session template CRUD endpoints
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  authenticateUser,
+  requireAuth,
+  getAuthenticatedUser
+} from '../middleware/auth';
+import { generalRateLimit } from '../middleware/rateLimit';
+import { validateSessionTemplate } from '../middleware/validation';
+import { templateStore } from '../services/templateStore';
+import { SessionTemplateInput } from '../models/SessionTemplate';
+import { logger } from '../utils/logger';
+
+const templateRoutesLogger = logger.child('TemplateRoutes');
+const router = Router();
+
+// Apply authentication and rate limiting to all routes
+router.use(authenticateUser);
+router.use(requireAuth);
+router.use(generalRateLimit.middleware);
+
+/**
+ * Pick the template fields out of a validated request body
+ */
+function toTemplateInput(body: any): SessionTemplateInput {
+  return {
+    name: body.name,
+    scope: body.scope,
+    ...(body.description && { description: body.description }),
+    ...(body.repositoryName && { repositoryName: body.repositoryName }),
+    ...(body.image && { image: body.image }),
+    ...(body.setupCommands && { setupCommands: body.setupCommands }),
+    ...(body.environment && { environment: body.environment }),
+    ...(body.initialPrompt && { initialPrompt: body.initialPrompt })
+  };
+}
+
+/**
+ * GET /api/templates?repository=owner/repo
+ * List the user's templates, plus repository templates for the given repository
+ */
+router.get('/', (req: Request, res: Response): void => {
+  const user = getAuthenticatedUser(req)!;
+  const repository = typeof req.query.repository === 'string' ? req.query.repository : undefined;
+
+  const templates = templateStore.listTemplates(user.id, repository);
+
+  res.json({
+    success: true,
+    data: templates,
+    meta: {
+      total: templates.length
+    }
+  });
+});
+
+/**
+ * POST /api/templates
+ * Create a template owned by the user
+ */
+router.post('/', validateSessionTemplate, (req: Request, res: Response): void => {
+  const user = getAuthenticatedUser(req)!;
+  const template = templateStore.createTemplate(user.id, toTemplateInput(req.body));
+
+  templateRoutesLogger.info('Template created', {
+    userId: user.id,
+    templateId: template.id,
+    scope: template.scope
+  });
+
+  res.status(201).json({
+    success: true,
+    data: template,
+    message: 'Template created successfully'
+  });
+});
+
+/**
+ * PUT /api/templates/:templateId
+ * Replace one of the user's templates
+ */
+router.put('/:templateId', validateSessionTemplate, (req: Request, res: Response): void => {
+  const user = getAuthenticatedUser(req)!;
+  const template = templateStore.updateTemplate(req.params.templateId!, user.id, toTemplateInput(req.body));
+
+  if (!template) {
+    res.status(404).json({
+      error: 'Failed to update template',
+      message: 'Template not found'
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: template,
+    message: 'Template updated successfully'
+  });
+});
+
+/**
+ * DELETE /api/templates/:templateId
+ * Delete one of the user's templates
+ */
+router.delete('/:templateId', (req: Request, res: Response): void => {
+  const user = getAuthenticatedUser(req)!;
+
+  if (!templateStore.deleteTemplate(req.params.templateId!, user.id)) {
+    res.status(404).json({
+      error: 'Failed to delete template',
+      message: 'Template not found'
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    message: 'Template deleted successfully'
+  });
+});
+
+export default router;
@@ -3,20 +3,84 @@ import {
   getThreadMessages,
   getLatestThreadMessages,
   getThreadStats,
-  clearThreadMessages
+  clearThreadMessages,
+  cancelThreadTurn,
+  listSessionThreads,
+  createSessionThread,
+  switchSessionThread,
+  archiveSessionThread,
+  searchThreads
 } from '../controllers/threadController';
 import { authenticateUser } from '../middleware/auth';
+import { sessionLogContext } from '../server/middleware';
 
 const router = Router();
 
+// Tag logs from these routes with the session they act on
+router.param('sessionId', sessionLogContext);
+
 // Apply authentication middleware but don't require it for thread routes
 router.use(authenticateUser);
 
+/**
+ * GET /api/threads/search
+ * Search message content, tool names and file paths across the user's sessions
+ * 
+ * Query parameters:
+ * - q: string (required) - Search terms; every term must match
+ * - limit: number (1-50, default: 20) - Maximum number of results
+ * 
+ * Returns results with a snippet, highlight ranges within it and a deep link to the message
+ * 
+ * Example: GET /api/threads/search?q=migration%20bug
+ */
+router.get('/threads/search', searchThreads);
+
+/**
+ * GET /api/sessions/:sessionId/threads
+ * List the session's amp threads, including archived ones
+ * 
+ * Returns each thread's id, title, whether it is active and its message count
+ * 
+ * Example: GET /api/sessions/session_123/threads
+ */
+router.get('/sessions/:sessionId/threads', listSessionThreads);
+
+/**
+ * POST /api/sessions/:sessionId/threads
+ * Start a new amp thread against the same container and working tree, and make it active
+ * 
+ * Body:
+ * - title: string (optional) - Defaults to "Thread N"
+ * 
+ * Example: POST /api/sessions/session_123/threads
+ */
+router.post('/sessions/:sessionId/threads', createSessionThread);
+
+/**
+ * POST /api/sessions/:sessionId/threads/:threadId/activate
+ * Switch the session to an existing thread; new messages and the live log follow it
+ * 
+ * Returns 409 for archived threads or while amp is working on the current one
+ * 
+ * Example: POST /api/sessions/session_123/threads/T-abc/activate
+ */
+router.post('/sessions/:sessionId/threads/:threadId/activate', switchSessionThread);
+
+/**
+ * POST /api/sessions/:sessionId/threads/:threadId/archive
+ * Archive a thread, keeping its history. Archiving the active thread switches to the latest open one.
+ * 
+ * Example: POST /api/sessions/session_123/threads/T-abc/archive
+ */
+router.post('/sessions/:sessionId/threads/:threadId/archive', archiveSessionThread);
+
 /**
  * GET /api/sessions/:sessionId/thread
- * Get thread messages with pagination
+ * Get messages of the active thread with pagination
  * 
  * Query parameters:
+ * - threadId: string - Read another of the session's threads instead
  * - limit: number (1-100, default: 50) - Number of messages to return
  * - offset: number (default: 0) - Number of messages to skip
  * - after: string - Message ID to start after (cursor-based pagination)
@@ -50,6 +114,16 @@ router.get('/sessions/:sessionId/thread/latest', getLatestThreadMessages);
  */
 router.get('/sessions/:sessionId/thread/stats', getThreadStats);
 
+/**
+ * POST /api/sessions/:sessionId/thread/cancel
+ * Stop the amp turn currently running for the session
+ * 
+ * Records a system message noting the interruption; returns 409 if no turn is running
+ * 
+ * Example: POST /api/sessions/session_123/thread/cancel
+ */
+router.post('/sessions/:sessionId/thread/cancel', cancelThreadTurn);
+
 /**
  * DELETE /api/sessions/:sessionId/thread
  * Clear all thread messages (for testing/development)
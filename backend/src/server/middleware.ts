@@ -2,44 +2,63 @@
  * Request logging, error handling, and Vite dev proxy middleware
  */
 
+import { randomUUID } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { runWithLogContext, setLogContext, bindLogContext } from '../utils/logContext';
 
 const serverLogger = logger.child('Server');
 
+const REQUEST_ID_PATTERN = /^[\w.-]{1,128}$/;
+
 /**
- * Request logging middleware
+ * Request logging middleware. Runs the rest of the chain with the request's ID in the log context.
  */
 export function requestLogger(req: Request, res: Response, next: NextFunction): void {
   const start = Date.now();
   const { method, url, ip } = req;
-  
-  // Log the request
-  serverLogger.debug(`${method} ${url}`, {
-    ip: ip || req.connection.remoteAddress,
-    userAgent: req.get('User-Agent')
-  });
-  
-  // Override res.end to log response
-  const originalEnd = res.end;
-  res.end = function(chunk?: any, encoding?: any): any {
-    const duration = Date.now() - start;
-    const { statusCode } = res;
-    
-    // Determine log level based on status code
-    const isError = statusCode >= 400;
-    const logMethod = isError ? 'warn' : 'debug';
-    
-    serverLogger[logMethod](`${method} ${url} ${statusCode}`, {
-      duration: `${duration}ms`,
-      statusCode,
-      contentLength: res.get('Content-Length')
+
+  // Keep an upstream proxy's ID so its logs and ours line up
+  const incomingId = req.get('X-Request-Id');
+  const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+
+  runWithLogContext({ requestId }, () => {
+    // Log the request
+    serverLogger.debug(`${method} ${url}`, {
+      ip: ip || req.connection.remoteAddress,
+      userAgent: req.get('User-Agent')
     });
-    
-    // Call original end method
-    return originalEnd.call(this, chunk, encoding);
-  };
-  
+
+    // Override res.end to log response, bound so the IDs survive streamed responses
+    const originalEnd = res.end;
+    res.end = bindLogContext(function(this: Response, chunk?: any, encoding?: any): any {
+      const duration = Date.now() - start;
+      const { statusCode } = res;
+
+      // Determine log level based on status code
+      const isError = statusCode >= 400;
+      const logMethod = isError ? 'warn' : 'debug';
+
+      serverLogger[logMethod](`${method} ${url} ${statusCode}`, {
+        duration: `${duration}ms`,
+        statusCode,
+        contentLength: res.get('Content-Length')
+      });
+
+      // Call original end method
+      return originalEnd.call(this, chunk, encoding);
+    });
+
+    next();
+  });
+}
+
+/**
+ * Router param handler that tags the request's logs with the session it targets
+ */
+export function sessionLogContext(req: Request, res: Response, next: NextFunction, sessionId: string): void {
+  setLogContext({ sessionId });
   next();
 }
 
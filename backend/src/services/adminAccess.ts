@@ -0,0 +1,66 @@
+/**
+ * Admin role: granted to configured GitHub usernames and members of configured organizations
+ */
+
+import webConfig from '../config/webConfig';
+import { AuthenticatedUser } from '../models/User';
+import { createGitHubService } from './github';
+import { logger } from '../utils/logger';
+
+const adminLogger = logger.child('AdminAccess');
+
+const ORG_CACHE_TTL = 5 * 60 * 1000;
+
+// Organization logins per user, so admin checks don't call GitHub on every request
+const orgCache: Map<string, { orgs: string[]; expiresAt: number }> = new Map();
+
+/**
+ * Organizations the user belongs to, cached for a few minutes. Null if GitHub could not be asked.
+ */
+async function getUserOrgs(user: AuthenticatedUser): Promise<string[] | null> {
+  const cached = orgCache.get(user.id);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.orgs;
+  }
+
+  const result = await createGitHubService(user).getOrganizations();
+  if (!result.success || !result.data) {
+    adminLogger.warn('Could not check organization membership', {
+      username: user.username,
+      error: result.error
+    });
+    return null;
+  }
+
+  const orgs = result.data.map(org => org.toLowerCase());
+  orgCache.set(user.id, { orgs, expiresAt: Date.now() + ORG_CACHE_TTL });
+  return orgs;
+}
+
+/**
+ * Whether the user has the admin role
+ */
+export async function isAdmin(user: AuthenticatedUser): Promise<boolean> {
+  const username = user.username.toLowerCase();
+  if (webConfig.admin.usernames.some(admin => admin.toLowerCase() === username)) {
+    return true;
+  }
+
+  if (webConfig.admin.orgs.length === 0) {
+    return false;
+  }
+
+  const orgs = await getUserOrgs(user);
+  return !!orgs && webConfig.admin.orgs.some(org => orgs.includes(org.toLowerCase()));
+}
+
+/**
+ * Forget cached organization memberships, e.g. after a user logs out
+ */
+export function clearAdminCache(userId?: string): void {
+  if (userId) {
+    orgCache.delete(userId);
+  } else {
+    orgCache.clear();
+  }
+}
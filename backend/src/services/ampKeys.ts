@@ -0,0 +1,68 @@
+/**
+ * Per-user amp API keys: validation before they are stored, and choosing the key
+ * a user's sessions run amp with
+ */
+
+import webConfig from '../config/webConfig';
+import { userStore } from './userStore';
+import { logger } from '../utils/logger';
+
+const ampKeysLogger = logger.child('AmpKeys');
+
+const VALIDATION_TIMEOUT = 10000;
+
+export interface AmpKeyValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * Check a key with a lightweight authenticated request to amp
+ */
+export async function validateAmpApiKey(apiKey: string): Promise<AmpKeyValidationResult> {
+  try {
+    const response = await fetch(webConfig.amp.keyValidationUrl, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal: AbortSignal.timeout(VALIDATION_TIMEOUT)
+    });
+
+    if (response.ok) {
+      return { valid: true };
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      return { valid: false, error: 'amp rejected this API key' };
+    }
+
+    return { valid: false, error: `Could not validate the API key: amp responded with ${response.status}` };
+  } catch (error: any) {
+    ampKeysLogger.warn('Failed to reach amp to validate an API key', { error: error.message });
+    return { valid: false, error: 'Could not reach amp to validate the API key' };
+  }
+}
+
+/**
+ * Whether the server-wide key may be used for a user without their own key
+ */
+export function canUseSharedKey(username: string): boolean {
+  const { sharedApiKey, sharedKeyUsers } = webConfig.amp;
+  if (!sharedApiKey) {
+    return false;
+  }
+
+  return sharedKeyUsers.includes('*') ||
+    sharedKeyUsers.some(allowed => allowed.toLowerCase() === username.toLowerCase());
+}
+
+/**
+ * The key amp runs with for a user: their own, else the shared key if they are allowed it
+ */
+export function resolveAmpApiKey(userId: string): string | undefined {
+  const ownKey = userStore.getAmpApiKey(userId);
+  if (ownKey) {
+    return ownKey;
+  }
+
+  const user = userStore.getUser(userId);
+  return user && canUseSharedKey(user.username) ? webConfig.amp.sharedApiKey : undefined;
+}
@@ -10,7 +10,9 @@ import {
   AmpContent,
   ThreadMessage,
   MessageType,
+  MessageMetadata,
   MessageCallback,
+  MessageDeltaCallback,
   ParserState
 } from '../types/threadMessage';
 import {
@@ -27,21 +29,24 @@ import { logger } from '../utils/logger';
 
 const parserLogger = logger.child('AmpLogParser');
 
+interface StreamableContent {
+  key: string;
+  type: MessageType;
+  content: string;
+  metadata?: MessageMetadata;
+}
+
 export class AmpLogParser {
   private workerId: string;
   private onMessage: MessageCallback;
+  private onDelta: MessageDeltaCallback | undefined;
   private state: ParserState;
 
-  constructor(workerId: string, onMessage: MessageCallback) {
+  constructor(workerId: string, onMessage: MessageCallback, onDelta?: MessageDeltaCallback) {
     this.workerId = workerId;
     this.onMessage = onMessage;
-    this.state = {
-      lastThreadUpdate: new Date(),
-      conversationProcessed: false,
-      seenMessageIDs: new Set(),
-      threadID: '',
-      threadTitle: ''
-    };
+    this.onDelta = onDelta;
+    this.state = this.createInitialState();
   }
 
   /**
@@ -163,6 +168,112 @@ export class AmpLogParser {
       title: thread.title,
       messageCount: thread.messages?.length || 0
     });
+
+    this.streamInProgressMessage(thread, timestamp);
+  }
+
+  /**
+   * Emit deltas for the assistant message amp is still writing
+   *
+   * Each content block gets a stream id derived from its position in the
+   * thread, so successive thread-state snapshots extend the same message.
+   */
+  private streamInProgressMessage(thread: AmpThread, timestamp: Date): void {
+    if (!this.onDelta || !thread.messages?.length) {
+      return;
+    }
+
+    const messageIndex = thread.messages.length - 1;
+    const ampMessage = thread.messages[messageIndex];
+    if (!ampMessage || ampMessage.role?.toLowerCase() !== 'assistant' || !Array.isArray(ampMessage.content)) {
+      return;
+    }
+
+    ampMessage.content.forEach((content, contentIndex) => {
+      const streamId = `stream_${thread.id}_${messageIndex}_${contentIndex}`;
+      const streamable = this.describeContent(content);
+      if (!streamable || this.state.completedStreams.has(streamId)) {
+        return;
+      }
+
+      const previous = this.state.streams.get(streamId);
+      if (previous?.content === streamable.content) {
+        return;
+      }
+
+      if (previous) {
+        this.state.streamKeys.delete(previous.key);
+      }
+      this.state.streams.set(streamId, { key: streamable.key, content: streamable.content });
+      this.state.streamKeys.set(streamable.key, streamId);
+
+      const delta = previous && streamable.content.startsWith(previous.content)
+        ? streamable.content.slice(previous.content.length)
+        : streamable.content;
+
+      try {
+        this.onDelta?.({
+          id: streamId,
+          type: streamable.type,
+          delta,
+          content: streamable.content,
+          timestamp,
+          ...(streamable.metadata && { metadata: streamable.metadata })
+        });
+      } catch (error) {
+        parserLogger.error('Error emitting message delta', {
+          workerId: this.workerId,
+          streamId,
+          error: (error as Error).message
+        });
+      }
+    });
+  }
+
+  /**
+   * Describe a content block the way its completed message will look
+   */
+  private describeContent(content: AmpContent): StreamableContent | null {
+    if (content.type === 'text' && content.text) {
+      const text = cleanContent(content.text);
+      return text ? { key: this.getStreamKey(MessageType.ASSISTANT, text), type: MessageType.ASSISTANT, content: text } : null;
+    }
+
+    if (content.type === 'thinking' && content.thinking) {
+      const thinking = cleanContent(content.thinking);
+      const metadata: MessageMetadata = { type: 'thinking' };
+      return thinking
+        ? { key: this.getStreamKey(MessageType.ASSISTANT, thinking, metadata), type: MessageType.ASSISTANT, content: thinking, metadata }
+        : null;
+    }
+
+    if (content.type === 'tool_use' && content.name) {
+      const metadata: MessageMetadata = {
+        type: 'tool_use',
+        tool_name: content.name,
+        ...(content.id && { tool_id: content.id }),
+        input: content.input,
+        status: 'in_progress'
+      };
+      return {
+        key: this.getStreamKey(MessageType.TOOL, '', metadata),
+        type: MessageType.TOOL,
+        content: formatToolUsage(content.name, content.input),
+        metadata
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Key that matches a streamed content block to its completed message
+   */
+  private getStreamKey(type: MessageType, content: string, metadata?: MessageMetadata): string {
+    if (metadata?.type === 'tool_use') {
+      return `tool:${metadata.tool_id || metadata.tool_name}`;
+    }
+    return `${type}:${metadata?.type || 'text'}:${content}`;
   }
 
   /**
@@ -319,6 +430,16 @@ export class AmpLogParser {
     }
     this.state.seenMessageIDs.add(messageId);
 
+    // Link the message to the stream that previewed it, if any
+    const streamKey = this.getStreamKey(type, cleanedContent, metadata);
+    const streamId = this.state.streamKeys.get(streamKey);
+    if (streamId) {
+      this.state.streamKeys.delete(streamKey);
+      this.state.streams.delete(streamId);
+      this.state.completedStreams.add(streamId);
+      metadata = { ...metadata, stream_id: streamId };
+    }
+
     // Create thread message
     const message: ThreadMessage = {
       id: messageId,
@@ -402,12 +523,22 @@ export class AmpLogParser {
    * Reset parser state
    */
   reset(): void {
-    this.state = {
+    this.state = this.createInitialState();
+  }
+
+  /**
+   * Create empty parser state
+   */
+  private createInitialState(): ParserState {
+    return {
       lastThreadUpdate: new Date(),
       conversationProcessed: false,
       seenMessageIDs: new Set(),
       threadID: '',
-      threadTitle: ''
+      threadTitle: '',
+      streams: new Map(),
+      streamKeys: new Map(),
+      completedStreams: new Set()
     };
   }
 }
@@ -417,7 +548,8 @@ export class AmpLogParser {
  */
 export function createAmpLogParser(
   workerId: string,
-  onMessage: MessageCallback
+  onMessage: MessageCallback,
+  onDelta?: MessageDeltaCallback
 ): AmpLogParser {
-  return new AmpLogParser(workerId, onMessage);
+  return new AmpLogParser(workerId, onMessage, onDelta);
 }
@@ -5,18 +5,52 @@
 import { exec } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { PassThrough } from 'stream';
 import { promisify } from 'util';
+import { ContainerManager, createContainerManager } from '../docker/containerManager';
+import { createRedactingStream } from './secretRedaction';
+import { resolveAmpApiKey } from './ampKeys';
+import { sessionStore } from './sessionStore';
+import { ampTurnDuration } from './metrics';
 import { logger } from '../utils/logger';
 
 const execAsync = promisify(exec);
 const ampLogger = logger.child('AmpService');
 
+/**
+ * Runs one amp turn inside the container. The JSONL log is streamed on stdout
+ * while amp runs; amp's own output is replayed on stderr once it exits.
+ */
+const CONTAINER_TURN_SCRIPT = [
+  'log="$1"; shift',
+  'exec 3<&0',
+  '"$@" --log-file "$log" <&3 >"$log.out" 2>&1 &',
+  'pid=$!',
+  'echo "$pid" >"$log.pid"',
+  'tail -c +1 -F --pid="$pid" "$log" 2>/dev/null',
+  'wait "$pid"; status=$?',
+  'cat "$log.out" >&2',
+  'rm -f "$log" "$log.out" "$log.pid"',
+  'exit "$status"'
+].join('\n');
+
+/**
+ * Stops the amp process started by CONTAINER_TURN_SCRIPT for the given log path,
+ * waiting briefly in case the turn has only just started
+ */
+const CONTAINER_CANCEL_SCRIPT = [
+  'for i in 1 2 3 4 5 6 7 8 9 10; do [ -f "$1.pid" ] && break; sleep 0.2; done',
+  'kill -TERM "$(cat "$1.pid")" 2>/dev/null'
+].join('\n');
+
 export interface AmpThreadResult {
   success: boolean;
   threadId?: string;
   ampLogPath?: string;
   response?: string;
   error?: string;
+  cancelled?: boolean; // The turn was stopped by cancelTurn before amp finished
 }
 
 export interface AmpExecutionOptions {
@@ -24,6 +58,13 @@ export interface AmpExecutionOptions {
   timeout?: number;
   environment?: Record<string, string>;
   ampLogPath?: string;
+  containerId?: string; // Run amp inside this container; workingDirectory is then a container path
+}
+
+interface ContainerExecResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
 }
 
 /**
@@ -31,6 +72,9 @@ export interface AmpExecutionOptions {
  */
 export class AmpService {
   private dataDir: string;
+  private containerManager?: ContainerManager;
+  private activeTurns: Map<string, () => Promise<void>> = new Map(); // threadId -> stop the running turn
+  private cancelledTurns: Set<string> = new Set();
 
   constructor(dataDir: string = process.env.DATA_DIR || '/tmp/amplify-data') {
     this.dataDir = dataDir;
@@ -40,6 +84,8 @@ export class AmpService {
    * Create a new amp thread and return thread ID and log path
    */
   async createThread(sessionId: string, options: AmpExecutionOptions = {}): Promise<AmpThreadResult> {
+    options = this.withAmpApiKey(sessionId, options);
+
     try {
       ampLogger.info('Creating new amp thread', { sessionId });
 
@@ -47,8 +93,12 @@ export class AmpService {
       const sessionDataDir = path.join(this.dataDir, sessionId);
       await fs.mkdir(sessionDataDir, { recursive: true });
 
-      // Define amp log path
-      const ampLogPath = path.join(sessionDataDir, 'amp.log');
+      // Define amp log path; extra threads in a session each get their own
+      const ampLogPath = options.ampLogPath || path.join(sessionDataDir, 'amp.log');
+
+      if (options.containerId) {
+        return await this.createThreadInContainer(sessionId, ampLogPath, options.containerId, options);
+      }
 
       // Prepare amp threads new command
       const command = 'amp threads new';
@@ -56,7 +106,7 @@ export class AmpService {
         cwd: options.workingDirectory || sessionDataDir,
         timeout: options.timeout || 30000,
         env: {
-          ...process.env,
+          ...this.getHostEnvironment(),
           ...options.environment,
           AMP_LOG_FILE: ampLogPath
         }
@@ -136,9 +186,22 @@ export class AmpService {
     userInput: string, 
     options: AmpExecutionOptions = {}
   ): Promise<AmpThreadResult> {
+    options = this.withAmpApiKey(sessionStore.getSessionByThreadId(threadId)?.id, options);
+    const endTurn = ampTurnDuration.startTimer();
+    let outcome = 'error';
+
     try {
       ampLogger.info('Continuing amp thread', { threadId, userInput: userInput.substring(0, 100) });
 
+      if (options.containerId) {
+        if (!options.ampLogPath) {
+          throw new Error('ampLogPath is required when running amp in a container');
+        }
+        const result = await this.continueThreadInContainer(threadId, userInput, options.ampLogPath, options.containerId, options);
+        outcome = result.success ? 'success' : result.cancelled ? 'cancelled' : 'error';
+        return result;
+      }
+
       // Prepare amp threads continue command with log file
       const ampLogPath = options.ampLogPath || path.join(options.workingDirectory || '', 'amp.log');
       const command = `amp threads continue "${threadId}" --log-file "${ampLogPath}"`;
@@ -146,7 +209,7 @@ export class AmpService {
         cwd: options.workingDirectory,
         timeout: options.timeout || 60000,
         env: {
-          ...process.env,
+          ...this.getHostEnvironment(),
           ...options.environment
         }
       };
@@ -159,6 +222,9 @@ export class AmpService {
 
       // Execute command with piped input
       const childProcess = exec(command, execOptions);
+      this.activeTurns.set(threadId, async () => {
+        childProcess.kill('SIGTERM');
+      });
       
       if (childProcess.stdin) {
         childProcess.stdin.write(userInput);
@@ -193,22 +259,7 @@ export class AmpService {
         childProcess.on('error', reject);
       });
 
-      // The response is in stdout, clean it up
-      let response = result.stdout.trim();
-      
-      // Remove any amp-specific metadata lines and prompt indicators
-      const lines = response.split('\n');
-      const cleanLines = lines.filter(line => {
-        // Remove lines that start with '>' (prompt indicators)
-        // Remove the 'Shutting down...' line
-        // Remove the 'Thread ID:' line
-        return !line.startsWith('>') && 
-               !line.includes('Shutting down') && 
-               !line.includes('Thread ID:') &&
-               line.trim().length > 0;
-      });
-      
-      response = cleanLines.join('\n').trim();
+      const response = this.cleanAmpOutput(result.stdout);
 
       ampLogger.info('Successfully continued amp thread', {
         threadId,
@@ -216,6 +267,7 @@ export class AmpService {
         responseLength: response.length
       });
 
+      outcome = 'success';
       return {
         success: true,
         threadId,
@@ -223,6 +275,17 @@ export class AmpService {
       };
 
     } catch (error: any) {
+      if (this.cancelledTurns.has(threadId)) {
+        ampLogger.info('Amp turn cancelled', { threadId });
+
+        outcome = 'cancelled';
+        return {
+          success: false,
+          cancelled: true,
+          error: 'Turn cancelled'
+        };
+      }
+
       ampLogger.error('Failed to continue amp thread', {
         threadId,
         userInput: userInput.substring(0, 100),
@@ -233,7 +296,279 @@ export class AmpService {
         success: false,
         error: error.message
       };
+    } finally {
+      this.activeTurns.delete(threadId);
+      this.cancelledTurns.delete(threadId);
+      endTurn({ outcome });
+    }
+  }
+
+  /**
+   * Whether an amp turn is currently running for the thread
+   */
+  isTurnActive(threadId: string): boolean {
+    return this.activeTurns.has(threadId);
+  }
+
+  /**
+   * Stop the running amp turn for a thread. Resolves false if nothing was running.
+   */
+  async cancelTurn(threadId: string): Promise<boolean> {
+    const stop = this.activeTurns.get(threadId);
+    if (!stop) {
+      return false;
+    }
+
+    ampLogger.info('Cancelling amp turn', { threadId });
+    this.cancelledTurns.add(threadId);
+
+    try {
+      await stop();
+    } catch (error: any) {
+      ampLogger.warn('Failed to stop amp turn', { threadId, error: error.message });
+    }
+
+    return true;
+  }
+
+  /**
+   * Run amp with the session owner's API key rather than whatever key the process or container has.
+   * The exec runs as the shell's user, so collaborators can read the key from /proc while amp runs.
+   */
+  private withAmpApiKey(sessionId: string | undefined, options: AmpExecutionOptions): AmpExecutionOptions {
+    const session = sessionId ? sessionStore.getSession(sessionId) : null;
+    const apiKey = session ? resolveAmpApiKey(session.userId) : undefined;
+
+    return apiKey
+      ? { ...options, environment: { AMP_API_KEY: apiKey, ...options.environment } }
+      : options;
+  }
+
+  /**
+   * The backend's environment without the server-wide amp key, which only reaches
+   * amp through withAmpApiKey for users allowed to use it
+   */
+  private getHostEnvironment(): NodeJS.ProcessEnv {
+    const { AMP_API_KEY, ...environment } = process.env;
+    return environment;
+  }
+
+  /**
+   * Create a thread by running `amp threads new` inside the session container
+   */
+  private async createThreadInContainer(
+    sessionId: string,
+    ampLogPath: string,
+    containerId: string,
+    options: AmpExecutionOptions
+  ): Promise<AmpThreadResult> {
+    ampLogger.debug('Executing amp threads new in container', {
+      sessionId,
+      containerId: containerId.substring(0, 12),
+      workingDirectory: options.workingDirectory
+    });
+
+    const result = await this.execInContainer(containerId, ['amp', 'threads', 'new'], {
+      ...options,
+      timeout: options.timeout || 30000
+    });
+
+    if (result.exitCode !== 0) {
+      return {
+        success: false,
+        error: `amp threads new exited with code ${result.exitCode}: ${result.stderr.trim()}`
+      };
+    }
+
+    const threadId = this.parseThreadIdFromOutput(result.stdout);
+    if (!threadId) {
+      ampLogger.error('Failed to parse thread ID from amp output', {
+        sessionId,
+        stdout: result.stdout,
+        stderr: result.stderr
+      });
+
+      return {
+        success: false,
+        error: 'Failed to parse thread ID from amp command output'
+      };
+    }
+
+    // The host copy of the log is filled in as turns stream out of the container
+    if (!(await this.fileExists(ampLogPath))) {
+      await fs.writeFile(ampLogPath, '');
+    }
+
+    ampLogger.info('Successfully created amp thread in container', {
+      sessionId,
+      threadId,
+      ampLogPath
+    });
+
+    return {
+      success: true,
+      threadId,
+      ampLogPath
+    };
+  }
+
+  /**
+   * Run one `amp threads continue` turn inside the session container, appending
+   * its JSONL log to the host amp log so the log tailer picks it up unchanged
+   */
+  private async continueThreadInContainer(
+    threadId: string,
+    userInput: string,
+    ampLogPath: string,
+    containerId: string,
+    options: AmpExecutionOptions
+  ): Promise<AmpThreadResult> {
+    const containerLogPath = `/tmp/amp-turn-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.log`;
+    const command = [
+      'sh', '-c', CONTAINER_TURN_SCRIPT, 'amp-turn', containerLogPath,
+      'amp', 'threads', 'continue', threadId
+    ];
+
+    ampLogger.debug('Executing amp threads continue in container', {
+      threadId,
+      containerId: containerId.substring(0, 12),
+      workingDirectory: options.workingDirectory,
+      ampLogPath
+    });
+
+    await fs.mkdir(path.dirname(ampLogPath), { recursive: true });
+    const logStream = createWriteStream(ampLogPath, { flags: 'a' });
+    const logFinished = new Promise<void>(resolve => logStream.on('close', () => resolve()));
+
+    // Secrets are redacted before the log is written, so messages parsed from it never contain them
+    const redactedLog = createRedactingStream(sessionStore.getSessionByThreadId(threadId)?.id);
+    redactedLog.pipe(logStream);
+
+    this.activeTurns.set(threadId, async () => {
+      await this.execInContainer(containerId, ['sh', '-c', CONTAINER_CANCEL_SCRIPT, 'amp-cancel', containerLogPath], {
+        timeout: 10000
+      });
+    });
+
+    try {
+      const result = await this.execInContainer(containerId, command, {
+        ...options,
+        timeout: options.timeout || 60000
+      }, userInput, redactedLog);
+
+      if (result.exitCode !== 0) {
+        throw new Error(`Command exited with code ${result.exitCode}. stderr: ${result.stderr}`);
+      }
+
+      // amp's output is replayed on stderr by the turn script
+      const response = this.cleanAmpOutput(result.stderr);
+
+      ampLogger.info('Successfully continued amp thread in container', {
+        threadId,
+        responseLength: response.length
+      });
+
+      return {
+        success: true,
+        threadId,
+        response
+      };
+    } finally {
+      redactedLog.end();
+      await logFinished;
+    }
+  }
+
+  /**
+   * Execute a command in a container without a TTY, optionally piping input
+   * to stdin and forwarding stdout as it arrives
+   */
+  private async execInContainer(
+    containerId: string,
+    command: string[],
+    options: AmpExecutionOptions,
+    input?: string,
+    stdoutSink?: NodeJS.WritableStream
+  ): Promise<ContainerExecResult> {
+    const containerManager = this.getContainerManager();
+    const exec = await containerManager.executeCommand(containerId, command, options.workingDirectory, {
+      tty: false,
+      ...(options.environment && { environment: options.environment })
+    });
+
+    const stream = await exec.start({ hijack: true, stdin: true });
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    let stdoutText = '';
+    let stderrText = '';
+
+    stdout.on('data', (chunk: Buffer) => {
+      stdoutText += chunk.toString();
+      stdoutSink?.write(chunk);
+    });
+    stderr.on('data', (chunk: Buffer) => {
+      stderrText += chunk.toString();
+    });
+
+    containerManager.getDocker().modem.demuxStream(stream, stdout, stderr);
+
+    if (input !== undefined) {
+      stream.write(input);
+    }
+    stream.end();
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        stream.destroy();
+        reject(new Error(`Command timeout after ${options.timeout}ms`));
+      }, options.timeout || 60000);
+
+      stream.on('end', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      stream.on('error', (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    const inspectResult = await exec.inspect();
+
+    return {
+      exitCode: inspectResult.ExitCode ?? 0,
+      stdout: stdoutText,
+      stderr: stderrText
+    };
+  }
+
+  /**
+   * Lazily create the container manager used for in-container execution
+   */
+  private getContainerManager(): ContainerManager {
+    if (!this.containerManager) {
+      this.containerManager = createContainerManager();
     }
+    return this.containerManager;
+  }
+
+  /**
+   * Strip prompt indicators and amp status lines from command output
+   */
+  private cleanAmpOutput(output: string): string {
+    // Remove lines that start with '>' (prompt indicators)
+    // Remove the 'Shutting down...' line
+    // Remove the 'Thread ID:' line
+    return output.trim()
+      .split('\n')
+      .filter(line =>
+        !line.startsWith('>') &&
+        !line.includes('Shutting down') &&
+        !line.includes('Thread ID:') &&
+        line.trim().length > 0
+      )
+      .join('\n')
+      .trim();
   }
 
   /**
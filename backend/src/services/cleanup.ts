@@ -6,6 +6,10 @@ import { EventEmitter } from 'events';
 import { SessionStore } from './sessionStore';
 import { Session, SessionStatus } from '../models/Session';
 import { ContainerManager } from '../docker/containerManager';
+import { hibernateSession } from './sessionHibernation';
+import { terminalRecorder } from './terminalRecorder';
+import { gitOperationsService } from './gitOperations';
+import webConfig from '../config/webConfig';
 import { logger } from '../utils/logger';
 
 const cleanupLogger = logger.child('CleanupService');
@@ -15,14 +19,29 @@ export interface CleanupConfig {
   containerGracePeriod: number; // Grace period before forcefully stopping containers (ms)
   maxRetries: number; // Maximum retries for container cleanup
   batchSize: number; // Number of sessions to process in each batch
+  idleTimeout: number; // Hibernate sessions without connections for this long (ms); 0 disables
 }
 
+export interface CleanupRun {
+  trigger: 'scheduled' | 'manual';
+  startedAt: Date;
+  finishedAt?: Date;
+  hibernatedSessions: number;
+  expiredSessions: number;
+  cleanedSessions: number;
+  failedSessions: number;
+  error?: string;
+}
+
+const MAX_RECENT_RUNS = 20;
+
 export class CleanupService extends EventEmitter {
   private sessionStore: SessionStore;
   private containerManager: ContainerManager;
   private config: CleanupConfig;
   private cleanupTimer?: NodeJS.Timeout | undefined;
   private isRunning: boolean = false;
+  private recentRuns: CleanupRun[] = [];
 
   constructor(
     sessionStore: SessionStore,
@@ -38,6 +57,7 @@ export class CleanupService extends EventEmitter {
       containerGracePeriod: config.containerGracePeriod || 30 * 1000, // 30 seconds
       maxRetries: config.maxRetries || 3,
       batchSize: config.batchSize || 10,
+      idleTimeout: config.idleTimeout ?? webConfig.session.idleTimeout,
       ...config
     };
 
@@ -78,23 +98,35 @@ export class CleanupService extends EventEmitter {
   }
 
   /**
-   * Manually trigger a cleanup cycle
+   * Run a cleanup cycle and record it in the run history. Resolves null if the service is stopped.
    */
-  async runCleanup(): Promise<void> {
+  async runCleanup(trigger: CleanupRun['trigger'] = 'scheduled'): Promise<CleanupRun | null> {
     if (!this.isRunning) {
       cleanupLogger.warn('CleanupService is not running');
-      return;
+      return null;
     }
 
+    const run: CleanupRun = {
+      trigger,
+      startedAt: new Date(),
+      hibernatedSessions: 0,
+      expiredSessions: 0,
+      cleanedSessions: 0,
+      failedSessions: 0
+    };
+
     try {
       cleanupLogger.info('Starting cleanup cycle');
+
+      run.hibernatedSessions = await this.hibernateIdleSessions();
       
       // Find expired sessions
       const expiredSessions = this.sessionStore.findExpiredSessions();
+      run.expiredSessions = expiredSessions.length;
       
       if (expiredSessions.length === 0) {
         cleanupLogger.debug('No expired sessions found');
-        return;
+        return this.recordRun(run);
       }
 
       cleanupLogger.info(`Found ${expiredSessions.length} expired sessions to cleanup`);
@@ -102,7 +134,9 @@ export class CleanupService extends EventEmitter {
       // Process sessions in batches
       for (let i = 0; i < expiredSessions.length; i += this.config.batchSize) {
         const batch = expiredSessions.slice(i, i + this.config.batchSize);
-        await this.processBatch(batch);
+        const { successful, failed } = await this.processBatch(batch);
+        run.cleanedSessions += successful;
+        run.failedSessions += failed;
       }
 
       cleanupLogger.info('Cleanup cycle completed');
@@ -110,8 +144,28 @@ export class CleanupService extends EventEmitter {
 
     } catch (error) {
       cleanupLogger.error('Error during cleanup cycle:', error);
+      run.error = error instanceof Error ? error.message : String(error);
       this.emit('cleanupError', error);
     }
+
+    return this.recordRun(run);
+  }
+
+  /**
+   * Most recent cleanup runs, newest first
+   */
+  getRecentRuns(): CleanupRun[] {
+    return [...this.recentRuns];
+  }
+
+  /**
+   * Finish a run and keep it in the bounded history
+   */
+  private recordRun(run: CleanupRun): CleanupRun {
+    run.finishedAt = new Date();
+    this.recentRuns.unshift(run);
+    this.recentRuns.splice(MAX_RECENT_RUNS);
+    return run;
   }
 
   /**
@@ -165,10 +219,35 @@ export class CleanupService extends EventEmitter {
     }
   }
 
+  /**
+   * Pause or stop the containers of sessions nobody has been connected to for a while
+   */
+  async hibernateIdleSessions(): Promise<number> {
+    if (this.config.idleTimeout <= 0) {
+      return 0;
+    }
+
+    let hibernated = 0;
+    for (const session of this.sessionStore.findIdleSessions(this.config.idleTimeout)) {
+      const result = await hibernateSession(session.id, this.containerManager);
+      if (result.success) {
+        hibernated++;
+        this.emit('sessionHibernated', session);
+      } else {
+        cleanupLogger.debug(`Skipped hibernating session ${session.id}: ${result.error}`);
+      }
+    }
+
+    if (hibernated > 0) {
+      cleanupLogger.info(`Hibernated ${hibernated} idle sessions`);
+    }
+    return hibernated;
+  }
+
   /**
    * Process a batch of expired sessions
    */
-  private async processBatch(sessions: Session[]): Promise<void> {
+  private async processBatch(sessions: Session[]): Promise<{ successful: number; failed: number }> {
     const cleanupPromises = sessions.map(session => 
       this.cleanupSession(session.id)
     );
@@ -192,6 +271,8 @@ export class CleanupService extends EventEmitter {
 
       cleanupLogger.warn(`Failed to cleanup sessions: ${failures.join(', ')}`);
     }
+
+    return { successful, failed };
   }
 
   /**
@@ -216,37 +297,79 @@ export class CleanupService extends EventEmitter {
     }
   }
 
+  /**
+   * Remove a session's workspace volume
+   */
+  private async cleanupWorkspace(sessionId: string): Promise<void> {
+    try {
+      const removed = await this.containerManager.removeWorkspaceVolume(sessionId);
+      if (!removed) {
+        cleanupLogger.warn(`Failed to remove workspace volume for session ${sessionId}`);
+      }
+    } catch (error) {
+      cleanupLogger.error(`Failed to remove workspace volume for session ${sessionId}:`, error);
+    }
+  }
+
   /**
    * Set up event listeners for session store events
    */
   private setupEventListeners(): void {
-    // Listen for session expiry events from the session store
-    this.sessionStore.on('sessionExpired', (session: Session) => {
-      cleanupLogger.info(`Session expired, scheduling cleanup: ${session.id}`);
-      
-      // Schedule async cleanup (don't wait for it)
-      setImmediate(() => {
-        this.cleanupSession(session.id).catch(error => {
-          cleanupLogger.error(`Failed to cleanup expired session ${session.id}:`, error);
-        });
+    this.sessionStore.on('sessionExpired', this.handleSessionExpired);
+    this.sessionStore.on('sessionDeleted', this.handleSessionDeleted);
+    this.sessionStore.on('threadArchived', this.handleThreadArchived);
+  }
+
+  /**
+   * Clean up after sessions the session store expires
+   */
+  private handleSessionExpired = (session: Session): void => {
+    cleanupLogger.info(`Session expired, scheduling cleanup: ${session.id}`);
+    
+    // Schedule async cleanup (don't wait for it)
+    setImmediate(() => {
+      this.cleanupSession(session.id).catch(error => {
+        cleanupLogger.error(`Failed to cleanup expired session ${session.id}:`, error);
       });
     });
+  };
 
-    // Listen for session deletion events to clean up containers
-    this.sessionStore.on('sessionDeleted', (session: Session) => {
-      if (session.containerId && session.status !== SessionStatus.STOPPED) {
-        cleanupLogger.info(`Session deleted with active container, scheduling cleanup: ${session.id}`);
-        
-        setImmediate(() => {
-          if (session.containerId) {
-            this.cleanupContainer(session.containerId, session.containerName).catch(error => {
-              cleanupLogger.error(`Failed to cleanup container for deleted session ${session.id}:`, error);
-            });
-          }
-        });
+  /**
+   * Remove a deleted session's container, workspace volume and recordings
+   */
+  private handleSessionDeleted = (session: Session): void => {
+    const hasActiveContainer = !!session.containerId && session.status !== SessionStatus.STOPPED;
+    if (hasActiveContainer) {
+      cleanupLogger.info(`Session deleted with active container, scheduling cleanup: ${session.id}`);
+    }
+
+    setImmediate(async () => {
+      try {
+        if (hasActiveContainer && session.containerId) {
+          await this.cleanupContainer(session.containerId, session.containerName);
+        }
+      } catch (error) {
+        cleanupLogger.error(`Failed to cleanup container for deleted session ${session.id}:`, error);
       }
+
+      // The workspace volume outlives container restarts but not the session itself
+      await this.cleanupWorkspace(session.id);
+      await terminalRecorder.deleteRecordings(session.id).catch(error => {
+        cleanupLogger.error(`Failed to delete recordings for session ${session.id}:`, error);
+      });
     });
-  }
+  };
+
+  /**
+   * An archived thread cannot be reverted, so its workspace snapshots only take up space
+   */
+  private handleThreadArchived = (sessionId: string, threadId: string): void => {
+    setImmediate(() => {
+      gitOperationsService.deleteThreadSnapshots(sessionId, threadId).catch(error => {
+        cleanupLogger.error(`Failed to delete snapshots of archived thread ${threadId}:`, error);
+      });
+    });
+  };
 
   /**
    * Start the periodic cleanup timer
@@ -283,6 +406,9 @@ export class CleanupService extends EventEmitter {
    */
   destroy(): void {
     this.stop();
+    this.sessionStore.off('sessionExpired', this.handleSessionExpired);
+    this.sessionStore.off('sessionDeleted', this.handleSessionDeleted);
+    this.sessionStore.off('threadArchived', this.handleThreadArchived);
     this.removeAllListeners();
     cleanupLogger.info('CleanupService destroyed');
   }
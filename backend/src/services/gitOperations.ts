@@ -3,7 +3,13 @@
  */
 
 import { ContainerManager } from '../docker/containerManager';
+import { AuthenticatedUser } from '../models/User';
+import { MessageType } from '../types/threadMessage';
 import { sessionStore } from './sessionStore';
+import { threadStorage } from './threadStorage';
+import { sessionThreadService } from './sessionThreads';
+import { resumeIfIdle } from './sessionHibernation';
+import { createGitHubService } from './github';
 import { logger } from '../utils/logger';
 
 const gitLogger = logger.child('GitOperations');
@@ -23,16 +29,69 @@ export interface GitPushOptions {
   createPullRequest?: boolean;
   pullRequestTitle?: string;
   pullRequestDescription?: string;
+  pullRequestBase?: string;
+  pullRequestDraft?: boolean;
+}
+
+export interface PullRequestDefaults {
+  title: string;
+  body: string;
+}
+
+export enum GitErrorCode {
+  NON_FAST_FORWARD = 'NON_FAST_FORWARD',
+  PROTECTED_BRANCH = 'PROTECTED_BRANCH',
+  AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+  DETACHED_HEAD = 'DETACHED_HEAD',
+  PUSH_FAILED = 'PUSH_FAILED',
+  PULL_REQUEST_FAILED = 'PULL_REQUEST_FAILED',
+  SNAPSHOT_NOT_FOUND = 'SNAPSHOT_NOT_FOUND'
 }
 
 export interface GitOperationResult {
   success: boolean;
   message?: string;
   error?: string;
+  errorCode?: GitErrorCode;
   commitHash?: string;
   pullRequestUrl?: string | undefined;
+  branch?: string;
+  ahead?: number;
+  behind?: number;
 }
 
+/**
+ * Credential helper that answers from the exec environment, so the token is
+ * never written to .git/config, the remote URL or shell history
+ */
+const TOKEN_CREDENTIAL_HELPER = '!f() { test "$1" = get || exit 0; echo username=x-access-token; echo "password=$AMPLIFY_GIT_TOKEN"; }; f';
+
+/**
+ * Workspace snapshots live under a ref namespace that branch listings and default pushes ignore,
+ * one directory per thread
+ */
+const SNAPSHOT_REF_PREFIX = 'refs/amplify/snapshots/';
+
+/**
+ * Snapshots kept per thread; older ones can no longer be reverted to
+ */
+const MAX_SNAPSHOTS_PER_THREAD = 50;
+
+const SNAPSHOT_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Scratch index used to stage the whole working tree without touching the user's index
+ */
+const SNAPSHOT_INDEX_ENV = { GIT_INDEX_FILE: '.git/amplify-snapshot-index' };
+
+const SNAPSHOT_AUTHOR_ENV = {
+  GIT_AUTHOR_NAME: 'Amplify',
+  GIT_AUTHOR_EMAIL: 'amplify@localhost',
+  GIT_COMMITTER_NAME: 'Amplify',
+  GIT_COMMITTER_EMAIL: 'amplify@localhost'
+};
+
 export class GitOperationsService {
   private containerManager: ContainerManager;
 
@@ -46,9 +105,20 @@ export class GitOperationsService {
   private async executeGitCommand(
     sessionId: string,
     command: string[],
-    workingDir?: string
+    workingDir?: string,
+    environment?: Record<string, string>
   ): Promise<{ success: boolean; output: string; error?: string }> {
     try {
+      // A hibernated container would refuse the exec, so wake it first
+      const resumed = await resumeIfIdle(sessionId);
+      if (!resumed.success) {
+        return {
+          success: false,
+          output: '',
+          error: resumed.error || 'Failed to resume session'
+        };
+      }
+
       const session = sessionStore.getSession(sessionId);
       if (!session || !session.containerId) {
         return {
@@ -71,7 +141,8 @@ export class GitOperationsService {
       const exec = await this.containerManager.executeCommand(
         session.containerId,
         ['git', ...command],
-        repositoryPath
+        workingDir || repositoryPath,
+        { ...(environment && { environment }) }
       );
 
       // Start the exec and capture output
@@ -307,92 +378,134 @@ export class GitOperationsService {
   }
 
   /**
-   * Push changes to remote repository
+   * Push changes to remote repository using the user's GitHub token
    */
-  async push(sessionId: string, options: GitPushOptions = {}): Promise<GitOperationResult> {
+  async push(sessionId: string, user: AuthenticatedUser, options: GitPushOptions = {}): Promise<GitOperationResult> {
     try {
+      const accessToken = user.accessToken;
+
       gitLogger.info('Pushing changes', {
         sessionId,
         force: options.force,
         createPR: options.createPullRequest
       });
 
-      // TODO: Configure git authentication with user's GitHub token
-      // This is a critical missing piece - we need the user's GitHub token to push
-      gitLogger.warn('Git push attempted without proper authentication configuration', {
-        sessionId
-      });
-
-      // For now, return an informative error until we implement GitHub token integration
-      return {
-        success: false,
-        error: 'Push functionality requires GitHub authentication setup. This feature is not yet fully implemented - commits are saved locally but cannot be pushed to GitHub without proper token configuration.'
-      };
-
-      // Get current branch (disabled for now)
       const branchResult = await this.executeGitCommand(sessionId, ['branch', '--show-current']);
       if (!branchResult.success) {
         return {
           success: false,
-          error: 'Failed to get current branch'
+          error: branchResult.error || 'Failed to get current branch'
         };
       }
 
-      const currentBranch = branchResult.output.trim();
-      
-      // Check remote configuration
-      const remoteResult = await this.executeGitCommand(sessionId, ['remote', '-v']);
-      gitLogger.debug('Git remote configuration', {
-        sessionId,
-        currentBranch,
-        remotes: remoteResult.output
-      });
+      let currentBranch = branchResult.output.trim();
+      if (!currentBranch) {
+        return {
+          success: false,
+          errorCode: GitErrorCode.DETACHED_HEAD,
+          error: 'Cannot push from a detached HEAD. Check out a branch first.'
+        };
+      }
 
-      // Prepare push command
-      const pushCommand = ['push'];
+      // Pull requests need a head branch distinct from the base
+      let baseBranch: string | undefined;
+      if (options.createPullRequest) {
+        const baseResult = await this.resolvePullRequestBase(sessionId, user, options.pullRequestBase);
+        if (!baseResult.success) {
+          return {
+            success: false,
+            errorCode: GitErrorCode.PULL_REQUEST_FAILED,
+            error: baseResult.error || 'Failed to look up the repository default branch'
+          };
+        }
+        baseBranch = baseResult.base!;
+
+        if (currentBranch === baseBranch) {
+          const defaults = await this.getPullRequestDefaults(sessionId);
+          const newBranch = this.generateBranchName(options.pullRequestTitle || defaults.title);
+          const checkoutResult = await this.executeGitCommand(sessionId, ['checkout', '-b', newBranch]);
+          if (!checkoutResult.success) {
+            return {
+              success: false,
+              errorCode: GitErrorCode.PULL_REQUEST_FAILED,
+              error: `Failed to create branch ${newBranch}: ${checkoutResult.error}`
+            };
+          }
+
+          gitLogger.info('Created branch for pull request', { sessionId, from: currentBranch, branch: newBranch });
+          currentBranch = newBranch;
+        }
+      }
+
+      // Refresh the remote-tracking branch so ahead/behind counts are accurate
+      const fetchResult = await this.executeAuthenticatedGitCommand(sessionId, accessToken, [
+        'fetch', 'origin', currentBranch
+      ]);
+      const tracking = fetchResult.success
+        ? await this.getAheadBehind(sessionId, `origin/${currentBranch}`)
+        : null;
+
+      if (!fetchResult.success) {
+        const errorCode = this.classifyPushError(fetchResult.error || '');
+        if (errorCode === GitErrorCode.AUTHENTICATION_FAILED || errorCode === GitErrorCode.PERMISSION_DENIED) {
+          return this.pushFailure(sessionId, errorCode, currentBranch, fetchResult.error);
+        }
+        // The branch does not exist on the remote yet; the push will create it
+        gitLogger.debug('Remote branch not found, pushing new branch', { sessionId, currentBranch });
+      }
+
+      const pushCommand = ['push', '--porcelain'];
       if (options.force) {
-        pushCommand.push('--force');
+        pushCommand.push('--force-with-lease');
       }
-      pushCommand.push('origin', currentBranch);
+      pushCommand.push('origin', `HEAD:refs/heads/${currentBranch}`);
 
-      // Push changes
-      const pushResult = await this.executeGitCommand(sessionId, pushCommand);
+      const pushResult = await this.executeAuthenticatedGitCommand(sessionId, accessToken, pushCommand);
 
       if (!pushResult.success) {
-        gitLogger.error('Git push failed', {
+        return this.pushFailure(
           sessionId,
-          command: pushCommand.join(' '),
-          error: pushResult.error,
-          output: pushResult.output
-        });
-        
-        return {
-          success: false,
-          error: pushResult.error || 'Failed to push changes'
-        };
+          this.classifyPushError(pushResult.error || ''),
+          currentBranch,
+          pushResult.error,
+          tracking
+        );
       }
 
+      // Point the local branch at the remote so later status checks report correctly
+      await this.executeGitCommand(sessionId, ['branch', `--set-upstream-to=origin/${currentBranch}`]);
+
       let pullRequestUrl: string | undefined;
 
       // Create pull request if requested
-      if (options.createPullRequest) {
-        // Note: This would require GitHub CLI (gh) to be installed in the container
-        // For now, we'll return a success but mention PR creation is not implemented
-        gitLogger.info('Pull request creation requested but not implemented', {
-          sessionId,
-          title: options.pullRequestTitle
-        });
+      if (options.createPullRequest && baseBranch) {
+        const prResult = await this.createPullRequest(sessionId, user, currentBranch, baseBranch, options);
+        if (!prResult.success) {
+          return {
+            success: false,
+            errorCode: GitErrorCode.PULL_REQUEST_FAILED,
+            error: `Changes were pushed to ${currentBranch}, but the pull request could not be created: ${prResult.error}`,
+            branch: currentBranch
+          };
+        }
+        pullRequestUrl = prResult.url;
       }
 
       gitLogger.info('Changes pushed successfully', {
         sessionId,
         branch: currentBranch,
-        force: options.force
+        force: options.force,
+        ahead: tracking?.ahead,
+        behind: tracking?.behind
       });
 
       return {
         success: true,
-        message: 'Changes pushed successfully',
+        message: tracking && tracking.ahead > 0
+          ? `Pushed ${tracking.ahead} commit${tracking.ahead === 1 ? '' : 's'} to ${currentBranch}`
+          : `Pushed ${currentBranch}`,
+        branch: currentBranch,
+        ...(tracking && { ahead: tracking.ahead, behind: tracking.behind }),
         pullRequestUrl
       };
 
@@ -409,6 +522,238 @@ export class GitOperationsService {
     }
   }
 
+  /**
+   * Build a default pull request title and body from the session's amp thread
+   */
+  async getPullRequestDefaults(sessionId: string): Promise<PullRequestDefaults> {
+    let threadTitle: string | undefined;
+    let summary: string | undefined;
+
+    try {
+      const messages = await threadStorage.getLatestMessages(
+        sessionId,
+        500,
+        sessionThreadService.getActiveThreadId(sessionId)
+      );
+      for (const message of messages) {
+        if (message.type === MessageType.SYSTEM && message.metadata?.thread_title) {
+          threadTitle = message.metadata.thread_title;
+        }
+        if (message.type === MessageType.ASSISTANT && message.content.trim()) {
+          summary = message.content.trim();
+        }
+      }
+    } catch (error: any) {
+      gitLogger.warn('Failed to read thread for pull request defaults', { sessionId, error: error.message });
+    }
+
+    let title = threadTitle;
+    if (!title) {
+      const subjectResult = await this.executeGitCommand(sessionId, ['log', '-1', '--pretty=%s']);
+      title = subjectResult.success && subjectResult.output.trim()
+        ? subjectResult.output.trim()
+        : 'Changes from Amplify session';
+    }
+
+    const sections: string[] = [];
+    if (summary) {
+      sections.push(`## Summary\n\n${summary}`);
+    }
+    if (threadTitle) {
+      sections.push(`---\n_Created from the Amplify thread "${threadTitle}"._`);
+    }
+
+    return {
+      title,
+      body: sections.join('\n\n')
+    };
+  }
+
+  /**
+   * Determine the base branch for a pull request, defaulting to the repository default branch
+   */
+  private async resolvePullRequestBase(
+    sessionId: string,
+    user: AuthenticatedUser,
+    requestedBase?: string
+  ): Promise<{ success: boolean; base?: string; error?: string }> {
+    if (requestedBase) {
+      return { success: true, base: requestedBase };
+    }
+
+    const [owner, repo] = this.getRepositoryOwnerAndName(sessionId);
+    if (!owner || !repo) {
+      return { success: false, error: 'Session repository not found' };
+    }
+
+    const repoResult = await createGitHubService(user).getRepository(owner, repo);
+    if (!repoResult.success || !repoResult.data) {
+      return { success: false, error: repoResult.error || 'Repository not found' };
+    }
+
+    return { success: true, base: repoResult.data.defaultBranch };
+  }
+
+  /**
+   * Open a pull request for the pushed branch
+   */
+  private async createPullRequest(
+    sessionId: string,
+    user: AuthenticatedUser,
+    head: string,
+    base: string,
+    options: GitPushOptions
+  ): Promise<{ success: boolean; url?: string; error?: string }> {
+    const [owner, repo] = this.getRepositoryOwnerAndName(sessionId);
+    if (!owner || !repo) {
+      return { success: false, error: 'Session repository not found' };
+    }
+
+    const defaults = await this.getPullRequestDefaults(sessionId);
+    const result = await createGitHubService(user).createPullRequest(owner, repo, {
+      title: options.pullRequestTitle?.trim() || defaults.title,
+      body: options.pullRequestDescription?.trim() || defaults.body,
+      head,
+      base,
+      draft: !!options.pullRequestDraft
+    });
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Unknown error' };
+    }
+
+    gitLogger.info('Pull request ready', {
+      sessionId,
+      number: result.data.number,
+      url: result.data.htmlUrl
+    });
+
+    return { success: true, url: result.data.htmlUrl };
+  }
+
+  /**
+   * Split the session's owner/repo name
+   */
+  private getRepositoryOwnerAndName(sessionId: string): [string | undefined, string | undefined] {
+    const session = sessionStore.getSession(sessionId);
+    const [owner, repo] = session?.repositoryName.split('/') || [];
+    return [owner, repo];
+  }
+
+  /**
+   * Generate a branch name for a pull request from its title
+   */
+  private generateBranchName(title: string): string {
+    const slug = title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40)
+      .replace(/-+$/, '');
+
+    return `amplify/${slug || 'changes'}-${Date.now().toString(36)}`;
+  }
+
+  /**
+   * Run a git command that talks to GitHub, authenticating with a one-off credential helper.
+   * The token is in the exec's environment for the length of the command, where other shells
+   * in the container, including collaborators', can read it.
+   */
+  private async executeAuthenticatedGitCommand(
+    sessionId: string,
+    accessToken: string,
+    command: string[]
+  ): Promise<{ success: boolean; output: string; error?: string }> {
+    return this.executeGitCommand(
+      sessionId,
+      [
+        '-c', 'credential.helper=',
+        '-c', `credential.helper=${TOKEN_CREDENTIAL_HELPER}`,
+        ...command
+      ],
+      undefined,
+      {
+        AMPLIFY_GIT_TOKEN: accessToken,
+        GIT_TERMINAL_PROMPT: '0'
+      }
+    );
+  }
+
+  /**
+   * Count commits the local HEAD is ahead of and behind a remote ref
+   */
+  private async getAheadBehind(sessionId: string, remoteRef: string): Promise<{ ahead: number; behind: number } | null> {
+    const result = await this.executeGitCommand(sessionId, [
+      'rev-list', '--left-right', '--count', `HEAD...${remoteRef}`
+    ]);
+    if (!result.success) {
+      return null;
+    }
+
+    const [ahead, behind] = result.output.trim().split(/\s+/).map(value => parseInt(value, 10));
+    if (ahead === undefined || behind === undefined || isNaN(ahead) || isNaN(behind)) {
+      return null;
+    }
+
+    return { ahead, behind };
+  }
+
+  /**
+   * Map git's push/fetch output to a structured error code
+   */
+  private classifyPushError(output: string): GitErrorCode {
+    if (/protected branch|GH006/i.test(output)) {
+      return GitErrorCode.PROTECTED_BRANCH;
+    }
+    if (/non-fast-forward|fetch first|stale info|\[rejected\]/i.test(output)) {
+      return GitErrorCode.NON_FAST_FORWARD;
+    }
+    if (/Authentication failed|could not read (Username|Password)|Invalid username or password/i.test(output)) {
+      return GitErrorCode.AUTHENTICATION_FAILED;
+    }
+    if (/Permission to .* denied|error: 403|returned error: 403|Repository not found/i.test(output)) {
+      return GitErrorCode.PERMISSION_DENIED;
+    }
+    return GitErrorCode.PUSH_FAILED;
+  }
+
+  /**
+   * Build a failed push result with a readable message for the error code
+   */
+  private pushFailure(
+    sessionId: string,
+    errorCode: GitErrorCode,
+    branch: string,
+    output?: string,
+    tracking?: { ahead: number; behind: number } | null
+  ): GitOperationResult {
+    const messages: Record<GitErrorCode, string> = {
+      [GitErrorCode.NON_FAST_FORWARD]: `The remote branch ${branch} has commits that are not in this session. Pull them first or force push.`,
+      [GitErrorCode.PROTECTED_BRANCH]: `Branch ${branch} is protected on GitHub. Push to a new branch and open a pull request instead.`,
+      [GitErrorCode.AUTHENTICATION_FAILED]: 'GitHub rejected your credentials. Sign in again and retry.',
+      [GitErrorCode.PERMISSION_DENIED]: 'Your GitHub account does not have permission to push to this repository.',
+      [GitErrorCode.DETACHED_HEAD]: 'Cannot push from a detached HEAD. Check out a branch first.',
+      [GitErrorCode.PUSH_FAILED]: 'Failed to push changes',
+      [GitErrorCode.PULL_REQUEST_FAILED]: 'Failed to create pull request',
+      [GitErrorCode.SNAPSHOT_NOT_FOUND]: 'Snapshot not found'
+    };
+
+    gitLogger.warn('Git push failed', {
+      sessionId,
+      branch,
+      errorCode,
+      output
+    });
+
+    return {
+      success: false,
+      errorCode,
+      error: messages[errorCode],
+      branch,
+      ...(tracking && { ahead: tracking.ahead, behind: tracking.behind })
+    };
+  }
+
   /**
    * Get commit log
    */
@@ -460,6 +805,142 @@ export class GitOperationsService {
       };
     }
   }
+
+  /**
+   * Record the working tree, including untracked files, as a commit on a hidden ref.
+   * HEAD, the index and the working tree are left as they are.
+   */
+  async createSnapshot(
+    sessionId: string,
+    threadId: string,
+    snapshotId: string
+  ): Promise<GitOperationResult & { ref?: string }> {
+    if (!SNAPSHOT_ID_PATTERN.test(threadId) || !SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      return { success: false, error: 'Invalid snapshot ID' };
+    }
+
+    const ref = `${SNAPSHOT_REF_PREFIX}${threadId}/${snapshotId}`;
+
+    const headResult = await this.executeGitCommand(sessionId, ['rev-parse', '--verify', '-q', 'HEAD^{commit}']);
+    if (!headResult.success) {
+      return { success: false, error: headResult.error || 'Repository has no commits to snapshot' };
+    }
+
+    const stageSteps = [['read-tree', 'HEAD'], ['add', '-A']];
+    for (const command of stageSteps) {
+      const stepResult = await this.executeGitCommand(sessionId, command, undefined, SNAPSHOT_INDEX_ENV);
+      if (!stepResult.success) {
+        return { success: false, error: stepResult.error || 'Failed to stage snapshot' };
+      }
+    }
+
+    const treeResult = await this.executeGitCommand(sessionId, ['write-tree'], undefined, SNAPSHOT_INDEX_ENV);
+    if (!treeResult.success) {
+      return { success: false, error: treeResult.error || 'Failed to write snapshot tree' };
+    }
+
+    const commitResult = await this.executeGitCommand(
+      sessionId,
+      ['commit-tree', treeResult.output.trim(), '-p', headResult.output.trim(), '-m', `Amplify snapshot ${snapshotId}`],
+      undefined,
+      SNAPSHOT_AUTHOR_ENV
+    );
+    if (!commitResult.success) {
+      return { success: false, error: commitResult.error || 'Failed to write snapshot commit' };
+    }
+
+    const commitHash = commitResult.output.trim();
+    const refResult = await this.executeGitCommand(sessionId, ['update-ref', ref, commitHash]);
+    if (!refResult.success) {
+      return { success: false, error: refResult.error || 'Failed to save snapshot' };
+    }
+
+    gitLogger.info('Workspace snapshot created', { sessionId, ref, commitHash });
+
+    await this.pruneSnapshots(sessionId, threadId, MAX_SNAPSHOTS_PER_THREAD);
+
+    return { success: true, message: 'Snapshot created', ref, commitHash };
+  }
+
+  /**
+   * Drop every snapshot of a thread, e.g. once it is archived and can no longer be reverted
+   */
+  async deleteThreadSnapshots(sessionId: string, threadId: string): Promise<void> {
+    if (SNAPSHOT_ID_PATTERN.test(threadId)) {
+      await this.pruneSnapshots(sessionId, threadId, 0);
+    }
+  }
+
+  /**
+   * Delete a thread's snapshot refs beyond the newest `keep`.
+   * Failures are only logged; a leftover ref costs disk space, not correctness.
+   */
+  private async pruneSnapshots(sessionId: string, threadId: string, keep: number): Promise<void> {
+    const listResult = await this.executeGitCommand(sessionId, [
+      'for-each-ref',
+      '--sort=-committerdate',
+      '--format=%(refname)',
+      `${SNAPSHOT_REF_PREFIX}${threadId}/`
+    ]);
+    if (!listResult.success) {
+      gitLogger.warn('Failed to list workspace snapshots', { sessionId, threadId, error: listResult.error });
+      return;
+    }
+
+    const stale = listResult.output.split('\n').filter(ref => ref.trim()).slice(keep);
+    for (const ref of stale) {
+      const deleteResult = await this.executeGitCommand(sessionId, ['update-ref', '-d', ref.trim()]);
+      if (!deleteResult.success) {
+        gitLogger.warn('Failed to delete workspace snapshot', { sessionId, ref, error: deleteResult.error });
+      }
+    }
+
+    if (stale.length > 0) {
+      gitLogger.debug('Pruned workspace snapshots', { sessionId, threadId, count: stale.length });
+    }
+  }
+
+  /**
+   * Put HEAD and the working tree back to how they were when a snapshot was taken.
+   * Files amp created since are removed, ignored files are kept and restored changes come back unstaged.
+   */
+  async restoreSnapshot(sessionId: string, threadId: string, snapshotId: string): Promise<GitOperationResult> {
+    if (!SNAPSHOT_ID_PATTERN.test(threadId) || !SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      return { success: false, error: 'Snapshot not found', errorCode: GitErrorCode.SNAPSHOT_NOT_FOUND };
+    }
+
+    const ref = `${SNAPSHOT_REF_PREFIX}${threadId}/${snapshotId}`;
+
+    const snapshotResult = await this.executeGitCommand(sessionId, ['rev-parse', '--verify', '-q', `${ref}^{commit}`]);
+    if (!snapshotResult.success) {
+      return { success: false, error: 'Snapshot not found', errorCode: GitErrorCode.SNAPSHOT_NOT_FOUND };
+    }
+
+    const steps = [
+      ['reset', '-q', '--hard', `${ref}^`],
+      ['clean', '-fdq'],
+      ['read-tree', '-u', '--reset', ref],
+      // Unstage everything the snapshot brought back, so untracked files stay untracked
+      ['reset', '-q']
+    ];
+
+    for (const command of steps) {
+      const stepResult = await this.executeGitCommand(sessionId, command);
+      if (!stepResult.success) {
+        gitLogger.error('Failed to restore workspace snapshot', {
+          sessionId,
+          ref,
+          command: command.join(' '),
+          error: stepResult.error
+        });
+        return { success: false, error: stepResult.error || 'Failed to restore snapshot' };
+      }
+    }
+
+    gitLogger.info('Workspace snapshot restored', { sessionId, ref });
+
+    return { success: true, message: 'Workspace restored', commitHash: snapshotResult.output.trim() };
+  }
 }
 
 export const gitOperationsService = new GitOperationsService();
@@ -3,8 +3,9 @@
  */
 
 import { Octokit } from '@octokit/rest';
-import { AuthenticatedUser, GitHubRepository, GitHubBranch } from '../models/User';
+import { AuthenticatedUser, GitHubRepository, GitHubBranch, GitHubPullRequest } from '../models/User';
 import { logger } from '../utils/logger';
+import { recordGithubRateLimit } from './metrics';
 
 const githubLogger = logger.child('GitHubService');
 
@@ -19,6 +20,14 @@ export interface GitHubApiResponse<T> {
   };
 }
 
+export interface CreatePullRequestOptions {
+  title: string;
+  head: string;
+  base: string;
+  body?: string;
+  draft?: boolean;
+}
+
 export class GitHubService {
   private octokit: Octokit;
   private user: AuthenticatedUser;
@@ -336,6 +345,118 @@ export class GitHubService {
     }
   }
 
+  /**
+   * Create a pull request, returning the existing one if the head branch already has an open PR
+   */
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    options: CreatePullRequestOptions
+  ): Promise<GitHubApiResponse<GitHubPullRequest>> {
+    try {
+      githubLogger.debug('Creating pull request', {
+        userId: this.user.id,
+        owner,
+        repo,
+        head: options.head,
+        base: options.base,
+        draft: !!options.draft
+      });
+
+      const response = await this.octokit.pulls.create({
+        owner,
+        repo,
+        title: options.title,
+        head: options.head,
+        base: options.base,
+        draft: !!options.draft,
+        ...(options.body && { body: options.body })
+      });
+
+      const rateLimit = this.extractRateLimit(response.headers);
+
+      githubLogger.info('Pull request created successfully', {
+        userId: this.user.id,
+        owner,
+        repo,
+        number: response.data.number,
+        rateLimit
+      });
+
+      return {
+        success: true,
+        data: this.toPullRequest(response.data),
+        rateLimit
+      };
+
+    } catch (error: any) {
+      if (error.status === 422 && /already exists/i.test(JSON.stringify(error.response?.data || error.message))) {
+        const existing = await this.octokit.pulls.list({
+          owner,
+          repo,
+          head: `${owner}:${options.head}`,
+          state: 'open',
+          per_page: 1
+        }).catch(() => null);
+
+        const pullRequest = existing?.data[0];
+        if (pullRequest) {
+          githubLogger.info('Pull request already exists for branch', {
+            userId: this.user.id,
+            owner,
+            repo,
+            number: pullRequest.number
+          });
+
+          return {
+            success: true,
+            data: this.toPullRequest(pullRequest)
+          };
+        }
+      }
+
+      githubLogger.error('Failed to create pull request', {
+        userId: this.user.id,
+        owner,
+        repo,
+        error: error.message,
+        status: error.status
+      });
+
+      return {
+        success: false,
+        error: this.formatApiError(error)
+      };
+    }
+  }
+
+  /**
+   * Logins of the organizations the user belongs to
+   */
+  async getOrganizations(): Promise<GitHubApiResponse<string[]>> {
+    try {
+      const response = await this.octokit.orgs.listForAuthenticatedUser({ per_page: 100 });
+      const rateLimit = this.extractRateLimit(response.headers);
+
+      return {
+        success: true,
+        data: response.data.map(org => org.login),
+        rateLimit
+      };
+
+    } catch (error: any) {
+      githubLogger.error('Failed to fetch organizations', {
+        username: this.user.username,
+        error: error.message
+      });
+
+      return {
+        success: false,
+        error: this.formatApiError(error)
+      };
+    }
+  }
+
   /**
    * Get current rate limit status
    */
@@ -362,18 +483,36 @@ export class GitHubService {
   }
 
   /**
-   * Extract rate limit information from response headers
+   * Map an Octokit pull request to our model
+   */
+  private toPullRequest(pr: any): GitHubPullRequest {
+    return {
+      number: pr.number,
+      title: pr.title,
+      htmlUrl: pr.html_url,
+      state: pr.state,
+      draft: !!pr.draft,
+      head: pr.head?.ref || '',
+      base: pr.base?.ref || ''
+    };
+  }
+
+  /**
+   * Extract rate limit information from response headers and record what is left for /metrics
    */
   private extractRateLimit(headers: any): {
     limit: number;
     remaining: number;
     reset: Date;
   } {
-    return {
+    const rateLimit = {
       limit: parseInt(headers['x-ratelimit-limit'] || '5000', 10),
       remaining: parseInt(headers['x-ratelimit-remaining'] || '5000', 10),
       reset: new Date(parseInt(headers['x-ratelimit-reset'] || '0', 10) * 1000)
     };
+
+    recordGithubRateLimit(this.user.id, rateLimit.remaining, rateLimit.reset);
+    return rateLimit;
   }
 
   /**
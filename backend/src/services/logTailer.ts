@@ -50,6 +50,11 @@ export class LogTailer extends EventEmitter {
     // Read existing content first
     await this.readExistingContent();
 
+    // Stopped while the existing content was being read
+    if (!this.isWatching) {
+      return;
+    }
+
     // Start file watching
     this.startWatching();
 
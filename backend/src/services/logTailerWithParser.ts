@@ -1,6 +1,6 @@
 import { LogTailer, LogLine, LogTailerOptions } from './logTailer';
 import { AmpLogParser } from './ampLogParser';
-import { ThreadMessage } from '../types/threadMessage';
+import { ThreadMessage, ThreadMessageDelta } from '../types/threadMessage';
 import { EventEmitter } from 'events';
 
 export interface LogTailerWithParserOptions extends LogTailerOptions {
@@ -11,6 +11,7 @@ export class LogTailerWithParser extends EventEmitter {
   private logTailer: LogTailer;
   private ampLogParser: AmpLogParser;
   private workerId: string;
+  private onThreadMessage: ((message: ThreadMessage) => void) | undefined;
   private isRunning: boolean = false;
 
   constructor(
@@ -23,17 +24,10 @@ export class LogTailerWithParser extends EventEmitter {
     super();
     
     this.workerId = workerId;
+    this.onThreadMessage = onThreadMessage;
 
     // Create AmpLogParser with thread message callback
-    this.ampLogParser = new AmpLogParser(workerId, (message: ThreadMessage) => {
-      // Emit the parsed message
-      this.emit('thread-message', message);
-      
-      // Call optional callback
-      if (onThreadMessage) {
-        onThreadMessage(message);
-      }
-    });
+    this.ampLogParser = this.createParser();
 
     // Create LogTailer with wrapped callback
     this.logTailer = new LogTailer(logFilePath, workerId, options);
@@ -128,6 +122,27 @@ export class LogTailerWithParser extends EventEmitter {
     this.ampLogParser.processFinalConversation();
   }
 
+  /**
+   * Create a parser that emits completed messages and streaming deltas
+   */
+  private createParser(): AmpLogParser {
+    return new AmpLogParser(
+      this.workerId,
+      (message: ThreadMessage) => {
+        // Emit the parsed message
+        this.emit('thread-message', message);
+
+        // Call optional callback
+        if (this.onThreadMessage) {
+          this.onThreadMessage(message);
+        }
+      },
+      (delta: ThreadMessageDelta) => {
+        this.emit('thread-message-delta', delta);
+      }
+    );
+  }
+
   /**
    * Set up event handlers for log tailer
    */
@@ -158,9 +173,7 @@ export class LogTailerWithParser extends EventEmitter {
     this.logTailer.on('file-rotated', (data) => {
       this.emit('file-rotated', data);
       // Reset parser state on file rotation
-      this.ampLogParser = new AmpLogParser(this.workerId, (message: ThreadMessage) => {
-        this.emit('thread-message', message);
-      });
+      this.ampLogParser = this.createParser();
     });
 
     this.logTailer.on('error', (error) => {
@@ -178,6 +191,7 @@ export function createLogTailerWithParser(
   callbacks?: {
     onLogLine?: (logLine: LogLine) => void;
     onThreadMessage?: (message: ThreadMessage) => void;
+    onThreadMessageDelta?: (delta: ThreadMessageDelta) => void;
     onError?: (error: Error) => void;
   },
   options: LogTailerWithParserOptions = {}
@@ -190,6 +204,10 @@ export function createLogTailerWithParser(
     options
   );
 
+  if (callbacks?.onThreadMessageDelta) {
+    tailerWithParser.on('thread-message-delta', callbacks.onThreadMessageDelta);
+  }
+
   // Set up error handling if provided
   if (callbacks?.onError) {
     tailerWithParser.on('error', callbacks.onError);
@@ -0,0 +1,248 @@
+/**
+ * Prometheus metrics in the text exposition format, scraped from /metrics
+ */
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+/**
+ * Stable key for a label set so samples with the same labels share a series
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Render labels as {name="value",...}, escaping as the exposition format requires
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) =>
+    `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Render a number the way Prometheus expects, including infinities
+ */
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  if (value === -Infinity) {
+    return '-Inf';
+  }
+  return String(value);
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  /**
+   * Sample lines for this metric, without the HELP and TYPE header
+   */
+  protected abstract renderSamples(): string[];
+
+  /**
+   * Render the metric with its HELP and TYPE header
+   */
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSamples()
+    ].join('\n');
+  }
+}
+
+/**
+ * Monotonically increasing count, e.g. bytes sent
+ */
+export class Counter extends Metric {
+  private series: Map<string, Sample> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    const sample = this.series.get(key) || { labels, value: 0 };
+    sample.value += amount;
+    this.series.set(key, sample);
+  }
+
+  protected renderSamples(): string[] {
+    return Array.from(this.series.values()).map(({ labels, value }) =>
+      `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * Value that goes up and down. Either set directly or read from a collector at scrape time.
+ */
+export class Gauge extends Metric {
+  private series: Map<string, Sample> = new Map();
+
+  constructor(name: string, help: string, private readonly collect?: () => Sample[]) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.series.set(labelKey(labels), { labels, value });
+  }
+
+  protected renderSamples(): string[] {
+    const samples = this.collect ? this.collect() : Array.from(this.series.values());
+    return samples.map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+/**
+ * Distribution of observed values in cumulative buckets, e.g. latencies in seconds
+ */
+export class Histogram extends Metric {
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, private readonly buckets: number[]) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const series = this.series.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]!++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  /**
+   * Start timing; the returned function records the elapsed seconds
+   */
+  startTimer(): (labels?: Labels) => void {
+    const start = process.hrtime.bigint();
+    return (labels: Labels = {}) => {
+      this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    };
+  }
+
+  protected renderSamples(): string[] {
+    const lines: string[] = [];
+
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Set of metrics rendered together for a scrape
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect?: () => Sample[]): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Render every metric in the text exposition format
+   */
+  render(): string {
+    return Array.from(this.metrics.values()).map(metric => metric.render()).join('\n') + '\n';
+  }
+
+  /**
+   * Add a metric, replacing one registered under the same name
+   */
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const containerCreateDuration = metrics.histogram(
+  'amplify_container_create_duration_seconds',
+  'Time for docker to create a session container',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+
+export const containerStartDuration = metrics.histogram(
+  'amplify_container_start_duration_seconds',
+  'Time for docker to start a session container',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+
+export const ampTurnDuration = metrics.histogram(
+  'amplify_amp_turn_duration_seconds',
+  'Time amp took to answer a message, by outcome',
+  [1, 5, 10, 30, 60, 120, 300, 600, 1800]
+);
+
+export const terminalBytes = metrics.counter(
+  'amplify_terminal_bytes_total',
+  'Terminal WebSocket traffic; direction is in (from the browser) or out (to the browser)'
+);
+
+/**
+ * Each user's last seen GitHub rate limit, keyed by user ID. Kept out of the labels so
+ * the scrape neither grows with the user base nor publishes who is using the server
+ */
+const githubRateLimits: Map<string, { remaining: number; reset: Date }> = new Map();
+
+/**
+ * Record a user's GitHub rate limit from the headers of their latest API response
+ */
+export function recordGithubRateLimit(userId: string, remaining: number, reset: Date): void {
+  githubRateLimits.set(userId, { remaining, reset });
+}
+
+export const githubRateLimitRemaining = metrics.gauge(
+  'amplify_github_rate_limit_remaining',
+  'Fewest GitHub API requests any user has left in their current window',
+  () => {
+    const now = Date.now();
+    for (const [userId, { reset }] of githubRateLimits) {
+      if (reset.getTime() <= now) {
+        githubRateLimits.delete(userId);
+      }
+    }
+
+    if (githubRateLimits.size === 0) {
+      return [];
+    }
+    return [{ labels: {}, value: Math.min(...Array.from(githubRateLimits.values(), ({ remaining }) => remaining)) }];
+  }
+);
@@ -0,0 +1,60 @@
+/**
+ * Maintenance notices posted by admins and shown to every signed-in user
+ */
+
+import { randomUUID } from 'crypto';
+import { Notice, NoticeInput } from '../models/Notice';
+import { logger } from '../utils/logger';
+
+const noticeLogger = logger.child('NoticeBoard');
+
+export class NoticeBoard {
+  private notices: Map<string, Notice> = new Map();
+
+  /**
+   * Post a notice to all users
+   */
+  post(input: NoticeInput, createdBy: string): Notice {
+    const notice: Notice = {
+      id: randomUUID(),
+      message: input.message,
+      level: input.level || 'info',
+      createdBy,
+      createdAt: new Date(),
+      ...(input.expiresAt && { expiresAt: input.expiresAt })
+    };
+
+    this.notices.set(notice.id, notice);
+    noticeLogger.info('Notice posted', { id: notice.id, createdBy, level: notice.level });
+    return notice;
+  }
+
+  /**
+   * Notices that have not expired, newest first
+   */
+  list(): Notice[] {
+    const now = Date.now();
+
+    for (const [id, notice] of this.notices) {
+      if (notice.expiresAt && notice.expiresAt.getTime() <= now) {
+        this.notices.delete(id);
+      }
+    }
+
+    return Array.from(this.notices.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Take a notice down. Returns false if there was no such notice.
+   */
+  remove(noticeId: string): boolean {
+    const removed = this.notices.delete(noticeId);
+    if (removed) {
+      noticeLogger.info('Notice removed', { id: noticeId });
+    }
+    return removed;
+  }
+}
+
+export const noticeBoard = new NoticeBoard();
@@ -0,0 +1,372 @@
+/**
+ * Reverse proxy into web servers running inside session containers, plus discovery
+ * of the ports they listen on
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import net from 'net';
+import { Duplex } from 'stream';
+import jwt from 'jsonwebtoken';
+import { ContainerManager } from '../docker/containerManager';
+import { Session, SessionStatus } from '../models/Session';
+import { AuthenticatedUser, User } from '../models/User';
+import { sessionStore } from './sessionStore';
+import { hasSessionRole } from './sessionAccess';
+import { resumeIfIdle } from './sessionHibernation';
+import { userStore } from './userStore';
+import webConfig from '../config/webConfig';
+import { logger } from '../utils/logger';
+
+const previewLogger = logger.child('PreviewProxy');
+
+// TCP state code for LISTEN in /proc/net/tcp
+const TCP_LISTEN = '0A';
+
+// Previewed pages run in an opaque origin, so they can neither script the app nor send its cookies
+const PREVIEW_SANDBOX_POLICY = 'sandbox allow-scripts allow-forms';
+const PREVIEW_TOKEN_AUDIENCE = 'amplify-preview';
+const PREVIEW_TOKEN_TTL = '12h';
+
+export interface ListeningPort {
+  port: number;
+  address: string;
+  reachable: boolean; // servers bound to loopback cannot be reached from outside the container
+}
+
+export interface PreviewTarget {
+  host: string;
+  port: number;
+  prefix: string; // public path the target is mounted at
+}
+
+export interface PreviewResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Parse /proc/net/tcp and /proc/net/tcp6 output into listening ports, one entry per port
+ */
+export function parseListeningPorts(procNetTcp: string): ListeningPort[] {
+  const ports = new Map<number, ListeningPort>();
+
+  for (const line of procNetTcp.split('\n')) {
+    const [, localAddress, , state] = line.trim().split(/\s+/);
+    if (state !== TCP_LISTEN || !localAddress?.includes(':')) {
+      continue;
+    }
+
+    const [hexAddress = '', hexPort = ''] = localAddress.split(':');
+    const port = parseInt(hexPort, 16);
+    const address = decodeProcAddress(hexAddress);
+    const reachable = address !== '127.0.0.1' && address !== '::1';
+
+    // A port bound on any interface wins over the same port bound on loopback
+    const existing = ports.get(port);
+    if (!existing || (!existing.reachable && reachable)) {
+      ports.set(port, { port, address, reachable });
+    }
+  }
+
+  return [...ports.values()].sort((a, b) => a.port - b.port);
+}
+
+/**
+ * Decode a /proc/net address, which stores each 32-bit word in host (little-endian) byte order
+ */
+function decodeProcAddress(hex: string): string {
+  const bytes = (hex.match(/.{8}/g) || [])
+    .flatMap(word => (word.match(/../g) || []).reverse())
+    .map(byte => parseInt(byte, 16));
+
+  if (bytes.length === 4) {
+    return bytes.join('.');
+  }
+
+  if (bytes.every(byte => byte === 0)) {
+    return '::';
+  }
+  if (bytes.slice(0, 15).every(byte => byte === 0) && bytes[15] === 1) {
+    return '::1';
+  }
+  // IPv4-mapped addresses, e.g. ::ffff:127.0.0.1
+  if (bytes.slice(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return bytes.slice(12).join('.');
+  }
+
+  const groups: string[] = [];
+  for (let i = 0; i < bytes.length; i += 2) {
+    groups.push((((bytes[i] || 0) << 8) | (bytes[i + 1] || 0)).toString(16));
+  }
+  return groups.join(':');
+}
+
+export class PreviewProxyService {
+  private containerManager: ContainerManager;
+
+  constructor() {
+    this.containerManager = new ContainerManager();
+  }
+
+  /**
+   * Issue the token that goes in a session's preview URLs. Sandboxed pages send no cookies,
+   * so the URL itself has to carry the user's access.
+   */
+  issuePreviewToken(sessionId: string, userId: string): string {
+    const tokenId = userStore.getTokenId(userId);
+    if (!tokenId) {
+      throw new Error(`Cannot issue a preview token for unknown user ${userId}`);
+    }
+
+    return jwt.sign({ sessionId }, webConfig.security.jwtSecret, {
+      expiresIn: PREVIEW_TOKEN_TTL,
+      issuer: 'amplify-web',
+      audience: PREVIEW_TOKEN_AUDIENCE,
+      subject: userId,
+      jwtid: tokenId
+    });
+  }
+
+  /**
+   * The user a preview token was issued to, or null if it is invalid, revoked or for another session
+   */
+  verifyPreviewToken(token: string, sessionId: string): AuthenticatedUser | null {
+    try {
+      const payload = jwt.verify(token, webConfig.security.jwtSecret, {
+        issuer: 'amplify-web',
+        audience: PREVIEW_TOKEN_AUDIENCE
+      }) as jwt.JwtPayload;
+
+      // Signing out everywhere rotates the token id and so revokes preview tokens too
+      if (payload.sessionId !== sessionId || !payload.sub || payload.jti !== userStore.getTokenId(payload.sub)) {
+        return null;
+      }
+      return userStore.getUser(payload.sub);
+    } catch (error: any) {
+      previewLogger.debug('Preview token rejected', { sessionId, error: error.message });
+      return null;
+    }
+  }
+
+  /**
+   * Whether a WebSocket upgrade comes from the app itself or a sandboxed preview page
+   * (whose origin is "null"); anything else may be another site riding on the user's browser
+   */
+  isAllowedUpgradeOrigin(req: IncomingMessage): boolean {
+    const origin = req.headers.origin;
+    if (!origin || origin === 'null') {
+      return true;
+    }
+
+    if (webConfig.server.corsOrigins.includes(origin)) {
+      return true;
+    }
+
+    const forwardedHost = webConfig.server.trustProxy ? req.headers['x-forwarded-host'] : undefined;
+    const host = (Array.isArray(forwardedHost) ? forwardedHost[0] : forwardedHost) || req.headers.host;
+    try {
+      return !!host && new URL(origin).host === host;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Find the container behind a session and port; anyone the session is shared with may preview it
+   */
+  async resolveTarget(
+    sessionId: string,
+    user: Pick<User, 'id' | 'username'>,
+    port: number,
+    token: string
+  ): Promise<PreviewResult<PreviewTarget>> {
+    const found = await this.getRunningSession(sessionId, user);
+    if (!found.success || !found.data) {
+      return { success: false, error: found.error || 'Session not found' };
+    }
+
+    const host = await this.containerManager.getContainerAddress(found.data.containerId!);
+    if (!host) {
+      return { success: false, error: 'Session container has no network address' };
+    }
+
+    return {
+      success: true,
+      data: { host, port, prefix: `/api/sessions/${sessionId}/preview/${token}/${port}` }
+    };
+  }
+
+  /**
+   * List the TCP ports servers are listening on inside a session container
+   */
+  async listPorts(sessionId: string, user: Pick<User, 'id' | 'username'>): Promise<PreviewResult<ListeningPort[]>> {
+    const found = await this.getRunningSession(sessionId, user);
+    if (!found.success || !found.data) {
+      return { success: false, error: found.error || 'Session not found' };
+    }
+
+    try {
+      const exec = await this.containerManager.executeCommand(
+        found.data.containerId!,
+        ['sh', '-c', 'cat /proc/net/tcp /proc/net/tcp6 2>/dev/null'],
+        '/'
+      );
+      const stream = await exec.start();
+
+      const output = await new Promise<string>((resolve, reject) => {
+        let data = '';
+        stream.on('data', (chunk: Buffer) => { data += chunk.toString(); });
+        stream.on('end', () => resolve(data));
+        stream.on('error', reject);
+      });
+
+      return { success: true, data: parseListeningPorts(output) };
+    } catch (error: any) {
+      previewLogger.error('Failed to list container ports', { sessionId, error: error.message });
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * A session the user may preview, waking its container if it is hibernating
+   */
+  private async getRunningSession(sessionId: string, user: Pick<User, 'id' | 'username'>): Promise<PreviewResult<Session>> {
+    const session = sessionStore.getSession(sessionId);
+    if (!session || !hasSessionRole(session, user, 'viewer')) {
+      return { success: false, error: 'Session not found' };
+    }
+
+    const resumed = await resumeIfIdle(sessionId);
+    if (!resumed.success) {
+      return { success: false, error: resumed.error || 'Failed to resume session' };
+    }
+
+    const current = sessionStore.getSession(sessionId);
+    if (!current?.containerId || current.status !== SessionStatus.RUNNING) {
+      return { success: false, error: 'Session container is not running' };
+    }
+
+    return { success: true, data: current };
+  }
+
+  /**
+   * Forward an HTTP request to the target and stream the response back
+   */
+  proxyRequest(req: IncomingMessage, res: ServerResponse, target: PreviewTarget, path: string): void {
+    const upstream = http.request({
+      host: target.host,
+      port: target.port,
+      method: req.method,
+      path,
+      headers: this.forwardHeaders(req, target)
+    }, upstreamRes => {
+      res.writeHead(upstreamRes.statusCode || 502, this.responseHeaders(upstreamRes, target));
+      upstreamRes.pipe(res);
+    });
+
+    upstream.on('error', error => {
+      previewLogger.debug('Preview request failed', { port: target.port, error: error.message });
+      if (!res.headersSent) {
+        res.writeHead(502, { 'Content-Type': 'text/plain' });
+      }
+      res.end(`Nothing is responding on port ${target.port}`);
+    });
+
+    req.pipe(upstream);
+  }
+
+  /**
+   * Forward a WebSocket upgrade to the target and splice the two sockets together
+   */
+  proxyUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer, target: PreviewTarget, path: string): void {
+    const upstream = net.connect(target.port, target.host, () => {
+      const headerLines = Object.entries(this.forwardHeaders(req, target))
+        .flatMap(([name, value]) => (Array.isArray(value) ? value : [value])
+          .filter((item): item is string => item !== undefined)
+          .map(item => `${name}: ${item}`));
+
+      upstream.write([`${req.method} ${path} HTTP/1.1`, ...headerLines, '', ''].join('\r\n'));
+      if (head.length > 0) {
+        upstream.write(head);
+      }
+
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+
+    upstream.on('error', error => {
+      previewLogger.debug('Preview WebSocket failed', { port: target.port, error: error.message });
+      socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+    });
+    socket.on('error', () => upstream.destroy());
+  }
+
+  /**
+   * Headers to send upstream. Amplify credentials never reach the container.
+   */
+  private forwardHeaders(req: IncomingMessage, target: PreviewTarget): http.OutgoingHttpHeaders {
+    const headers: http.OutgoingHttpHeaders = { ...req.headers };
+    delete headers.authorization;
+
+    const cookies = (req.headers.cookie || '')
+      .split(';')
+      .map(cookie => cookie.trim())
+      .filter(cookie => cookie && !cookie.startsWith('amplify_auth='));
+    if (cookies.length > 0) {
+      headers.cookie = cookies.join('; ');
+    } else {
+      delete headers.cookie;
+    }
+
+    // Dev servers commonly reject Host headers they do not recognise
+    headers.host = `localhost:${target.port}`;
+    headers['x-forwarded-host'] = req.headers.host || '';
+    headers['x-forwarded-proto'] = (req.socket as any).encrypted ? 'https' : 'http';
+    headers['x-forwarded-prefix'] = target.prefix;
+
+    return headers;
+  }
+
+  /**
+   * Headers to send back. The page is sandboxed so its scripts cannot call the API as the user,
+   * and it may not set cookies on the app's origin.
+   */
+  private responseHeaders(upstreamRes: IncomingMessage, target: PreviewTarget): http.OutgoingHttpHeaders {
+    const headers: http.OutgoingHttpHeaders = { ...upstreamRes.headers };
+    delete headers['set-cookie'];
+
+    if (headers.location) {
+      headers.location = this.rewriteLocation(headers.location, target);
+    }
+
+    // Comma-separated policies are all enforced, so the container's own can only narrow the sandbox
+    const upstreamPolicy = upstreamRes.headers['content-security-policy'];
+    headers['content-security-policy'] = upstreamPolicy
+      ? `${upstreamPolicy}, ${PREVIEW_SANDBOX_POLICY}`
+      : PREVIEW_SANDBOX_POLICY;
+
+    // Preview URLs carry a token, which must not leak to sites the page links to
+    headers['referrer-policy'] = 'no-referrer';
+
+    return headers;
+  }
+
+  /**
+   * Keep redirects from the target inside the preview path
+   */
+  private rewriteLocation(location: string, target: PreviewTarget): string {
+    const local = location.match(/^https?:\/\/(localhost|127\.0\.0\.1|0\.0\.0\.0)(:\d+)?(\/.*)?$/);
+    if (local) {
+      return `${target.prefix}${local[3] || '/'}`;
+    }
+
+    if (location.startsWith('/') && !location.startsWith('//') && !location.startsWith(target.prefix)) {
+      return `${target.prefix}${location}`;
+    }
+
+    return location;
+  }
+}
+
+export const previewProxyService = new PreviewProxyService();
@@ -0,0 +1,134 @@
+/**
+ * Parses and validates a repository's .amplify.yml
+ *
+ * Example:
+ *   image: ghcr.io/acme/amplify-node:20
+ *   setup:
+ *     - npm ci
+ *   teardown:
+ *     - docker compose down
+ *   preview:
+ *     ports: [3000]
+ *   amp:
+ *     instructions: Run `npm test` before finishing a task.
+ */
+
+import { parse } from 'yaml';
+import { RepoConfig, RepoConfigResult } from '../models/RepoConfig';
+import webConfig from '../config/webConfig';
+
+export const REPO_CONFIG_FILE = '.amplify.yml';
+
+const KNOWN_SETTINGS = ['image', 'setup', 'teardown', 'preview', 'amp'];
+const IMAGE_PATTERN = /^[\w][\w.\-/:@]*$/;
+
+/**
+ * True for plain YAML mappings
+ */
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a list of commands; a single command may be written as a plain string
+ */
+function readCommands(value: unknown, setting: string, errors: string[]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const commands = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(commands) || commands.some(command => typeof command !== 'string')) {
+    errors.push(`${setting} must be a list of commands`);
+    return [];
+  }
+
+  return commands.filter(command => command.trim().length > 0);
+}
+
+/**
+ * Images sessions may switch to: the base image plus those the server allows.
+ * A repository could otherwise run any image, including one without amp or the amplify user
+ */
+function getAllowedImages(): string[] {
+  return [webConfig.container.baseImage, ...webConfig.container.allowedImages];
+}
+
+/**
+ * Whether an image is allowed; 'ghcr.io/acme/*' allows every image under that prefix
+ */
+function isAllowedImage(image: string, allowedImages: string[]): boolean {
+  return allowedImages.some(allowed => allowed.endsWith('*')
+    ? image.startsWith(allowed.slice(0, -1))
+    : image === allowed);
+}
+
+/**
+ * Validate .amplify.yml content; the config is only returned when there are no errors
+ */
+export function parseRepoConfig(content: string, allowedImages: string[] = getAllowedImages()): RepoConfigResult {
+  let raw: unknown;
+  try {
+    raw = parse(content);
+  } catch (error: any) {
+    return { found: true, errors: [`Invalid YAML: ${error.message}`] };
+  }
+
+  if (raw === null || raw === undefined) {
+    return { found: true, config: { setup: [], teardown: [], previewPorts: [] }, errors: [] };
+  }
+
+  if (!isMapping(raw)) {
+    return { found: true, errors: [`${REPO_CONFIG_FILE} must be a mapping of settings`] };
+  }
+
+  const errors: string[] = [];
+
+  for (const key of Object.keys(raw)) {
+    if (!KNOWN_SETTINGS.includes(key)) {
+      errors.push(`Unknown setting "${key}"`);
+    }
+  }
+
+  if (raw.image !== undefined && (typeof raw.image !== 'string' || !IMAGE_PATTERN.test(raw.image))) {
+    errors.push('image must be a Docker image reference');
+  } else if (typeof raw.image === 'string' && !isAllowedImage(raw.image, allowedImages)) {
+    errors.push(`image ${raw.image} is not one of the images this server allows`);
+  }
+
+  const setup = readCommands(raw.setup, 'setup', errors);
+  const teardown = readCommands(raw.teardown, 'teardown', errors);
+
+  let previewPorts: number[] = [];
+  if (raw.preview !== undefined) {
+    const ports = isMapping(raw.preview) ? raw.preview.ports : undefined;
+    if (!Array.isArray(ports) || ports.some(port => !Number.isInteger(port) || port < 1 || port > 65535)) {
+      errors.push('preview.ports must be a list of port numbers');
+    } else {
+      previewPorts = Array.from(new Set(ports as number[]));
+    }
+  }
+
+  let instructions: string | undefined;
+  if (raw.amp !== undefined) {
+    if (!isMapping(raw.amp) || (raw.amp.instructions !== undefined && typeof raw.amp.instructions !== 'string')) {
+      errors.push('amp.instructions must be text');
+    } else if (typeof raw.amp.instructions === 'string' && raw.amp.instructions.trim()) {
+      instructions = raw.amp.instructions.trim();
+    }
+  }
+
+  if (errors.length > 0) {
+    return { found: true, errors };
+  }
+
+  const config: RepoConfig = {
+    setup,
+    teardown,
+    previewPorts,
+    ...(typeof raw.image === 'string' && { image: raw.image }),
+    ...(instructions && { instructions })
+  };
+
+  return { found: true, config, errors: [] };
+}
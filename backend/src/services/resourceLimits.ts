@@ -0,0 +1,184 @@
+/**
+ * Resolves container resource limits from config, the user's tier and per-session
+ * overrides, and enforces each user's combined quota across live sessions
+ */
+
+import webConfig, { ContainerResourceLimits, UserResourceQuota, parseSize } from '../config/webConfig';
+import { Session, SessionStatus } from '../models/Session';
+import { sessionStore } from './sessionStore';
+import { logger } from '../utils/logger';
+
+const limitsLogger = logger.child('ResourceLimits');
+
+const DEFAULT_TIER = 'default';
+
+export type ResourceLimitOverrides = Partial<ContainerResourceLimits>;
+
+export interface ResourceLimitResult<T = ContainerResourceLimits> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Get the tier a user belongs to
+ */
+export function getUserTier(username: string): string {
+  const tier = webConfig.container.userTiers[username];
+  return tier && webConfig.container.tiers[tier] ? tier : DEFAULT_TIER;
+}
+
+/**
+ * Get the largest limits a session in the tier may have
+ */
+export function getTierLimits(tier: string): ContainerResourceLimits {
+  return {
+    ...webConfig.container.resourceLimits,
+    ...webConfig.container.tiers[tier]?.resourceLimits
+  };
+}
+
+/**
+ * Get the combined budget for all of a tier member's live sessions
+ */
+export function getTierQuota(tier: string): UserResourceQuota {
+  return {
+    ...webConfig.container.userQuota,
+    ...webConfig.container.tiers[tier]?.userQuota
+  };
+}
+
+/**
+ * Work out the limits for a session. Per-session overrides may only tighten the tier's limits.
+ *
+ * @param workspacePopulated - Whether the session's workspace volume already holds its checkout.
+ *   Without a network the container can neither clone the repository nor reach amp, so a session
+ *   may only go without one when there is nothing left to clone.
+ */
+export function resolveResourceLimits(
+  username: string,
+  overrides: ResourceLimitOverrides = {},
+  workspacePopulated: boolean = false
+): ResourceLimitResult {
+  const tier = getUserTier(username);
+  const tierLimits = getTierLimits(tier);
+  const limits: ContainerResourceLimits = { ...tierLimits };
+
+  if (overrides.memory !== undefined) {
+    const requested = parseSize(overrides.memory);
+    if (isNaN(requested) || requested <= 0) {
+      return { success: false, error: `Invalid memory limit: ${overrides.memory}` };
+    }
+    if (requested > parseSize(tierLimits.memory)) {
+      return { success: false, error: `Memory limit ${overrides.memory} exceeds the ${tier} tier maximum of ${tierLimits.memory}` };
+    }
+    limits.memory = overrides.memory;
+  }
+
+  if (overrides.cpus !== undefined) {
+    const requested = parseFloat(overrides.cpus);
+    if (!(requested > 0)) {
+      return { success: false, error: `Invalid CPU limit: ${overrides.cpus}` };
+    }
+    if (requested > parseFloat(tierLimits.cpus)) {
+      return { success: false, error: `CPU limit ${overrides.cpus} exceeds the ${tier} tier maximum of ${tierLimits.cpus}` };
+    }
+    limits.cpus = overrides.cpus;
+  }
+
+  if (overrides.pidsLimit !== undefined) {
+    if (!Number.isInteger(overrides.pidsLimit) || overrides.pidsLimit < 1) {
+      return { success: false, error: `Invalid PID limit: ${overrides.pidsLimit}` };
+    }
+    if (overrides.pidsLimit > tierLimits.pidsLimit) {
+      return { success: false, error: `PID limit ${overrides.pidsLimit} exceeds the ${tier} tier maximum of ${tierLimits.pidsLimit}` };
+    }
+    limits.pidsLimit = overrides.pidsLimit;
+  }
+
+  if (overrides.diskQuota !== undefined) {
+    const requested = parseSize(overrides.diskQuota);
+    if (isNaN(requested) || requested <= 0) {
+      return { success: false, error: `Invalid disk quota: ${overrides.diskQuota}` };
+    }
+    if (tierLimits.diskQuota && requested > parseSize(tierLimits.diskQuota)) {
+      return { success: false, error: `Disk quota ${overrides.diskQuota} exceeds the ${tier} tier maximum of ${tierLimits.diskQuota}` };
+    }
+    limits.diskQuota = overrides.diskQuota;
+  }
+
+  if (overrides.networkMode !== undefined && overrides.networkMode !== tierLimits.networkMode) {
+    // Cutting a session off from the network is always allowed; anything else is up to the tier
+    if (overrides.networkMode !== 'none') {
+      return { success: false, error: `Network mode ${overrides.networkMode} is not available on the ${tier} tier` };
+    }
+    limits.networkMode = 'none';
+  }
+
+  if (limits.networkMode === 'none' && !workspacePopulated) {
+    return {
+      success: false,
+      error: 'Network mode none needs a workspace that is already cloned; use the egress policy to restrict new sessions'
+    };
+  }
+
+  return { success: true, data: limits };
+}
+
+/**
+ * Check that a new session with the given limits fits in the user's remaining quota
+ */
+export function checkUserQuota(
+  userId: string,
+  username: string,
+  limits: ContainerResourceLimits
+): ResourceLimitResult<void> {
+  const tier = getUserTier(username);
+  const quota = getTierQuota(tier);
+
+  // Stopped and failed sessions hold no container resources
+  const liveSessions = sessionStore.getUserSessions(userId)
+    .filter(summary => summary.status !== SessionStatus.STOPPED && summary.status !== SessionStatus.ERROR)
+    .map(summary => sessionStore.getSession(summary.id))
+    .filter((session): session is Session => !!session);
+
+  const used = liveSessions.reduce((total, session) => {
+    const sessionLimits = session.resourceLimits || webConfig.container.resourceLimits;
+    return {
+      memory: total.memory + parseSize(sessionLimits.memory),
+      cpus: total.cpus + parseFloat(sessionLimits.cpus)
+    };
+  }, { memory: 0, cpus: 0 });
+
+  const memoryQuota = parseSize(quota.memory);
+  if (used.memory + parseSize(limits.memory) > memoryQuota) {
+    limitsLogger.warn('User memory quota exceeded', { userId, tier, used: used.memory, requested: limits.memory });
+    return {
+      success: false,
+      error: `Quota exceeded: this session needs ${limits.memory} of memory but only ${formatSize(Math.max(memoryQuota - used.memory, 0))} of your ${quota.memory} quota is free. Stop or delete a session first.`
+    };
+  }
+
+  const cpuQuota = parseFloat(quota.cpus);
+  if (used.cpus + parseFloat(limits.cpus) > cpuQuota) {
+    limitsLogger.warn('User CPU quota exceeded', { userId, tier, used: used.cpus, requested: limits.cpus });
+    return {
+      success: false,
+      error: `Quota exceeded: this session needs ${limits.cpus} CPUs but only ${Math.max(cpuQuota - used.cpus, 0)} of your ${quota.cpus} CPU quota is free. Stop or delete a session first.`
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Format bytes in the largest whole docker-style unit
+ */
+function formatSize(bytes: number): string {
+  for (const [unit, size] of [['g', 1024 ** 3], ['m', 1024 ** 2], ['k', 1024]] as const) {
+    if (bytes >= size && bytes % size === 0) {
+      return `${bytes / size}${unit}`;
+    }
+  }
+  return `${bytes}b`;
+}
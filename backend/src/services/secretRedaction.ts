@@ -0,0 +1,171 @@
+/**
+ * Keeps session secrets out of what is shown or stored outside the container:
+ * terminal output, amp logs and thread messages
+ */
+
+import { Transform } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { SessionSecret } from '../models/Secret';
+import { secretStore } from './secretStore';
+import { sessionStore } from './sessionStore';
+
+const MIN_REDACTED_LENGTH = 4; // shorter values would mangle unrelated output
+const FLUSH_DELAY = 50;
+
+interface RedactionForm {
+  text: string;
+  replacement: string;
+}
+
+/**
+ * Every way a secret's value may appear: as-is, JSON-escaped and with terminal line endings
+ */
+function redactionForms(secrets: SessionSecret[]): RedactionForm[] {
+  const forms: RedactionForm[] = [];
+
+  for (const secret of secrets) {
+    if (secret.value.length < MIN_REDACTED_LENGTH) {
+      continue;
+    }
+
+    const replacement = `[REDACTED:${secret.name}]`;
+    const variants = new Set([
+      secret.value,
+      JSON.stringify(secret.value).slice(1, -1),
+      secret.value.replace(/\r?\n/g, '\r\n')
+    ]);
+    variants.forEach(text => forms.push({ text, replacement }));
+  }
+
+  // Longer forms first so a secret containing another is replaced whole
+  return forms.sort((a, b) => b.text.length - a.text.length);
+}
+
+/**
+ * Replace every occurrence of the given secrets' values
+ */
+export function redactSecrets(text: string, secrets: SessionSecret[]): string {
+  return redactionForms(secrets).reduce(
+    (redacted, form) => redacted.split(form.text).join(form.replacement),
+    text
+  );
+}
+
+/**
+ * Secrets injected into a session's container
+ */
+export function getSessionSecrets(sessionId: string): SessionSecret[] {
+  const session = sessionStore.getSession(sessionId);
+  return session?.repositoryName ? secretStore.getSessionSecrets(session.userId, session.repositoryName) : [];
+}
+
+/**
+ * Redact a session's secrets from text
+ */
+export function redactSessionText(sessionId: string, text: string): string {
+  const secrets = getSessionSecrets(sessionId);
+  return secrets.length > 0 ? redactSecrets(text, secrets) : text;
+}
+
+/**
+ * Redacts secrets from output that arrives in chunks. A chunk ending in what could be the
+ * start of a secret is held back until the next chunk shows whether it is one; if no chunk
+ * follows, onFlush receives it after a short delay.
+ */
+export class StreamRedactor {
+  private pending = '';
+  private flushTimer?: NodeJS.Timeout | undefined;
+
+  constructor(
+    private getSecrets: () => SessionSecret[],
+    private onFlush?: (text: string) => void
+  ) {}
+
+  /**
+   * Add a chunk and return the part of the output that is safe to pass on
+   */
+  push(chunk: string): string {
+    this.clearTimer();
+
+    const forms = redactionForms(this.getSecrets());
+    const text = this.pending + chunk;
+    if (forms.length === 0) {
+      this.pending = '';
+      return text;
+    }
+
+    const redacted = forms.reduce((result, form) => result.split(form.text).join(form.replacement), text);
+    const held = this.partialMatchLength(redacted, forms);
+
+    this.pending = redacted.slice(redacted.length - held);
+    if (this.pending && this.onFlush) {
+      const onFlush = this.onFlush;
+      this.flushTimer = setTimeout(() => onFlush(this.flush()), FLUSH_DELAY);
+    }
+
+    return redacted.slice(0, redacted.length - held);
+  }
+
+  /**
+   * Release anything held back
+   */
+  flush(): string {
+    this.clearTimer();
+    const text = this.pending;
+    this.pending = '';
+    return text;
+  }
+
+  /**
+   * Stop a pending delayed flush
+   */
+  dispose(): void {
+    this.clearTimer();
+    this.pending = '';
+  }
+
+  /**
+   * Length of the longest suffix of text that begins one of the forms
+   */
+  private partialMatchLength(text: string, forms: RedactionForm[]): number {
+    let longest = 0;
+
+    for (const form of forms) {
+      for (let length = Math.min(form.text.length - 1, text.length); length > longest; length--) {
+        if (text.endsWith(form.text.slice(0, length))) {
+          longest = length;
+          break;
+        }
+      }
+    }
+
+    return longest;
+  }
+
+  /**
+   * Cancel the delayed flush
+   */
+  private clearTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+}
+
+/**
+ * A stream that redacts a session's secrets from the bytes written through it
+ */
+export function createRedactingStream(sessionId: string | undefined): Transform {
+  const decoder = new StringDecoder('utf8');
+  const redactor = new StreamRedactor(() => (sessionId ? getSessionSecrets(sessionId) : []));
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, redactor.push(decoder.write(chunk)));
+    },
+    flush(callback) {
+      callback(null, redactor.push(decoder.end()) + redactor.flush());
+    }
+  });
+}
@@ -0,0 +1,273 @@
+/**
+ * Persistent store for user- and repository-level secrets, encrypted at rest
+ */
+
+import * as fs from 'fs';
+import { randomBytes } from 'crypto';
+import { Secret, SecretInput, SessionSecret } from '../models/Secret';
+import { encrypt, decrypt } from '../utils/encryption';
+import webConfig from '../config/webConfig';
+import { JsonFileWriter } from '../utils/jsonFileStore';
+import { logger } from '../utils/logger';
+
+const secretStoreLogger = logger.child('SecretStore');
+
+interface StoredSecret extends Secret {
+  encryptedValue: string;
+}
+
+export class SecretStore {
+  private secrets: Map<string, StoredSecret> = new Map();
+  private sessionSecrets: Map<string, SessionSecret[]> = new Map(); // decrypted per owner and repository
+  private writer?: JsonFileWriter | undefined;
+
+  /**
+   * @param encryptionKey - Secret used to encrypt values at rest
+   * @param filePath - JSON file to persist secrets to; omit to keep secrets in memory only
+   */
+  constructor(
+    private encryptionKey: string,
+    private filePath?: string,
+    writeDelay: number = 100
+  ) {
+    if (filePath) {
+      this.writer = new JsonFileWriter(filePath, () => Array.from(this.secrets.values()), writeDelay);
+    }
+  }
+
+  /**
+   * Load secrets from disk, reviving date fields
+   */
+  async load(): Promise<number> {
+    if (!this.filePath) {
+      return 0;
+    }
+
+    try {
+      const content = await fs.promises.readFile(this.filePath, 'utf-8');
+      const records = JSON.parse(content);
+
+      if (!Array.isArray(records)) {
+        secretStoreLogger.warn(`Ignoring malformed secret file: ${this.filePath}`);
+        return 0;
+      }
+
+      this.secrets.clear();
+      this.sessionSecrets.clear();
+      for (const record of records) {
+        const secret = this.reviveSecret(record);
+        this.secrets.set(secret.id, secret);
+      }
+
+      secretStoreLogger.info(`Loaded ${this.secrets.size} secrets from ${this.filePath}`);
+      return this.secrets.size;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        secretStoreLogger.error(`Failed to load secrets from ${this.filePath}:`, error);
+      }
+      return 0;
+    }
+  }
+
+  /**
+   * A user's secrets, without their values
+   */
+  listSecrets(ownerId: string): Secret[] {
+    return Array.from(this.secrets.values())
+      .filter(secret => secret.ownerId === ownerId)
+      .map(secret => this.toSecret(secret))
+      .sort((a, b) => a.name.localeCompare(b.name) || (a.repositoryName || '').localeCompare(b.repositoryName || ''));
+  }
+
+  /**
+   * Create a secret owned by the user; returns null if one with the same name already
+   * exists for the same scope and repository
+   */
+  createSecret(ownerId: string, input: SecretInput & { value: string }): Secret | null {
+    if (this.findDuplicate(ownerId, input)) {
+      return null;
+    }
+
+    const now = new Date();
+    const secret: StoredSecret = {
+      ...this.fromInput(input),
+      id: `secret-${randomBytes(8).toString('hex')}`,
+      ownerId,
+      encryptedValue: encrypt(input.value, this.encryptionKey),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.secrets.set(secret.id, secret);
+    this.changed();
+
+    secretStoreLogger.info(`Secret created: ${secret.id}`, { ownerId, name: secret.name, scope: secret.scope });
+    return this.toSecret(secret);
+  }
+
+  /**
+   * Replace a secret's settings, keeping its value unless a new one is given; only its owner may change it
+   */
+  updateSecret(secretId: string, ownerId: string, input: SecretInput): Secret | null {
+    const existing = this.secrets.get(secretId);
+    if (!existing || existing.ownerId !== ownerId) {
+      return null;
+    }
+
+    const duplicate = this.findDuplicate(ownerId, input);
+    if (duplicate && duplicate.id !== secretId) {
+      return null;
+    }
+
+    const secret: StoredSecret = {
+      ...this.fromInput(input),
+      id: existing.id,
+      ownerId,
+      encryptedValue: input.value !== undefined ? encrypt(input.value, this.encryptionKey) : existing.encryptedValue,
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    };
+
+    this.secrets.set(secretId, secret);
+    this.changed();
+    return this.toSecret(secret);
+  }
+
+  /**
+   * Delete a secret; only its owner may delete it
+   */
+  deleteSecret(secretId: string, ownerId: string): boolean {
+    const existing = this.secrets.get(secretId);
+    if (!existing || existing.ownerId !== ownerId) {
+      return false;
+    }
+
+    this.secrets.delete(secretId);
+    this.changed();
+
+    secretStoreLogger.info(`Secret deleted: ${secretId}`, { ownerId });
+    return true;
+  }
+
+  /**
+   * Decrypted secrets for a user's session on a repository; a repository secret
+   * replaces a user secret with the same name
+   */
+  getSessionSecrets(ownerId: string, repositoryName: string): SessionSecret[] {
+    const cacheKey = `${ownerId}:${repositoryName.toLowerCase()}`;
+    const cached = this.sessionSecrets.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const byName = new Map<string, SessionSecret>();
+    const applicable = Array.from(this.secrets.values())
+      .filter(secret => secret.ownerId === ownerId)
+      .filter(secret => secret.scope === 'user' ||
+        secret.repositoryName?.toLowerCase() === repositoryName.toLowerCase())
+      .sort((a, b) => (a.scope === b.scope ? 0 : a.scope === 'user' ? -1 : 1));
+
+    for (const secret of applicable) {
+      const value = this.decryptValue(secret);
+      if (value === undefined) {
+        continue;
+      }
+
+      byName.set(secret.name, {
+        name: secret.name,
+        value,
+        target: secret.target,
+        ...(secret.filePath && { filePath: secret.filePath })
+      });
+    }
+
+    const secrets = Array.from(byName.values());
+    this.sessionSecrets.set(cacheKey, secrets);
+    return secrets;
+  }
+
+  /**
+   * Write any pending changes immediately
+   */
+  async flush(): Promise<void> {
+    await this.writer?.flush();
+  }
+
+  /**
+   * Find another secret of the user's with the same name, scope and repository
+   */
+  private findDuplicate(ownerId: string, input: SecretInput): StoredSecret | undefined {
+    const repositoryName = input.scope === 'repository' ? input.repositoryName?.toLowerCase() : undefined;
+
+    return Array.from(this.secrets.values()).find(secret =>
+      secret.ownerId === ownerId &&
+      secret.name === input.name &&
+      secret.scope === input.scope &&
+      secret.repositoryName?.toLowerCase() === repositoryName
+    );
+  }
+
+  /**
+   * Build the stored fields from client input, dropping settings that don't apply
+   */
+  private fromInput(input: SecretInput): Omit<Secret, 'id' | 'ownerId' | 'createdAt' | 'updatedAt'> {
+    const target = input.target || 'environment';
+
+    return {
+      name: input.name,
+      scope: input.scope,
+      target,
+      ...(input.scope === 'repository' && input.repositoryName && { repositoryName: input.repositoryName }),
+      ...(target === 'file' && input.filePath && { filePath: input.filePath })
+    };
+  }
+
+  /**
+   * Strip the encrypted value from a stored secret
+   */
+  private toSecret(record: StoredSecret): Secret {
+    const { encryptedValue, ...secret } = record;
+    return secret;
+  }
+
+  /**
+   * Decrypt a stored value, treating undecryptable values as missing
+   */
+  private decryptValue(secret: StoredSecret): string | undefined {
+    try {
+      return decrypt(secret.encryptedValue, this.encryptionKey);
+    } catch (error) {
+      secretStoreLogger.warn('Failed to decrypt stored secret; it must be set again', {
+        id: secret.id,
+        name: secret.name
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Drop decrypted values and persist after any change
+   */
+  private changed(): void {
+    this.sessionSecrets.clear();
+    this.writer?.schedule();
+  }
+
+  /**
+   * Convert a JSON record back into a StoredSecret
+   */
+  private reviveSecret(record: any): StoredSecret {
+    return {
+      ...record,
+      target: record.target || 'environment',
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    };
+  }
+}
+
+// Singleton instance
+export const secretStore = new SecretStore(
+  webConfig.security.encryptionKey,
+  webConfig.secrets.backend === 'file' ? webConfig.secrets.filePath : undefined
+);
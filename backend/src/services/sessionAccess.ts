@@ -0,0 +1,43 @@
+/**
+ * Session roles: the owner, plus teammates the owner shared the session with
+ */
+
+import { Session, SessionRole } from '../models/Session';
+import { User } from '../models/User';
+
+const ROLE_RANK: Record<SessionRole, number> = {
+  viewer: 1,
+  collaborator: 2,
+  owner: 3
+};
+
+/**
+ * The user's role in a session, or null if they have no access
+ */
+export function getSessionRole(session: Session, user: Pick<User, 'id' | 'username'>): SessionRole | null {
+  if (session.userId === user.id) {
+    return 'owner';
+  }
+
+  const username = user.username.toLowerCase();
+  const share = session.shares?.find(share => share.username.toLowerCase() === username);
+  return share ? share.role : null;
+}
+
+/**
+ * Whether a role includes everything the minimum role may do
+ */
+export function roleAllows(role: SessionRole | null, minimum: SessionRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * Whether the user has at least the given role in a session
+ */
+export function hasSessionRole(
+  session: Session,
+  user: Pick<User, 'id' | 'username'>,
+  minimum: SessionRole
+): boolean {
+  return roleAllows(getSessionRole(session, user), minimum);
+}
@@ -0,0 +1,107 @@
+/**
+ * Hibernates idle sessions by pausing or stopping their containers, and resumes them
+ * in place so uncommitted work in the container survives
+ */
+
+import webConfig from '../config/webConfig';
+import { ContainerManager } from '../docker/containerManager';
+import { SessionStatus } from '../models/Session';
+import { sessionStore } from './sessionStore';
+import { ampService } from './ampService';
+import { logger } from '../utils/logger';
+
+const hibernationLogger = logger.child('SessionHibernation');
+
+export interface HibernationResult {
+  success: boolean;
+  error?: string;
+}
+
+// Resumes already under way, so concurrent connects share one unpause
+const pendingResumes = new Map<string, Promise<HibernationResult>>();
+
+/**
+ * Pause or stop an idle session's container and mark the session IDLE
+ */
+export async function hibernateSession(
+  sessionId: string,
+  containerManager: ContainerManager = new ContainerManager()
+): Promise<HibernationResult> {
+  const session = sessionStore.getSession(sessionId);
+  if (!session || !session.containerId || session.status !== SessionStatus.RUNNING) {
+    return { success: false, error: 'Session is not running' };
+  }
+
+  if (sessionStore.getActiveConnections(sessionId).length > 0) {
+    return { success: false, error: 'Session has active connections' };
+  }
+
+  // Freezing amp mid-turn would leave the thread hanging until someone reconnects
+  const threadIds = [session.threadId, ...(session.threads || []).map(thread => thread.id)];
+  if (threadIds.some(threadId => threadId && ampService.isTurnActive(threadId))) {
+    return { success: false, error: 'An amp turn is running' };
+  }
+
+  const action = webConfig.session.idleAction;
+  const suspended = await containerManager.suspendContainer(session.containerId, action);
+  if (!suspended) {
+    return { success: false, error: `Failed to ${action} container` };
+  }
+
+  sessionStore.updateSession(sessionId, { status: SessionStatus.IDLE });
+  hibernationLogger.info(`Session hibernated: ${sessionId}`, { action, containerId: session.containerId });
+
+  return { success: true };
+}
+
+/**
+ * Bring an idle session's container back and mark the session RUNNING
+ */
+export async function resumeSession(
+  sessionId: string,
+  containerManager: ContainerManager = new ContainerManager()
+): Promise<HibernationResult> {
+  const pending = pendingResumes.get(sessionId);
+  if (pending) {
+    return pending;
+  }
+
+  const resume = (async (): Promise<HibernationResult> => {
+    const session = sessionStore.getSession(sessionId);
+    if (!session || !session.containerId) {
+      return { success: false, error: 'Session has no container to resume' };
+    }
+
+    const result = await containerManager.resumeContainer(session.containerId);
+    if (!result.success) {
+      return { success: false, error: `Failed to resume container: ${result.error}` };
+    }
+
+    sessionStore.updateSession(sessionId, {
+      status: SessionStatus.RUNNING,
+      lastAccessedAt: new Date()
+    });
+    hibernationLogger.info(`Session resumed: ${sessionId}`, { containerId: session.containerId });
+
+    return { success: true };
+  })();
+
+  pendingResumes.set(sessionId, resume);
+  try {
+    return await resume;
+  } finally {
+    pendingResumes.delete(sessionId);
+  }
+}
+
+/**
+ * Resume a session if it is hibernating; running sessions are left alone
+ */
+export async function resumeIfIdle(sessionId: string): Promise<HibernationResult> {
+  const session = sessionStore.getSession(sessionId);
+  if (session?.status !== SessionStatus.IDLE) {
+    return { success: true };
+  }
+
+  return resumeSession(sessionId);
+}
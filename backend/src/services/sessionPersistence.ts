@@ -0,0 +1,151 @@
+/**
+ * Pluggable persistence backends for SessionStore
+ */
+
+import * as fs from 'fs';
+import { Session } from '../models/Session';
+import { JsonFileWriter } from '../utils/jsonFileStore';
+import { logger } from '../utils/logger';
+
+const persistenceLogger = logger.child('SessionPersistence');
+
+export type SessionPersistenceBackend = 'memory' | 'file';
+
+export interface SessionPersistence {
+  /** Load all persisted sessions */
+  load(): Promise<Session[]>;
+  /** Record the latest state of a session */
+  save(session: Session): void;
+  /** Forget a session */
+  remove(sessionId: string): void;
+  /** Wait for pending writes to reach the backend */
+  flush(): Promise<void>;
+}
+
+/**
+ * No-op persistence; sessions live only as long as the process
+ */
+export class MemorySessionPersistence implements SessionPersistence {
+  async load(): Promise<Session[]> {
+    return [];
+  }
+
+  save(_session: Session): void {}
+
+  remove(_sessionId: string): void {}
+
+  async flush(): Promise<void> {}
+}
+
+/**
+ * JSON file persistence with debounced, atomic writes
+ */
+export class FileSessionPersistence implements SessionPersistence {
+  private sessions: Map<string, Session> = new Map();
+  private writer: JsonFileWriter;
+
+  constructor(
+    private filePath: string,
+    writeDelay: number = 100
+  ) {
+    this.writer = new JsonFileWriter(filePath, () => Array.from(this.sessions.values()), writeDelay);
+  }
+
+  /**
+   * Load sessions from disk, reviving date fields
+   */
+  async load(): Promise<Session[]> {
+    try {
+      const content = await fs.promises.readFile(this.filePath, 'utf-8');
+      const records = JSON.parse(content);
+
+      if (!Array.isArray(records)) {
+        persistenceLogger.warn(`Ignoring malformed session file: ${this.filePath}`);
+        return [];
+      }
+
+      this.sessions.clear();
+      for (const record of records) {
+        const session = this.reviveSession(record);
+        this.sessions.set(session.id, session);
+      }
+
+      persistenceLogger.info(`Loaded ${this.sessions.size} sessions from ${this.filePath}`);
+      return Array.from(this.sessions.values());
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      persistenceLogger.error(`Failed to load sessions from ${this.filePath}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a session
+   */
+  save(session: Session): void {
+    this.sessions.set(session.id, session);
+    this.writer.schedule();
+  }
+
+  /**
+   * Remove a session
+   */
+  remove(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      this.writer.schedule();
+    }
+  }
+
+  /**
+   * Write any pending changes immediately
+   */
+  async flush(): Promise<void> {
+    await this.writer.flush();
+  }
+
+  /**
+   * Convert a JSON record back into a Session
+   */
+  private reviveSession(record: any): Session {
+    return {
+      ...record,
+      createdAt: new Date(record.createdAt),
+      lastAccessedAt: new Date(record.lastAccessedAt),
+      expiresAt: new Date(record.expiresAt),
+      ...(record.threads && {
+        threads: record.threads.map((thread: any) => ({
+          ...thread,
+          createdAt: new Date(thread.createdAt),
+          ...(thread.archivedAt && { archivedAt: new Date(thread.archivedAt) })
+        }))
+      }),
+      ...(record.shares && {
+        shares: record.shares.map((share: any) => ({
+          ...share,
+          invitedAt: new Date(share.invitedAt)
+        }))
+      }),
+      metadata: record.metadata || {}
+    };
+  }
+}
+
+/**
+ * Create a persistence backend by name
+ */
+export function createSessionPersistence(
+  backend: SessionPersistenceBackend,
+  filePath: string
+): SessionPersistence {
+  switch (backend) {
+    case 'file':
+      return new FileSessionPersistence(filePath);
+    case 'memory':
+      return new MemorySessionPersistence();
+    default:
+      persistenceLogger.warn(`Unknown session persistence backend "${backend}", using memory`);
+      return new MemorySessionPersistence();
+  }
+}
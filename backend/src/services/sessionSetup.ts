@@ -0,0 +1,284 @@
+/**
+ * Prepares a new session's workspace: writes secret files, reads the repository's .amplify.yml,
+ * runs setup commands in its container and starts the first amp turn, reporting progress as it goes
+ */
+
+import { PassThrough } from 'stream';
+import { ContainerManager } from '../docker/containerManager';
+import { ampService } from './ampService';
+import { parseRepoConfig, REPO_CONFIG_FILE } from './repoConfig';
+import { RepoConfigResult } from '../models/RepoConfig';
+import { SessionSecret } from '../models/Secret';
+import { threadStorage } from './threadStorage';
+import { ThreadMessage, MessageType } from '../types/threadMessage';
+import { generateMessageId } from '../utils/logParsingUtils';
+import { logger } from '../utils/logger';
+
+const setupLogger = logger.child('SessionSetup');
+
+export type SessionProgressStage = 'validating' | 'container' | 'config' | 'setup' | 'thread' | 'prompt' | 'ready';
+
+export interface SessionProgressEvent {
+  stage: SessionProgressStage;
+  message: string;
+  output?: string; // raw command output for the setup stage
+}
+
+export type SessionProgressListener = (event: SessionProgressEvent) => void;
+
+export interface SetupResult {
+  success: boolean;
+  error?: string;
+}
+
+const SETUP_TIMEOUT = 15 * 60 * 1000;
+const CONFIG_READ_TIMEOUT = 6 * 60 * 1000; // covers waiting for a slow clone
+
+// The entrypoint touches the marker once the clone has finished (or failed)
+const WAIT_FOR_CHECKOUT = [
+  'waited=0',
+  'while [ ! -e /tmp/amplify-workspace-ready ]; do',
+  '  if [ "$waited" -ge 300 ]; then echo "Timed out waiting for the repository checkout" >&2; exit 1; fi',
+  '  sleep 1; waited=$((waited + 1))',
+  'done'
+].join('\n');
+
+// Each command runs in the checkout and the first failure stops the rest
+const SETUP_SCRIPT = [
+  'workdir="$1"; shift',
+  WAIT_FOR_CHECKOUT,
+  'cd "$workdir" || exit 1',
+  'for command in "$@"; do',
+  '  echo "\\$ $command"',
+  '  sh -c "$command" || { status=$?; echo "Setup command exited with code $status: $command" >&2; exit $status; }',
+  'done'
+].join('\n');
+
+// Exit code 3 tells a missing file apart from other failures
+const READ_FILE_SCRIPT = [
+  WAIT_FOR_CHECKOUT,
+  '[ -f "$1" ] || exit 3',
+  'cat "$1"'
+].join('\n');
+
+// Reads the file's content from stdin so it never shows up in the exec's arguments
+const WRITE_SECRET_FILE_SCRIPT = [
+  'case "$1" in',
+  '  "~/"*) target="$HOME/${1#"~/"}" ;;',
+  '  *) target="$1" ;;',
+  'esac',
+  'mkdir -p "$(dirname "$target")" || exit 1',
+  'umask 077',
+  'cat > "$target"'
+].join('\n');
+
+// amp picks up AGENTS.md files in parent directories of the checkout, so this stays out of the repository
+const AMP_INSTRUCTIONS_PATH = '/workspace/AGENTS.md';
+
+interface ScriptResult {
+  exitCode: number;
+  output: string; // combined stdout and stderr, trimmed to the last 64 KB
+}
+
+/**
+ * Run a shell script in the container, forwarding its combined output as it arrives
+ */
+async function runScript(
+  containerManager: ContainerManager,
+  containerId: string,
+  script: string,
+  args: string[],
+  timeout: number,
+  onOutput?: (output: string) => void,
+  input?: string
+): Promise<ScriptResult> {
+  const exec = await containerManager.executeCommand(
+    containerId,
+    ['sh', '-c', script, 'amplify-setup', ...args],
+    '/',
+    { tty: false }
+  );
+
+  const stream = await exec.start({ hijack: true, stdin: input !== undefined });
+  const combined = new PassThrough();
+  let output = '';
+
+  combined.on('data', (chunk: Buffer) => {
+    const text = chunk.toString();
+    output = (output + text).slice(-64 * 1024);
+    onOutput?.(text);
+  });
+
+  containerManager.getDocker().modem.demuxStream(stream, combined, combined);
+
+  if (input !== undefined) {
+    stream.write(input);
+    stream.end();
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      stream.destroy();
+      reject(new Error(`Timed out after ${timeout}ms`));
+    }, timeout);
+
+    stream.on('end', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    stream.on('error', (error: Error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+
+  const { ExitCode } = await exec.inspect();
+  return { exitCode: ExitCode ?? 0, output };
+}
+
+/**
+ * Run setup (or teardown) commands one after another in the session's repository
+ * checkout, forwarding their combined output as it arrives
+ */
+export async function runSetupCommands(
+  containerManager: ContainerManager,
+  containerId: string,
+  workingDirectory: string,
+  commands: string[],
+  onOutput?: (output: string) => void,
+  timeout: number = SETUP_TIMEOUT
+): Promise<SetupResult> {
+  if (commands.length === 0) {
+    return { success: true };
+  }
+
+  try {
+    const result = await runScript(
+      containerManager, containerId, SETUP_SCRIPT, [workingDirectory, ...commands], timeout, onOutput
+    );
+
+    if (result.exitCode !== 0) {
+      const lastLine = result.output.trim().split('\n').pop() || '';
+      return { success: false, error: lastLine || `Setup exited with code ${result.exitCode}` };
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    setupLogger.error('Failed to run setup commands', {
+      containerId: containerId.substring(0, 12),
+      error: error.message
+    });
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Read and validate the repository's .amplify.yml once the clone has finished
+ */
+export async function loadRepoConfig(
+  containerManager: ContainerManager,
+  containerId: string,
+  workingDirectory: string
+): Promise<RepoConfigResult> {
+  try {
+    const result = await runScript(
+      containerManager, containerId, READ_FILE_SCRIPT, [`${workingDirectory}/${REPO_CONFIG_FILE}`], CONFIG_READ_TIMEOUT
+    );
+
+    if (result.exitCode === 3) {
+      return { found: false, errors: [] };
+    }
+    if (result.exitCode !== 0) {
+      return { found: true, errors: [`Failed to read ${REPO_CONFIG_FILE}: ${result.output.trim()}`] };
+    }
+
+    return parseRepoConfig(result.output);
+  } catch (error: any) {
+    setupLogger.error(`Failed to read ${REPO_CONFIG_FILE}`, {
+      containerId: containerId.substring(0, 12),
+      error: error.message
+    });
+    return { found: true, errors: [`Failed to read ${REPO_CONFIG_FILE}: ${error.message}`] };
+  }
+}
+
+/**
+ * Give amp the repository's default instructions for every thread in the session
+ */
+export async function installAmpInstructions(
+  containerManager: ContainerManager,
+  containerId: string,
+  instructions: string
+): Promise<SetupResult> {
+  try {
+    const result = await runScript(
+      containerManager, containerId, 'printf \'%s\\n\' "$2" > "$1"', [AMP_INSTRUCTIONS_PATH, instructions], 30000
+    );
+
+    return result.exitCode === 0
+      ? { success: true }
+      : { success: false, error: result.output.trim() || `Exited with code ${result.exitCode}` };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Write file secrets into the container, readable only by the container user
+ */
+export async function installSecretFiles(
+  containerManager: ContainerManager,
+  containerId: string,
+  secrets: SessionSecret[]
+): Promise<SetupResult> {
+  for (const secret of secrets) {
+    if (secret.target !== 'file' || !secret.filePath) {
+      continue;
+    }
+
+    try {
+      const result = await runScript(
+        containerManager, containerId, WRITE_SECRET_FILE_SCRIPT, [secret.filePath], 30000, undefined, secret.value
+      );
+
+      if (result.exitCode !== 0) {
+        return { success: false, error: `Failed to write ${secret.name}: ${result.output.trim() || `exited with code ${result.exitCode}`}` };
+      }
+    } catch (error: any) {
+      return { success: false, error: `Failed to write ${secret.name}: ${error.message}` };
+    }
+  }
+
+  return { success: true };
+}
+
+/**
+ * Record a prompt as the first user message of a thread and start the amp turn for it
+ * without waiting; its output reaches clients through the amp log like any other turn
+ */
+export async function sendInitialPrompt(
+  sessionId: string,
+  threadId: string,
+  prompt: string,
+  options: { containerId: string; workingDirectory: string; ampLogPath: string }
+): Promise<void> {
+  const timestamp = new Date();
+  const userMessage: ThreadMessage = {
+    id: generateMessageId(MessageType.USER, prompt, timestamp),
+    type: MessageType.USER,
+    content: prompt,
+    timestamp
+  };
+
+  await threadStorage.appendMessage(sessionId, userMessage, threadId);
+
+  ampService.continueThread(threadId, prompt, options)
+    .then(result => {
+      if (!result.success) {
+        setupLogger.warn('Initial prompt turn failed', { sessionId, threadId, error: result.error });
+      }
+    })
+    .catch(error => {
+      setupLogger.error('Initial prompt turn failed', { sessionId, threadId, error: error.message });
+    });
+}
@@ -1,9 +1,12 @@
 /**
- * In-memory session storage with TTL management
+ * Session storage with TTL management and pluggable persistence
  */
 
 import { EventEmitter } from 'events';
-import { Session, SessionStatus, SessionSummary, SessionConnection, SessionStats } from '../models/Session';
+import { Session, SessionStatus, SessionSummary, SessionConnection, SessionStats, SessionThread } from '../models/Session';
+import { ContainerInfo } from '../docker/containerManager';
+import { SessionPersistence, MemorySessionPersistence, createSessionPersistence } from './sessionPersistence';
+import webConfig from '../config/webConfig';
 import { logger } from '../utils/logger';
 
 const storeLogger = logger.child('SessionStore');
@@ -14,15 +17,30 @@ export interface SessionStoreConfig {
   cleanupInterval: number; // Cleanup interval in milliseconds
 }
 
+export interface ContainerInspector {
+  getContainerInfo(containerId: string): Promise<ContainerInfo | null>;
+}
+
+export interface SessionRestoreResult {
+  restored: number;
+  reattached: number;
+  stopped: number;
+}
+
 export class SessionStore extends EventEmitter {
   private sessions: Map<string, Session> = new Map();
   private userSessions: Map<string, Set<string>> = new Map();
   private connections: Map<string, SessionConnection[]> = new Map();
   private cleanupTimer?: NodeJS.Timeout | undefined;
   private config: SessionStoreConfig;
+  private persistence: SessionPersistence;
 
-  constructor(config: Partial<SessionStoreConfig> = {}) {
+  constructor(
+    config: Partial<SessionStoreConfig> = {},
+    persistence: SessionPersistence = new MemorySessionPersistence()
+  ) {
     super();
+    this.persistence = persistence;
     this.config = {
       defaultTTL: config.defaultTTL || 4 * 60 * 60 * 1000, // 4 hours
       maxSessions: config.maxSessions || 10,
@@ -45,17 +63,8 @@ export class SessionStore extends EventEmitter {
       return false;
     }
 
-    // Store the session
-    this.sessions.set(session.id, session);
-    
-    // Update user sessions index
-    if (!this.userSessions.has(session.userId)) {
-      this.userSessions.set(session.userId, new Set());
-    }
-    this.userSessions.get(session.userId)!.add(session.id);
-
-    // Initialize connections array
-    this.connections.set(session.id, []);
+    this.indexSession(session);
+    this.persistence.save(session);
 
     storeLogger.info(`Session created: ${session.id}`, {
       userId: session.userId,
@@ -74,6 +83,23 @@ export class SessionStore extends EventEmitter {
     return this.sessions.get(sessionId) || null;
   }
 
+  /**
+   * Every session across all users, most recently used first
+   */
+  getAllSessions(): Session[] {
+    return Array.from(this.sessions.values())
+      .sort((a, b) => b.lastAccessedAt.getTime() - a.lastAccessedAt.getTime());
+  }
+
+  /**
+   * Sessions other users shared with a GitHub username, most recently used first
+   */
+  getSessionsSharedWith(username: string): Session[] {
+    const normalized = username.toLowerCase();
+    return this.getAllSessions()
+      .filter(session => session.shares?.some(share => share.username.toLowerCase() === normalized));
+  }
+
   /**
    * Get all sessions for a user
    */
@@ -112,6 +138,7 @@ export class SessionStore extends EventEmitter {
 
     const updatedSession = { ...session, ...updates };
     this.sessions.set(sessionId, updatedSession);
+    this.persistence.save(updatedSession);
 
     storeLogger.debug(`Session updated: ${sessionId}`, updates);
     this.emit('sessionUpdated', updatedSession, updates);
@@ -135,6 +162,7 @@ export class SessionStore extends EventEmitter {
     };
 
     this.sessions.set(sessionId, updatedSession);
+    this.persistence.save(updatedSession);
     return true;
   }
 
@@ -161,6 +189,7 @@ export class SessionStore extends EventEmitter {
 
     // Remove connections
     this.connections.delete(sessionId);
+    this.persistence.remove(sessionId);
 
     storeLogger.info(`Session deleted: ${sessionId}`, {
       userId: session.userId,
@@ -174,7 +203,7 @@ export class SessionStore extends EventEmitter {
   /**
    * Add a connection to a session
    */
-  addConnection(sessionId: string, connectionId: string): boolean {
+  addConnection(sessionId: string, connectionId: string, userId?: string): boolean {
     const session = this.sessions.get(sessionId);
     if (!session) {
       return false;
@@ -184,6 +213,7 @@ export class SessionStore extends EventEmitter {
     const connection: SessionConnection = {
       sessionId,
       connectionId,
+      ...(userId && { userId }),
       connectedAt: new Date(),
       lastActivityAt: new Date(),
       isActive: true
@@ -233,6 +263,30 @@ export class SessionStore extends EventEmitter {
     return connections.filter(c => c.isActive);
   }
 
+  /**
+   * Find running sessions that have had no open connections for at least idleTimeout ms
+   */
+  findIdleSessions(idleTimeout: number): Session[] {
+    const cutoff = Date.now() - idleTimeout;
+
+    return Array.from(this.sessions.values()).filter(session => {
+      if (session.status !== SessionStatus.RUNNING || !session.containerId) {
+        return false;
+      }
+
+      const connections = this.connections.get(session.id) || [];
+      if (connections.some(c => c.isActive)) {
+        return false;
+      }
+
+      const lastActivity = Math.max(
+        session.lastAccessedAt.getTime(),
+        ...connections.map(c => c.lastActivityAt.getTime())
+      );
+      return lastActivity < cutoff;
+    });
+  }
+
   /**
    * Get sessions by thread ID
    */
@@ -242,9 +296,33 @@ export class SessionStore extends EventEmitter {
         return session;
       }
     }
+    for (const session of this.sessions.values()) {
+      if (session.threads?.some(thread => thread.id === threadId)) {
+        return session;
+      }
+    }
     return null;
   }
 
+  /**
+   * Get every amp thread of a session, oldest first. Sessions created before
+   * threads were tracked report their single thread.
+   */
+  getSessionThreads(sessionId: string): SessionThread[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return [];
+    }
+
+    if (session.threads) {
+      return session.threads;
+    }
+
+    return session.threadId && session.ampLogPath
+      ? [{ id: session.threadId, title: 'Thread 1', ampLogPath: session.ampLogPath, createdAt: session.createdAt }]
+      : [];
+  }
+
   /**
    * Get all sessions with active threads
    */
@@ -257,21 +335,32 @@ export class SessionStore extends EventEmitter {
   /**
    * Update thread association for a session
    */
-  updateThreadAssociation(sessionId: string, threadId: string, ampLogPath: string): boolean {
+  updateThreadAssociation(sessionId: string, threadId: string, ampLogPath: string, title?: string): boolean {
     const session = this.sessions.get(sessionId);
     if (!session) {
       storeLogger.warn(`Cannot update thread association: session ${sessionId} not found`);
       return false;
     }
 
+    // Keep earlier threads in the collection; the association only changes which one is active
+    const threads = this.getSessionThreads(sessionId);
     const updatedSession = {
       ...session,
       threadId,
       ampLogPath,
+      threads: threads.some(thread => thread.id === threadId)
+        ? threads
+        : [...threads, {
+            id: threadId,
+            title: title || `Thread ${threads.length + 1}`,
+            ampLogPath,
+            createdAt: new Date()
+          }],
       lastAccessedAt: new Date()
     };
 
     this.sessions.set(sessionId, updatedSession);
+    this.persistence.save(updatedSession);
     
     storeLogger.info(`Thread association updated for session: ${sessionId}`, {
       threadId,
@@ -282,6 +371,30 @@ export class SessionStore extends EventEmitter {
     return true;
   }
 
+  /**
+   * Mark a thread as archived; its history is kept
+   */
+  archiveThread(sessionId: string, threadId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    const threads = this.getSessionThreads(sessionId);
+    if (!session || !threads.some(thread => thread.id === threadId)) {
+      return false;
+    }
+
+    const archivedAt = new Date();
+    const updatedSession = {
+      ...session,
+      threads: threads.map(thread => thread.id === threadId ? { ...thread, archivedAt } : thread)
+    };
+
+    this.sessions.set(sessionId, updatedSession);
+    this.persistence.save(updatedSession);
+
+    storeLogger.info(`Thread archived for session: ${sessionId}`, { threadId });
+    this.emit('threadArchived', sessionId, threadId);
+    return true;
+  }
+
   /**
    * Remove thread association from a session
    */
@@ -301,6 +414,7 @@ export class SessionStore extends EventEmitter {
     delete (updatedSession as any).ampLogPath;
 
     this.sessions.set(sessionId, updatedSession);
+    this.persistence.save(updatedSession);
     
     storeLogger.info(`Thread association removed from session: ${sessionId}`);
     this.emit('threadAssociationRemoved', sessionId);
@@ -342,6 +456,21 @@ export class SessionStore extends EventEmitter {
     };
   }
 
+  /**
+   * Number of sessions in each status, including statuses with none
+   */
+  getStatusCounts(): Record<SessionStatus, number> {
+    const counts = Object.fromEntries(
+      Object.values(SessionStatus).map(status => [status, 0])
+    ) as Record<SessionStatus, number>;
+
+    for (const session of this.sessions.values()) {
+      counts[session.status]++;
+    }
+
+    return counts;
+  }
+
   /**
    * Get session statistics
    */
@@ -391,6 +520,107 @@ export class SessionStore extends EventEmitter {
     return expiredSessions;
   }
 
+  /**
+   * Reload persisted sessions and reconcile them against their containers
+   */
+  async restore(containerManager: ContainerInspector): Promise<SessionRestoreResult> {
+    const result: SessionRestoreResult = { restored: 0, reattached: 0, stopped: 0 };
+    const persisted = await this.persistence.load();
+
+    for (const stored of persisted) {
+      if (this.sessions.has(stored.id)) {
+        continue;
+      }
+
+      const session = await this.reconcileSession(stored, containerManager);
+      this.indexSession(session);
+      this.persistence.save(session);
+
+      result.restored++;
+      if (session.status === SessionStatus.RUNNING) {
+        result.reattached++;
+      } else if (session.status === SessionStatus.STOPPED) {
+        result.stopped++;
+      }
+    }
+
+    storeLogger.info('Sessions restored from persistence', result);
+    return result;
+  }
+
+  /**
+   * Wait for pending persistence writes
+   */
+  async flush(): Promise<void> {
+    await this.persistence.flush();
+  }
+
+  /**
+   * Match a restored session to the container it was using, if any
+   */
+  private async reconcileSession(session: Session, containerManager: ContainerInspector): Promise<Session> {
+    // Sessions created before a container was recorded can still be found by name
+    const containerRef = session.containerId || `amplify-${session.id}`;
+    let containerInfo: ContainerInfo | null = null;
+
+    try {
+      containerInfo = await containerManager.getContainerInfo(containerRef);
+    } catch (error) {
+      storeLogger.warn(`Failed to inspect container for restored session: ${session.id}`, error);
+    }
+
+    if (containerInfo && containerInfo.status === 'running') {
+      storeLogger.info(`Reattached session ${session.id} to running container`, {
+        containerId: containerInfo.id.substring(0, 12)
+      });
+
+      return {
+        ...session,
+        containerId: containerInfo.id,
+        containerName: containerInfo.name,
+        status: SessionStatus.RUNNING
+      };
+    }
+
+    // Hibernated containers keep their files and resume on the next connect
+    const hibernated = containerInfo?.status === 'paused'
+      || (containerInfo?.status === 'exited' && session.status === SessionStatus.IDLE);
+    if (containerInfo && hibernated) {
+      return {
+        ...session,
+        containerId: containerInfo.id,
+        containerName: containerInfo.name,
+        status: SessionStatus.IDLE
+      };
+    }
+
+    const { containerId, containerName, ...rest } = session;
+    const status = session.status === SessionStatus.ERROR ? SessionStatus.ERROR : SessionStatus.STOPPED;
+
+    // Keep a reference to stopped containers so they are removed with the session
+    if (containerInfo) {
+      return { ...rest, containerId: containerInfo.id, containerName: containerInfo.name, status };
+    }
+
+    return { ...rest, status };
+  }
+
+  /**
+   * Add a session to the in-memory indexes
+   */
+  private indexSession(session: Session): void {
+    this.sessions.set(session.id, session);
+
+    if (!this.userSessions.has(session.userId)) {
+      this.userSessions.set(session.userId, new Set());
+    }
+    this.userSessions.get(session.userId)!.add(session.id);
+
+    if (!this.connections.has(session.id)) {
+      this.connections.set(session.id, []);
+    }
+  }
+
   /**
    * Start the automatic cleanup timer
    */
@@ -398,6 +628,8 @@ export class SessionStore extends EventEmitter {
     this.cleanupTimer = setInterval(() => {
       this.cleanup();
     }, this.config.cleanupInterval);
+    // The store is a module singleton; its timer alone should not keep the process alive
+    this.cleanupTimer.unref();
 
     storeLogger.info(`Cleanup timer started with interval: ${this.config.cleanupInterval}ms`);
   }
@@ -453,4 +685,10 @@ export class SessionStore extends EventEmitter {
 }
 
 // Singleton instance
-export const sessionStore = new SessionStore();
+export const sessionStore = new SessionStore(
+  {},
+  createSessionPersistence(
+    webConfig.session.persistence.backend,
+    webConfig.session.persistence.filePath
+  )
+);
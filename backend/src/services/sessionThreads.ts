@@ -0,0 +1,171 @@
+/**
+ * Manages the collection of amp threads that share a session's container and working tree
+ */
+
+import path from 'path';
+import { SessionThread } from '../models/Session';
+import { sessionStore } from './sessionStore';
+import { ampService } from './ampService';
+import { threadStorage } from './threadStorage';
+import { logger } from '../utils/logger';
+
+const threadsLogger = logger.child('SessionThreads');
+
+export interface SessionThreadResult<T = SessionThread> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface SessionThreadSummary extends SessionThread {
+  isActive: boolean;
+  messageCount: number;
+  lastMessageTime?: Date | undefined;
+}
+
+export class SessionThreadService {
+  /**
+   * Get a session's threads, oldest first
+   */
+  getThreads(sessionId: string): SessionThread[] {
+    const threads = sessionStore.getSessionThreads(sessionId);
+
+    // History stored before threads were tracked belongs to the session's first thread
+    if (threads[0]) {
+      threadStorage.adoptLegacyThread(sessionId, threads[0].id);
+    }
+
+    return threads;
+  }
+
+  /**
+   * Get the ID of the thread new messages go to, if the session has one
+   */
+  getActiveThreadId(sessionId: string): string | undefined {
+    this.getThreads(sessionId);
+    return sessionStore.getSession(sessionId)?.threadId;
+  }
+
+  /**
+   * List threads with their message counts
+   */
+  async listThreads(sessionId: string): Promise<SessionThreadSummary[]> {
+    const activeThreadId = this.getActiveThreadId(sessionId);
+    const threads = this.getThreads(sessionId);
+
+    return Promise.all(threads.map(async thread => {
+      const stats = await threadStorage.getThreadStats(sessionId, thread.id);
+      return {
+        ...thread,
+        isActive: thread.id === activeThreadId,
+        messageCount: stats.messageCount,
+        lastMessageTime: stats.lastMessageTime
+      };
+    }));
+  }
+
+  /**
+   * Start a fresh amp thread in the session's container and make it active
+   */
+  async createThread(sessionId: string, title?: string): Promise<SessionThreadResult> {
+    const session = sessionStore.getSession(sessionId);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+
+    if (!session.containerId) {
+      return { success: false, error: 'Session container is not running' };
+    }
+
+    const threads = this.getThreads(sessionId);
+    const repoName = session.repositoryName.split('/').pop() || session.repositoryName;
+    const logDir = threads[0] ? path.dirname(threads[0].ampLogPath) : undefined;
+
+    const result = await ampService.createThread(sessionId, {
+      environment: {
+        REPOSITORY_URL: session.repositoryUrl,
+        REPOSITORY_BRANCH: session.branch,
+        USER_ID: session.userId
+      },
+      containerId: session.containerId,
+      workingDirectory: `/workspace/${repoName}`,
+      ...(logDir && { ampLogPath: path.join(logDir, `amp-${Date.now()}.log`) })
+    });
+
+    if (!result.success || !result.threadId || !result.ampLogPath) {
+      threadsLogger.error('Failed to create thread', { sessionId, error: result.error });
+      return { success: false, error: result.error || 'Failed to create thread' };
+    }
+
+    sessionStore.updateThreadAssociation(sessionId, result.threadId, result.ampLogPath, title?.trim() || undefined);
+
+    threadsLogger.info('Created thread', { sessionId, threadId: result.threadId });
+    return this.findThread(sessionId, result.threadId);
+  }
+
+  /**
+   * Make an existing thread the one new messages go to
+   */
+  switchThread(sessionId: string, threadId: string): SessionThreadResult {
+    const found = this.findThread(sessionId, threadId);
+    if (!found.success || !found.data) {
+      return found;
+    }
+
+    if (found.data.archivedAt) {
+      return { success: false, error: 'Thread is archived' };
+    }
+
+    const activeThreadId = this.getActiveThreadId(sessionId);
+    if (activeThreadId && activeThreadId !== threadId && ampService.isTurnActive(activeThreadId)) {
+      return { success: false, error: 'Amp is still working on the current thread' };
+    }
+
+    sessionStore.updateThreadAssociation(sessionId, threadId, found.data.ampLogPath);
+    threadsLogger.info('Switched thread', { sessionId, threadId });
+    return found;
+  }
+
+  /**
+   * Archive a thread. Archiving the active thread switches to the most recent remaining one.
+   */
+  archiveThread(sessionId: string, threadId: string): SessionThreadResult {
+    const found = this.findThread(sessionId, threadId);
+    if (!found.success || !found.data) {
+      return found;
+    }
+
+    if (ampService.isTurnActive(threadId)) {
+      return { success: false, error: 'Amp is still working on this thread' };
+    }
+
+    if (threadId === this.getActiveThreadId(sessionId)) {
+      const next = this.getThreads(sessionId)
+        .filter(thread => thread.id !== threadId && !thread.archivedAt)
+        .pop();
+
+      if (!next) {
+        return { success: false, error: 'Cannot archive the only open thread' };
+      }
+
+      sessionStore.updateThreadAssociation(sessionId, next.id, next.ampLogPath);
+    }
+
+    sessionStore.archiveThread(sessionId, threadId);
+    threadsLogger.info('Archived thread', { sessionId, threadId });
+    return this.findThread(sessionId, threadId);
+  }
+
+  /**
+   * Look up a thread in a session
+   */
+  private findThread(sessionId: string, threadId: string): SessionThreadResult {
+    const thread = this.getThreads(sessionId).find(t => t.id === threadId);
+    return thread
+      ? { success: true, data: thread }
+      : { success: false, error: 'Thread not found' };
+  }
+}
+
+// Export singleton instance
+export const sessionThreadService = new SessionThreadService();
@@ -0,0 +1,191 @@
+/**
+ * Persistent store for user- and repository-level session templates
+ */
+
+import * as fs from 'fs';
+import { randomBytes } from 'crypto';
+import { SessionTemplate, SessionTemplateInput } from '../models/SessionTemplate';
+import webConfig from '../config/webConfig';
+import { JsonFileWriter } from '../utils/jsonFileStore';
+import { logger } from '../utils/logger';
+
+const templateStoreLogger = logger.child('TemplateStore');
+
+export class TemplateStore {
+  private templates: Map<string, SessionTemplate> = new Map();
+  private writer?: JsonFileWriter | undefined;
+
+  /**
+   * @param filePath - JSON file to persist templates to; omit to keep templates in memory only
+   */
+  constructor(
+    private filePath?: string,
+    writeDelay: number = 100
+  ) {
+    if (filePath) {
+      this.writer = new JsonFileWriter(filePath, () => Array.from(this.templates.values()), writeDelay);
+    }
+  }
+
+  /**
+   * Load templates from disk, reviving date fields
+   */
+  async load(): Promise<number> {
+    if (!this.filePath) {
+      return 0;
+    }
+
+    try {
+      const content = await fs.promises.readFile(this.filePath, 'utf-8');
+      const records = JSON.parse(content);
+
+      if (!Array.isArray(records)) {
+        templateStoreLogger.warn(`Ignoring malformed template file: ${this.filePath}`);
+        return 0;
+      }
+
+      this.templates.clear();
+      for (const record of records) {
+        const template = this.reviveTemplate(record);
+        this.templates.set(template.id, template);
+      }
+
+      templateStoreLogger.info(`Loaded ${this.templates.size} templates from ${this.filePath}`);
+      return this.templates.size;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        templateStoreLogger.error(`Failed to load templates from ${this.filePath}:`, error);
+      }
+      return 0;
+    }
+  }
+
+  /**
+   * Templates a user may pick: their own, plus repository templates for the given repository
+   */
+  listTemplates(userId: string, repositoryName?: string): SessionTemplate[] {
+    return Array.from(this.templates.values())
+      .filter(template => this.canUse(template, userId, repositoryName))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a template by ID if the user may use it for the given repository
+   */
+  getTemplate(templateId: string, userId: string, repositoryName?: string): SessionTemplate | null {
+    const template = this.templates.get(templateId);
+    return template && this.canUse(template, userId, repositoryName) ? template : null;
+  }
+
+  /**
+   * Create a template owned by the user
+   */
+  createTemplate(ownerId: string, input: SessionTemplateInput): SessionTemplate {
+    const now = new Date();
+    const template: SessionTemplate = {
+      ...this.fromInput(input),
+      id: `template-${randomBytes(8).toString('hex')}`,
+      ownerId,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.templates.set(template.id, template);
+    this.writer?.schedule();
+
+    templateStoreLogger.info(`Template created: ${template.id}`, { ownerId, scope: template.scope });
+    return template;
+  }
+
+  /**
+   * Replace a template's settings; only its owner may change it
+   */
+  updateTemplate(templateId: string, ownerId: string, input: SessionTemplateInput): SessionTemplate | null {
+    const existing = this.templates.get(templateId);
+    if (!existing || existing.ownerId !== ownerId) {
+      return null;
+    }
+
+    const template: SessionTemplate = {
+      ...this.fromInput(input),
+      id: existing.id,
+      ownerId,
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    };
+
+    this.templates.set(templateId, template);
+    this.writer?.schedule();
+    return template;
+  }
+
+  /**
+   * Delete a template; only its owner may delete it
+   */
+  deleteTemplate(templateId: string, ownerId: string): boolean {
+    const existing = this.templates.get(templateId);
+    if (!existing || existing.ownerId !== ownerId) {
+      return false;
+    }
+
+    this.templates.delete(templateId);
+    this.writer?.schedule();
+
+    templateStoreLogger.info(`Template deleted: ${templateId}`, { ownerId });
+    return true;
+  }
+
+  /**
+   * Write any pending changes immediately
+   */
+  async flush(): Promise<void> {
+    await this.writer?.flush();
+  }
+
+  /**
+   * Owners can use all their templates; others only repository templates for the same repository
+   */
+  private canUse(template: SessionTemplate, userId: string, repositoryName?: string): boolean {
+    if (template.ownerId === userId) {
+      return true;
+    }
+
+    return template.scope === 'repository' &&
+      !!repositoryName &&
+      template.repositoryName?.toLowerCase() === repositoryName.toLowerCase();
+  }
+
+  /**
+   * Build the stored fields from client input, dropping empty optional values
+   */
+  private fromInput(input: SessionTemplateInput): Omit<SessionTemplate, 'id' | 'ownerId' | 'createdAt' | 'updatedAt'> {
+    return {
+      name: input.name,
+      scope: input.scope,
+      setupCommands: (input.setupCommands || []).filter(command => command.trim().length > 0),
+      environment: { ...input.environment },
+      ...(input.description && { description: input.description }),
+      ...(input.scope === 'repository' && input.repositoryName && { repositoryName: input.repositoryName }),
+      ...(input.image && { image: input.image }),
+      ...(input.initialPrompt && { initialPrompt: input.initialPrompt })
+    };
+  }
+
+  /**
+   * Convert a JSON record back into a SessionTemplate
+   */
+  private reviveTemplate(record: any): SessionTemplate {
+    return {
+      ...record,
+      setupCommands: Array.isArray(record.setupCommands) ? record.setupCommands : [],
+      environment: record.environment || {},
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    };
+  }
+}
+
+// Singleton instance
+export const templateStore = new TemplateStore(
+  webConfig.templates.backend === 'file' ? webConfig.templates.filePath : undefined
+);
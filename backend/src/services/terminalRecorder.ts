@@ -0,0 +1,269 @@
+/**
+ * Terminal recordings in asciicast v2 format, kept in each session's data directory
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+
+const recorderLogger = logger.child('TerminalRecorder');
+
+export interface RecordingOptions {
+  cols: number;
+  rows: number;
+  title?: string;
+}
+
+export interface RecordingLimits {
+  maxRecordings: number; // finished recordings kept per session
+  maxBytes: number; // total size of a session's finished recordings
+}
+
+export interface RecordingSummary {
+  id: string;
+  sessionId: string;
+  startedAt: string;
+  duration: number; // seconds from the start to the last event
+  cols: number;
+  rows: number;
+  size: number; // bytes on disk
+  isRecording: boolean;
+  title?: string;
+}
+
+/**
+ * One open .cast file; events are timed from when it was started
+ */
+export class TerminalRecording {
+  private stream: fs.WriteStream;
+  private startedAt: number;
+  private closed = false;
+
+  constructor(
+    readonly id: string,
+    readonly filePath: string,
+    options: RecordingOptions,
+    private onClose: () => void
+  ) {
+    this.startedAt = Date.now();
+
+    // The header goes out synchronously so the recording is listed as soon as it starts
+    fs.writeFileSync(filePath, `${JSON.stringify({
+      version: 2,
+      width: options.cols,
+      height: options.rows,
+      timestamp: Math.floor(this.startedAt / 1000),
+      env: { SHELL: '/bin/bash', TERM: 'xterm-256color' },
+      ...(options.title && { title: options.title })
+    })}\n`);
+
+    this.stream = fs.createWriteStream(filePath, { flags: 'a' });
+    this.stream.on('error', error => recorderLogger.error(`Failed to write recording ${filePath}`, error));
+  }
+
+  /**
+   * Output written to the terminal
+   */
+  output(data: string): void {
+    this.event('o', data);
+  }
+
+  /**
+   * The terminal was resized
+   */
+  resize(cols: number, rows: number): void {
+    this.event('r', `${cols}x${rows}`);
+  }
+
+  /**
+   * A labelled point in time, such as the input lock changing hands
+   */
+  marker(label: string): void {
+    this.event('m', label);
+  }
+
+  /**
+   * Stop recording; resolves once everything is on disk
+   */
+  close(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    this.closed = true;
+    this.onClose();
+    return new Promise(resolve => this.stream.end(resolve));
+  }
+
+  private event(type: 'o' | 'r' | 'm', data: string): void {
+    if (this.closed || !data) {
+      return;
+    }
+    const elapsed = Math.round(Date.now() - this.startedAt) / 1000;
+    this.stream.write(`${JSON.stringify([elapsed, type, data])}\n`);
+  }
+}
+
+/**
+ * TerminalRecorder starts recordings and reads them back for playback
+ */
+export class TerminalRecorder {
+  private dataDir: string;
+  private limits: RecordingLimits;
+  private active: Set<string> = new Set(); // file paths still being written
+
+  constructor(
+    dataDir: string = process.env.DATA_DIR || '/tmp/amplify-data',
+    limits: RecordingLimits = {
+      maxRecordings: parseInt(process.env.TERMINAL_RECORDING_MAX_COUNT || '50'),
+      maxBytes: parseInt(process.env.TERMINAL_RECORDING_MAX_BYTES || '104857600') // 100MB
+    }
+  ) {
+    this.dataDir = dataDir;
+    this.limits = limits;
+  }
+
+  /**
+   * Start recording a terminal in the session's data directory
+   */
+  start(sessionId: string, options: RecordingOptions): TerminalRecording {
+    const directory = this.getRecordingsDir(sessionId);
+    fs.mkdirSync(directory, { recursive: true });
+    this.prune(directory);
+
+    const id = new Date().toISOString().replace(/[:.]/g, '-');
+    const filePath = path.join(directory, `${id}.cast`);
+    this.active.add(filePath);
+
+    recorderLogger.info('Started terminal recording', { sessionId, recordingId: id });
+    return new TerminalRecording(id, filePath, options, () => this.active.delete(filePath));
+  }
+
+  /**
+   * A session's recordings, newest first
+   */
+  async listRecordings(sessionId: string): Promise<RecordingSummary[]> {
+    const directory = this.getRecordingsDir(sessionId);
+
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(directory);
+    } catch {
+      return [];
+    }
+
+    const summaries: RecordingSummary[] = [];
+    for (const file of files.filter(file => file.endsWith('.cast'))) {
+      const summary = await this.summarize(sessionId, path.join(directory, file));
+      if (summary) {
+        summaries.push(summary);
+      }
+    }
+
+    // Ids are start times, so they sort chronologically
+    return summaries.sort((a, b) => b.id.localeCompare(a.id));
+  }
+
+  /**
+   * The raw asciicast file of a recording, or null if there is none
+   */
+  async readRecording(sessionId: string, recordingId: string): Promise<string | null> {
+    if (!/^[\w-]+$/.test(recordingId)) {
+      return null;
+    }
+
+    try {
+      return await fs.promises.readFile(path.join(this.getRecordingsDir(sessionId), `${recordingId}.cast`), 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove all of a session's recordings
+   */
+  async deleteRecordings(sessionId: string): Promise<void> {
+    await fs.promises.rm(this.getRecordingsDir(sessionId), { recursive: true, force: true });
+    recorderLogger.info('Deleted terminal recordings', { sessionId });
+  }
+
+  /**
+   * Drop the oldest finished recordings until the session is back under its limits.
+   * Runs before a new recording starts, which leaves room for it in the count
+   */
+  private prune(directory: string): void {
+    const finished = fs.readdirSync(directory)
+      .filter(file => file.endsWith('.cast'))
+      .map(file => path.join(directory, file))
+      .filter(filePath => !this.active.has(filePath))
+      .sort()
+      .reverse()
+      .map(filePath => ({ filePath, size: fs.statSync(filePath).size }));
+
+    let kept = 0;
+    let bytes = 0;
+    for (const { filePath, size } of finished) {
+      if (kept < this.limits.maxRecordings - 1 && bytes + size <= this.limits.maxBytes) {
+        kept++;
+        bytes += size;
+        continue;
+      }
+
+      try {
+        fs.unlinkSync(filePath);
+        recorderLogger.debug(`Pruned terminal recording ${filePath}`);
+      } catch (error) {
+        recorderLogger.warn(`Failed to prune terminal recording ${filePath}`, error);
+      }
+    }
+  }
+
+  private async summarize(sessionId: string, filePath: string): Promise<RecordingSummary | null> {
+    try {
+      const [content, stats] = await Promise.all([
+        fs.promises.readFile(filePath, 'utf8'),
+        fs.promises.stat(filePath)
+      ]);
+      const lines = content.split('\n').filter(line => line.trim());
+      const header = JSON.parse(lines[0] || '{}');
+
+      return {
+        id: path.basename(filePath, '.cast'),
+        sessionId,
+        startedAt: new Date((header.timestamp || 0) * 1000).toISOString(),
+        duration: this.getDuration(lines),
+        cols: header.width,
+        rows: header.height,
+        size: stats.size,
+        isRecording: this.active.has(filePath),
+        ...(header.title && { title: header.title })
+      };
+    } catch (error) {
+      recorderLogger.warn(`Skipping unreadable recording ${filePath}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Time of the last complete event; a recording still being written may end mid-line
+   */
+  private getDuration(lines: string[]): number {
+    for (let i = lines.length - 1; i > 0; i--) {
+      try {
+        const event = JSON.parse(lines[i]!);
+        if (Array.isArray(event) && typeof event[0] === 'number') {
+          return event[0];
+        }
+      } catch {
+        // Keep looking further back
+      }
+    }
+    return 0;
+  }
+
+  private getRecordingsDir(sessionId: string): string {
+    return path.join(this.dataDir, sessionId, 'recordings');
+  }
+}
+
+// Export singleton instance
+export const terminalRecorder = new TerminalRecorder();
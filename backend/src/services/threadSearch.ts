@@ -0,0 +1,296 @@
+/**
+ * Full-text search over stored thread history
+ */
+
+import { ThreadStorage, threadStorage } from './threadStorage';
+import { ThreadMessage, MessageType } from '../types/threadMessage';
+import { logger } from '../utils/logger';
+
+const searchLogger = logger.child('ThreadSearch');
+
+export type SearchField = 'content' | 'tool' | 'file';
+
+export interface SearchableSession {
+  id: string;
+  repositoryName: string;
+  threadIds?: string[]; // Omitted for sessions whose history predates per-thread storage
+}
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface ThreadSearchResult {
+  sessionId: string;
+  threadId?: string | undefined;
+  repositoryName: string;
+  messageId: string;
+  messageType: MessageType;
+  timestamp: Date;
+  field: SearchField;
+  snippet: string;
+  highlights: SearchHighlight[];
+  link: string;
+  score: number;
+}
+
+interface IndexedField {
+  field: SearchField;
+  text: string;
+}
+
+interface IndexedMessage {
+  message: ThreadMessage;
+  fields: IndexedField[];
+}
+
+interface SessionIndex {
+  version: string;
+  messages: IndexedMessage[];
+  terms: Map<string, Set<number>>;
+}
+
+// Matches in tool names and file paths are stronger signals than prose
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  tool: 3,
+  file: 2,
+  content: 1
+};
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 100;
+
+/**
+ * Split text into lowercase search terms
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+export class ThreadSearchService {
+  private indexes: Map<string, SessionIndex> = new Map();
+
+  constructor(private storage: ThreadStorage = threadStorage) {}
+
+  /**
+   * Search the threads of the given sessions; every query term must match a message
+   */
+  async search(sessions: SearchableSession[], query: string, limit: number = 20): Promise<ThreadSearchResult[]> {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const results: ThreadSearchResult[] = [];
+
+    for (const session of sessions) {
+      const threadIds: (string | undefined)[] = session.threadIds?.length ? session.threadIds : [undefined];
+
+      for (const threadId of threadIds) {
+        const index = await this.getIndex(session.id, threadId);
+        if (!index) {
+          continue;
+        }
+
+        for (const position of this.matchTerms(index, terms)) {
+          const indexed = index.messages[position];
+          if (indexed) {
+            results.push(this.buildResult(session, threadId, indexed, terms));
+          }
+        }
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Get the index for a thread, rebuilding it if the thread file changed
+   */
+  private async getIndex(sessionId: string, threadId?: string): Promise<SessionIndex | null> {
+    const key = threadId ? `${sessionId}:${threadId}` : sessionId;
+    const version = this.storage.getThreadVersion(sessionId, threadId);
+    if (!version) {
+      this.indexes.delete(key);
+      return null;
+    }
+
+    const cached = this.indexes.get(key);
+    if (cached && cached.version === version) {
+      return cached;
+    }
+
+    try {
+      const messages = await this.storage.getAllMessages(sessionId, threadId);
+      const index = this.buildIndex(version, messages);
+      this.indexes.set(key, index);
+
+      searchLogger.debug(`Indexed ${messages.length} messages for session ${sessionId}`);
+      return index;
+    } catch (error) {
+      searchLogger.warn(`Failed to index thread for session ${sessionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Build an inverted index over content, tool names and file paths
+   */
+  private buildIndex(version: string, messages: ThreadMessage[]): SessionIndex {
+    const terms = new Map<string, Set<number>>();
+    const indexed: IndexedMessage[] = messages.map((message, position) => {
+      const fields = this.getFields(message);
+
+      for (const { text } of fields) {
+        for (const term of tokenize(text)) {
+          let postings = terms.get(term);
+          if (!postings) {
+            postings = new Set();
+            terms.set(term, postings);
+          }
+          postings.add(position);
+        }
+      }
+
+      return { message, fields };
+    });
+
+    return { version, messages: indexed, terms };
+  }
+
+  /**
+   * Extract the searchable fields of a message
+   */
+  private getFields(message: ThreadMessage): IndexedField[] {
+    const fields: IndexedField[] = [];
+
+    if (message.content) {
+      fields.push({ field: 'content', text: message.content.replace(/\s+/g, ' ').trim() });
+    }
+    if (message.metadata?.tool_name) {
+      fields.push({ field: 'tool', text: message.metadata.tool_name });
+    }
+    for (const file of message.metadata?.files || []) {
+      fields.push({ field: 'file', text: file });
+    }
+
+    return fields;
+  }
+
+  /**
+   * Find messages containing every term, matching terms as word prefixes
+   */
+  private matchTerms(index: SessionIndex, terms: string[]): number[] {
+    let matches = index.messages.map((_, position) => position);
+
+    for (const term of terms) {
+      const termMatches = new Set<number>();
+      for (const [indexedTerm, postings] of index.terms) {
+        if (indexedTerm.startsWith(term)) {
+          postings.forEach(position => termMatches.add(position));
+        }
+      }
+
+      matches = matches.filter(position => termMatches.has(position));
+      if (matches.length === 0) {
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Score a match and cut a highlighted snippet from its best field
+   */
+  private buildResult(
+    session: SearchableSession,
+    threadId: string | undefined,
+    indexed: IndexedMessage,
+    terms: string[]
+  ): ThreadSearchResult {
+    let best: IndexedField | undefined;
+    let bestHits = -1;
+    let score = 0;
+
+    for (const field of indexed.fields) {
+      const lower = field.text.toLowerCase();
+      const hits = terms.filter(term => lower.includes(term)).length;
+      score += hits * FIELD_WEIGHTS[field.field];
+
+      if (hits > bestHits) {
+        best = field;
+        bestHits = hits;
+      }
+    }
+
+    const { snippet, highlights } = this.createSnippet(best?.text || '', terms);
+    const { message } = indexed;
+
+    const threadParam = threadId ? `&thread=${encodeURIComponent(threadId)}` : '';
+
+    return {
+      sessionId: session.id,
+      threadId,
+      repositoryName: session.repositoryName,
+      messageId: message.id,
+      messageType: message.type,
+      timestamp: message.timestamp,
+      field: best?.field || 'content',
+      snippet,
+      highlights,
+      link: `/terminal/${encodeURIComponent(session.id)}?tab=thread${threadParam}&message=${encodeURIComponent(message.id)}`,
+      score
+    };
+  }
+
+  /**
+   * Cut a window around the first match and locate every term within it
+   */
+  private createSnippet(text: string, terms: string[]): { snippet: string; highlights: SearchHighlight[] } {
+    const lower = text.toLowerCase();
+    const firstMatch = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0));
+    const anchor = Number.isFinite(firstMatch) ? firstMatch : 0;
+
+    const start = Math.max(0, anchor - SNIPPET_BEFORE);
+    const end = Math.min(text.length, anchor + SNIPPET_AFTER);
+    const prefix = start > 0 ? '…' : '';
+    const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+
+    const window = snippet.toLowerCase();
+    const ranges: SearchHighlight[] = [];
+    for (const term of terms) {
+      let index = window.indexOf(term, prefix.length);
+      while (index >= 0) {
+        ranges.push({ start: index, end: index + term.length });
+        index = window.indexOf(term, index + term.length);
+      }
+    }
+
+    return { snippet, highlights: this.mergeRanges(ranges) };
+  }
+
+  /**
+   * Merge overlapping highlight ranges
+   */
+  private mergeRanges(ranges: SearchHighlight[]): SearchHighlight[] {
+    const merged: SearchHighlight[] = [];
+
+    for (const range of ranges.sort((a, b) => a.start - b.start)) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+
+    return merged;
+  }
+}
+
+// Export singleton instance
+export const threadSearchService = new ThreadSearchService();
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { ThreadMessage } from '../types/threadMessage';
 import { logger } from '../utils/logger';
+import { redactSessionText } from './secretRedaction';
 
 export interface ThreadMessageQuery {
   limit?: number;
@@ -29,12 +30,12 @@ export class ThreadStorage {
   /**
    * Append a message to the thread storage file
    */
-  async appendMessage(sessionId: string, message: ThreadMessage): Promise<void> {
+  async appendMessage(sessionId: string, message: ThreadMessage, threadId?: string): Promise<void> {
     try {
-      const filePath = this.getThreadFilePath(sessionId);
+      const filePath = this.getThreadFilePath(sessionId, threadId);
       
       // Check for duplicates by reading existing messages
-      if (await this.messageExists(sessionId, message.id)) {
+      if (await this.messageExists(sessionId, message.id, threadId)) {
         return; // Skip duplicate
       }
 
@@ -44,12 +45,13 @@ export class ThreadStorage {
         fs.mkdirSync(dir, { recursive: true });
       }
 
-      // Append message as JSONL
-      const messageJson = JSON.stringify(message) + '\n';
+      // Append message as JSONL, without the session's secrets
+      const messageJson = redactSessionText(sessionId, JSON.stringify(message)) + '\n';
       fs.appendFileSync(filePath, messageJson, 'utf8');
 
       logger.debug('Thread message appended', {
         sessionId,
+        threadId,
         messageId: message.id,
         messageType: message.type
       });
@@ -66,9 +68,9 @@ export class ThreadStorage {
   /**
    * Get messages for a thread with pagination
    */
-  async getMessages(sessionId: string, query: ThreadMessageQuery = {}): Promise<ThreadMessageResponse> {
+  async getMessages(sessionId: string, query: ThreadMessageQuery = {}, threadId?: string): Promise<ThreadMessageResponse> {
     try {
-      const filePath = this.getThreadFilePath(sessionId);
+      const filePath = this.getThreadFilePath(sessionId, threadId);
       
       if (!fs.existsSync(filePath)) {
         return {
@@ -79,7 +81,7 @@ export class ThreadStorage {
       }
 
       // Read all messages
-      const allMessages = await this.readAllMessages(sessionId);
+      const allMessages = await this.readAllMessages(sessionId, threadId);
       const total = allMessages.length;
 
       // Apply pagination
@@ -132,9 +134,9 @@ export class ThreadStorage {
   /**
    * Get the latest messages for a thread
    */
-  async getLatestMessages(sessionId: string, count: number = 10): Promise<ThreadMessage[]> {
+  async getLatestMessages(sessionId: string, count: number = 10, threadId?: string): Promise<ThreadMessage[]> {
     try {
-      const allMessages = await this.readAllMessages(sessionId);
+      const allMessages = await this.readAllMessages(sessionId, threadId);
       return allMessages.slice(-count);
     } catch (error) {
       logger.error('Failed to get latest thread messages', {
@@ -149,9 +151,9 @@ export class ThreadStorage {
   /**
    * Check if a message already exists in the thread
    */
-  async messageExists(sessionId: string, messageId: string): Promise<boolean> {
+  async messageExists(sessionId: string, messageId: string, threadId?: string): Promise<boolean> {
     try {
-      const filePath = this.getThreadFilePath(sessionId);
+      const filePath = this.getThreadFilePath(sessionId, threadId);
       
       if (!fs.existsSync(filePath)) {
         return false;
@@ -172,15 +174,15 @@ export class ThreadStorage {
   /**
    * Clear all messages for a thread
    */
-  async clearMessages(sessionId: string): Promise<void> {
+  async clearMessages(sessionId: string, threadId?: string): Promise<void> {
     try {
-      const filePath = this.getThreadFilePath(sessionId);
+      const filePath = this.getThreadFilePath(sessionId, threadId);
       
       if (fs.existsSync(filePath)) {
         fs.unlinkSync(filePath);
       }
 
-      logger.debug('Thread messages cleared', { sessionId });
+      logger.debug('Thread messages cleared', { sessionId, threadId });
     } catch (error) {
       logger.error('Failed to clear thread messages', {
         sessionId,
@@ -193,9 +195,9 @@ export class ThreadStorage {
   /**
    * Get thread statistics
    */
-  async getThreadStats(sessionId: string): Promise<{ messageCount: number; lastMessageTime?: Date | undefined }> {
+  async getThreadStats(sessionId: string, threadId?: string): Promise<{ messageCount: number; lastMessageTime?: Date | undefined }> {
     try {
-      const allMessages = await this.readAllMessages(sessionId);
+      const allMessages = await this.readAllMessages(sessionId, threadId);
       const messageCount = allMessages.length;
       const lastMessageTime = allMessages.length > 0 
         ? new Date(allMessages[allMessages.length - 1]?.timestamp || 0)
@@ -211,11 +213,30 @@ export class ThreadStorage {
     }
   }
 
+  /**
+   * Get every message in a thread in chronological order
+   */
+  async getAllMessages(sessionId: string, threadId?: string): Promise<ThreadMessage[]> {
+    return this.readAllMessages(sessionId, threadId);
+  }
+
+  /**
+   * Get a cheap fingerprint of the thread file that changes whenever it is written
+   */
+  getThreadVersion(sessionId: string, threadId?: string): string | null {
+    try {
+      const stats = fs.statSync(this.getThreadFilePath(sessionId, threadId));
+      return `${stats.size}:${stats.mtimeMs}`;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Read all messages from the thread file
    */
-  private async readAllMessages(sessionId: string): Promise<ThreadMessage[]> {
-    const filePath = this.getThreadFilePath(sessionId);
+  private async readAllMessages(sessionId: string, threadId?: string): Promise<ThreadMessage[]> {
+    const filePath = this.getThreadFilePath(sessionId, threadId);
     
     if (!fs.existsSync(filePath)) {
       return [];
@@ -248,9 +269,30 @@ export class ThreadStorage {
   }
 
   /**
-   * Get the file path for a thread
+   * Move history recorded before threads were tracked per session into the
+   * given thread's file. No-op if there is no such history or the thread already has its own.
    */
-  private getThreadFilePath(sessionId: string): string {
+  adoptLegacyThread(sessionId: string, threadId: string): void {
+    const legacyPath = this.getThreadFilePath(sessionId);
+    const threadPath = this.getThreadFilePath(sessionId, threadId);
+
+    if (!fs.existsSync(legacyPath) || fs.existsSync(threadPath)) {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(threadPath), { recursive: true });
+    fs.renameSync(legacyPath, threadPath);
+    logger.info('Adopted legacy thread history', { sessionId, threadId });
+  }
+
+  /**
+   * Get the file path for a thread. Without a thread ID this is the session-wide
+   * file used before sessions could hold several threads.
+   */
+  private getThreadFilePath(sessionId: string, threadId?: string): string {
+    if (threadId) {
+      return path.join(this.baseDir, sessionId, `thread_${threadId}.jsonl`);
+    }
     return path.join(this.baseDir, `thread_${sessionId}.jsonl`);
   }
 
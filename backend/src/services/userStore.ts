@@ -0,0 +1,336 @@
+/**
+ * Persistent user store with access tokens and amp API keys encrypted at rest
+ */
+
+import * as fs from 'fs';
+import { randomBytes } from 'crypto';
+import { AuthenticatedUser, UserPreferences, UserProfile } from '../models/User';
+import { encrypt, decrypt } from '../utils/encryption';
+import { JsonFileWriter } from '../utils/jsonFileStore';
+import webConfig from '../config/webConfig';
+import { logger } from '../utils/logger';
+
+const userStoreLogger = logger.child('UserStore');
+
+export interface StoredUser {
+  id: string;
+  githubId: number;
+  username: string;
+  email?: string;
+  name?: string;
+  avatarUrl?: string;
+  scopes: string[];
+  createdAt: Date;
+  lastLoginAt: Date;
+  profile: UserProfile;
+  preferences: UserPreferences;
+  encryptedAccessToken?: string | undefined;
+  encryptedRefreshToken?: string | undefined;
+  tokenId: string; // Embedded in issued JWTs; rotating it revokes them all
+  tokenRevokedAt?: Date | undefined;
+  encryptedAmpApiKey?: string | undefined;
+  ampApiKeyHint?: string | undefined; // last characters, so users can tell which key is stored
+  ampApiKeyUpdatedAt?: Date | undefined;
+}
+
+export interface AmpApiKeyStatus {
+  configured: boolean;
+  hint?: string;
+  updatedAt?: Date;
+}
+
+export class UserStore {
+  private users: Map<number, StoredUser> = new Map();
+  private userIdIndex: Map<string, number> = new Map();
+  private writer?: JsonFileWriter | undefined;
+
+  /**
+   * @param encryptionKey - Secret used to encrypt tokens at rest
+   * @param filePath - JSON file to persist users to; omit to keep users in memory only
+   */
+  constructor(
+    private encryptionKey: string,
+    private filePath?: string,
+    writeDelay: number = 100
+  ) {
+    if (filePath) {
+      this.writer = new JsonFileWriter(filePath, () => Array.from(this.users.values()), writeDelay);
+    }
+  }
+
+  /**
+   * Load users from disk, reviving date fields
+   */
+  async load(): Promise<number> {
+    if (!this.filePath) {
+      return 0;
+    }
+
+    try {
+      const content = await fs.promises.readFile(this.filePath, 'utf-8');
+      const records = JSON.parse(content);
+
+      if (!Array.isArray(records)) {
+        userStoreLogger.warn(`Ignoring malformed user file: ${this.filePath}`);
+        return 0;
+      }
+
+      this.users.clear();
+      this.userIdIndex.clear();
+      for (const record of records) {
+        this.index(this.reviveUser(record));
+      }
+
+      userStoreLogger.info(`Loaded ${this.users.size} users from ${this.filePath}`);
+      return this.users.size;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        userStoreLogger.error(`Failed to load users from ${this.filePath}:`, error);
+      }
+      return 0;
+    }
+  }
+
+  /**
+   * Record a successful GitHub login, keeping createdAt and preferences from earlier logins
+   */
+  recordLogin(user: AuthenticatedUser): AuthenticatedUser {
+    const existing = this.users.get(user.githubId);
+    const now = new Date();
+
+    const record: StoredUser = {
+      id: user.id,
+      githubId: user.githubId,
+      username: user.username,
+      ...(user.email !== undefined && { email: user.email }),
+      ...(user.name !== undefined && { name: user.name }),
+      ...(user.avatarUrl !== undefined && { avatarUrl: user.avatarUrl }),
+      scopes: user.scopes,
+      createdAt: existing?.createdAt || now,
+      lastLoginAt: now,
+      profile: user.profile,
+      preferences: existing?.preferences || user.preferences,
+      encryptedAccessToken: encrypt(user.accessToken, this.encryptionKey),
+      encryptedRefreshToken: user.refreshToken ? encrypt(user.refreshToken, this.encryptionKey) : undefined,
+      tokenId: existing?.tokenId || this.generateTokenId(),
+      encryptedAmpApiKey: existing?.encryptedAmpApiKey,
+      ampApiKeyHint: existing?.ampApiKeyHint,
+      ampApiKeyUpdatedAt: existing?.ampApiKeyUpdatedAt
+    };
+
+    this.index(record);
+    this.writer?.schedule();
+
+    userStoreLogger.info('Recorded user login', {
+      id: record.id,
+      username: record.username,
+      firstLogin: !existing
+    });
+
+    return this.toAuthenticatedUser(record);
+  }
+
+  /**
+   * Get a user by id, with tokens decrypted
+   */
+  getUser(userId: string): AuthenticatedUser | null {
+    const record = this.findByUserId(userId);
+    return record ? this.toAuthenticatedUser(record) : null;
+  }
+
+  /**
+   * Get a user by GitHub id, with tokens decrypted
+   */
+  getUserByGithubId(githubId: number): AuthenticatedUser | null {
+    const record = this.users.get(githubId);
+    return record ? this.toAuthenticatedUser(record) : null;
+  }
+
+  /**
+   * Get the id that JWTs for this user must carry to be accepted
+   */
+  getTokenId(userId: string): string | null {
+    return this.findByUserId(userId)?.tokenId || null;
+  }
+
+  /**
+   * Merge and persist preference changes
+   */
+  updatePreferences(userId: string, preferences: Partial<UserPreferences>): UserPreferences | null {
+    const record = this.findByUserId(userId);
+    if (!record) {
+      return null;
+    }
+
+    record.preferences = {
+      ...record.preferences,
+      ...preferences,
+      notifications: {
+        ...record.preferences.notifications,
+        ...preferences.notifications
+      }
+    };
+    this.writer?.schedule();
+
+    return record.preferences;
+  }
+
+  /**
+   * Store the user's amp API key, replacing any earlier one
+   */
+  setAmpApiKey(userId: string, apiKey: string): boolean {
+    const record = this.findByUserId(userId);
+    if (!record) {
+      return false;
+    }
+
+    record.encryptedAmpApiKey = encrypt(apiKey, this.encryptionKey);
+    record.ampApiKeyHint = apiKey.slice(-4);
+    record.ampApiKeyUpdatedAt = new Date();
+    this.writer?.schedule();
+
+    userStoreLogger.info('Stored amp API key', { id: record.id, username: record.username });
+    return true;
+  }
+
+  /**
+   * Forget the user's amp API key
+   */
+  clearAmpApiKey(userId: string): boolean {
+    const record = this.findByUserId(userId);
+    if (!record) {
+      return false;
+    }
+
+    record.encryptedAmpApiKey = undefined;
+    record.ampApiKeyHint = undefined;
+    record.ampApiKeyUpdatedAt = undefined;
+    this.writer?.schedule();
+    return true;
+  }
+
+  /**
+   * Get the user's decrypted amp API key
+   */
+  getAmpApiKey(userId: string): string | undefined {
+    const record = this.findByUserId(userId);
+    return record ? this.decryptToken(record, record.encryptedAmpApiKey) : undefined;
+  }
+
+  /**
+   * Whether the user has stored an amp API key, without revealing it
+   */
+  getAmpApiKeyStatus(userId: string): AmpApiKeyStatus | null {
+    const record = this.findByUserId(userId);
+    if (!record) {
+      return null;
+    }
+
+    return {
+      configured: !!record.encryptedAmpApiKey,
+      ...(record.ampApiKeyHint && { hint: record.ampApiKeyHint }),
+      ...(record.ampApiKeyUpdatedAt && { updatedAt: record.ampApiKeyUpdatedAt })
+    };
+  }
+
+  /**
+   * Forget the stored GitHub tokens and invalidate every JWT issued for the user
+   */
+  revokeToken(userId: string): boolean {
+    const record = this.findByUserId(userId);
+    if (!record) {
+      return false;
+    }
+
+    record.encryptedAccessToken = undefined;
+    record.encryptedRefreshToken = undefined;
+    record.tokenId = this.generateTokenId();
+    record.tokenRevokedAt = new Date();
+    this.writer?.schedule();
+
+    userStoreLogger.info('Revoked user tokens', { id: record.id, username: record.username });
+    return true;
+  }
+
+  /**
+   * Write any pending changes immediately
+   */
+  async flush(): Promise<void> {
+    await this.writer?.flush();
+  }
+
+  /**
+   * Add or replace a record in both indexes
+   */
+  private index(record: StoredUser): void {
+    this.users.set(record.githubId, record);
+    this.userIdIndex.set(record.id, record.githubId);
+  }
+
+  /**
+   * Look up a record by its application user id
+   */
+  private findByUserId(userId: string): StoredUser | undefined {
+    const githubId = this.userIdIndex.get(userId);
+    return githubId === undefined ? undefined : this.users.get(githubId);
+  }
+
+  /**
+   * Build the request-facing user, decrypting tokens
+   */
+  private toAuthenticatedUser(record: StoredUser): AuthenticatedUser {
+    const {
+      encryptedAccessToken, encryptedRefreshToken, tokenId, tokenRevokedAt,
+      encryptedAmpApiKey, ampApiKeyHint, ampApiKeyUpdatedAt, ...user
+    } = record;
+
+    return {
+      ...user,
+      isAuthenticated: true,
+      accessToken: this.decryptToken(record, encryptedAccessToken) || '',
+      refreshToken: this.decryptToken(record, encryptedRefreshToken)
+    };
+  }
+
+  /**
+   * Decrypt a stored token or key, treating undecryptable values as missing
+   */
+  private decryptToken(record: StoredUser, value?: string): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    try {
+      return decrypt(value, this.encryptionKey);
+    } catch (error) {
+      userStoreLogger.warn('Failed to decrypt stored credential; user must log in or set it again', { id: record.id });
+      return undefined;
+    }
+  }
+
+  /**
+   * Generate a random JWT id
+   */
+  private generateTokenId(): string {
+    return randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Convert a JSON record back into a StoredUser
+   */
+  private reviveUser(record: any): StoredUser {
+    return {
+      ...record,
+      createdAt: new Date(record.createdAt),
+      lastLoginAt: new Date(record.lastLoginAt),
+      tokenRevokedAt: record.tokenRevokedAt ? new Date(record.tokenRevokedAt) : undefined,
+      ampApiKeyUpdatedAt: record.ampApiKeyUpdatedAt ? new Date(record.ampApiKeyUpdatedAt) : undefined
+    };
+  }
+}
+
+// Singleton instance
+export const userStore = new UserStore(
+  webConfig.security.encryptionKey,
+  webConfig.users.backend === 'file' ? webConfig.users.filePath : undefined
+);
@@ -17,13 +17,29 @@ export interface ThreadMessage {
   metadata?: MessageMetadata;
 }
 
+/**
+ * Incremental update to a message that amp is still producing. `id` is a
+ * stream id that the completed message repeats as `metadata.stream_id`.
+ */
+export interface ThreadMessageDelta {
+  id: string;
+  type: MessageType;
+  delta: string; // text appended since the previous delta
+  content: string; // full text so far
+  timestamp: Date;
+  metadata?: MessageMetadata;
+}
+
 export interface MessageMetadata {
-  type?: 'thinking' | 'tool_use' | 'error' | 'file_change';
+  type?: 'thinking' | 'tool_use' | 'error' | 'file_change' | 'turn_cancelled';
   tool_name?: string;
   tool_id?: string;
   input?: any;
   files?: string[];
   exitCode?: number;
+  stream_id?: string;
+  snapshot_ref?: string; // workspace snapshot taken before a user message was sent to amp
+  status?: 'in_progress';
   [key: string]: any;
 }
 
@@ -72,7 +88,11 @@ export interface ParserState {
   seenMessageIDs: Set<string>;
   threadID: string;
   threadTitle: string;
+  streams: Map<string, { key: string; content: string }>; // stream id -> content streamed so far
+  streamKeys: Map<string, string>; // content block key -> stream id
+  completedStreams: Set<string>;
 }
 
 // Message emission callback
 export type MessageCallback = (message: ThreadMessage) => void;
+export type MessageDeltaCallback = (delta: ThreadMessageDelta) => void;
@@ -0,0 +1,68 @@
+/**
+ * Debounced, atomic JSON snapshots for the file-backed stores
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+const jsonFileLogger = logger.child('JsonFileStore');
+
+export class JsonFileWriter {
+  private writeTimer?: NodeJS.Timeout | undefined;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - File the snapshot is written to
+   * @param snapshot - Returns the current records each time a write runs
+   * @param writeDelay - Milliseconds to wait for further changes before writing
+   */
+  constructor(
+    private filePath: string,
+    private snapshot: () => unknown,
+    private writeDelay: number = 100
+  ) {}
+
+  /**
+   * Coalesce bursts of updates into a single write
+   */
+  schedule(): void {
+    if (this.writeTimer) {
+      return;
+    }
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = undefined;
+      this.pendingWrite = this.pendingWrite.then(() => this.write());
+    }, this.writeDelay);
+    this.writeTimer.unref();
+  }
+
+  /**
+   * Write any pending changes immediately
+   */
+  async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = undefined;
+      this.pendingWrite = this.pendingWrite.then(() => this.write());
+    }
+    await this.pendingWrite;
+  }
+
+  /**
+   * Write the snapshot to a temp file and rename it into place
+   */
+  private async write(): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const content = JSON.stringify(this.snapshot(), null, 2);
+      await fs.promises.writeFile(tempPath, content, { encoding: 'utf-8', mode: 0o600 });
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (error) {
+      jsonFileLogger.error(`Failed to write ${this.filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Correlation IDs carried through async context so log lines can be tied to a
+ * request, session, user or WebSocket connection without passing them around
+ */
+
+import { AsyncLocalStorage, AsyncResource } from 'async_hooks';
+
+export interface LogContext {
+  requestId?: string;
+  sessionId?: string;
+  userId?: string;
+  connectionId?: string; // WebSocket connection
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run a function with the given IDs added to the current log context
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/**
+ * Add IDs to the current log context once they become known (e.g. after authentication).
+ * Does nothing outside of a context.
+ */
+export function setLogContext(context: LogContext): void {
+  const store = storage.getStore();
+  if (store) {
+    Object.assign(store, context);
+  }
+}
+
+/**
+ * The IDs attached to the code currently running
+ */
+export function getLogContext(): LogContext {
+  return storage.getStore() || {};
+}
+
+/**
+ * Bind a callback to the current log context. Event listeners fire in the context of
+ * whatever emitted them (a socket, a stream), so WebSocket handlers need this to keep their IDs.
+ */
+export function bindLogContext<T extends (...args: any[]) => any>(fn: T): T {
+  return AsyncResource.bind(fn) as T;
+}
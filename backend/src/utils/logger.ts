@@ -1,8 +1,49 @@
 /**
- * Logging utility for Docker operations and general application logging
+ * Logging utility for Docker operations and general application logging.
+ * LOG_FORMAT=json switches to one JSON object per line for log tooling.
  */
 
 import { LogLevel, LogEntry } from '../docker/types';
+import { getLogContext } from './logContext';
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  [LogLevel.ERROR]: 0,
+  [LogLevel.WARN]: 1,
+  [LogLevel.INFO]: 2,
+  [LogLevel.DEBUG]: 3
+};
+
+/**
+ * Most verbose level to print. DEBUG is kept as a shortcut for LOG_LEVEL=debug.
+ */
+function getMaxLevel(): LogLevel {
+  if (process.env.DEBUG) {
+    return LogLevel.DEBUG;
+  }
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  return level && level in LEVEL_PRIORITY ? level : LogLevel.INFO;
+}
+
+/**
+ * JSON.stringify replacer that keeps error details, which otherwise serialize as {}
+ */
+function serializeErrors(_key: string, value: any): any {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Stringify log details without letting a circular structure break the log call
+ */
+function stringify(value: any, indent?: number): string {
+  try {
+    return JSON.stringify(value, serializeErrors, indent);
+  } catch {
+    return JSON.stringify(String(value));
+  }
+}
 
 class Logger {
   private component: string;
@@ -13,12 +54,29 @@ class Logger {
 
   private formatMessage(level: LogLevel, message: string, details?: any): string {
     const timestamp = new Date().toISOString();
+    const context = getLogContext();
+
+    if (process.env.LOG_FORMAT === 'json') {
+      return stringify({
+        timestamp,
+        level,
+        component: this.component,
+        message,
+        ...context,
+        ...(details !== undefined && { details })
+      });
+    }
+
     const prefix = this.getLogPrefix(level);
+    const ids = Object.entries(context)
+      .filter(([, value]) => value)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(' ');
     
-    let formattedMessage = `${prefix} [${timestamp}] [${this.component}] ${message}`;
+    let formattedMessage = `${prefix} [${timestamp}] [${this.component}]${ids ? ` [${ids}]` : ''} ${message}`;
     
     if (details) {
-      formattedMessage += `\n${JSON.stringify(details, null, 2)}`;
+      formattedMessage += `\n${stringify(details, 2)}`;
     }
     
     return formattedMessage;
@@ -40,6 +98,10 @@ class Logger {
   }
 
   private log(level: LogLevel, message: string, details?: any): void {
+    if (LEVEL_PRIORITY[level] > LEVEL_PRIORITY[getMaxLevel()]) {
+      return;
+    }
+
     const formattedMessage = this.formatMessage(level, message, details);
     
     switch (level) {
@@ -49,12 +111,6 @@ class Logger {
       case LogLevel.WARN:
         console.warn(formattedMessage);
         break;
-      case LogLevel.DEBUG:
-        // Only show debug logs if DEBUG env var is set
-        if (process.env.DEBUG) {
-          console.log(formattedMessage);
-        }
-        break;
       default:
         console.log(formattedMessage);
     }
@@ -1,8 +1,8 @@
 import { logger } from '../utils/logger';
 
 export interface TerminalMessage {
-  type: 'input' | 'output' | 'resize' | 'control';
-  data: string | ResizeData | ControlData;
+  type: 'input' | 'output' | 'resize' | 'control' | 'driver' | 'state';
+  data: string | ResizeData | ControlData | DriverData | TerminalStateData;
   timestamp: number;
 }
 
@@ -15,6 +15,26 @@ export interface ControlData {
   signal: 'SIGINT' | 'SIGTERM' | 'SIGKILL';
 }
 
+/**
+ * Ask for, give up or hand over the input lock of a shared terminal
+ */
+export interface DriverData {
+  action: 'request' | 'release' | 'handover';
+  connectionId?: string; // who to hand over to
+}
+
+/**
+ * Who is attached to a shared terminal and who is driving, sent to each client
+ */
+export interface TerminalStateData {
+  connectionId: string; // the client receiving the state
+  driverId: string | null;
+  canDrive: boolean;
+  requests: string[]; // clients waiting for the input lock, oldest first
+  clients: Array<{ connectionId: string; username?: string; canDrive: boolean }>;
+  size: ResizeData | null; // the shell's size, that of the smallest attached viewport
+}
+
 export type MessageHandler = (message: TerminalMessage) => void | Promise<void>;
 
 export class WebSocketMessageHandler {
@@ -88,7 +108,7 @@ export class WebSocketMessageHandler {
     }
 
     // Check required fields
-    if (!['input', 'output', 'resize', 'control'].includes(message.type)) {
+    if (!['input', 'output', 'resize', 'control', 'driver'].includes(message.type)) {
       return false;
     }
 
@@ -107,6 +127,9 @@ export class WebSocketMessageHandler {
       
       case 'control':
         return this.isValidControlData(message.data);
+
+      case 'driver':
+        return this.isValidDriverData(message.data);
       
       default:
         return false;
@@ -134,6 +157,15 @@ export class WebSocketMessageHandler {
     );
   }
 
+  private isValidDriverData(data: any): data is DriverData {
+    return (
+      data &&
+      typeof data === 'object' &&
+      ['request', 'release', 'handover'].includes(data.action) &&
+      (data.action !== 'handover' || typeof data.connectionId === 'string')
+    );
+  }
+
   createMessage(type: TerminalMessage['type'], data: TerminalMessage['data']): TerminalMessage {
     return {
       type,
@@ -162,4 +194,8 @@ export class WebSocketMessageHandler {
   createControlMessage(signal: ControlData['signal']): TerminalMessage {
     return this.createMessage('control', { signal });
   }
+
+  createStateMessage(state: TerminalStateData): TerminalMessage {
+    return this.createMessage('state', state);
+  }
 }
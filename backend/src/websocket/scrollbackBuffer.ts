@@ -0,0 +1,42 @@
+/**
+ * Recent terminal output kept so clients joining a shared shell see what is on screen
+ */
+export class ScrollbackBuffer {
+  private chunks: string[] = [];
+  private size = 0;
+
+  constructor(private readonly maxSize: number = 256 * 1024) {}
+
+  /**
+   * Append output, dropping the oldest whole chunks once over the limit
+   */
+  push(output: string): void {
+    if (!output) {
+      return;
+    }
+
+    this.chunks.push(output);
+    this.size += output.length;
+
+    // Always keep the newest chunk, even if it alone is over the limit
+    while (this.size > this.maxSize && this.chunks.length > 1) {
+      this.size -= this.chunks.shift()!.length;
+    }
+  }
+
+  /**
+   * Everything still buffered, oldest first
+   */
+  snapshot(): string {
+    return this.chunks.join('');
+  }
+
+  get length(): number {
+    return this.size;
+  }
+
+  clear(): void {
+    this.chunks = [];
+    this.size = 0;
+  }
+}
@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
 import { generateSessionId } from '../config/environment';
+import { terminalBytes } from '../services/metrics';
 
 export interface TerminalSessionInfo {
   id: string;
@@ -172,6 +173,8 @@ export class TerminalSessionManager extends EventEmitter {
    * Record message statistics
    */
   recordMessage(sessionId: string, direction: 'sent' | 'received', bytes: number): boolean {
+    terminalBytes.inc({ direction: direction === 'sent' ? 'out' : 'in' }, bytes);
+
     if (!this.options.enableStats) {
       return true;
     }
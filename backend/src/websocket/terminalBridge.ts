@@ -1,20 +1,54 @@
 import WebSocket from 'ws';
 import { DockerExecManager } from '../docker/execManager';
-import { WebSocketMessageHandler, TerminalMessage, ResizeData, ControlData } from './messageHandler';
+import { WebSocketMessageHandler, TerminalMessage, ResizeData, ControlData, DriverData } from './messageHandler';
 import { TerminalControl, TerminalControlSignal, TerminalResizeEvent } from './terminalControl';
 import { TerminalSessionManager, TerminalSessionInfo } from './sessionManager';
+import { ScrollbackBuffer } from './scrollbackBuffer';
 import { logger } from '../utils/logger';
+import { setLogContext, bindLogContext } from '../utils/logContext';
 import { generateSessionId } from '../config/environment';
+import { StreamRedactor, getSessionSecrets } from '../services/secretRedaction';
+import { terminalRecorder, TerminalRecording } from '../services/terminalRecorder';
+import { getSessionRole, roleAllows } from '../services/sessionAccess';
+import { Session, SessionRole } from '../models/Session';
 
 export interface TerminalSession {
   id: string;
-  websocket: WebSocket;
+  clients: Map<string, TerminalClient>; // every browser attached to the shell, by connection id
   execManager: DockerExecManager;
-  messageHandler: WebSocketMessageHandler;
   shellSessionId?: string;
+  shellStartup?: Promise<void>;
+  driverId: string | null; // connection holding the input lock
+  driverRequests: string[]; // connections waiting for the input lock, oldest first
+  scrollback: ScrollbackBuffer; // replayed to clients that join late
+  size?: ResizeData; // the shell's size, that of the smallest attached viewport
   isActive: boolean;
   sessionInfo?: TerminalSessionInfo;
   repositoryName?: string;
+  redactor?: StreamRedactor; // keeps the session's secrets out of the output sent to the browser
+  recording?: TerminalRecording; // asciicast of everything the shell printed, for audit and playback
+}
+
+/**
+ * One browser attached to a shared terminal
+ */
+export interface TerminalClient {
+  connectionId: string;
+  websocket: WebSocket;
+  messageHandler: WebSocketMessageHandler;
+  canDrive: boolean; // viewers only watch; follows the session's shares while attached
+  userId?: string;
+  username?: string;
+  size?: ResizeData; // the client's own viewport
+}
+
+/**
+ * Who is connecting and what they may do; connections without it may drive the terminal
+ */
+export interface TerminalAccess {
+  userId: string;
+  username: string;
+  role: SessionRole;
 }
 
 export class TerminalBridge {
@@ -49,7 +83,7 @@ export class TerminalBridge {
     this.terminalControl.on('signal', (signal: TerminalControlSignal) => {
       const session = this.sessions.get(signal.sessionId);
       if (session?.shellSessionId) {
-        this.execManager.killSession(session.shellSessionId, signal.signal);
+        session.execManager.killSession(session.shellSessionId, signal.signal);
       }
       this.sessionManager.recordControlSignal(signal.sessionId, signal.signal);
     });
@@ -58,7 +92,7 @@ export class TerminalBridge {
     this.terminalControl.on('resize', (resizeEvent: TerminalResizeEvent) => {
       const session = this.sessions.get(resizeEvent.sessionId);
       if (session?.shellSessionId) {
-        this.execManager.resizeSession(session.shellSessionId, resizeEvent.cols, resizeEvent.rows);
+        session.execManager.resizeSession(session.shellSessionId, resizeEvent.cols, resizeEvent.rows);
       }
       this.sessionManager.updateTerminalInfo(resizeEvent.sessionId, resizeEvent.cols, resizeEvent.rows);
     });
@@ -69,15 +103,133 @@ export class TerminalBridge {
     });
   }
 
+  /**
+   * Attach a browser to the session's shell, starting the shell for the first client that may type
+   */
   async handleConnection(
     websocket: WebSocket, 
     sessionId?: string,
-    clientInfo?: { userAgent?: string; remoteAddress?: string }
+    clientInfo?: { userAgent?: string; remoteAddress?: string },
+    access?: TerminalAccess
   ): Promise<string> {
     const terminalSessionId = sessionId || generateSessionId();
+    const connectionId = `terminal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    setLogContext({ connectionId });
     
     logger.info(`New WebSocket connection for terminal session: ${terminalSessionId}`);
 
+    let session = this.sessions.get(terminalSessionId);
+    if (!session) {
+      session = {
+        id: terminalSessionId,
+        clients: new Map(),
+        execManager: this.execManager,
+        driverId: null,
+        driverRequests: [],
+        scrollback: new ScrollbackBuffer(),
+        isActive: true
+      };
+      this.sessions.set(terminalSessionId, session);
+    }
+
+    const client: TerminalClient = {
+      connectionId,
+      websocket,
+      messageHandler: new WebSocketMessageHandler(),
+      canDrive: !access || roleAllows(access.role, 'collaborator'),
+      ...(access && { userId: access.userId, username: access.username })
+    };
+    session.clients.set(connectionId, client);
+    this.setupWebSocketHandlers(session, client);
+    this.setupMessageHandlers(session, client);
+
+    // Count the terminal as activity so the session is not hibernated under it
+    if (sessionId) {
+      const { sessionStore } = await import('../services/sessionStore');
+      sessionStore.addConnection(sessionId, connectionId, access?.userId);
+    }
+
+    // Late joiners see what is already on screen
+    const scrollback = session.scrollback.snapshot();
+    if (scrollback) {
+      this.sendOutputTo(session, client, scrollback);
+    }
+
+    if (!client.canDrive) {
+      const waiting = session.shellStartup
+        ? ''
+        : '\x1b[33m● Nobody has the terminal open yet; their output will appear here\x1b[0m\r\n';
+      this.sendOutputTo(session, client, `\r\n\x1b[36m● Watching session ${terminalSessionId} (read-only)\x1b[0m\r\n${waiting}`);
+    } else if (!session.driverId) {
+      // Whoever can type first drives until they hand over
+      session.driverId = connectionId;
+    }
+    this.broadcastState(session);
+
+    if (client.canDrive && !session.shellStartup) {
+      session.shellStartup = this.startSharedShell(session, sessionId, clientInfo);
+    }
+    await session.shellStartup;
+
+    return terminalSessionId;
+  }
+
+  /**
+   * Re-scope attached browsers after the owner changes who the session is shared with:
+   * revoked users are disconnected and demoted collaborators lose the input lock
+   */
+  updateAccess(sessionData: Session): void {
+    const session = this.sessions.get(sessionData.id);
+    if (!session) {
+      return;
+    }
+
+    for (const client of [...session.clients.values()]) {
+      if (!client.userId || !client.username) {
+        continue;
+      }
+
+      const role = getSessionRole(sessionData, { id: client.userId, username: client.username });
+      if (!role) {
+        logger.info(`Disconnecting ${client.connectionId} from terminal ${session.id} after its access was revoked`);
+        this.sendOutputTo(session, client, '\r\n\x1b[31m● Your access to this session was removed\x1b[0m\r\n');
+        this.removeClient(session, client);
+        continue;
+      }
+
+      const canDrive = roleAllows(role, 'collaborator');
+      if (canDrive === client.canDrive) {
+        continue;
+      }
+
+      client.canDrive = canDrive;
+      if (canDrive) {
+        session.driverId = session.driverId ?? client.connectionId;
+        this.sendOutputTo(session, client, '\r\n\x1b[32m● You can now type in this terminal\x1b[0m\r\n');
+      } else {
+        session.driverRequests = session.driverRequests.filter(id => id !== client.connectionId);
+        if (session.driverId === client.connectionId) {
+          this.passDriver(session);
+          this.recordDriver(session);
+        }
+        this.sendOutputTo(session, client, '\r\n\x1b[33m● You can now only watch this terminal (read-only)\x1b[0m\r\n');
+      }
+    }
+
+    // The last client may have been disconnected, which ends the shell
+    if (this.sessions.get(session.id) === session) {
+      this.broadcastState(session);
+    }
+  }
+
+  /**
+   * Resolve the session's container and start the one shell every client shares
+   */
+  private async startSharedShell(
+    session: TerminalSession,
+    sessionId?: string,
+    clientInfo?: { userAgent?: string; remoteAddress?: string }
+  ): Promise<void> {
     let execManager = this.execManager;
     let welcomeMessage = '\r\n\x1b[32m● Terminal connected to Docker container\x1b[0m\r\n';
 
@@ -89,12 +241,24 @@ export class TerminalBridge {
         const sessionData = sessionStore.getSession(sessionId);
         
         if (sessionData && sessionData.containerId) {
+          // Wake a hibernated container before attaching a shell
+          const { resumeIfIdle } = await import('../services/sessionHibernation');
+          const resumed = await resumeIfIdle(sessionId);
+          if (!resumed.success) {
+            throw new Error(resumed.error || 'Failed to resume session');
+          }
+
           // Create a new exec manager for this specific container
           const Docker = require('dockerode');
           const docker = new Docker();
           const { DockerExecManager } = await import('../docker/execManager');
           
           execManager = new DockerExecManager(docker, sessionData.containerId);
+          session.recording = terminalRecorder.start(sessionId, {
+            cols: session.size?.cols ?? 80,
+            rows: session.size?.rows ?? 24,
+            title: sessionData.repositoryName
+          });
           welcomeMessage = `\r\n\x1b[32m● Connected to session ${sessionId} (${sessionData.repositoryName})\x1b[0m\r\n`;
           
           logger.info(`Connected to existing session container`, {
@@ -116,48 +280,70 @@ export class TerminalBridge {
     }
 
     // Create session in session manager
-    const sessionInfo = this.sessionManager.createSession(clientInfo);
-    const messageHandler = new WebSocketMessageHandler();
+    session.sessionInfo = this.sessionManager.createSession(clientInfo);
+    session.execManager = execManager;
     
     // Get repository name if connecting to a specific session
-    let repositoryName: string | undefined;
     if (sessionId) {
       try {
         const { sessionStore } = await import('../services/sessionStore');
-        const sessionData = sessionStore.getSession(sessionId);
-        repositoryName = sessionData?.repositoryName;
+        const repositoryName = sessionStore.getSession(sessionId)?.repositoryName;
+        if (repositoryName) {
+          session.repositoryName = repositoryName;
+        }
       } catch (error) {
         logger.warn(`Could not get repository name for session ${sessionId}: ${error}`);
       }
     }
-    
-    const session: TerminalSession = {
-      id: terminalSessionId,
-      websocket,
-      execManager,
-      messageHandler,
-      isActive: true,
-      sessionInfo,
-      ...(repositoryName && { repositoryName })
-    };
-
-    this.sessions.set(terminalSessionId, session);
-    this.setupWebSocketHandlers(session);
-    this.setupMessageHandlers(session);
 
     // Send welcome message
-    this.sendMessage(session, messageHandler.createOutputMessage(welcomeMessage));
+    this.sendOutput(session, welcomeMessage);
 
     // Start shell session
     await this.startShellSession(session);
+  }
 
-    return terminalSessionId;
+  /**
+   * Detach a browser from a shared terminal. The shell ends with its last client.
+   */
+  private removeClient(session: TerminalSession, client: TerminalClient): void {
+    if (!session.clients.delete(client.connectionId)) {
+      return;
+    }
+
+    if (client.websocket.readyState === WebSocket.OPEN) {
+      client.websocket.close();
+    }
+    this.releaseConnection(session.id, client.connectionId);
+
+    if (session.clients.size === 0) {
+      this.cleanup(session.id);
+      return;
+    }
+
+    session.driverRequests = session.driverRequests.filter(id => id !== client.connectionId);
+    if (session.driverId === client.connectionId) {
+      this.passDriver(session);
+      this.recordDriver(session);
+    }
+    this.resizeToSmallestViewport(session);
+    this.broadcastState(session);
+
+    logger.info(`Client ${client.connectionId} left terminal session ${session.id}`, {
+      remainingClients: session.clients.size
+    });
+  }
+
+  private releaseConnection(sessionId: string, connectionId: string): void {
+    import('../services/sessionStore')
+      .then(({ sessionStore }) => sessionStore.removeConnection(sessionId, connectionId))
+      .catch(error => logger.warn(`Failed to release connection for ${sessionId}: ${error}`));
   }
 
-  private setupWebSocketHandlers(session: TerminalSession): void {
-    const { websocket, messageHandler } = session;
+  private setupWebSocketHandlers(session: TerminalSession, client: TerminalClient): void {
+    const { websocket, messageHandler } = client;
 
-    websocket.on('message', async (data: WebSocket.Data) => {
+    websocket.on('message', bindLogContext(async (data: WebSocket.Data) => {
       try {
         const message = data.toString();
         this.sessionManager.recordMessage(session.id, 'received', message.length);
@@ -165,29 +351,29 @@ export class TerminalBridge {
       } catch (error) {
         logger.error(`Error handling WebSocket message for session ${session.id}:`, error);
       }
-    });
+    }));
 
-    websocket.on('close', () => {
+    websocket.on('close', bindLogContext(() => {
       logger.info(`WebSocket connection closed for session ${session.id}`);
-      this.cleanup(session.id);
-    });
+      this.removeClient(session, client);
+    }));
 
-    websocket.on('error', (error) => {
+    websocket.on('error', bindLogContext((error: Error) => {
       logger.error(`WebSocket error for session ${session.id}:`, error);
-      this.cleanup(session.id);
-    });
+      this.removeClient(session, client);
+    }));
 
-    websocket.on('pong', () => {
+    websocket.on('pong', bindLogContext(() => {
       logger.debug(`Received pong from session ${session.id}`);
-    });
+    }));
   }
 
-  private setupMessageHandlers(session: TerminalSession): void {
-    const { messageHandler } = session;
+  private setupMessageHandlers(session: TerminalSession, client: TerminalClient): void {
+    const { messageHandler } = client;
 
-    // Handle terminal input
+    // Handle terminal input; only the driver types into the shared shell
     messageHandler.on('input', async (message: TerminalMessage) => {
-      if (typeof message.data === 'string') {
+      if (typeof message.data === 'string' && session.driverId === client.connectionId) {
         await this.handleTerminalInput(session, message.data);
       }
     });
@@ -195,18 +381,14 @@ export class TerminalBridge {
     // Handle terminal resize
     messageHandler.on('resize', async (message: TerminalMessage) => {
       if (this.isResizeData(message.data)) {
-        const resizeEvent = this.terminalControl.createResizeEvent(
-          session.id,
-          message.data.cols,
-          message.data.rows
-        );
-        this.terminalControl.handleResizeEvent(resizeEvent);
+        client.size = { cols: message.data.cols, rows: message.data.rows };
+        this.resizeToSmallestViewport(session);
       }
     });
 
     // Handle control signals
     messageHandler.on('control', async (message: TerminalMessage) => {
-      if (this.isControlData(message.data)) {
+      if (this.isControlData(message.data) && session.driverId === client.connectionId) {
         const controlSignal = this.terminalControl.createControlSignal(
           message.data.signal,
           session.id
@@ -214,12 +396,104 @@ export class TerminalBridge {
         this.terminalControl.handleControlSignal(controlSignal);
       }
     });
+
+    // Handle requests for the input lock
+    messageHandler.on('driver', async (message: TerminalMessage) => {
+      this.handleDriverMessage(session, client, message.data as DriverData);
+    });
+  }
+
+  /**
+   * Request, release or hand over the input lock, then tell every client who drives
+   */
+  private handleDriverMessage(session: TerminalSession, client: TerminalClient, driver: DriverData): void {
+    const isDriver = session.driverId === client.connectionId;
+
+    switch (driver.action) {
+      case 'request':
+        if (!client.canDrive) {
+          this.sendOutputTo(session, client, '\r\n\x1b[33m● Viewers cannot type in this terminal\x1b[0m\r\n');
+          return;
+        }
+        if (!session.driverId) {
+          session.driverId = client.connectionId;
+        } else if (!isDriver && !session.driverRequests.includes(client.connectionId)) {
+          session.driverRequests.push(client.connectionId);
+        }
+        break;
+
+      case 'release':
+        if (!isDriver) {
+          return;
+        }
+        this.passDriver(session);
+        break;
+
+      case 'handover': {
+        const target = driver.connectionId ? session.clients.get(driver.connectionId) : undefined;
+        if (!isDriver || !target?.canDrive) {
+          return;
+        }
+        session.driverId = target.connectionId;
+        session.driverRequests = session.driverRequests.filter(id => id !== target.connectionId);
+        break;
+      }
+    }
+
+    logger.info(`Terminal session ${session.id} is driven by ${session.driverId ?? 'nobody'}`);
+    this.recordDriver(session);
+    this.broadcastState(session);
+  }
+
+  /**
+   * Mark in the recording who typed from here on
+   */
+  private recordDriver(session: TerminalSession): void {
+    const driver = session.driverId ? session.clients.get(session.driverId) : undefined;
+    session.recording?.marker(driver ? `${driver.username || driver.connectionId} is driving` : 'Nobody is driving');
+  }
+
+  /**
+   * Give the input lock to whoever asked for it first, or to nobody
+   */
+  private passDriver(session: TerminalSession): void {
+    session.driverId = session.driverRequests.shift() ?? null;
+  }
+
+  /**
+   * Size the shell to fit the smallest viewport so every client sees whole lines
+   */
+  private resizeToSmallestViewport(session: TerminalSession): void {
+    const sizes = [...session.clients.values()]
+      .map(client => client.size)
+      .filter((size): size is ResizeData => !!size);
+    if (sizes.length === 0) {
+      return;
+    }
+
+    const resizeEvent = this.terminalControl.createResizeEvent(
+      session.id,
+      Math.min(...sizes.map(size => size.cols)),
+      Math.min(...sizes.map(size => size.rows))
+    );
+    if (session.size?.cols === resizeEvent.cols && session.size?.rows === resizeEvent.rows) {
+      return;
+    }
+
+    session.size = { cols: resizeEvent.cols, rows: resizeEvent.rows };
+    session.recording?.resize(resizeEvent.cols, resizeEvent.rows);
+    this.terminalControl.handleResizeEvent(resizeEvent);
+    this.broadcastState(session);
   }
 
   private async startShellSession(session: TerminalSession): Promise<void> {
     try {
       const shellSessionId = generateSessionId();
       session.shellSessionId = shellSessionId;
+      session.redactor = new StreamRedactor(
+        () => getSessionSecrets(session.id),
+        output => this.sendOutput(session, output)
+      );
 
       // Use /workspace/<repo-name> as working directory if we have repository name
       let workingDir = '/workspace';
@@ -242,33 +516,46 @@ export class TerminalBridge {
       // Set up exec session event handlers
       session.execManager.on('output', (execSessionId: string, data: Buffer) => {
         if (execSessionId === shellSessionId) {
-          const output = data.toString();
+          const output = session.redactor ? session.redactor.push(data.toString()) : data.toString();
+          if (!output) {
+            return;
+          }
           logger.debug(`Shell output for ${execSessionId}:`, { output: JSON.stringify(output) });
-          this.sendMessage(session, session.messageHandler.createOutputMessage(output));
+          this.sendOutput(session, output);
         }
       });
 
       session.execManager.on('error', (execSessionId: string, error: Error) => {
         if (execSessionId === shellSessionId) {
           logger.error(`Exec session error for ${execSessionId}:`, error);
-          this.sendMessage(session, session.messageHandler.createOutputMessage(
+          this.sendOutput(
+            session,
             `\r\n\x1b[31m● Shell session error: ${error instanceof Error ? error.message : String(error)}\x1b[0m\r\n`
-          ));
+          );
         }
       });
 
       session.execManager.on('end', (execSessionId: string) => {
         if (execSessionId === shellSessionId) {
           logger.info(`Shell session ${execSessionId} ended`);
-          this.sendMessage(session, session.messageHandler.createOutputMessage(
-            '\r\n\x1b[33m● Shell session ended\x1b[0m\r\n'
-          ));
+          this.sendOutput(session, '\r\n\x1b[33m● Shell session ended\x1b[0m\r\n');
           this.cleanup(session.id);
         }
       });
 
       // Start the exec session
       await session.execManager.startExecSession(shellSessionId);
+
+      // Everyone may have left while the shell was starting
+      if (!session.isActive) {
+        session.execManager.cleanup(shellSessionId);
+        return;
+      }
+
+      // Clients may have reported their viewports while the shell was starting
+      if (session.size) {
+        await session.execManager.resizeSession(shellSessionId, session.size.cols, session.size.rows);
+      }
       
       // Send initial newline to trigger shell prompt
       setTimeout(async () => {
@@ -281,9 +568,10 @@ export class TerminalBridge {
       logger.info(`Started shell session ${shellSessionId} for terminal ${session.id}`);
     } catch (error) {
       logger.error(`Failed to start shell session for terminal ${session.id}:`, error);
-      this.sendMessage(session, session.messageHandler.createOutputMessage(
+      this.sendOutput(
+        session,
         `\r\n\x1b[31m● Failed to start shell: ${error instanceof Error ? error.message : String(error)}\x1b[0m\r\n`
-      ));
+      );
     }
   }
 
@@ -331,14 +619,51 @@ export class TerminalBridge {
     }
   }
 
-  private sendMessage(session: TerminalSession, message: TerminalMessage): void {
-    if (session.websocket.readyState === WebSocket.OPEN) {
-      const serialized = session.messageHandler.serializeMessage(message);
-      session.websocket.send(serialized);
+  private sendMessage(session: TerminalSession, client: TerminalClient, message: TerminalMessage): void {
+    if (client.websocket.readyState === WebSocket.OPEN) {
+      const serialized = client.messageHandler.serializeMessage(message);
+      client.websocket.send(serialized);
       this.sessionManager.recordMessage(session.id, 'sent', serialized.length);
     }
   }
 
+  /**
+   * Send shell output to every attached client, keep it for late joiners and record it
+   */
+  private sendOutput(session: TerminalSession, output: string): void {
+    session.scrollback.push(output);
+    session.recording?.output(output);
+    for (const client of session.clients.values()) {
+      this.sendOutputTo(session, client, output);
+    }
+  }
+
+  private sendOutputTo(session: TerminalSession, client: TerminalClient, output: string): void {
+    this.sendMessage(session, client, client.messageHandler.createOutputMessage(output));
+  }
+
+  /**
+   * Tell each client who is attached, who drives and whether it may drive itself
+   */
+  private broadcastState(session: TerminalSession): void {
+    const clients = [...session.clients.values()].map(client => ({
+      connectionId: client.connectionId,
+      canDrive: client.canDrive,
+      ...(client.username && { username: client.username })
+    }));
+
+    for (const client of session.clients.values()) {
+      this.sendMessage(session, client, client.messageHandler.createStateMessage({
+        connectionId: client.connectionId,
+        driverId: session.driverId,
+        canDrive: client.canDrive,
+        requests: session.driverRequests,
+        clients,
+        size: session.size ?? null
+      }));
+    }
+  }
+
   private isResizeData(data: any): data is ResizeData {
     return (
       data &&
@@ -360,22 +685,30 @@ export class TerminalBridge {
     const session = this.sessions.get(sessionId);
     if (session) {
       session.isActive = false;
+      session.redactor?.dispose();
+      session.recording?.close();
       
       // Clean up shell session
       if (session.shellSessionId) {
-        this.execManager.cleanup(session.shellSessionId);
+        session.execManager.cleanup(session.shellSessionId);
       }
 
       // Clean up terminal control and session manager
       this.terminalControl.cleanupSession(sessionId);
       this.sessionManager.removeSession(sessionId);
 
-      // Close WebSocket if still open
-      if (session.websocket.readyState === WebSocket.OPEN) {
-        session.websocket.close();
+      this.sessions.delete(sessionId);
+
+      // Close every client's WebSocket if still open
+      const clients = [...session.clients.values()];
+      session.clients.clear();
+      for (const client of clients) {
+        if (client.websocket.readyState === WebSocket.OPEN) {
+          client.websocket.close();
+        }
+        this.releaseConnection(sessionId, client.connectionId);
       }
 
-      this.sessions.delete(sessionId);
       logger.info(`Cleaned up terminal session ${sessionId}`);
     }
   }
@@ -395,6 +728,17 @@ export class TerminalBridge {
     return this.sessions.size;
   }
 
+  /**
+   * Browsers attached across all terminal sessions
+   */
+  getConnectionCount(): number {
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      count += session.clients.size;
+    }
+    return count;
+  }
+
   getSession(sessionId: string): TerminalSession | undefined {
     return this.sessions.get(sessionId);
   }
@@ -402,8 +746,10 @@ export class TerminalBridge {
   // Health check for keeping connections alive
   pingAllSessions(): void {
     for (const session of this.sessions.values()) {
-      if (session.websocket.readyState === WebSocket.OPEN) {
-        session.websocket.ping();
+      for (const client of session.clients.values()) {
+        if (client.websocket.readyState === WebSocket.OPEN) {
+          client.websocket.ping();
+        }
       }
     }
   }
@@ -3,15 +3,22 @@ import { EventEmitter } from 'events';
 import { sessionStore } from '../services/sessionStore';
 import { ampService } from '../services/ampService';
 import { threadStorage } from '../services/threadStorage';
+import { sessionThreadService } from '../services/sessionThreads';
+import { gitOperationsService } from '../services/gitOperations';
+import { resumeIfIdle } from '../services/sessionHibernation';
+import { redactSessionText } from '../services/secretRedaction';
+import { getSessionRole, roleAllows } from '../services/sessionAccess';
+import { Session, SessionRole } from '../models/Session';
 import { LogTailerWithParser, createLogTailerWithParser } from '../services/logTailerWithParser';
-import { ThreadMessage, MessageType } from '../types/threadMessage';
+import { ThreadMessage, ThreadMessageDelta, MessageType } from '../types/threadMessage';
 import { LogLine } from '../services/logTailer';
 import { logger } from '../utils/logger';
+import { setLogContext, bindLogContext } from '../utils/logContext';
 import { generateMessageId } from '../utils/logParsingUtils';
 
 // WebSocket message types for thread communication
 export interface ThreadWebSocketMessage {
-  type: 'user_message' | 'thread_message' | 'connection_status' | 'error' | 'ping' | 'pong';
+  type: 'user_message' | 'cancel' | 'thread_message' | 'thread_message_delta' | 'thread_switched' | 'connection_status' | 'error' | 'ping' | 'pong';
   data?: any;
   timestamp?: string;
   id?: string;
@@ -33,6 +40,25 @@ export interface ThreadMessageEvent {
   };
 }
 
+export interface ThreadMessageDeltaEvent {
+  type: 'thread_message_delta';
+  data: {
+    id: string;
+    type: string;
+    delta: string;
+    content: string;
+    timestamp: string;
+    metadata?: Record<string, any>;
+  };
+}
+
+export interface ThreadSwitchedEvent {
+  type: 'thread_switched';
+  data: {
+    threadId: string;
+  };
+}
+
 export interface ConnectionStatusEvent {
   type: 'connection_status';
   data: {
@@ -46,27 +72,48 @@ export interface ThreadWebSocketSession {
   id: string;
   sessionId: string;
   websocket: WebSocket;
+  userId?: string; // who opened the connection
+  username?: string;
+  role: SessionRole; // viewers only watch the thread; follows the session's shares while connected
   logTailer?: LogTailerWithParser;
+  threadId?: string | undefined; // Thread whose amp log is being tailed
   isActive: boolean;
   lastActivity: Date;
   messageCount: number;
 }
 
+/**
+ * Who is connecting and what they may do; connections without it are treated as the owner's
+ */
+export interface ThreadConnectionAccess {
+  userId: string;
+  username: string;
+  role: SessionRole;
+}
+
 export class ThreadWebSocketManager extends EventEmitter {
   private sessions: Map<string, ThreadWebSocketSession> = new Map();
-  private sessionToWebSocket: Map<string, string> = new Map(); // sessionId -> websocketSessionId
+  // sessionId -> websocketSessionIds in connection order; the first one follows the amp log for all of them
+  private sessionToWebSockets: Map<string, Set<string>> = new Map();
   private pingInterval: NodeJS.Timeout | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
 
   constructor() {
     super();
     this.setupPeriodicTasks();
+    sessionStore.on('threadAssociationUpdated', this.handleThreadSwitch);
+    sessionStore.on('sessionUpdated', this.handleSessionUpdated);
   }
 
   /**
    * Handle new WebSocket connection for thread communication
    */
-  async handleConnection(ws: WebSocket, sessionId?: string, clientInfo?: any): Promise<string> {
+  async handleConnection(
+    ws: WebSocket,
+    sessionId?: string,
+    clientInfo?: any,
+    access?: ThreadConnectionAccess
+  ): Promise<string> {
     try {
       // Validate session exists
       if (!sessionId) {
@@ -82,26 +129,43 @@ export class ThreadWebSocketManager extends EventEmitter {
         throw new Error(`Session ${sessionId} not found`);
       }
 
+      // Wake a hibernated container before tailing its logs
+      const resumed = await resumeIfIdle(sessionId);
+      if (!resumed.success) {
+        this.sendError(ws, resumed.error || 'Failed to resume session');
+        ws.close();
+        throw new Error(resumed.error || `Failed to resume session ${sessionId}`);
+      }
+
       // Create WebSocket session
       const wsSessionId = `thread_ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      setLogContext({ connectionId: wsSessionId });
       const threadSession: ThreadWebSocketSession = {
         id: wsSessionId,
         sessionId,
         websocket: ws,
+        ...(access && { userId: access.userId, username: access.username }),
+        role: access?.role || 'owner',
         isActive: true,
         lastActivity: new Date(),
         messageCount: 0
       };
 
-      // Store session mappings
+      // Store session mappings; later connections share the first one's log tailer
+      const isFirstConnection = !this.getThreadSession(sessionId);
       this.sessions.set(wsSessionId, threadSession);
-      this.sessionToWebSocket.set(sessionId, wsSessionId);
+      const wsSessionIds = this.sessionToWebSockets.get(sessionId) || new Set();
+      wsSessionIds.add(wsSessionId);
+      this.sessionToWebSockets.set(sessionId, wsSessionIds);
+      sessionStore.addConnection(sessionId, wsSessionId, access?.userId);
 
       // Set up WebSocket event handlers
       this.setupWebSocketHandlers(threadSession);
 
       // Start log tailing if amp.log exists
-      await this.startLogTailing(threadSession);
+      if (isFirstConnection) {
+        await this.startLogTailing(threadSession);
+      }
 
       // Send connection confirmation
       this.sendConnectionStatus(ws, 'connected', 'Thread WebSocket connected', sessionId);
@@ -109,6 +173,7 @@ export class ThreadWebSocketManager extends EventEmitter {
       logger.info('Thread WebSocket connection established', {
         wsSessionId,
         sessionId,
+        role: threadSession.role,
         clientInfo
       });
 
@@ -129,7 +194,7 @@ export class ThreadWebSocketManager extends EventEmitter {
   private setupWebSocketHandlers(threadSession: ThreadWebSocketSession): void {
     const { websocket, sessionId } = threadSession;
 
-    websocket.on('message', async (data: WebSocket.Data) => {
+    websocket.on('message', bindLogContext(async (data: WebSocket.Data) => {
       try {
         threadSession.lastActivity = new Date();
         threadSession.messageCount++;
@@ -141,6 +206,14 @@ export class ThreadWebSocketManager extends EventEmitter {
             await this.handleUserMessage(threadSession, message.data as UserMessageData);
             break;
             
+          case 'cancel':
+            if (!roleAllows(threadSession.role, 'collaborator')) {
+              this.sendError(websocket, 'Viewers cannot cancel amp turns');
+            } else if (!(await this.cancelTurn(sessionId))) {
+              this.sendError(websocket, 'No amp turn is running');
+            }
+            break;
+            
           case 'ping':
             this.sendMessage(websocket, { type: 'pong', timestamp: new Date().toISOString() });
             break;
@@ -158,19 +231,19 @@ export class ThreadWebSocketManager extends EventEmitter {
         });
         this.sendError(websocket, 'Failed to process message');
       }
-    });
+    }));
 
-    websocket.on('close', () => {
+    websocket.on('close', bindLogContext(() => {
       this.handleDisconnection(threadSession);
-    });
+    }));
 
-    websocket.on('error', (error) => {
+    websocket.on('error', bindLogContext((error: Error) => {
       logger.error('Thread WebSocket error', {
         sessionId,
         error: error.message
       });
       this.handleDisconnection(threadSession);
-    });
+    }));
   }
 
   /**
@@ -181,15 +254,25 @@ export class ThreadWebSocketManager extends EventEmitter {
       const { sessionId } = threadSession;
       const { content } = data;
 
+      if (!roleAllows(threadSession.role, 'collaborator')) {
+        this.sendError(threadSession.websocket, 'Viewers cannot send messages');
+        return;
+      }
+
       if (!content || !content.trim()) {
         this.sendError(threadSession.websocket, 'Message content is required');
         return;
       }
 
-      // Update connection status to processing
-      this.sendConnectionStatus(threadSession.websocket, 'processing', 'Processing message...');
+      // Update connection status to processing for everyone watching the thread
+      this.broadcastConnectionStatus(sessionId, 'processing', 'Processing message...');
+
+      const session = await sessionStore.getSession(sessionId);
+      if (!session || !session.threadId) {
+        throw new Error('Session or thread ID not found');
+      }
 
-      // Store user message in thread storage
+      // Store user message in the active thread
       const userMessage: ThreadMessage = {
         id: generateMessageId(MessageType.USER, content.trim(), new Date()),
         type: MessageType.USER,
@@ -197,19 +280,31 @@ export class ThreadWebSocketManager extends EventEmitter {
         timestamp: new Date()
       };
 
-      await threadStorage.appendMessage(sessionId, userMessage);
+      // Snapshot the workspace so this turn's edits can be reverted from the thread
+      const snapshot = await gitOperationsService.createSnapshot(sessionId, session.threadId, userMessage.id);
+      if (snapshot.success && snapshot.ref) {
+        userMessage.metadata = { snapshot_ref: snapshot.ref };
+      } else {
+        logger.warn('Failed to snapshot workspace before amp turn', {
+          sessionId,
+          error: snapshot.error
+        });
+      }
+
+      await threadStorage.appendMessage(sessionId, userMessage, session.threadId);
 
       // Emit the user message immediately via WebSocket
       this.broadcastThreadMessage(sessionId, userMessage);
 
       // Execute amp continue command with the user input
-      const session = await sessionStore.getSession(sessionId);
-      if (!session || !session.threadId) {
-        throw new Error('Session or thread ID not found');
-      }
 
-      // Use ampService to continue the thread with user input
-      await ampService.continueThread(session.threadId, content.trim(), {
+      // Run amp inside the session container so it works on the cloned repository
+      const repoName = session.repositoryName.split('/').pop() || session.repositoryName;
+      const result = await ampService.continueThread(session.threadId, content.trim(), session.containerId ? {
+        containerId: session.containerId,
+        workingDirectory: `/workspace/${repoName}`,
+        ...(session.ampLogPath && { ampLogPath: session.ampLogPath })
+      } : {
         workingDirectory: session.ampLogPath ? require('path').dirname(session.ampLogPath) : undefined
       });
 
@@ -218,7 +313,8 @@ export class ThreadWebSocketManager extends EventEmitter {
       logger.info('User message processed and amp command executed', {
         sessionId,
         threadId: session.threadId,
-        messageLength: content.length
+        messageLength: content.length,
+        cancelled: !!result.cancelled
       });
 
     } catch (error) {
@@ -232,12 +328,53 @@ export class ThreadWebSocketManager extends EventEmitter {
     }
   }
 
+  /**
+   * Stop the amp turn running for a session and record the interruption in the thread.
+   * Resolves false if no turn was running.
+   */
+  async cancelTurn(sessionId: string): Promise<boolean> {
+    const session = await sessionStore.getSession(sessionId);
+    if (!session || !session.threadId) {
+      return false;
+    }
+
+    const cancelled = await ampService.cancelTurn(session.threadId);
+    if (!cancelled) {
+      return false;
+    }
+
+    const timestamp = new Date();
+    const systemMessage: ThreadMessage = {
+      id: generateMessageId(MessageType.SYSTEM, 'turn_cancelled', timestamp),
+      type: MessageType.SYSTEM,
+      content: 'Amp was interrupted before finishing its turn.',
+      timestamp,
+      metadata: { type: 'turn_cancelled' }
+    };
+
+    await threadStorage.appendMessage(sessionId, systemMessage, session.threadId);
+    this.broadcastThreadMessage(sessionId, systemMessage);
+
+    this.broadcastConnectionStatus(sessionId, 'connected', 'Turn cancelled');
+
+    logger.info('Amp turn cancelled', {
+      sessionId,
+      threadId: session.threadId
+    });
+
+    return true;
+  }
+
   /**
    * Start log tailing for a thread session
    */
   private async startLogTailing(threadSession: ThreadWebSocketSession): Promise<void> {
     try {
       const session = await sessionStore.getSession(threadSession.sessionId);
+      if (!threadSession.isActive) {
+        return; // disconnected while the session was loading
+      }
+
       if (!session || !session.ampLogPath) {
         logger.debug('No amp log path available for session', {
           sessionId: threadSession.sessionId
@@ -245,6 +382,13 @@ export class ThreadWebSocketManager extends EventEmitter {
         return;
       }
 
+      // Make sure history from before per-thread storage is filed under the first thread
+      sessionThreadService.getThreads(threadSession.sessionId);
+      threadSession.threadId = session.threadId;
+
+      // A handover and a thread switch can both start tailing; only the latest tailer may keep running
+      threadSession.logTailer?.stop();
+
       // Create log tailer with parser
       threadSession.logTailer = createLogTailerWithParser(
         session.ampLogPath,
@@ -260,6 +404,10 @@ export class ThreadWebSocketManager extends EventEmitter {
           onThreadMessage: (message: ThreadMessage) => {
             // Handle parsed thread messages
             this.handleParsedMessage(threadSession, message);
+          },
+          onThreadMessageDelta: (delta: ThreadMessageDelta) => {
+            // Partial output is only relayed; the completed message is what gets stored
+            this.broadcastThreadMessageDelta(threadSession.sessionId, delta);
           }
         }
       );
@@ -289,13 +437,71 @@ export class ThreadWebSocketManager extends EventEmitter {
     }
   }
 
+  /**
+   * Follow the session's active thread when it changes: tail the new thread's log and tell the client
+   */
+  private handleThreadSwitch = (sessionId: string, threadId: string): void => {
+    const threadSession = this.getThreadSession(sessionId);
+    if (!threadSession || threadSession.threadId === threadId) {
+      return;
+    }
+
+    threadSession.logTailer?.stop();
+    delete threadSession.logTailer;
+
+    const switchedEvent: ThreadSwitchedEvent = {
+      type: 'thread_switched',
+      data: { threadId }
+    };
+    this.broadcast(sessionId, switchedEvent);
+
+    this.startLogTailing(threadSession).catch((error) => {
+      logger.error('Failed to tail switched thread', {
+        sessionId,
+        threadId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  };
+
+  /**
+   * Re-scope open connections when the owner changes who the session is shared with:
+   * revoked users are disconnected and the rest get their new role
+   */
+  private handleSessionUpdated = (session: Session, updates: Partial<Session>): void => {
+    if (!('shares' in updates)) {
+      return;
+    }
+
+    for (const threadSession of this.getThreadSessions(session.id)) {
+      if (!threadSession.userId || !threadSession.username) {
+        continue;
+      }
+
+      const role = getSessionRole(session, { id: threadSession.userId, username: threadSession.username });
+      if (role) {
+        threadSession.role = role;
+        continue;
+      }
+
+      logger.info('Closing thread WebSocket after its access was revoked', {
+        wsSessionId: threadSession.id,
+        sessionId: session.id,
+        userId: threadSession.userId
+      });
+      this.sendError(threadSession.websocket, 'Your access to this session was removed');
+      threadSession.websocket.close();
+      this.handleDisconnection(threadSession);
+    }
+  };
+
   /**
    * Handle parsed thread message from log tailer
    */
   private async handleParsedMessage(threadSession: ThreadWebSocketSession, message: ThreadMessage): Promise<void> {
     try {
-      // Store message in thread storage
-      await threadStorage.appendMessage(threadSession.sessionId, message);
+      // Store message in the thread whose log produced it
+      await threadStorage.appendMessage(threadSession.sessionId, message, threadSession.threadId);
 
       // Broadcast to all WebSocket clients for this session
       this.broadcastThreadMessage(threadSession.sessionId, message);
@@ -303,7 +509,7 @@ export class ThreadWebSocketManager extends EventEmitter {
       // Update connection status based on message type
       if (message.type === MessageType.ASSISTANT && !message.metadata?.type) {
         // Main assistant response completed
-        this.sendConnectionStatus(threadSession.websocket, 'connected', 'Ready for next message');
+        this.broadcastConnectionStatus(threadSession.sessionId, 'connected', 'Ready for next message');
       }
 
     } catch (error) {
@@ -319,28 +525,72 @@ export class ThreadWebSocketManager extends EventEmitter {
    * Broadcast thread message to all WebSocket clients for a session
    */
   private broadcastThreadMessage(sessionId: string, message: ThreadMessage): void {
-    const wsSessionId = this.sessionToWebSocket.get(sessionId);
-    if (!wsSessionId) {
-      return;
-    }
-
-    const threadSession = this.sessions.get(wsSessionId);
-    if (!threadSession || !threadSession.isActive) {
-      return;
-    }
-
     const threadMessageEvent: ThreadMessageEvent = {
       type: 'thread_message',
       data: {
         id: message.id,
         type: message.type,
-        content: message.content,
+        content: redactSessionText(sessionId, message.content),
         timestamp: message.timestamp.toISOString(),
         ...(message.metadata && { metadata: message.metadata })
       }
     };
 
-    this.sendMessage(threadSession.websocket, threadMessageEvent);
+    this.broadcast(sessionId, threadMessageEvent);
+  }
+
+  /**
+   * Broadcast a partial message to all WebSocket clients for a session
+   */
+  private broadcastThreadMessageDelta(sessionId: string, delta: ThreadMessageDelta): void {
+    const deltaEvent: ThreadMessageDeltaEvent = {
+      type: 'thread_message_delta',
+      data: {
+        id: delta.id,
+        type: delta.type,
+        delta: redactSessionText(sessionId, delta.delta),
+        content: redactSessionText(sessionId, delta.content),
+        timestamp: delta.timestamp.toISOString(),
+        ...(delta.metadata && { metadata: delta.metadata })
+      }
+    };
+
+    this.broadcast(sessionId, deltaEvent);
+  }
+
+  /**
+   * Send a message to every active WebSocket client for a session
+   */
+  private broadcast(sessionId: string, message: any): void {
+    for (const threadSession of this.getThreadSessions(sessionId)) {
+      this.sendMessage(threadSession.websocket, message);
+    }
+  }
+
+  /**
+   * Send a connection status to every active WebSocket client for a session
+   */
+  private broadcastConnectionStatus(sessionId: string, status: ConnectionStatusEvent['data']['status'], message?: string): void {
+    for (const threadSession of this.getThreadSessions(sessionId)) {
+      this.sendConnectionStatus(threadSession.websocket, status, message);
+    }
+  }
+
+  /**
+   * Active WebSocket sessions for a session, oldest first
+   */
+  private getThreadSessions(sessionId: string): ThreadWebSocketSession[] {
+    const wsSessionIds = this.sessionToWebSockets.get(sessionId) || new Set<string>();
+    return Array.from(wsSessionIds)
+      .map(wsSessionId => this.sessions.get(wsSessionId))
+      .filter((threadSession): threadSession is ThreadWebSocketSession => !!threadSession?.isActive);
+  }
+
+  /**
+   * The WebSocket session following the amp log for a session, if any
+   */
+  private getThreadSession(sessionId: string): ThreadWebSocketSession | undefined {
+    return this.getThreadSessions(sessionId)[0];
   }
 
   /**
@@ -348,6 +598,7 @@ export class ThreadWebSocketManager extends EventEmitter {
    */
   private handleDisconnection(threadSession: ThreadWebSocketSession): void {
     try {
+      const wasFollowingLog = this.getThreadSession(threadSession.sessionId) === threadSession;
       threadSession.isActive = false;
 
       // Stop log tailer
@@ -357,7 +608,23 @@ export class ThreadWebSocketManager extends EventEmitter {
 
       // Remove from mappings
       this.sessions.delete(threadSession.id);
-      this.sessionToWebSocket.delete(threadSession.sessionId);
+      const wsSessionIds = this.sessionToWebSockets.get(threadSession.sessionId);
+      wsSessionIds?.delete(threadSession.id);
+      if (wsSessionIds?.size === 0) {
+        this.sessionToWebSockets.delete(threadSession.sessionId);
+      }
+      sessionStore.removeConnection(threadSession.sessionId, threadSession.id);
+
+      // Hand the amp log over to the next connection still watching
+      const successor = wasFollowingLog ? this.getThreadSession(threadSession.sessionId) : undefined;
+      if (successor) {
+        this.startLogTailing(successor).catch((error) => {
+          logger.error('Failed to hand over log tailing', {
+            sessionId: threadSession.sessionId,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        });
+      }
 
       logger.info('Thread WebSocket disconnected', {
         wsSessionId: threadSession.id,
@@ -497,12 +764,19 @@ export class ThreadWebSocketManager extends EventEmitter {
     this.cleanupInterval = setInterval(() => {
       this.cleanup();
     }, 5 * 60 * 1000);
+
+    // The manager is a module singleton; the HTTP server, not these timers, keeps the process alive
+    this.pingInterval.unref();
+    this.cleanupInterval.unref();
   }
 
   /**
    * Shutdown the manager
    */
   shutdown(): void {
+    sessionStore.off('threadAssociationUpdated', this.handleThreadSwitch);
+    sessionStore.off('sessionUpdated', this.handleSessionUpdated);
+
     if (this.pingInterval) {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
@@ -513,7 +787,8 @@ export class ThreadWebSocketManager extends EventEmitter {
       this.cleanupInterval = null;
     }
 
-    // Close all active sessions
+    // Close all active sessions; clearing the mappings first stops log tailers being handed over
+    this.sessionToWebSockets.clear();
     for (const threadSession of this.sessions.values()) {
       this.handleDisconnection(threadSession);
       if (threadSession.websocket.readyState === WebSocket.OPEN) {
@@ -522,7 +797,6 @@ export class ThreadWebSocketManager extends EventEmitter {
     }
 
     this.sessions.clear();
-    this.sessionToWebSocket.clear();
   }
 }
 
@@ -23,11 +23,21 @@ if [ -n "$REPOSITORY_URL" ]; then
     REPO_NAME=$(basename "$REPOSITORY_URL" .git)
     WORKSPACE_DIR="/workspace/$REPO_NAME"
     
-    echo -e "${BLUE}📥 Cloning repository...${NC}"
-    
-    # Clone the repository
-    if git clone --depth 1 --branch "${REPOSITORY_BRANCH:-main}" "$REPOSITORY_URL" "$WORKSPACE_DIR"; then
-        echo -e "${GREEN}✅ Repository cloned successfully${NC}"
+    # The workspace volume outlives the container, so a restarted session already has its checkout
+    if [ -d "$WORKSPACE_DIR/.git" ]; then
+        echo -e "${GREEN}♻️  Reusing existing workspace${NC}"
+        WORKSPACE_READY=true
+    else
+        echo -e "${BLUE}📥 Cloning repository...${NC}"
+
+        # Clone the repository
+        if git clone --depth 1 --branch "${REPOSITORY_BRANCH:-main}" "$REPOSITORY_URL" "$WORKSPACE_DIR"; then
+            echo -e "${GREEN}✅ Repository cloned successfully${NC}"
+            WORKSPACE_READY=true
+        fi
+    fi
+
+    if [ "$WORKSPACE_READY" = true ]; then
         
         # Change to the repository directory
         cd "$WORKSPACE_DIR"
@@ -59,6 +69,9 @@ else
     cd /workspace
 fi
 
+# Let setup scripts waiting on the checkout know it has finished, successfully or not
+touch /tmp/amplify-workspace-ready
+
 # Update the shell prompt to show we're in amplify
 export PS1="\[\033[1;32m\][amplify]\[\033[0m\] \[\033[1;34m\]\w\[\033[0m\] $ "
 
@@ -10,6 +10,8 @@ import LoginPage from './pages/LoginPage';
 import CreateSessionPage from './pages/CreateSessionPage';
 import SessionsPage from './pages/SessionsPage';
 import DiffPage from './pages/DiffPage';
+import SettingsPage from './pages/SettingsPage';
+import AdminPage from './pages/AdminPage';
 
 
 
@@ -79,6 +81,22 @@ const AppContent = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/settings"
+            element={
+              <ProtectedRoute>
+                <SettingsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin"
+            element={
+              <ProtectedRoute>
+                <AdminPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/diff/:sessionId"
             element={
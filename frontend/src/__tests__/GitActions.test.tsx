@@ -183,4 +183,43 @@ describe('GitActions', () => {
       });
     });
   });
+
+  it('prefills pull request fields and sends draft and base options', async () => {
+    const loadDefaults = vi.fn().mockResolvedValue({
+      title: 'Fix login redirect',
+      body: '## Summary\n\nFixed the redirect loop.'
+    });
+
+    render(
+      <GitActions
+        onPush={mockOnPush}
+        onLoadPullRequestDefaults={loadDefaults}
+        pushing={false}
+        hasCommits={true}
+        disabled={false}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /show options/i }));
+    fireEvent.click(screen.getByRole('checkbox', { name: /create pull request/i }));
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Pull Request Title')).toHaveValue('Fix login redirect');
+    });
+
+    fireEvent.change(screen.getByLabelText('Base branch (optional)'), { target: { value: 'develop' } });
+    fireEvent.click(screen.getByRole('checkbox', { name: /open as draft/i }));
+    fireEvent.click(screen.getByRole('button', { name: /push changes/i }));
+
+    await waitFor(() => {
+      expect(mockOnPush).toHaveBeenCalledWith({
+        force: false,
+        createPullRequest: true,
+        pullRequestTitle: 'Fix login redirect',
+        pullRequestDescription: '## Summary\n\nFixed the redirect loop.',
+        pullRequestBase: 'develop',
+        pullRequestDraft: true,
+      });
+    });
+  });
 });
@@ -0,0 +1,40 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import ShareSessionPanel from '../../components/ShareSessionPanel';
+import { SessionShare } from '../../hooks/useSessions';
+
+const share: SessionShare = {
+  username: 'octocat',
+  role: 'viewer',
+  invitedBy: 'owner',
+  invitedAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('ShareSessionPanel', () => {
+  it('invites a teammate with the chosen role', async () => {
+    const onShare = vi.fn().mockResolvedValue(true);
+    render(<ShareSessionPanel shares={[]} onShare={onShare} onRemove={vi.fn()} />);
+
+    expect(screen.getByText('Not shared with anyone yet.')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('GitHub username'), { target: { value: ' hubot ' } });
+    expect(screen.queryByText(/can read anything it holds/)).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Share role'), { target: { value: 'collaborator' } });
+    expect(screen.getByText(/can read anything it holds/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Invite' }));
+
+    await waitFor(() => expect(onShare).toHaveBeenCalledWith('hubot', 'collaborator'));
+    await waitFor(() => expect(screen.getByLabelText('GitHub username')).toHaveValue(''));
+  });
+
+  it('lists shares and removes them', () => {
+    const onRemove = vi.fn().mockResolvedValue(true);
+    render(<ShareSessionPanel shares={[share]} error="User not found" onShare={vi.fn()} onRemove={onRemove} />);
+
+    expect(screen.getByText('octocat')).toBeInTheDocument();
+    expect(screen.getByText('User not found')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stop sharing with octocat' }));
+    expect(onRemove).toHaveBeenCalledWith('octocat');
+  });
+});
@@ -0,0 +1,74 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import TemplateSelector, { parseEnvironment } from '../../components/TemplateSelector';
+import { api } from '../../utils/api';
+
+vi.mock('../../utils/api', () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn(),
+    delete: vi.fn()
+  }
+}));
+
+vi.mock('../../hooks/useAuth', () => ({
+  useAuth: () => ({ user: { id: 'github_1' } })
+}));
+
+const template = {
+  id: 'template-1',
+  name: 'Node app',
+  scope: 'repository',
+  ownerId: 'github_1',
+  repositoryName: 'octo/app',
+  setupCommands: ['npm ci', 'npm run seed'],
+  environment: { NODE_ENV: 'development' },
+  initialPrompt: 'Run the tests',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('TemplateSelector', () => {
+  beforeEach(() => {
+    vi.mocked(api.get).mockReset();
+    vi.mocked(api.post).mockReset();
+    vi.mocked(api.get).mockResolvedValue({ success: true, data: [template] } as any);
+  });
+
+  it('lists the templates for the repository and describes the selected one', async () => {
+    render(<TemplateSelector repositoryName="octo/app" value="template-1" onChange={vi.fn()} />);
+
+    expect(await screen.findByRole('option', { name: 'Node app (repository)' })).toBeInTheDocument();
+    expect(api.get).toHaveBeenCalledWith('/templates?repository=octo%2Fapp');
+    expect(screen.getByText('2 setup commands')).toBeInTheDocument();
+    expect(screen.getByText('NODE_ENV')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Delete template' })).toBeInTheDocument();
+  });
+
+  it('creates a template and selects it', async () => {
+    const onChange = vi.fn();
+    vi.mocked(api.post).mockResolvedValue({ success: true, data: { ...template, id: 'template-2' } } as any);
+
+    render(<TemplateSelector repositoryName="octo/app" value="" onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'New template' }));
+    fireEvent.change(screen.getByLabelText('Template name'), { target: { value: 'Seeded' } });
+    fireEvent.change(screen.getByLabelText('Template scope'), { target: { value: 'repository' } });
+    fireEvent.change(screen.getByLabelText('Setup commands'), { target: { value: 'npm ci\n\nnpm run seed' } });
+    fireEvent.change(screen.getByLabelText('Environment variables'), { target: { value: 'PORT=3000' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save template' }));
+
+    await waitFor(() => expect(onChange).toHaveBeenCalledWith('template-2'));
+    expect(api.post).toHaveBeenCalledWith('/templates', {
+      name: 'Seeded',
+      scope: 'repository',
+      repositoryName: 'octo/app',
+      setupCommands: ['npm ci', 'npm run seed'],
+      environment: { PORT: '3000' }
+    });
+  });
+
+  it('parses KEY=value lines and keeps = in values', () => {
+    expect(parseEnvironment('A=1\n\nB=x=y\nnot a variable')).toEqual({ A: '1', B: 'x=y' });
+  });
+});
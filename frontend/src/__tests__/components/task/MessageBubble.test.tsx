@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import MessageBubble from '../../../components/task/MessageBubble';
 import { ThreadMessage } from '../../../types/threadMessage';
@@ -300,4 +300,36 @@ describe('MessageBubble', () => {
       expect(screen.getByText('Hello world')).toBeInTheDocument();
     });
   });
+
+  describe('Revert', () => {
+    const snapshotMessage: ThreadMessage = {
+      ...baseMessage,
+      metadata: { snapshot_ref: 'refs/amplify/snapshots/test-msg-1' }
+    };
+
+    it('asks for confirmation before reverting to the snapshot', () => {
+      const onRevert = vi.fn();
+      render(<MessageBubble message={snapshotMessage} onRevert={onRevert} />);
+
+      fireEvent.click(screen.getByText('Revert to before this message'));
+      expect(onRevert).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByText('Revert'));
+      expect(onRevert).toHaveBeenCalledWith(snapshotMessage);
+    });
+
+    it('does not offer a revert without a snapshot or on amp messages', () => {
+      const { rerender } = render(<MessageBubble message={baseMessage} onRevert={vi.fn()} />);
+      expect(screen.queryByText('Revert to before this message')).not.toBeInTheDocument();
+
+      rerender(<MessageBubble message={{ ...snapshotMessage, role: 'amp' }} onRevert={vi.fn()} />);
+      expect(screen.queryByText('Revert to before this message')).not.toBeInTheDocument();
+    });
+
+    it('shows progress while reverting', () => {
+      render(<MessageBubble message={snapshotMessage} onRevert={vi.fn()} isReverting />);
+
+      expect(screen.getByText('Reverting…')).toBeInTheDocument();
+    });
+  });
 });
@@ -204,4 +204,22 @@ describe('MessageInput', () => {
     await user.type(textarea, 'Hello');
     expect(sendButton).not.toHaveClass('cursor-not-allowed');
   });
+
+  it('shows a Stop button while amp is processing', async () => {
+    const user = userEvent.setup();
+    const onStop = vi.fn();
+    render(<MessageInput onSendMessage={mockOnSendMessage} isProcessing={true} onStop={onStop} />);
+
+    expect(screen.queryByLabelText('Send message')).not.toBeInTheDocument();
+
+    await user.click(screen.getByLabelText('Stop amp'));
+    expect(onStop).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the send button when processing without a stop handler', () => {
+    render(<MessageInput isProcessing={true} />);
+
+    expect(screen.getByLabelText('Send message')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Stop amp')).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,78 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PreviewPanel from '../../../components/task/PreviewPanel';
+import { api } from '../../../utils/api';
+
+vi.mock('../../../utils/api', () => ({
+  api: {
+    get: vi.fn()
+  }
+}));
+
+const mockPorts = (ports: Array<{ port: number; address: string; reachable: boolean }>) => {
+  vi.mocked(api.get).mockResolvedValue({ success: true, data: { ports, token: 'preview-token' } } as any);
+};
+
+describe('PreviewPanel', () => {
+  beforeEach(() => {
+    vi.mocked(api.get).mockReset();
+  });
+
+  it('previews the first reachable port', async () => {
+    mockPorts([
+      { port: 3000, address: '127.0.0.1', reachable: false },
+      { port: 5173, address: '0.0.0.0', reachable: true }
+    ]);
+
+    render(<PreviewPanel sessionId="session-1" />);
+
+    const frame = await screen.findByTitle('Preview of port 5173');
+    expect(frame).toHaveAttribute('src', '/api/sessions/session-1/preview/preview-token/5173/');
+    expect(api.get).toHaveBeenCalledWith('/sessions/session-1/preview/ports');
+    expect(screen.getByRole('option', { name: '3000 (localhost only)' })).toBeDisabled();
+  });
+
+  it('switches ports from the picker', async () => {
+    mockPorts([
+      { port: 3000, address: '0.0.0.0', reachable: true },
+      { port: 8080, address: '0.0.0.0', reachable: true }
+    ]);
+
+    render(<PreviewPanel sessionId="session-1" />);
+    await screen.findByTitle('Preview of port 3000');
+
+    fireEvent.change(screen.getByLabelText('Port'), { target: { value: '8080' } });
+
+    expect(screen.getByTitle('Preview of port 8080')).toHaveAttribute('src', '/api/sessions/session-1/preview/preview-token/8080/');
+  });
+
+  it('prefers ports declared in .amplify.yml and lists them before they listen', async () => {
+    mockPorts([
+      { port: 3000, address: '0.0.0.0', reachable: true },
+      { port: 5173, address: '0.0.0.0', reachable: true }
+    ]);
+
+    render(<PreviewPanel sessionId="session-1" declaredPorts={[5173, 8080]} />);
+
+    expect(await screen.findByTitle('Preview of port 5173')).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: '8080 (not started)' })).toBeDisabled();
+  });
+
+  it('explains how to expose servers that only listen on localhost', async () => {
+    mockPorts([{ port: 3000, address: '127.0.0.1', reachable: false }]);
+
+    render(<PreviewPanel sessionId="session-1" />);
+
+    expect(await screen.findByText(/Start them on 0.0.0.0/)).toBeInTheDocument();
+  });
+
+  it('shows errors from port discovery', async () => {
+    vi.mocked(api.get).mockRejectedValue(new Error('Session container is not running'));
+
+    render(<PreviewPanel sessionId="session-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Session container is not running')).toBeInTheDocument();
+    });
+  });
+});
@@ -21,6 +21,8 @@ describe('TaskTabs', () => {
     expect(screen.getByText('Thread')).toBeInTheDocument();
     expect(screen.getByText('Terminal')).toBeInTheDocument();
     expect(screen.getByText('Git Diff')).toBeInTheDocument();
+    expect(screen.getByText('Preview')).toBeInTheDocument();
+    expect(screen.getByText('Recordings')).toBeInTheDocument();
   });
 
   it('shows the active tab with correct styling', () => {
@@ -142,11 +144,11 @@ describe('TaskTabs', () => {
     
     // Check that SVG icons are present
     const svgElements = container.querySelectorAll('svg');
-    expect(svgElements).toHaveLength(3); // One for each tab
+    expect(svgElements).toHaveLength(5); // One for each tab
   });
 
   it('supports all tab types', () => {
-    const tabTypes: TabType[] = ['thread', 'terminal', 'gitdiff'];
+    const tabTypes: TabType[] = ['thread', 'terminal', 'gitdiff', 'preview'];
     
     tabTypes.forEach(tabType => {
       const { rerender } = render(
@@ -176,4 +178,16 @@ describe('TaskTabs', () => {
     
     expect(terminalTab).toHaveClass('focus:ring-2', 'focus:ring-blue-500/50');
   });
+
+  it('shows the preview ports declared by the repository', () => {
+    render(
+      <TaskTabs 
+        activeTab="terminal" 
+        onTabChange={mockOnTabChange}
+        previewPorts={[3000, 5173]}
+      />
+    );
+    
+    expect(screen.getByRole('tab', { name: /preview/i })).toHaveTextContent(':3000 :5173');
+  });
 });
@@ -0,0 +1,113 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MemoryRouter } from 'react-router-dom';
+import ThreadSidebar from '../../../components/task/ThreadSidebar';
+import { api } from '../../../utils/api';
+
+vi.mock('../../../utils/api', () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn()
+  }
+}));
+
+const renderSidebar = (onThreadChange = vi.fn()) => render(
+  <MemoryRouter>
+    <ThreadSidebar
+      sessionId="session-1"
+      onThreadChange={onThreadChange}
+      isOpen={true}
+      onToggle={vi.fn()}
+    />
+  </MemoryRouter>
+);
+
+describe('ThreadSidebar threads', () => {
+  const threads = [
+    { id: 'T-1', title: 'Thread 1', createdAt: new Date().toISOString(), isActive: true, messageCount: 4 },
+    { id: 'T-2', title: 'Docs', createdAt: new Date().toISOString(), isActive: false, messageCount: 1 },
+    { id: 'T-3', title: 'Old idea', createdAt: new Date().toISOString(), archivedAt: new Date().toISOString(), isActive: false, messageCount: 2 }
+  ];
+
+  beforeEach(() => {
+    vi.mocked(api.get).mockReset();
+    vi.mocked(api.post).mockReset();
+    vi.mocked(api.get).mockResolvedValue({ threads } as any);
+  });
+
+  it("lists the session's threads from the backend", async () => {
+    renderSidebar();
+
+    expect(await screen.findByText('Docs')).toBeInTheDocument();
+    expect(api.get).toHaveBeenCalledWith('/sessions/session-1/threads');
+    expect(screen.getByText('Old idea').closest('button')).toBeDisabled();
+    expect(screen.queryByLabelText('Archive Old idea')).not.toBeInTheDocument();
+  });
+
+  it('switches to a thread when it is selected', async () => {
+    const onThreadChange = vi.fn();
+    vi.mocked(api.post).mockResolvedValue({ thread: threads[1] } as any);
+
+    renderSidebar(onThreadChange);
+    fireEvent.click(await screen.findByText('Docs'));
+
+    await waitFor(() => {
+      expect(onThreadChange).toHaveBeenCalledWith('T-2');
+    });
+    expect(api.post).toHaveBeenCalledWith('/sessions/session-1/threads/T-2/activate');
+  });
+
+  it('creates a new thread', async () => {
+    const onThreadChange = vi.fn();
+    vi.mocked(api.post).mockResolvedValue({ thread: { ...threads[1], id: 'T-4' } } as any);
+
+    renderSidebar(onThreadChange);
+    fireEvent.click(await screen.findByText('+ New Thread'));
+
+    await waitFor(() => {
+      expect(onThreadChange).toHaveBeenCalledWith('T-4');
+    });
+    expect(api.post).toHaveBeenCalledWith('/sessions/session-1/threads', {});
+  });
+});
+
+describe('ThreadSidebar search', () => {
+  beforeEach(() => {
+    vi.mocked(api.get).mockReset();
+  });
+
+  it('shows highlighted snippets that deep link to the message', async () => {
+    vi.mocked(api.get).mockResolvedValueOnce({ threads: [] } as any).mockResolvedValue({
+      query: 'migration',
+      results: [{
+        sessionId: 'session-1',
+        repositoryName: 'test/api',
+        messageId: 'm1',
+        messageType: 'assistant',
+        timestamp: new Date().toISOString(),
+        field: 'content',
+        snippet: 'Fixed the migration bug',
+        highlights: [{ start: 10, end: 19 }],
+        link: '/terminal/session-1?tab=thread&message=m1'
+      }]
+    } as any);
+
+    renderSidebar();
+    fireEvent.change(screen.getByLabelText('Search threads'), { target: { value: 'migration' } });
+
+    const mark = await screen.findByText('migration', { selector: 'mark' });
+    expect(api.get).toHaveBeenCalledWith('/threads/search?q=migration');
+    expect(mark.closest('a')).toHaveAttribute('href', '/terminal/session-1?tab=thread&message=m1');
+  });
+
+  it('shows an empty state when nothing matches', async () => {
+    vi.mocked(api.get).mockResolvedValueOnce({ threads: [] } as any).mockResolvedValue({ query: 'nothing', results: [] } as any);
+
+    renderSidebar();
+    fireEvent.change(screen.getByLabelText('Search threads'), { target: { value: 'nothing' } });
+
+    await waitFor(() => {
+      expect(screen.getByText('No matching messages')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import useThreadMessages from '../../hooks/useThreadMessages';
+import { useWebSocket } from '../../hooks/useWebSocket';
+import { ConnectionState, ThreadMessageDelta } from '../../services/threadWebSocket';
+import { ThreadMessage } from '../../types/threadMessage';
+
+vi.mock('../../hooks/useWebSocket', () => ({
+  useWebSocket: vi.fn()
+}));
+
+describe('useThreadMessages - streaming', () => {
+  let deltaCallback: ((delta: ThreadMessageDelta) => void) | undefined;
+  let wsMessages: ThreadMessage[];
+
+  const mockWebSocket = () => {
+    vi.mocked(useWebSocket).mockImplementation(() => ({
+      client: null,
+      connectionState: ConnectionState.CONNECTED,
+      isConnected: true,
+      isSending: false,
+      error: null,
+      messages: wsMessages,
+      sendMessage: vi.fn(),
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+      clearMessages: vi.fn(),
+      clearError: vi.fn(),
+      onMessage: vi.fn(),
+      onMessageDelta: (callback: (delta: ThreadMessageDelta) => void) => {
+        deltaCallback = callback;
+        return () => { deltaCallback = undefined; };
+      },
+      onConnectionChange: vi.fn(),
+      onError: vi.fn()
+    }) as any);
+  };
+
+  const delta = (content: string): ThreadMessageDelta => ({
+    id: 'stream_T-1_1_0',
+    type: 'assistant',
+    delta: content,
+    content,
+    timestamp: '2024-12-17T10:30:45.123Z'
+  });
+
+  beforeEach(() => {
+    deltaCallback = undefined;
+    wsMessages = [];
+    mockWebSocket();
+  });
+
+  it('shows a streaming draft built from deltas', () => {
+    const { result } = renderHook(() => useThreadMessages({ sessionId: 'session-1', loadHistory: false }));
+
+    act(() => deltaCallback?.(delta('I found')));
+    act(() => deltaCallback?.(delta('I found the bug')));
+
+    expect(result.current.messages).toHaveLength(1);
+    expect(result.current.messages[0]).toMatchObject({
+      id: 'stream_T-1_1_0',
+      role: 'amp',
+      content: 'I found the bug',
+      metadata: { streaming: true }
+    });
+  });
+
+  it('replaces the draft with the completed message', () => {
+    const { result, rerender } = renderHook(() => useThreadMessages({ sessionId: 'session-1', loadHistory: false }));
+
+    act(() => deltaCallback?.(delta('I found')));
+
+    wsMessages = [{
+      id: 'msg-1',
+      role: 'amp',
+      content: 'I found the bug',
+      ts: '2024-12-17T10:30:50.000Z',
+      metadata: { stream_id: 'stream_T-1_1_0' }
+    }];
+    mockWebSocket();
+    rerender();
+
+    expect(result.current.messages).toHaveLength(1);
+    expect(result.current.messages[0]?.id).toBe('msg-1');
+  });
+});
@@ -0,0 +1,104 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import AdminPage from '../../pages/AdminPage';
+import { api } from '../../utils/api';
+
+vi.mock('../../utils/api', () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn()
+  }
+}));
+
+const session = {
+  id: 'session-1',
+  userId: 'github_2',
+  ownerUsername: 'octocat',
+  repositoryUrl: 'https://github.com/octo/app',
+  repositoryName: 'octo/app',
+  branch: 'main',
+  status: 'running',
+  containerId: 'abcdef1234567890',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  lastAccessedAt: '2024-01-01T00:00:00.000Z',
+  expiresAt: '2024-01-02T00:00:00.000Z',
+  metadata: {}
+};
+
+const responses: Record<string, unknown> = {
+  '/admin/sessions': {
+    success: true,
+    data: [session],
+    meta: {
+      stats: { totalSessions: 1, activeSessions: 1, userSessions: 1, totalConnections: 0, activeConnections: 0 },
+      statusCounts: { running: 1 }
+    }
+  },
+  '/admin/cleanup': {
+    success: true,
+    data: {
+      isRunning: true,
+      runs: [{
+        trigger: 'manual',
+        startedAt: '2024-01-01T00:00:00.000Z',
+        hibernatedSessions: 2,
+        expiredSessions: 0,
+        cleanedSessions: 0,
+        failedSessions: 0
+      }]
+    }
+  },
+  '/admin/notices': { success: true, data: [] }
+};
+
+const renderPage = () => render(
+  <MemoryRouter>
+    <AdminPage />
+  </MemoryRouter>
+);
+
+describe('AdminPage', () => {
+  beforeEach(() => {
+    vi.mocked(api.get).mockReset();
+    vi.mocked(api.post).mockReset();
+    vi.mocked(api.get).mockImplementation(async (endpoint: string) => responses[endpoint] as any);
+  });
+
+  it('lists sessions from every user with their owner', async () => {
+    renderPage();
+
+    expect(await screen.findByText('octo/app')).toBeInTheDocument();
+    expect(screen.getByText('octocat')).toBeInTheDocument();
+    expect(screen.getByText('1 running')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /open/i })).not.toBeInTheDocument();
+  });
+
+  it('shows cleanup runs and triggers a manual run', async () => {
+    vi.mocked(api.post).mockResolvedValue({ success: true } as any);
+
+    renderPage();
+
+    expect(await screen.findByText('manual')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Run cleanup now' }));
+
+    await waitFor(() => expect(api.post).toHaveBeenCalledWith('/admin/cleanup/run'));
+  });
+
+  it('broadcasts a maintenance notice', async () => {
+    vi.mocked(api.post).mockResolvedValue({ success: true } as any);
+
+    renderPage();
+    await screen.findByText('octo/app');
+
+    fireEvent.change(screen.getByLabelText('Notice message'), { target: { value: 'Restarting at 18:00 UTC' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Broadcast' }));
+
+    await waitFor(() => expect(api.post).toHaveBeenCalledWith('/admin/notices', {
+      message: 'Restarting at 18:00 UTC',
+      level: 'warning'
+    }));
+  });
+});
@@ -0,0 +1,103 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import SettingsPage from '../../pages/SettingsPage';
+import { api, authApi } from '../../utils/api';
+
+vi.mock('../../utils/api', () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn()
+  },
+  authApi: {
+    get: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn()
+  }
+}));
+
+const secret = {
+  id: 'secret-1',
+  ownerId: 'github_1',
+  name: 'NPMRC',
+  scope: 'repository',
+  repositoryName: 'octo/app',
+  target: 'file',
+  filePath: '~/.npmrc',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('SettingsPage', () => {
+  beforeEach(() => {
+    vi.mocked(api.get).mockReset();
+    vi.mocked(api.post).mockReset();
+    vi.mocked(api.put).mockReset();
+    vi.mocked(api.get).mockResolvedValue({ success: true, data: [secret] } as any);
+    vi.mocked(authApi.get).mockResolvedValue({ success: true, data: { configured: false, sharedKeyAllowed: false } } as any);
+    vi.mocked(authApi.put).mockReset();
+  });
+
+  it('lists secrets with where they are injected', async () => {
+    render(<SettingsPage />);
+
+    expect(await screen.findByText('NPMRC')).toBeInTheDocument();
+    expect(screen.getByText('octo/app · File ~/.npmrc')).toBeInTheDocument();
+    expect(api.get).toHaveBeenCalledWith('/secrets');
+  });
+
+  it('creates an environment secret', async () => {
+    vi.mocked(api.post).mockResolvedValue({ success: true, data: { ...secret, id: 'secret-2' } } as any);
+
+    render(<SettingsPage />);
+
+    fireEvent.change(screen.getByLabelText('Secret name'), { target: { value: 'API_TOKEN' } });
+    fireEvent.change(screen.getByLabelText('Secret value'), { target: { value: 'tok_123' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save secret' }));
+
+    await waitFor(() => expect(api.post).toHaveBeenCalledWith('/secrets', {
+      name: 'API_TOKEN',
+      value: 'tok_123',
+      scope: 'user',
+      target: 'environment'
+    }));
+    await waitFor(() => expect(screen.getByLabelText('Secret name')).toHaveValue(''));
+  });
+
+  it('replaces a value without changing the rest of the secret', async () => {
+    vi.mocked(api.put).mockResolvedValue({ success: true, data: secret } as any);
+
+    render(<SettingsPage />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Replace value' }));
+    fireEvent.change(screen.getByLabelText('New value for NPMRC'), { target: { value: 'new-token' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(api.put).toHaveBeenCalledWith('/secrets/secret-1', {
+      name: 'NPMRC',
+      value: 'new-token',
+      scope: 'repository',
+      target: 'file',
+      repositoryName: 'octo/app',
+      filePath: '~/.npmrc'
+    }));
+  });
+
+  it('validates and stores the amp API key', async () => {
+    vi.mocked(authApi.put).mockResolvedValue({
+      success: true,
+      data: { configured: true, hint: 'abcd', sharedKeyAllowed: false }
+    } as any);
+
+    render(<SettingsPage />);
+
+    expect(await screen.findByText('No key stored. amp will ask you to log in inside each session.')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('amp API key'), { target: { value: 'sgamp_abcd' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save key' }));
+
+    expect(await screen.findByText('Your sessions use your key ending in abcd.')).toBeInTheDocument();
+    expect(authApi.put).toHaveBeenCalledWith('/amp-key', { apiKey: 'sgamp_abcd' });
+  });
+});
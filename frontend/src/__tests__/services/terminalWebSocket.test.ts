@@ -0,0 +1,85 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TerminalWebSocketClient } from '../../services/terminalWebSocket';
+import { TerminalState } from '../../types/terminal';
+
+class MockWebSocket {
+  static OPEN = 1;
+  static CLOSED = 3;
+  static instances: MockWebSocket[] = [];
+
+  readyState = MockWebSocket.OPEN;
+  sent: any[] = [];
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.readyState = MockWebSocket.CLOSED;
+  }
+
+  simulateMessage(data: unknown): void {
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(data) }));
+  }
+}
+
+describe('TerminalWebSocketClient shared terminals', () => {
+  const originalWebSocket = globalThis.WebSocket;
+
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+    (globalThis as any).WebSocket = MockWebSocket;
+  });
+
+  afterEach(() => {
+    globalThis.WebSocket = originalWebSocket;
+  });
+
+  const connect = (callbacks = {}) => {
+    const client = new TerminalWebSocketClient('session-1', { baseUrl: 'ws://test' }, callbacks);
+    client.connect();
+    const socket = MockWebSocket.instances[0]!;
+    socket.onopen?.(new Event('open'));
+    return { client, socket };
+  };
+
+  it('reports who drives the terminal', () => {
+    const onState = vi.fn();
+    const { socket } = connect({ onState });
+    const state: TerminalState = {
+      connectionId: 'terminal_b',
+      driverId: 'terminal_a',
+      canDrive: true,
+      requests: [],
+      clients: [
+        { connectionId: 'terminal_a', username: 'octocat', canDrive: true },
+        { connectionId: 'terminal_b', username: 'hubot', canDrive: true }
+      ],
+      size: { cols: 80, rows: 24 }
+    };
+
+    socket.simulateMessage({ type: 'state', data: state, timestamp: Date.now() });
+
+    expect(onState).toHaveBeenCalledWith(state);
+  });
+
+  it('sends driver lock requests and handovers', () => {
+    const { client, socket } = connect();
+
+    expect(client.sendDriverAction('request')).toBe(true);
+    expect(client.sendDriverAction('handover', 'terminal_b')).toBe(true);
+
+    expect(socket.sent.map(message => message.data)).toEqual([
+      { action: 'request' },
+      { action: 'handover', connectionId: 'terminal_b' }
+    ]);
+  });
+});
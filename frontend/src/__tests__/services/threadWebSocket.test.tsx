@@ -76,6 +76,8 @@ describe('ThreadWebSocketClient', () => {
   let client: ThreadWebSocketClient;
   let mockCallbacks: {
     onMessage: ReturnType<typeof vi.fn>;
+    onMessageDelta: ReturnType<typeof vi.fn>;
+    onThreadSwitched: ReturnType<typeof vi.fn>;
     onConnectionChange: ReturnType<typeof vi.fn>;
     onError: ReturnType<typeof vi.fn>;
     onStatusUpdate: ReturnType<typeof vi.fn>;
@@ -84,6 +86,8 @@ describe('ThreadWebSocketClient', () => {
   beforeEach(() => {
     mockCallbacks = {
       onMessage: vi.fn(),
+      onMessageDelta: vi.fn(),
+      onThreadSwitched: vi.fn(),
       onConnectionChange: vi.fn(),
       onError: vi.fn(),
       onStatusUpdate: vi.fn()
@@ -194,6 +198,15 @@ describe('ThreadWebSocketClient', () => {
       expect(lastMessage.id).toBeDefined();
     });
 
+    it('should send cancel requests', () => {
+      expect(client.cancelTurn()).toBe(true);
+
+      expect(mockWs.getLastSentMessage()).toMatchObject({
+        type: 'cancel',
+        data: { sessionId: 'test-session-123' }
+      });
+    });
+
     it('should trim message content before sending', () => {
       client.sendMessage('  Hello, world!  ');
 
@@ -228,6 +241,33 @@ describe('ThreadWebSocketClient', () => {
       expect(mockCallbacks.onMessage).toHaveBeenCalledWith(threadMessage);
     });
 
+    it('should handle streamed message deltas', () => {
+      const delta = {
+        id: 'stream_T-1_1_0',
+        type: 'assistant',
+        delta: ' world',
+        content: 'Hello world',
+        timestamp: new Date().toISOString()
+      };
+
+      mockWs.simulateMessage({
+        type: 'thread_message_delta',
+        data: delta
+      });
+
+      expect(mockCallbacks.onMessageDelta).toHaveBeenCalledWith(delta);
+      expect(mockCallbacks.onMessage).not.toHaveBeenCalled();
+    });
+
+    it('should handle thread switches', () => {
+      mockWs.simulateMessage({
+        type: 'thread_switched',
+        data: { threadId: 'T-2' }
+      });
+
+      expect(mockCallbacks.onThreadSwitched).toHaveBeenCalledWith('T-2');
+    });
+
     it('should handle connection status messages', () => {
       const statusData = {
         status: 'processing',
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parseAsciicast, parseResize, formatPlaybackTime } from '../../utils/asciicast';
+
+const cast = [
+  JSON.stringify({ version: 2, width: 80, height: 24, timestamp: 1700000000, title: 'octo/app' }),
+  JSON.stringify([0.012, 'o', '$ ls\r\n']),
+  JSON.stringify([1.5, 'r', '100x30']),
+  JSON.stringify([2.25, 'm', 'hubot is driving']),
+  '[3.1, "o", "half a li'
+].join('\n');
+
+describe('asciicast utilities', () => {
+  it('parses the header and events, skipping a half-written last line', () => {
+    const recording = parseAsciicast(cast);
+
+    expect(recording.header).toMatchObject({ width: 80, height: 24, title: 'octo/app' });
+    expect(recording.events).toEqual([
+      { time: 0.012, type: 'o', data: '$ ls\r\n' },
+      { time: 1.5, type: 'r', data: '100x30' },
+      { time: 2.25, type: 'm', data: 'hubot is driving' }
+    ]);
+    expect(recording.duration).toBe(2.25);
+  });
+
+  it('rejects other recording formats', () => {
+    expect(() => parseAsciicast(JSON.stringify({ version: 1, width: 80, height: 24 }))).toThrow(
+      'Unsupported recording format'
+    );
+  });
+
+  it('parses resize events and formats playback times', () => {
+    expect(parseResize('120x40')).toEqual({ cols: 120, rows: 40 });
+    expect(parseResize('wide')).toBeNull();
+    expect(formatPlaybackTime(0)).toBe('0:00');
+    expect(formatPlaybackTime(125.7)).toBe('2:05');
+  });
+});
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { useAmpApiKey } from '../hooks/useAmpApiKey';
+
+const inputClassName = `
+  w-full px-3 py-2 border-2 border-gray-200 dark:border-gray-600 rounded-xl
+  bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm
+  focus:ring-4 focus:ring-blue-500/20 focus:border-blue-500 focus:outline-none
+`;
+
+export const AmpApiKeySettings: React.FC = () => {
+  const { status, isSaving, error, saveKey, removeKey } = useAmpApiKey();
+  const [apiKey, setApiKey] = useState('');
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await saveKey(apiKey.trim())) {
+      setApiKey('');
+    }
+  };
+
+  const describeStatus = () => {
+    if (!status) {
+      return 'Loading...';
+    }
+    if (status.configured) {
+      return `Your sessions use your key ending in ${status.hint}.`;
+    }
+    return status.sharedKeyAllowed
+      ? 'No key stored. Your sessions use the server\'s shared key.'
+      : 'No key stored. amp will ask you to log in inside each session.';
+  };
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="p-6 space-y-3 bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700"
+    >
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">amp API key</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-300">{describeStatus()}</p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="password"
+          aria-label="amp API key"
+          placeholder={status?.configured ? 'Replace key' : 'Paste your amp API key'}
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          autoComplete="off"
+          className={`${inputClassName} font-mono`}
+        />
+        <button
+          type="submit"
+          disabled={!apiKey.trim() || isSaving}
+          className="px-4 py-2 text-sm font-semibold text-white whitespace-nowrap bg-blue-600 rounded-xl hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Checking...' : 'Save key'}
+        </button>
+      </div>
+
+      {status?.configured && (
+        <button
+          type="button"
+          onClick={removeKey}
+          className="text-sm text-red-600 hover:underline"
+        >
+          Remove key
+        </button>
+      )}
+    </form>
+  );
+};
+
+export default AmpApiKeySettings;
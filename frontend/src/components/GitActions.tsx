@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
-import { GitPushOptions } from '../hooks/useGit';
+import { GitPushOptions, PullRequestDefaults } from '../hooks/useGit';
 
 interface GitActionsProps {
   onPush: (options?: GitPushOptions) => Promise<void>;
+  onLoadPullRequestDefaults?: () => Promise<PullRequestDefaults | null>;
   pushing: boolean;
   hasCommits: boolean;
   disabled?: boolean;
@@ -11,6 +12,7 @@ interface GitActionsProps {
 
 export const GitActions: React.FC<GitActionsProps> = ({
   onPush,
+  onLoadPullRequestDefaults,
   pushing,
   hasCommits,
   disabled = false,
@@ -20,14 +22,31 @@ export const GitActions: React.FC<GitActionsProps> = ({
   const [createPR, setCreatePR] = useState(false);
   const [prTitle, setPrTitle] = useState('');
   const [prDescription, setPrDescription] = useState('');
+  const [prBase, setPrBase] = useState('');
+  const [prDraft, setPrDraft] = useState(false);
   const [forcePush, setForcePush] = useState(false);
 
+  const handleCreatePRChange = async (checked: boolean) => {
+    setCreatePR(checked);
+
+    // Prefill from the amp thread without overwriting anything the user typed
+    if (checked && onLoadPullRequestDefaults && !prTitle && !prDescription) {
+      const defaults = await onLoadPullRequestDefaults();
+      if (defaults) {
+        setPrTitle(current => current || defaults.title);
+        setPrDescription(current => current || defaults.body);
+      }
+    }
+  };
+
   const handlePush = async () => {
     const options: GitPushOptions = {
       force: forcePush,
       createPullRequest: createPR,
       ...(createPR && prTitle && { pullRequestTitle: prTitle }),
       ...(createPR && prDescription && { pullRequestDescription: prDescription }),
+      ...(createPR && prBase.trim() && { pullRequestBase: prBase.trim() }),
+      ...(createPR && prDraft && { pullRequestDraft: true }),
     };
 
     await onPush(options);
@@ -37,6 +56,8 @@ export const GitActions: React.FC<GitActionsProps> = ({
     setCreatePR(false);
     setPrTitle('');
     setPrDescription('');
+    setPrBase('');
+    setPrDraft(false);
     setForcePush(false);
   };
 
@@ -82,7 +103,7 @@ export const GitActions: React.FC<GitActionsProps> = ({
                 <input
                   type="checkbox"
                   checked={createPR}
-                  onChange={(e) => setCreatePR(e.target.checked)}
+                  onChange={(e) => handleCreatePRChange(e.target.checked)}
                   className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-700"
                 />
                 <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -118,6 +139,30 @@ export const GitActions: React.FC<GitActionsProps> = ({
                       className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-transparent resize-none"
                     />
                   </div>
+                  <div>
+                    <label htmlFor="pr-base" className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Base branch (optional)
+                    </label>
+                    <input
+                      id="pr-base"
+                      type="text"
+                      value={prBase}
+                      onChange={(e) => setPrBase(e.target.value)}
+                      placeholder="Repository default branch"
+                      className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={prDraft}
+                      onChange={(e) => setPrDraft(e.target.checked)}
+                      className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 dark:bg-gray-700"
+                    />
+                    <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                      Open as draft
+                    </span>
+                  </label>
                 </div>
               )}
             </div>
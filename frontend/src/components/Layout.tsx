@@ -1,5 +1,6 @@
 import { Outlet, Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import NoticeBanner from './NoticeBanner';
 
 const Layout = () => {
   const { user, logout } = useAuth();
@@ -52,6 +53,28 @@ const Layout = () => {
               >
                 Create Session
               </Link>
+              <Link
+                to="/settings"
+                className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  isActivePath('/settings')
+                    ? 'bg-gray-700 text-white'
+                    : 'text-gray-300 hover:text-white hover:bg-gray-700/50'
+                }`}
+              >
+                Settings
+              </Link>
+              {user.isAdmin && (
+                <Link
+                  to="/admin"
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                    isActivePath('/admin')
+                      ? 'bg-gray-700 text-white'
+                      : 'text-gray-300 hover:text-white hover:bg-gray-700/50'
+                  }`}
+                >
+                  Admin
+                </Link>
+              )}
             </nav>
           )}
 
@@ -83,6 +106,8 @@ const Layout = () => {
           </div>
         </div>
       </header>
+
+      <NoticeBanner enabled={!!user} />
       
       {/* Main Content */}
       <main className="flex-1 flex flex-col">
@@ -0,0 +1,42 @@
+import React from 'react';
+import { useNotices } from '../hooks/useNotices';
+
+interface NoticeBannerProps {
+  enabled: boolean;
+}
+
+export const NoticeBanner: React.FC<NoticeBannerProps> = ({ enabled }) => {
+  const { notices, dismiss } = useNotices(enabled);
+
+  if (notices.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-px">
+      {notices.map(notice => (
+        <div
+          key={notice.id}
+          role="status"
+          className={`flex items-center justify-between px-6 py-2 text-sm ${
+            notice.level === 'warning'
+              ? 'bg-yellow-900/60 text-yellow-100'
+              : 'bg-blue-900/60 text-blue-100'
+          }`}
+        >
+          <span>{notice.message}</span>
+          <button
+            type="button"
+            onClick={() => dismiss(notice.id)}
+            aria-label="Dismiss notice"
+            className="ml-4 opacity-70 hover:opacity-100"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default NoticeBanner;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { SessionParticipant } from '../hooks/useSessionPresence';
+
+interface PresenceIndicatorProps {
+  participants: SessionParticipant[];
+  className?: string;
+}
+
+export const PresenceIndicator: React.FC<PresenceIndicatorProps> = ({ participants, className = '' }) => {
+  if (participants.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex items-center -space-x-2 ${className}`} aria-label="People in this session">
+      {participants.map(participant => (
+        <div
+          key={participant.userId}
+          title={`${participant.username} (${participant.role})`}
+          className="relative w-7 h-7 rounded-full ring-2 ring-gray-800 bg-gray-600 flex items-center justify-center overflow-hidden"
+        >
+          {participant.avatarUrl ? (
+            <img src={participant.avatarUrl} alt={participant.username} className="w-full h-full object-cover" />
+          ) : (
+            <span className="text-xs font-semibold text-white uppercase">{participant.username.charAt(0)}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PresenceIndicator;
@@ -0,0 +1,176 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { Asciicast, parseResize, formatPlaybackTime } from '../utils/asciicast';
+import '@xterm/xterm/css/xterm.css';
+
+interface RecordingPlayerProps {
+  recording: Asciicast;
+  className?: string;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+const TICK_MS = 50;
+
+export const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ recording, className = '' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  const positionRef = useRef(0); // seconds already written to the terminal
+  const nextEventRef = useRef(0); // index of the first event not yet written
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const { duration, events } = recording;
+  const markers = events.filter(event => event.type === 'm');
+
+  /**
+   * Bring the terminal to how it looked at a point in the recording
+   */
+  const renderTo = useCallback((target: number) => {
+    const terminal = terminalRef.current;
+    if (!terminal) {
+      return;
+    }
+
+    // Going back means replaying from the start
+    if (target < positionRef.current) {
+      terminal.reset();
+      terminal.resize(recording.header.width, recording.header.height);
+      nextEventRef.current = 0;
+    }
+
+    let index = nextEventRef.current;
+    for (; index < events.length && events[index]!.time <= target; index++) {
+      const event = events[index]!;
+      if (event.type === 'o') {
+        terminal.write(event.data);
+      } else if (event.type === 'r') {
+        const size = parseResize(event.data);
+        if (size) {
+          terminal.resize(size.cols, size.rows);
+        }
+      }
+    }
+
+    nextEventRef.current = index;
+    positionRef.current = target;
+    setPosition(target);
+  }, [events, recording.header]);
+
+  // A fresh terminal for every recording
+  useEffect(() => {
+    if (!containerRef.current) {
+      return;
+    }
+
+    const terminal = new Terminal({
+      cols: recording.header.width,
+      rows: recording.header.height,
+      disableStdin: true,
+      cursorBlink: false,
+      fontFamily: 'Monaco, "Cascadia Code", "SF Mono", Consolas, "Liberation Mono", Menlo, monospace',
+      fontSize: 14,
+      lineHeight: 1.2,
+      theme: { background: '#1a1b26', foreground: '#c0caf5' }
+    });
+    terminal.open(containerRef.current);
+    terminalRef.current = terminal;
+    positionRef.current = 0;
+    nextEventRef.current = 0;
+    setPosition(0);
+    setIsPlaying(false);
+
+    return () => {
+      terminal.dispose();
+      terminalRef.current = null;
+    };
+  }, [recording]);
+
+  // Advance through the recording while playing
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+
+    let last = Date.now();
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const target = Math.min(duration, positionRef.current + ((now - last) / 1000) * speed);
+      last = now;
+      renderTo(target);
+      if (target >= duration) {
+        setIsPlaying(false);
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [isPlaying, speed, duration, renderTo]);
+
+  const handlePlayPause = () => {
+    // Play from the start again once the end is reached
+    if (!isPlaying && positionRef.current >= duration) {
+      renderTo(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className={`flex flex-col space-y-3 ${className}`}>
+      <div className="overflow-auto rounded-lg border border-gray-700/50 bg-[#1a1b26] p-2">
+        <div ref={containerRef} />
+      </div>
+
+      <div className="flex items-center space-x-3 text-sm text-gray-300">
+        <button
+          type="button"
+          onClick={handlePlayPause}
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+          className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          aria-label="Seek"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={position}
+          onChange={(e) => renderTo(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="font-mono text-xs text-gray-400 whitespace-nowrap">
+          {formatPlaybackTime(position)} / {formatPlaybackTime(duration)}
+        </span>
+        <select
+          aria-label="Playback speed"
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="px-2 py-1 rounded bg-gray-800 border border-gray-600 text-gray-200"
+        >
+          {SPEEDS.map(option => (
+            <option key={option} value={option}>{option}×</option>
+          ))}
+        </select>
+      </div>
+
+      {markers.length > 0 && (
+        <ul className="flex flex-wrap gap-2 text-xs">
+          {markers.map(marker => (
+            <li key={`${marker.time}-${marker.data}`}>
+              <button
+                type="button"
+                onClick={() => renderTo(marker.time)}
+                className="px-2 py-0.5 rounded bg-gray-800 text-gray-300 hover:bg-gray-700"
+              >
+                {formatPlaybackTime(marker.time)} {marker.data}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecordingPlayer;
@@ -4,10 +4,11 @@ import { Session, SessionStatus } from '../hooks/useSessions';
 
 interface SessionActionsProps {
   session: Session;
-  onStart: (sessionId: string) => Promise<boolean>;
-  onStop: (sessionId: string) => Promise<boolean>;
-  onDelete: (sessionId: string) => Promise<boolean>;
+  onStart?: (sessionId: string) => Promise<boolean>; // Start is hidden without it
+  onStop?: (sessionId: string) => Promise<boolean>; // Hidden for sessions shared with the user
+  onDelete?: (sessionId: string) => Promise<boolean>;
   disabled?: boolean;
+  allowOpen?: boolean; // false when the viewer can't open the session's terminal
 }
 
 export const SessionActions: React.FC<SessionActionsProps> = ({
@@ -15,7 +16,8 @@ export const SessionActions: React.FC<SessionActionsProps> = ({
   onStart,
   onStop,
   onDelete,
-  disabled = false
+  disabled = false,
+  allowOpen = true
 }) => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState<string | null>(null);
@@ -33,14 +35,14 @@ export const SessionActions: React.FC<SessionActionsProps> = ({
     navigate(`/terminal/${session.id}`);
   };
 
-  const handleStart = () => handleAction('start', () => onStart(session.id));
-  const handleStop = () => handleAction('stop', () => onStop(session.id));
-  const handleDelete = () => handleAction('delete', () => onDelete(session.id));
+  const handleStart = () => handleAction('start', () => onStart!(session.id));
+  const handleStop = () => handleAction('stop', () => onStop!(session.id));
+  const handleDelete = () => handleAction('delete', () => onDelete!(session.id));
 
-  const canStart = [SessionStatus.READY, SessionStatus.IDLE, SessionStatus.STOPPED].includes(session.status);
-  const canStop = [SessionStatus.RUNNING, SessionStatus.IDLE].includes(session.status);
-  const canOpenTerminal = [SessionStatus.READY, SessionStatus.RUNNING, SessionStatus.IDLE].includes(session.status);
-  const canDelete = session.status !== SessionStatus.CREATING && session.status !== SessionStatus.STOPPING;
+  const canStart = !!onStart && [SessionStatus.READY, SessionStatus.IDLE, SessionStatus.STOPPED].includes(session.status);
+  const canStop = !!onStop && [SessionStatus.RUNNING, SessionStatus.IDLE].includes(session.status);
+  const canOpenTerminal = allowOpen && [SessionStatus.READY, SessionStatus.RUNNING, SessionStatus.IDLE].includes(session.status);
+  const canDelete = !!onDelete && session.status !== SessionStatus.CREATING && session.status !== SessionStatus.STOPPING;
 
   return (
     <div className="flex items-center space-x-2">
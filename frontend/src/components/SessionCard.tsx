@@ -4,9 +4,10 @@ import { SessionActions } from './SessionActions';
 
 interface SessionCardProps {
   session: Session;
-  onStart: (sessionId: string) => Promise<boolean>;
-  onStop: (sessionId: string) => Promise<boolean>;
-  onDelete: (sessionId: string) => Promise<boolean>;
+  onStart?: (sessionId: string) => Promise<boolean>;
+  onStop?: (sessionId: string) => Promise<boolean>;
+  onDelete?: (sessionId: string) => Promise<boolean>;
+  allowOpen?: boolean;
   className?: string;
 }
 
@@ -15,6 +16,7 @@ export const SessionCard: React.FC<SessionCardProps> = ({
   onStart,
   onStop,
   onDelete,
+  allowOpen = true,
   className = ""
 }) => {
   const formatRelativeTime = (dateString: string): string => {
@@ -199,10 +201,11 @@ export const SessionCard: React.FC<SessionCardProps> = ({
         <div className="flex justify-end">
           <SessionActions
             session={session}
-            onStart={onStart}
-            onStop={onStop}
-            onDelete={onDelete}
+            {...(onStart && { onStart })}
+            {...(onStop && { onStop })}
+            {...(onDelete && { onDelete })}
             disabled={isExpired}
+            allowOpen={allowOpen}
           />
         </div>
       </div>
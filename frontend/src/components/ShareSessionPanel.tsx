@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { SessionShare, ShareRole } from '../hooks/useSessions';
+
+interface ShareSessionPanelProps {
+  shares: SessionShare[];
+  error?: string | null;
+  onShare: (username: string, role: ShareRole) => Promise<boolean>;
+  onRemove: (username: string) => Promise<boolean>;
+}
+
+const inputClassName = `
+  px-3 py-1.5 border border-gray-600 rounded-lg bg-gray-800 text-gray-100 text-sm
+  focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 focus:outline-none
+`;
+
+export const ShareSessionPanel: React.FC<ShareSessionPanelProps> = ({ shares, error, onShare, onRemove }) => {
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<ShareRole>('viewer');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    if (await onShare(username.trim(), role)) {
+      setUsername('');
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-700/50 bg-gray-800/40 space-y-3 text-sm flex-shrink-0">
+      <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+        <input
+          type="text"
+          aria-label="GitHub username"
+          placeholder="GitHub username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          maxLength={39}
+          className={`${inputClassName} flex-1`}
+        />
+        <select
+          aria-label="Share role"
+          value={role}
+          onChange={(e) => setRole(e.target.value as ShareRole)}
+          className={inputClassName}
+        >
+          <option value="viewer">Viewer (read-only)</option>
+          <option value="collaborator">Collaborator</option>
+        </select>
+        <button
+          type="submit"
+          disabled={!username.trim() || isSaving}
+          className="px-3 py-1.5 font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Invite
+        </button>
+      </form>
+
+      {role === 'collaborator' && (
+        <p className="text-yellow-400/90">
+          Collaborators get a shell in this session's container. They can read anything it holds, including
+          your secrets and the amp API key and GitHub token used while amp runs or you push.
+        </p>
+      )}
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      {shares.length === 0 ? (
+        <p className="text-gray-500">Not shared with anyone yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {shares.map(share => (
+            <li key={share.username} className="flex items-center justify-between text-gray-300">
+              <span>
+                <span className="font-medium">{share.username}</span>
+                <span className="text-gray-500"> · {share.role}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => onRemove(share.username)}
+                aria-label={`Stop sharing with ${share.username}`}
+                className="text-red-400 hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShareSessionPanel;
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { useSessionTemplates, SessionTemplateInput, SessionTemplateScope } from '../hooks/useSessionTemplates';
+
+interface TemplateSelectorProps {
+  repositoryName?: string | undefined; // owner/repo; repository templates are listed for it
+  value: string;
+  onChange: (templateId: string) => void;
+  disabled?: boolean;
+}
+
+interface TemplateFormState {
+  name: string;
+  scope: SessionTemplateScope;
+  image: string;
+  setupCommands: string;
+  environment: string;
+  initialPrompt: string;
+}
+
+const emptyForm: TemplateFormState = {
+  name: '',
+  scope: 'user',
+  image: '',
+  setupCommands: '',
+  environment: '',
+  initialPrompt: '',
+};
+
+const inputClassName = `
+  w-full px-3 py-2 border-2 border-gray-200 dark:border-gray-600 rounded-xl
+  bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm
+  focus:ring-4 focus:ring-blue-500/20 focus:border-blue-500 focus:outline-none
+  disabled:bg-gray-50 dark:disabled:bg-gray-900 disabled:cursor-not-allowed
+`;
+
+/**
+ * Parse KEY=value lines into an environment object, ignoring blank lines
+ */
+export function parseEnvironment(text: string): Record<string, string> {
+  return text.split('\n').reduce<Record<string, string>>((environment, line) => {
+    const separator = line.indexOf('=');
+    if (separator > 0) {
+      environment[line.slice(0, separator).trim()] = line.slice(separator + 1);
+    }
+    return environment;
+  }, {});
+}
+
+export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
+  repositoryName,
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const { user } = useAuth();
+  const { templates, isLoading, error, createTemplate, deleteTemplate } = useSessionTemplates(repositoryName);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<TemplateFormState>(emptyForm);
+
+  const selected = templates.find(template => template.id === value);
+  const ownsSelected = !!selected && !!user && String(user.id) === selected.ownerId;
+
+  const updateForm = (field: keyof TemplateFormState) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const handleCreate = async () => {
+    const input: SessionTemplateInput = {
+      name: form.name.trim(),
+      scope: form.scope,
+      setupCommands: form.setupCommands.split('\n').filter(command => command.trim()),
+      environment: parseEnvironment(form.environment),
+      ...(form.scope === 'repository' && repositoryName && { repositoryName }),
+      ...(form.image.trim() && { image: form.image.trim() }),
+      ...(form.initialPrompt.trim() && { initialPrompt: form.initialPrompt.trim() }),
+    };
+
+    const template = await createTemplate(input);
+    if (template) {
+      onChange(template.id);
+      setForm(emptyForm);
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (selected && await deleteTemplate(selected.id)) {
+      onChange('');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <select
+          id="template"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled || isLoading}
+          className={inputClassName}
+        >
+          <option value="">No template</option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name}{template.scope === 'repository' ? ' (repository)' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => setIsCreating(creating => !creating)}
+          disabled={disabled}
+          className="px-3 py-2 text-sm font-medium text-blue-700 dark:text-blue-300 whitespace-nowrap rounded-xl hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50"
+        >
+          {isCreating ? 'Cancel' : 'New template'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {selected && !isCreating && (
+        <div className="p-3 text-xs text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900/40 rounded-xl border border-gray-200 dark:border-gray-700 space-y-1">
+          {selected.description && <p>{selected.description}</p>}
+          <p>Image: <span className="font-mono">{selected.image || 'default'}</span></p>
+          <p>{selected.setupCommands.length} setup commands</p>
+          {Object.keys(selected.environment).length > 0 && (
+            <p>Environment: <span className="font-mono">{Object.keys(selected.environment).join(', ')}</span></p>
+          )}
+          {selected.initialPrompt && <p>Starts amp with: “{selected.initialPrompt}”</p>}
+          {ownsSelected && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={disabled}
+              className="text-red-600 hover:underline disabled:opacity-50"
+            >
+              Delete template
+            </button>
+          )}
+        </div>
+      )}
+
+      {isCreating && (
+        <div className="p-4 space-y-3 rounded-xl border border-gray-200 dark:border-gray-700">
+          <input
+            type="text"
+            aria-label="Template name"
+            placeholder="Template name"
+            value={form.name}
+            onChange={updateForm('name')}
+            className={inputClassName}
+          />
+          <select aria-label="Template scope" value={form.scope} onChange={updateForm('scope')} className={inputClassName}>
+            <option value="user">Only me</option>
+            <option value="repository" disabled={!repositoryName}>
+              Everyone using {repositoryName || 'this repository'}
+            </option>
+          </select>
+          <input
+            type="text"
+            aria-label="Image"
+            placeholder="Image (leave empty for the default)"
+            value={form.image}
+            onChange={updateForm('image')}
+            className={inputClassName}
+          />
+          <textarea
+            aria-label="Setup commands"
+            placeholder={'Setup commands, one per line\nnpm ci'}
+            value={form.setupCommands}
+            onChange={updateForm('setupCommands')}
+            rows={3}
+            className={`${inputClassName} font-mono`}
+          />
+          <textarea
+            aria-label="Environment variables"
+            placeholder={'Environment variables, one KEY=value per line'}
+            value={form.environment}
+            onChange={updateForm('environment')}
+            rows={2}
+            className={`${inputClassName} font-mono`}
+          />
+          <textarea
+            aria-label="Initial prompt"
+            placeholder="Initial amp prompt (optional)"
+            value={form.initialPrompt}
+            onChange={updateForm('initialPrompt')}
+            rows={2}
+            className={inputClassName}
+          />
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={!form.name.trim()}
+            className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-xl hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save template
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateSelector;
@@ -9,7 +9,8 @@ const Terminal: React.FC<TerminalProps> = ({
   sessionId,
   onReady,
   onData,
-  onResize
+  onResize,
+  readOnly = false
 }) => {
   const terminalRef = useRef<HTMLDivElement>(null);
 
@@ -21,9 +22,11 @@ const Terminal: React.FC<TerminalProps> = ({
   const {
     isConnected,
     error,
+    terminalState,
     sendInput,
     sendResize,
     sendControlSignal,
+    sendDriverAction,
     onOutput,
     onConnect,
     onDisconnect,
@@ -76,12 +79,20 @@ const Terminal: React.FC<TerminalProps> = ({
     };
   }, [onOutput, onConnect, onDisconnect, onError]);
 
+  // Several clients can share the shell; only the one holding the input lock types
+  const isDriver = !!terminalState && terminalState.driverId === terminalState.connectionId;
+  const canType = !readOnly && (!terminalState || isDriver);
+
   // Stable callback functions
   const handleData = useCallback((data: string) => {
+    // Observers and waiting collaborators only watch; the server ignores their input anyway
+    if (!canType) {
+      return;
+    }
     // Send terminal input to WebSocket
     sendInput(data);
     onData?.(data);
-  }, [sendInput, onData]);
+  }, [sendInput, onData, canType]);
 
   const handleResize = useCallback((resizeData: any) => {
     // Send resize event to WebSocket
@@ -93,12 +104,12 @@ const Terminal: React.FC<TerminalProps> = ({
 
   const handleControlKey = useCallback((key: string, event: KeyboardEvent) => {
     // Handle control key combinations
-    if (['SIGINT', 'SIGTERM', 'SIGTSTP', 'SIGQUIT'].includes(key)) {
+    if (canType && ['SIGINT', 'SIGTERM', 'SIGTSTP', 'SIGQUIT'].includes(key)) {
       event.preventDefault();
       // Send control signal to WebSocket
       sendControlSignal(key as any);
     }
-  }, [sendControlSignal]);
+  }, [sendControlSignal, canType]);
 
   // Terminal hook for xterm.js management
   const {
@@ -131,6 +142,18 @@ const Terminal: React.FC<TerminalProps> = ({
     }
   }, [terminalReady, terminal, focus, onReady]);
 
+  useEffect(() => {
+    if (terminal) {
+      terminal.options.disableStdin = !canType;
+    }
+  }, [terminal, canType]);
+
+  const nameOf = (connectionId: string | null) =>
+    terminalState?.clients.find(client => client.connectionId === connectionId)?.username || 'Someone';
+  const isShared = !!terminalState && (terminalState.clients.length > 1 || !isDriver);
+  const nextRequest = isDriver ? terminalState?.requests[0] : undefined;
+  const hasRequested = !!terminalState?.requests.includes(terminalState.connectionId);
+
   // Connection status effect - send resize with delay to ensure connection is stable
   useEffect(() => {
     if (isConnected && terminalReady && dimensions) {
@@ -156,8 +179,53 @@ const Terminal: React.FC<TerminalProps> = ({
           <span className="text-gray-300 font-medium">
             {isConnected ? 'Connected' : 'Disconnected'}
           </span>
+          {readOnly && (
+            <span className="text-xs text-yellow-300 bg-yellow-900/40 px-2 py-0.5 rounded">
+              Read-only
+            </span>
+          )}
         </div>
-        <div className="text-gray-400 text-xs font-mono bg-gray-700/30 px-2 py-1 rounded">
+        {isShared && terminalState && (
+          <div className="flex items-center space-x-2 text-xs text-gray-300">
+            <span>
+              {isDriver
+                ? 'You are driving'
+                : terminalState.driverId ? `${nameOf(terminalState.driverId)} is driving` : 'Nobody is driving'}
+            </span>
+            {isDriver && nextRequest && (
+              <button
+                type="button"
+                onClick={() => sendDriverAction('handover', nextRequest)}
+                className="px-2 py-0.5 rounded bg-blue-600/80 text-white hover:bg-blue-600"
+              >
+                Hand over to {nameOf(nextRequest)}
+              </button>
+            )}
+            {isDriver && terminalState.clients.length > 1 && (
+              <button
+                type="button"
+                onClick={() => sendDriverAction('release')}
+                className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600"
+              >
+                Release
+              </button>
+            )}
+            {!isDriver && terminalState.canDrive && !readOnly && (
+              <button
+                type="button"
+                onClick={() => sendDriverAction('request')}
+                disabled={hasRequested}
+                className="px-2 py-0.5 rounded bg-blue-600/80 text-white hover:bg-blue-600 disabled:opacity-50"
+              >
+                {terminalState.driverId ? (hasRequested ? 'Requested' : 'Request control') : 'Take control'}
+              </button>
+            )}
+          </div>
+        )}
+        <div
+          className="text-gray-400 text-xs font-mono bg-gray-700/30 px-2 py-1 rounded"
+          {...(terminalState?.size && { title: `Shared shell size: ${terminalState.size.cols}×${terminalState.size.rows} (smallest attached viewport)` })}
+        >
           {dimensions.cols}×{dimensions.rows}
         </div>
       </div>
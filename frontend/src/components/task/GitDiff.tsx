@@ -25,19 +25,26 @@ export interface GitDiffProps {
    * Callback when an error occurs
    */
   onError?: (error: Error) => void;
+
+  /**
+   * Show the diff without commit and push actions
+   */
+  readOnly?: boolean;
 }
 
 export const GitDiff: React.FC<GitDiffProps> = ({
   sessionId,
   className = '',
   onRefresh,
-  onError
+  onError,
+  readOnly = false
 }) => {
   const [diffData, setDiffData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showGitOperations, setShowGitOperations] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [pullRequestUrl, setPullRequestUrl] = useState<string | null>(null);
   const [hasUnpushedCommits, setHasUnpushedCommits] = useState(false);
 
   const {
@@ -47,6 +54,7 @@ export const GitDiff: React.FC<GitDiffProps> = ({
     lastCommitHash,
     commit,
     push,
+    getPullRequestDefaults,
     clearError: clearGitError
   } = useGit();
 
@@ -143,10 +151,12 @@ export const GitDiff: React.FC<GitDiffProps> = ({
     
     clearGitError();
     setSuccessMessage(null);
+    setPullRequestUrl(null);
     
     const result = await push(sessionId, pushOptions);
     if (result.success) {
-      setSuccessMessage(`Changes pushed successfully${result.pullRequestUrl ? ` - ${result.pullRequestUrl}` : ''}`);
+      setSuccessMessage(result.pullRequestUrl ? 'Changes pushed and pull request opened' : 'Changes pushed successfully');
+      setPullRequestUrl(result.pullRequestUrl || null);
       // After successful push, we no longer have unpushed commits
       setHasUnpushedCommits(false);
     }
@@ -211,15 +221,17 @@ export const GitDiff: React.FC<GitDiffProps> = ({
               Refresh
             </button>
 
-            <button
-              onClick={() => setShowGitOperations(!showGitOperations)}
-              className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-gradient-to-r from-green-600 to-blue-600 rounded-lg hover:from-green-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-green-500/20 transition-all duration-200"
-            >
-              <svg className="w-4 h-4 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
-              </svg>
-              {showGitOperations ? 'Hide Git Actions' : 'Git Actions'}
-            </button>
+            {!readOnly && (
+              <button
+                onClick={() => setShowGitOperations(!showGitOperations)}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-gradient-to-r from-green-600 to-blue-600 rounded-lg hover:from-green-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-green-500/20 transition-all duration-200"
+              >
+                <svg className="w-4 h-4 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                </svg>
+                {showGitOperations ? 'Hide Git Actions' : 'Git Actions'}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -233,6 +245,16 @@ export const GitDiff: React.FC<GitDiffProps> = ({
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
               </svg>
               <span className="text-green-800 dark:text-green-200">{successMessage}</span>
+              {pullRequestUrl && (
+                <a
+                  href={pullRequestUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="ml-3 text-sm font-medium text-green-700 dark:text-green-300 underline hover:text-green-900 dark:hover:text-green-100"
+                >
+                  View pull request
+                </a>
+              )}
             </div>
           )}
           
@@ -248,7 +270,7 @@ export const GitDiff: React.FC<GitDiffProps> = ({
       )}
 
       {/* Git Operations Panel */}
-      {showGitOperations && (
+      {showGitOperations && !readOnly && (
         <div className="flex-shrink-0 p-4 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
           <div className="grid md:grid-cols-2 gap-4">
             <CommitPanel
@@ -260,6 +282,7 @@ export const GitDiff: React.FC<GitDiffProps> = ({
             
             <GitActions
               onPush={handlePush}
+              onLoadPullRequestDefaults={() => getPullRequestDefaults(sessionId)}
               pushing={pushing}
               hasCommits={!!lastCommitHash || hasUnpushedCommits}
               disabled={committing || pushing}
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { MessageBubbleProps, MessageRole, RoleConfig } from '../../types/threadMessage';
 import { formatTimestamp, getMetadataDisplay, formatFilesList } from '../../utils/messageFormatting';
 import MarkdownRenderer from '../ui/MarkdownRenderer';
@@ -114,8 +114,11 @@ const getMetadataIndicator = (type?: string, exitCode?: number) => {
 
 export const MessageBubble: React.FC<MessageBubbleProps> = ({ 
   message, 
-  className = '' 
+  className = '',
+  onRevert,
+  isReverting = false
 }) => {
+  const [confirmingRevert, setConfirmingRevert] = useState(false);
   const { role, content, ts, metadata } = message;
   const roleConfig = getRoleConfig(role);
   const Icon = roleConfig.icon;
@@ -123,9 +126,10 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
   const metadataText = getMetadataDisplay(metadata);
   const files = formatFilesList(metadata?.files);
   const metadataIndicator = getMetadataIndicator(metadata?.type, metadata?.exitCode);
+  const canRevert = role === 'user' && !!metadata?.snapshot_ref && !!onRevert;
 
   return (
-    <div className={`flex space-x-3 mb-4 ${className}`}>
+    <div id={`message-${message.id}`} className={`flex space-x-3 mb-4 ${className}`}>
       {/* Avatar */}
       <div className="flex-shrink-0">
         <div className={`w-8 h-8 rounded-full ${roleConfig.bgColor} flex items-center justify-center shadow-sm`}>
@@ -144,6 +148,45 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
             {timestamp}
           </span>
           {metadataIndicator}
+          {metadata?.streaming && (
+            <span className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400">
+              <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse" />
+              <span>Writing…</span>
+            </span>
+          )}
+          {canRevert && (
+            <div className="ml-auto flex items-center space-x-2 text-xs">
+              {isReverting ? (
+                <span className="text-gray-500 dark:text-gray-400">Reverting…</span>
+              ) : confirmingRevert ? (
+                <>
+                  <span className="text-gray-600 dark:text-gray-400">Discard changes made since?</span>
+                  <button
+                    onClick={() => {
+                      setConfirmingRevert(false);
+                      onRevert(message);
+                    }}
+                    className="font-medium text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Revert
+                  </button>
+                  <button
+                    onClick={() => setConfirmingRevert(false)}
+                    className="text-gray-500 dark:text-gray-400 hover:underline"
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setConfirmingRevert(true)}
+                  className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  Revert to before this message
+                </button>
+              )}
+            </div>
+          )}
         </div>
         
         {/* Message Bubble */}
@@ -11,6 +11,16 @@ export interface MessageInputProps {
    */
   isSending?: boolean;
   
+  /**
+   * Whether amp is working on a turn; shows the Stop button when onStop is set
+   */
+  isProcessing?: boolean;
+  
+  /**
+   * Callback when user asks to stop the running turn
+   */
+  onStop?: (() => void) | undefined;
+  
   /**
    * Whether the input is disabled
    */
@@ -40,6 +50,8 @@ export interface MessageInputProps {
 export const MessageInput: React.FC<MessageInputProps> = ({
   onSendMessage,
   isSending = false,
+  isProcessing = false,
+  onStop,
   disabled = false,
   placeholder = "Type a message to continue the task... (⌘/Ctrl + Enter to send)",
   className = '',
@@ -90,6 +102,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
 
   const isValid = message.trim().length > 0;
   const canSend = isValid && !isSending && !disabled;
+  const canStop = isProcessing && !!onStop;
 
   return (
     <div className={`border-t border-gray-200 dark:border-gray-700 p-4 bg-white dark:bg-gray-900 ${className}`}>
@@ -115,29 +128,42 @@ export const MessageInput: React.FC<MessageInputProps> = ({
             aria-label="Message input"
           />
         </div>
-        <button
-          onClick={handleSend}
-          disabled={!canSend}
-          className={`
-            inline-flex items-center justify-center w-10 h-10 rounded-lg
-            transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2
-            ${
-              canSend
-                ? 'bg-blue-600 hover:bg-blue-700 text-white focus:ring-blue-500'
-                : 'bg-gray-100 dark:bg-gray-700 text-gray-400 dark:text-gray-500 cursor-not-allowed'
-            }
-          `}
-          title={isSending ? 'Sending...' : 'Send message (⌘/Ctrl + Enter)'}
-          aria-label={isSending ? 'Sending message' : 'Send message'}
-        >
-          {isSending ? (
-            <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
-          ) : (
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+        {canStop ? (
+          <button
+            onClick={onStop}
+            className="inline-flex items-center justify-center w-10 h-10 rounded-lg bg-red-600 hover:bg-red-700 text-white transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+            title="Stop amp"
+            aria-label="Stop amp"
+          >
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+              <rect x="4" y="4" width="12" height="12" rx="1.5" />
             </svg>
-          )}
-        </button>
+          </button>
+        ) : (
+          <button
+            onClick={handleSend}
+            disabled={!canSend}
+            className={`
+              inline-flex items-center justify-center w-10 h-10 rounded-lg
+              transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2
+              ${
+                canSend
+                  ? 'bg-blue-600 hover:bg-blue-700 text-white focus:ring-blue-500'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-400 dark:text-gray-500 cursor-not-allowed'
+              }
+            `}
+            title={isSending ? 'Sending...' : 'Send message (⌘/Ctrl + Enter)'}
+            aria-label={isSending ? 'Sending message' : 'Send message'}
+          >
+            {isSending ? (
+              <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+            )}
+          </button>
+        )}
       </div>
       {showHint && !disabled && (
         <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
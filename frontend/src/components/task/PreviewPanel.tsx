@@ -0,0 +1,157 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { api } from '../../utils/api';
+
+export interface PreviewPort {
+  port: number;
+  address: string;
+  reachable: boolean;
+}
+
+export interface PreviewPanelProps {
+  /**
+   * Session whose container is previewed
+   */
+  sessionId: string;
+
+  /**
+   * Ports declared in the repository's .amplify.yml, listed even before they listen
+   * and preferred over other servers
+   */
+  declaredPorts?: number[];
+
+  /**
+   * Custom className for the container
+   */
+  className?: string;
+}
+
+// Stable default so fetchPorts isn't recreated on every render
+const NO_PORTS: number[] = [];
+
+/**
+ * Shows a web server running inside the session container, picked from its listening ports
+ */
+export const PreviewPanel: React.FC<PreviewPanelProps> = ({
+  sessionId,
+  declaredPorts = NO_PORTS,
+  className = ''
+}) => {
+  const [ports, setPorts] = useState<PreviewPort[]>([]);
+  const [selectedPort, setSelectedPort] = useState<number | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const fetchPorts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await api.get(`/sessions/${sessionId}/preview/ports`);
+      const listening: PreviewPort[] = response.data?.ports || [];
+      setToken(response.data?.token || null);
+      const discovered = [
+        ...listening,
+        ...declaredPorts
+          .filter(port => !listening.some(listener => listener.port === port))
+          .map(port => ({ port, address: '', reachable: false }))
+      ].sort((a, b) => a.port - b.port);
+      setPorts(discovered);
+
+      // Keep the current selection while it is still listening
+      setSelectedPort(current => {
+        if (current !== null && discovered.some(port => port.port === current && port.reachable)) {
+          return current;
+        }
+        const reachable = discovered.filter(port => port.reachable);
+        return (reachable.find(port => declaredPorts.includes(port.port)) ?? reachable[0])?.port ?? null;
+      });
+    } catch (err: any) {
+      setError(err.message || 'Failed to load ports');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, declaredPorts]);
+
+  useEffect(() => {
+    fetchPorts();
+  }, [fetchPorts]);
+
+  // The token authenticates the page, which is sandboxed and so sends no cookies
+  const previewUrl = selectedPort !== null && token
+    ? `/api/sessions/${sessionId}/preview/${token}/${selectedPort}/`
+    : null;
+
+  return (
+    <div className={`flex flex-col h-full ${className}`}>
+      <div className="flex items-center space-x-3 px-4 py-2 border-b border-gray-700/50 bg-gray-800/40">
+        <label htmlFor="preview-port" className="text-xs text-gray-400">Port</label>
+        <select
+          id="preview-port"
+          value={selectedPort ?? ''}
+          onChange={(e) => setSelectedPort(e.target.value ? Number(e.target.value) : null)}
+          disabled={ports.length === 0}
+          className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        >
+          {ports.length === 0 && <option value="">No ports</option>}
+          {ports.map(port => (
+            <option key={port.port} value={port.port} disabled={!port.reachable}>
+              {port.port}{port.reachable ? '' : port.address ? ' (localhost only)' : ' (not started)'}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => {
+            fetchPorts();
+            setReloadKey(key => key + 1);
+          }}
+          className="px-3 py-1 text-sm text-gray-300 bg-gray-700/50 border border-gray-600 rounded hover:bg-gray-600/50 hover:text-white transition-colors"
+        >
+          Refresh
+        </button>
+        {previewUrl && (
+          <a
+            href={previewUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-blue-400 hover:text-blue-300"
+          >
+            Open in new tab
+          </a>
+        )}
+      </div>
+
+      <div className="flex-1 bg-white">
+        {previewUrl ? (
+          <iframe
+            key={`${previewUrl}-${reloadKey}`}
+            src={previewUrl}
+            title={`Preview of port ${selectedPort}`}
+            className="w-full h-full border-0"
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center bg-gray-900 text-gray-400">
+            <div className="text-center max-w-md px-4">
+              {loading ? (
+                <div className="text-sm">Looking for servers...</div>
+              ) : error ? (
+                <div className="text-sm text-red-400">{error}</div>
+              ) : (
+                <>
+                  <div className="text-lg font-medium mb-2">Nothing to preview</div>
+                  <div className="text-sm">
+                    {ports.some(port => port.address)
+                      ? 'Servers are only listening on localhost. Start them on 0.0.0.0 to preview them here.'
+                      : 'Start a web server in the session, then refresh.'}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PreviewPanel;
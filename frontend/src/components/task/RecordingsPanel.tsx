@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import RecordingPlayer from '../RecordingPlayer';
+import { useRecordings, RecordingSummary } from '../../hooks/useRecordings';
+import { Asciicast, formatPlaybackTime } from '../../utils/asciicast';
+
+export interface RecordingsPanelProps {
+  /**
+   * Session whose terminal recordings are listed
+   */
+  sessionId: string;
+
+  /**
+   * Custom className for the container
+   */
+  className?: string;
+}
+
+/**
+ * Lists a session's terminal recordings and plays the selected one back
+ */
+export const RecordingsPanel: React.FC<RecordingsPanelProps> = ({ sessionId, className = '' }) => {
+  const { recordings, isLoading, error, refresh, loadRecording } = useRecordings(sessionId);
+  const [selected, setSelected] = useState<{ id: string; recording: Asciicast } | null>(null);
+
+  const handleSelect = async (summary: RecordingSummary) => {
+    const recording = await loadRecording(summary.id);
+    if (recording) {
+      setSelected({ id: summary.id, recording });
+    }
+  };
+
+  return (
+    <div className={`h-full flex bg-gray-900 text-gray-300 ${className}`}>
+      <div className="w-72 flex-shrink-0 border-r border-gray-700/50 overflow-y-auto">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700/50">
+          <h3 className="text-sm font-semibold text-white">Recordings</h3>
+          <button
+            type="button"
+            onClick={refresh}
+            disabled={isLoading}
+            className="text-xs text-blue-400 hover:underline disabled:opacity-50"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {error && <p className="px-4 py-2 text-sm text-red-400">{error}</p>}
+
+        {recordings.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-gray-500">
+            {isLoading ? 'Loading recordings...' : 'No recordings yet. Terminal sessions are recorded automatically.'}
+          </p>
+        ) : (
+          <ul>
+            {recordings.map(summary => (
+              <li key={summary.id}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(summary)}
+                  className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-800/60 ${
+                    selected?.id === summary.id ? 'bg-gray-800/80 text-white' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span>{new Date(summary.startedAt).toLocaleString()}</span>
+                    {summary.isRecording && (
+                      <span className="text-xs text-red-400">● live</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatPlaybackTime(summary.duration)} · {summary.cols}×{summary.rows} · {Math.ceil(summary.size / 1024)} KiB
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        {selected ? (
+          <div className="space-y-2">
+            <div className="flex justify-end">
+              <a
+                href={`/api/sessions/${sessionId}/recordings/${selected.id}?download`}
+                className="text-xs text-blue-400 hover:underline"
+              >
+                Download .cast
+              </a>
+            </div>
+            <RecordingPlayer recording={selected.recording} />
+          </div>
+        ) : (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500">
+            Select a recording to play it back.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecordingsPanel;
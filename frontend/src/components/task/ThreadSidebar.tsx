@@ -1,56 +1,68 @@
-import React, { useState, useEffect } from 'react';
-import { getThreadHistory, DevSessionData } from '../../services/devSession';
-
-interface ThreadInfo extends DevSessionData {
-  lastAccessed: string;
-  messageCount?: number;
-  lastMessage?: {
-    content: string;
-    timestamp: string;
-    type: string;
-  } | null;
-}
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useThreadSearch, SearchHighlight } from '../../hooks/useThreadSearch';
+import { useSessionThreads } from '../../hooks/useSessionThreads';
 
 interface ThreadSidebarProps {
-  currentSessionId: string;
-  onSelectThread: (sessionData: DevSessionData) => void;
-  onNewThread: () => void;
+  sessionId: string;
+  onThreadChange?: (threadId: string) => void;
   isOpen: boolean;
   onToggle: () => void;
 }
 
+const renderHighlightedSnippet = (snippet: string, highlights: SearchHighlight[]) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  highlights.forEach((highlight, index) => {
+    if (highlight.start > cursor) {
+      parts.push(snippet.slice(cursor, highlight.start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-500/30 text-yellow-200 rounded px-0.5">
+        {snippet.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    cursor = highlight.end;
+  });
+
+  if (cursor < snippet.length) {
+    parts.push(snippet.slice(cursor));
+  }
+
+  return parts;
+};
+
 const ThreadSidebar: React.FC<ThreadSidebarProps> = ({
-  currentSessionId,
-  onSelectThread,
-  onNewThread,
+  sessionId,
+  onThreadChange,
   isOpen,
   onToggle
 }) => {
-  const [threads, setThreads] = useState<ThreadInfo[]>([]);
-  const [backendThreads, setBackendThreads] = useState<any[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-
-  // Load thread history from localStorage and backend
-  useEffect(() => {
-    const localThreads = getThreadHistory();
-    setThreads(localThreads);
-    
-    // Also fetch from backend for additional info
-    fetchBackendThreads();
-  }, []);
-
-  const fetchBackendThreads = async () => {
-    try {
-      setIsLoading(true);
-      const response = await fetch('http://localhost:3000/api/dev/thread/sessions');
-      if (response.ok) {
-        const data = await response.json();
-        setBackendThreads(data.sessions || []);
-      }
-    } catch (error) {
-      console.error('Failed to fetch backend threads:', error);
-    } finally {
-      setIsLoading(false);
+  const {
+    threads,
+    isLoading,
+    error: threadsError,
+    createThread,
+    switchThread,
+    archiveThread
+  } = useSessionThreads(sessionId);
+  const [searchQuery, setSearchQuery] = useState('');
+  const { results: searchResults, isSearching, error: searchError } = useThreadSearch(searchQuery);
+  const isSearchActive = searchQuery.trim().length > 0;
+
+  const handleNewThread = async () => {
+    const thread = await createThread();
+    if (thread) {
+      onThreadChange?.(thread.id);
+      onToggle();
+    }
+  };
+
+  const handleSelectThread = async (threadId: string) => {
+    if (await switchThread(threadId)) {
+      onThreadChange?.(threadId);
+      onToggle();
     }
   };
 
@@ -69,15 +81,6 @@ const ThreadSidebar: React.FC<ThreadSidebarProps> = ({
     return date.toLocaleDateString();
   };
 
-  const getThreadInfo = (thread: ThreadInfo) => {
-    const backendInfo = backendThreads.find(bt => bt.sessionId === thread.sessionId);
-    return {
-      ...thread,
-      messageCount: backendInfo?.messageCount || 0,
-      lastMessage: backendInfo?.lastMessage
-    };
-  };
-
   if (!isOpen) {
     console.log('ThreadSidebar: Rendering hamburger button, isOpen =', isOpen);
     return (
@@ -132,18 +135,70 @@ const ThreadSidebar: React.FC<ThreadSidebarProps> = ({
         {/* New Thread Button */}
         <div className="p-4 border-b border-gray-700">
           <button
-            onClick={() => {
-              onNewThread();
-              onToggle();
-            }}
+            onClick={handleNewThread}
             className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
           >
             + New Thread
           </button>
         </div>
 
+        {/* Search */}
+        <div className="p-4 border-b border-gray-700">
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search all threads..."
+            aria-label="Search threads"
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+          />
+        </div>
+
+        {/* Search Results */}
+        {isSearchActive && (
+          <div className="flex-1 overflow-y-auto">
+            {isSearching && (
+              <div className="p-4 text-center text-gray-400 text-sm">Searching...</div>
+            )}
+
+            {searchError && !isSearching && (
+              <div className="p-4 text-center text-red-400 text-sm">{searchError}</div>
+            )}
+
+            {!isSearching && !searchError && searchResults.length === 0 && (
+              <div className="p-4 text-center text-gray-400 text-sm">No matching messages</div>
+            )}
+
+            {!isSearching && searchResults.map((result) => (
+              <Link
+                key={`${result.sessionId}:${result.messageId}`}
+                to={result.link}
+                onClick={onToggle}
+                className="block p-4 hover:bg-gray-800 transition-colors border-b border-gray-800"
+              >
+                <div className="flex justify-between items-start mb-1">
+                  <div className="text-xs font-medium text-gray-300 truncate">
+                    {result.repositoryName}
+                  </div>
+                  <div className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                    {formatTimestamp(result.timestamp)}
+                  </div>
+                </div>
+                <div className="text-sm text-gray-400 break-words">
+                  {result.field !== 'content' && (
+                    <span className="text-xs text-gray-500 mr-1">
+                      {result.field === 'tool' ? 'Tool:' : 'File:'}
+                    </span>
+                  )}
+                  {renderHighlightedSnippet(result.snippet, result.highlights)}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+
         {/* Thread List */}
-        <div className="flex-1 overflow-y-auto">
+        <div className={`flex-1 overflow-y-auto ${isSearchActive ? 'hidden' : ''}`}>
           {isLoading && (
             <div className="p-4 text-center text-gray-400">
               <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
@@ -151,6 +206,10 @@ const ThreadSidebar: React.FC<ThreadSidebarProps> = ({
             </div>
           )}
           
+          {threadsError && !isLoading && (
+            <div className="p-4 text-center text-red-400 text-sm">{threadsError}</div>
+          )}
+
           {threads.length === 0 && !isLoading && (
             <div className="p-4 text-center text-gray-400">
               No threads yet
@@ -158,42 +217,47 @@ const ThreadSidebar: React.FC<ThreadSidebarProps> = ({
           )}
 
           {threads.map((thread) => {
-            const threadInfo = getThreadInfo(thread);
-            const isActive = thread.sessionId === currentSessionId;
-            
+            const isArchived = Boolean(thread.archivedAt);
+
             return (
-              <button
-                key={thread.sessionId}
-                onClick={() => {
-                  onSelectThread(thread);
-                  onToggle();
-                }}
-                className={`w-full p-4 text-left hover:bg-gray-800 transition-colors border-b border-gray-800 ${
-                  isActive ? 'bg-gray-800 border-l-4 border-l-blue-600' : ''
-                }`}
+              <div
+                key={thread.id}
+                className={`flex items-start border-b border-gray-800 ${
+                  thread.isActive ? 'bg-gray-800 border-l-4 border-l-blue-600' : ''
+                } ${isArchived ? 'opacity-50' : ''}`}
               >
-                <div className="flex justify-between items-start mb-2">
-                  <div className="text-sm font-medium text-gray-300">
-                    Thread {thread.sessionId.split('-').pop()?.substring(0, 6)}
+                <button
+                  onClick={() => handleSelectThread(thread.id)}
+                  disabled={isArchived}
+                  className="flex-1 min-w-0 p-4 text-left hover:bg-gray-800 transition-colors disabled:cursor-default disabled:hover:bg-transparent"
+                >
+                  <div className="flex justify-between items-start mb-2">
+                    <div className="text-sm font-medium text-gray-300 truncate">
+                      {thread.title}
+                    </div>
+                    <div className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                      {formatTimestamp(thread.lastMessageTime || thread.createdAt)}
+                    </div>
                   </div>
+
                   <div className="text-xs text-gray-500">
-                    {formatTimestamp(thread.lastAccessed)}
-                  </div>
-                </div>
-                
-                {threadInfo.lastMessage && (
-                  <div className="text-sm text-gray-400 mb-2">
-                    <span className={`inline-block w-2 h-2 rounded-full mr-2 ${
-                      threadInfo.lastMessage.type === 'user' ? 'bg-green-500' : 'bg-blue-500'
-                    }`}></span>
-                    {threadInfo.lastMessage.content}
+                    {thread.messageCount} messages{isArchived && ' · Archived'}
                   </div>
+                </button>
+
+                {!isArchived && (
+                  <button
+                    onClick={() => archiveThread(thread.id)}
+                    className="p-4 text-gray-500 hover:text-gray-300"
+                    title="Archive thread"
+                    aria-label={`Archive ${thread.title}`}
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                    </svg>
+                  </button>
                 )}
-                
-                <div className="text-xs text-gray-500">
-                  {threadInfo.messageCount} messages
-                </div>
-              </button>
+              </div>
             );
           })}
         </div>
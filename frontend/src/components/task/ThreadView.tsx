@@ -4,7 +4,9 @@ import MessageInput from './MessageInput';
 import useAutoScroll from '../../hooks/useAutoScroll';
 import useThreadMessages from '../../hooks/useThreadMessages';
 import useThreadHistory from '../../hooks/useThreadHistory';
+import useGit from '../../hooks/useGit';
 import { ConnectionState } from '../../services/threadWebSocket';
+import { ThreadMessage } from '../../types/threadMessage';
 
 export interface ThreadViewProps {
   /**
@@ -36,6 +38,11 @@ export interface ThreadViewProps {
    * Callback when an error occurs
    */
   onError?: (error: Error) => void;
+
+  /**
+   * Watch the thread without sending messages or reverting the workspace
+   */
+  readOnly?: boolean;
 }
 
 // Loading spinner component
@@ -145,7 +152,8 @@ export const ThreadView: React.FC<ThreadViewProps> = ({
   loadHistory = true,
   apiBaseUrl,
   onConnectionChange,
-  onError
+  onError,
+  readOnly = false
 }) => {
   // Get WebSocket connection and real-time messages
   const {
@@ -154,8 +162,10 @@ export const ThreadView: React.FC<ThreadViewProps> = ({
     connectionState,
     isLoading: wsLoading,
     isSending,
+    isProcessing,
     error: wsError,
     sendMessage,
+    cancelTurn,
     clearError,
     reconnect
   } = useThreadMessages({
@@ -242,6 +252,21 @@ export const ThreadView: React.FC<ThreadViewProps> = ({
     reconnect();
   };
 
+  const { restoreSnapshot } = useGit();
+  const [revertingId, setRevertingId] = React.useState<string | null>(null);
+  const [revertNotice, setRevertNotice] = React.useState<{ success: boolean; text: string } | null>(null);
+
+  const handleRevert = async (message: ThreadMessage) => {
+    setRevertingId(message.id);
+    setRevertNotice(null);
+
+    const result = await restoreSnapshot(sessionId, message.id);
+    setRevertingId(null);
+    setRevertNotice(result.success
+      ? { success: true, text: 'Workspace reverted to before that message.' }
+      : { success: false, text: result.error || 'Failed to revert workspace' });
+  };
+
   return (
     <div className={`flex flex-col h-full bg-gray-50 dark:bg-gray-900 ${className}`}>
       {/* Connection Status */}
@@ -262,6 +287,8 @@ export const ThreadView: React.FC<ThreadViewProps> = ({
                 <MessageBubble
                   key={message.id}
                   message={message}
+                  {...(!isProcessing && !readOnly && { onRevert: handleRevert })}
+                  isReverting={revertingId === message.id}
                 />
               ))}
               {/* Load More Button */}
@@ -282,13 +309,41 @@ export const ThreadView: React.FC<ThreadViewProps> = ({
         </div>
       </div>
 
+      {/* Revert Result */}
+      {revertNotice && (
+        <div
+          role="status"
+          className={`flex-shrink-0 mx-4 mb-2 px-3 py-2 rounded-md text-sm flex items-center justify-between ${
+            revertNotice.success
+              ? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+              : 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+          }`}
+        >
+          <span>{revertNotice.text}</span>
+          <button
+            onClick={() => setRevertNotice(null)}
+            className="ml-4 text-xs hover:underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Message Input */}
       <div className="flex-shrink-0">
-        <MessageInput
-          onSendMessage={handleSendMessage}
-          isSending={isSending}
-          disabled={!isConnected || isLoading}
-        />
+        {readOnly ? (
+          <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700">
+            You are watching this thread. Only the owner and collaborators can send messages.
+          </p>
+        ) : (
+          <MessageInput
+            onSendMessage={handleSendMessage}
+            isSending={isSending}
+            isProcessing={isProcessing}
+            onStop={cancelTurn}
+            disabled={!isConnected || isLoading}
+          />
+        )}
       </div>
     </div>
   );
@@ -6,6 +6,7 @@ interface User {
   name: string;
   email: string;
   avatarUrl: string;
+  isAdmin?: boolean;
 }
 
 interface AuthContextType {
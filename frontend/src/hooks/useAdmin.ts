@@ -0,0 +1,168 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+import { Session, SessionStatus } from './useSessions';
+import { Notice, NoticeLevel } from './useNotices';
+
+export interface AdminSession extends Session {
+  ownerUsername: string;
+}
+
+export interface AdminSessionStats {
+  totalSessions: number;
+  activeSessions: number;
+  userSessions: number; // users with at least one session
+  totalConnections: number;
+  activeConnections: number;
+}
+
+export interface CleanupRun {
+  trigger: 'scheduled' | 'manual';
+  startedAt: string;
+  finishedAt?: string;
+  hibernatedSessions: number;
+  expiredSessions: number;
+  cleanedSessions: number;
+  failedSessions: number;
+  error?: string;
+}
+
+export interface CleanupStatus {
+  isRunning: boolean;
+  nextCleanup?: string;
+  runs: CleanupRun[];
+}
+
+export interface ContainerInspection {
+  id: string;
+  name: string;
+  status: string;
+  created: string;
+  image: string;
+  state: {
+    running: boolean;
+    paused: boolean;
+    startedAt: string;
+    finishedAt: string;
+    exitCode: number;
+    oomKilled: boolean;
+    restartCount: number;
+  };
+  resources: {
+    memory: number;
+    cpus: number;
+    pidsLimit: number | null;
+  };
+  networks: string[];
+  mounts: Array<{ type: string; source: string; destination: string }>;
+}
+
+export interface UseAdminReturn {
+  sessions: AdminSession[];
+  stats: AdminSessionStats | null;
+  statusCounts: Partial<Record<SessionStatus, number>>;
+  cleanup: CleanupStatus | null;
+  notices: Notice[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  stopSession: (sessionId: string) => Promise<boolean>;
+  deleteSession: (sessionId: string) => Promise<boolean>;
+  inspectContainer: (sessionId: string) => Promise<ContainerInspection | null>;
+  runCleanup: () => Promise<boolean>;
+  postNotice: (message: string, level: NoticeLevel) => Promise<boolean>;
+  removeNotice: (noticeId: string) => Promise<boolean>;
+}
+
+/**
+ * Server-wide sessions, cleanup runs and notices for the admin console
+ */
+export function useAdmin(): UseAdminReturn {
+  const [sessions, setSessions] = useState<AdminSession[]>([]);
+  const [stats, setStats] = useState<AdminSessionStats | null>(null);
+  const [statusCounts, setStatusCounts] = useState<Partial<Record<SessionStatus, number>>>({});
+  const [cleanup, setCleanup] = useState<CleanupStatus | null>(null);
+  const [notices, setNotices] = useState<Notice[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [sessionsResponse, cleanupResponse, noticesResponse] = await Promise.all([
+        api.get<AdminSession[]>('/admin/sessions'),
+        api.get<CleanupStatus>('/admin/cleanup'),
+        api.get<Notice[]>('/admin/notices')
+      ]);
+      setSessions(sessionsResponse.data || []);
+      setStats(sessionsResponse.meta?.stats || null);
+      setStatusCounts(sessionsResponse.meta?.statusCounts || {});
+      setCleanup(cleanupResponse.data || null);
+      setNotices(noticesResponse.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load admin data');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Run an admin action, then reload so every panel reflects it
+   */
+  const perform = useCallback(async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      await refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    }
+  }, [refresh]);
+
+  const stopSession = useCallback((sessionId: string) =>
+    perform(() => api.post(`/admin/sessions/${sessionId}/stop`), 'Failed to stop session'), [perform]);
+
+  const deleteSession = useCallback((sessionId: string) =>
+    perform(() => api.delete(`/admin/sessions/${sessionId}`), 'Failed to delete session'), [perform]);
+
+  const runCleanup = useCallback(() =>
+    perform(() => api.post('/admin/cleanup/run'), 'Failed to run cleanup'), [perform]);
+
+  const postNotice = useCallback((message: string, level: NoticeLevel) =>
+    perform(() => api.post('/admin/notices', { message, level }), 'Failed to post notice'), [perform]);
+
+  const removeNotice = useCallback((noticeId: string) =>
+    perform(() => api.delete(`/admin/notices/${noticeId}`), 'Failed to remove notice'), [perform]);
+
+  const inspectContainer = useCallback(async (sessionId: string) => {
+    try {
+      const response = await api.get<ContainerInspection>(`/admin/sessions/${sessionId}/container`);
+      return response.data || null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to inspect container');
+      return null;
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    sessions,
+    stats,
+    statusCounts,
+    cleanup,
+    notices,
+    isLoading,
+    error,
+    refresh,
+    stopSession,
+    deleteSession,
+    inspectContainer,
+    runCleanup,
+    postNotice,
+    removeNotice
+  };
+}
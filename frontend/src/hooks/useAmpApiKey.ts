@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { authApi } from '../utils/api';
+
+export interface AmpApiKeyStatus {
+  configured: boolean;
+  hint?: string; // last characters of the stored key
+  updatedAt?: string;
+  sharedKeyAllowed: boolean; // sessions may use the server's key while none is stored
+}
+
+export interface UseAmpApiKeyReturn {
+  status: AmpApiKeyStatus | null;
+  isSaving: boolean;
+  error: string | null;
+  saveKey: (apiKey: string) => Promise<boolean>;
+  removeKey: () => Promise<boolean>;
+}
+
+/**
+ * Manage the amp API key the user's sessions run amp with
+ */
+export function useAmpApiKey(): UseAmpApiKeyReturn {
+  const [status, setStatus] = useState<AmpApiKeyStatus | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await authApi.get<AmpApiKeyStatus>('/amp-key');
+      setStatus(response.data || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load amp API key');
+    }
+  }, []);
+
+  const saveKey = useCallback(async (apiKey: string) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const response = await authApi.put<AmpApiKeyStatus>('/amp-key', { apiKey });
+      setStatus(response.data || null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save amp API key');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const removeKey = useCallback(async () => {
+    try {
+      await authApi.delete('/amp-key');
+      await refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove amp API key');
+      return false;
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    status,
+    isSaving,
+    error,
+    saveKey,
+    removeKey
+  };
+}
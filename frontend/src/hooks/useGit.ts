@@ -12,6 +12,13 @@ export interface GitPushOptions {
   createPullRequest?: boolean;
   pullRequestTitle?: string;
   pullRequestDescription?: string;
+  pullRequestBase?: string;
+  pullRequestDraft?: boolean;
+}
+
+export interface PullRequestDefaults {
+  title: string;
+  body: string;
 }
 
 export interface GitOperationResult {
@@ -20,6 +27,9 @@ export interface GitOperationResult {
   error?: string;
   commitHash?: string;
   pullRequestUrl?: string;
+  branch?: string;
+  ahead?: number;
+  behind?: number;
 }
 
 export interface UseGitReturn {
@@ -29,6 +39,8 @@ export interface UseGitReturn {
   lastCommitHash: string | null;
   commit: (sessionId: string, data: GitCommitData) => Promise<GitOperationResult>;
   push: (sessionId: string, options?: GitPushOptions) => Promise<GitOperationResult>;
+  getPullRequestDefaults: (sessionId: string) => Promise<PullRequestDefaults | null>;
+  restoreSnapshot: (sessionId: string, messageId: string) => Promise<GitOperationResult>;
   clearError: () => void;
 }
 
@@ -90,7 +102,10 @@ export const useGit = (): UseGitReturn => {
         return {
           success: true,
           message: response.message || 'Changes pushed successfully',
-          pullRequestUrl: response.data?.pullRequestUrl
+          pullRequestUrl: response.data?.pullRequestUrl,
+          branch: response.data?.branch,
+          ahead: response.data?.ahead,
+          behind: response.data?.behind
         };
       } else {
         const errorMessage = response.message || 'Failed to push changes';
@@ -113,6 +128,42 @@ export const useGit = (): UseGitReturn => {
     }
   }, []);
 
+  const getPullRequestDefaults = useCallback(async (
+    sessionId: string
+  ): Promise<PullRequestDefaults | null> => {
+    try {
+      const response = await api.get(`/sessions/${sessionId}/git/pull-request/defaults`);
+      return response.success && response.data ? response.data : null;
+    } catch (err: any) {
+      console.error('Error loading pull request defaults:', err);
+      return null;
+    }
+  }, []);
+
+  const restoreSnapshot = useCallback(async (
+    sessionId: string,
+    messageId: string
+  ): Promise<GitOperationResult> => {
+    setError(null);
+
+    try {
+      const response = await api.post(`/sessions/${sessionId}/git/snapshots/${messageId}/restore`);
+      return {
+        success: response.success,
+        message: response.message || 'Workspace restored',
+        commitHash: response.data?.commitHash
+      };
+    } catch (err: any) {
+      console.error('Error restoring snapshot:', err);
+      const errorMessage = err.message || 'Failed to restore snapshot';
+      setError(errorMessage);
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }, []);
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -124,6 +175,8 @@ export const useGit = (): UseGitReturn => {
     lastCommitHash,
     commit,
     push,
+    getPullRequestDefaults,
+    restoreSnapshot,
     clearError
   };
 };
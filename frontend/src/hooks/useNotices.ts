@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+
+export type NoticeLevel = 'info' | 'warning';
+
+export interface Notice {
+  id: string;
+  message: string;
+  level: NoticeLevel;
+  createdBy: string;
+  createdAt: string;
+  expiresAt?: string;
+}
+
+export interface UseNoticesReturn {
+  notices: Notice[];
+  dismiss: (noticeId: string) => void;
+}
+
+const POLL_INTERVAL = 60000;
+
+/**
+ * Maintenance notices posted by admins, checked every minute while signed in
+ */
+export function useNotices(enabled: boolean): UseNoticesReturn {
+  const [notices, setNotices] = useState<Notice[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await api.get<Notice[]>('/notices');
+      setNotices(response.data || []);
+    } catch {
+      // Notices are best effort; keep showing the last ones we had
+    }
+  }, []);
+
+  const dismiss = useCallback((noticeId: string) => {
+    setDismissed(prev => new Set(prev).add(noticeId));
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      setNotices([]);
+      return;
+    }
+
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [enabled, refresh]);
+
+  return {
+    notices: notices.filter(notice => !dismissed.has(notice.id)),
+    dismiss
+  };
+}
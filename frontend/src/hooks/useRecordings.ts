@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+import { Asciicast, parseAsciicast } from '../utils/asciicast';
+
+export interface RecordingSummary {
+  id: string;
+  sessionId: string;
+  startedAt: string;
+  duration: number;
+  cols: number;
+  rows: number;
+  size: number;
+  isRecording: boolean;
+  title?: string;
+}
+
+export interface UseRecordingsReturn {
+  recordings: RecordingSummary[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  loadRecording: (recordingId: string) => Promise<Asciicast | null>;
+}
+
+/**
+ * A session's terminal recordings and their asciicast contents for playback
+ */
+export function useRecordings(sessionId: string | undefined): UseRecordingsReturn {
+  const [recordings, setRecordings] = useState<RecordingSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!sessionId) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const response = await api.get<RecordingSummary[]>(`/sessions/${sessionId}/recordings`);
+      setRecordings(response.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recordings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  // Recordings are asciicast files rather than JSON, so they bypass the api client
+  const loadRecording = useCallback(async (recordingId: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/recordings/${recordingId}`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      setError(null);
+      return parseAsciicast(await response.text());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recording');
+      return null;
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    recordings,
+    isLoading,
+    error,
+    refresh,
+    loadRecording
+  };
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+
+export interface RepoConfigStatus {
+  file: string;
+  found: boolean;
+  valid: boolean;
+  errors: string[];
+  previewPorts: number[];
+}
+
+/**
+ * Load what the backend read from a session repository's .amplify.yml
+ */
+export function useRepoConfig(sessionId: string | undefined): RepoConfigStatus | null {
+  const [config, setConfig] = useState<RepoConfigStatus | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setConfig(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    api.get<{ config?: RepoConfigStatus }>(`/sessions/${sessionId}/status`)
+      .then(response => {
+        if (!cancelled) {
+          setConfig(response.data?.config || null);
+        }
+      })
+      .catch(err => {
+        console.error('Error loading repository config:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  return config;
+}
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+
+/**
+ * Scroll a deep-linked message into view once it has rendered, and flash it briefly
+ */
+export function useScrollToMessage(messageId: string | null, timeoutMs: number = 10000): void {
+  useEffect(() => {
+    if (!messageId) {
+      return;
+    }
+
+    const elementId = `message-${messageId}`;
+    let highlightTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const focus = (): boolean => {
+      const element = document.getElementById(elementId);
+      if (!element) {
+        return false;
+      }
+
+      element.scrollIntoView?.({ behavior: 'smooth', block: 'center' });
+      element.classList.add('ring-2', 'ring-yellow-400/60', 'rounded-lg');
+      highlightTimer = setTimeout(() => {
+        element.classList.remove('ring-2', 'ring-yellow-400/60', 'rounded-lg');
+      }, 2000);
+      return true;
+    };
+
+    if (focus()) {
+      return () => clearTimeout(highlightTimer);
+    }
+
+    // Messages load asynchronously; wait for the target to appear
+    const observer = new MutationObserver(() => {
+      if (focus()) {
+        observer.disconnect();
+      }
+    });
+    observer.observe(document.body, { childList: true, subtree: true });
+    const giveUpTimer = setTimeout(() => observer.disconnect(), timeoutMs);
+
+    return () => {
+      observer.disconnect();
+      clearTimeout(giveUpTimer);
+      clearTimeout(highlightTimer);
+    };
+  }, [messageId, timeoutMs]);
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+
+export type SecretScope = 'user' | 'repository';
+
+export type SecretTarget = 'environment' | 'file';
+
+export interface Secret {
+  id: string;
+  ownerId: string;
+  name: string;
+  scope: SecretScope;
+  repositoryName?: string;
+  target: SecretTarget;
+  filePath?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SecretInput {
+  name: string;
+  value?: string;
+  scope: SecretScope;
+  repositoryName?: string;
+  target?: SecretTarget;
+  filePath?: string;
+}
+
+export interface UseSecretsReturn {
+  secrets: Secret[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createSecret: (input: SecretInput) => Promise<Secret | null>;
+  updateSecret: (secretId: string, input: SecretInput) => Promise<Secret | null>;
+  deleteSecret: (secretId: string) => Promise<boolean>;
+}
+
+/**
+ * Manage the current user's secrets; values can be set but are never read back
+ */
+export function useSecrets(): UseSecretsReturn {
+  const [secrets, setSecrets] = useState<Secret[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await api.get<Secret[]>('/secrets');
+      setSecrets(response.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load secrets');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createSecret = useCallback(async (input: SecretInput) => {
+    try {
+      const response = await api.post<Secret>('/secrets', input);
+      await refresh();
+      return response.data || null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create secret');
+      return null;
+    }
+  }, [refresh]);
+
+  const updateSecret = useCallback(async (secretId: string, input: SecretInput) => {
+    try {
+      const response = await api.put<Secret>(`/secrets/${secretId}`, input);
+      await refresh();
+      return response.data || null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update secret');
+      return null;
+    }
+  }, [refresh]);
+
+  const deleteSecret = useCallback(async (secretId: string) => {
+    try {
+      await api.delete(`/secrets/${secretId}`);
+      await refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete secret');
+      return false;
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    secrets,
+    isLoading,
+    error,
+    refresh,
+    createSecret,
+    updateSecret,
+    deleteSecret
+  };
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+import { SessionRole } from './useSessions';
+
+export interface SessionParticipant {
+  userId: string;
+  username: string;
+  avatarUrl?: string;
+  role: SessionRole;
+  connectionCount: number;
+  connectedAt: string;
+}
+
+const POLL_INTERVAL = 15000;
+
+/**
+ * Who has a session open, checked every few seconds
+ */
+export function useSessionPresence(sessionId: string | undefined): SessionParticipant[] {
+  const [participants, setParticipants] = useState<SessionParticipant[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await api.get<SessionParticipant[]>(`/sessions/${sessionId}/presence`);
+      setParticipants(response.data || []);
+    } catch {
+      // Presence is best effort; keep showing the last list we had
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setParticipants([]);
+      return;
+    }
+
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [sessionId, refresh]);
+
+  return participants;
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+import { Session, SessionRole, SessionShare, ShareRole } from './useSessions';
+
+export interface UseSessionSharingReturn {
+  role: SessionRole | null;
+  shares: SessionShare[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  shareWith: (username: string, role: ShareRole) => Promise<boolean>;
+  removeShare: (username: string) => Promise<boolean>;
+}
+
+/**
+ * The current user's role in a session and, for its owner, who it is shared with
+ */
+export function useSessionSharing(sessionId: string | undefined): UseSessionSharingReturn {
+  const [role, setRole] = useState<SessionRole | null>(null);
+  const [shares, setShares] = useState<SessionShare[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!sessionId) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const response = await api.get<Session>(`/sessions/${sessionId}`);
+      setRole(response.data?.role || null);
+      setShares(response.data?.shares || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load session');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  const shareWith = useCallback(async (username: string, shareRole: ShareRole) => {
+    try {
+      const response = await api.put<SessionShare[]>(
+        `/sessions/${sessionId}/shares/${encodeURIComponent(username)}`,
+        { role: shareRole }
+      );
+      setShares(response.data || []);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to share session');
+      return false;
+    }
+  }, [sessionId]);
+
+  const removeShare = useCallback(async (username: string) => {
+    try {
+      const response = await api.delete<SessionShare[]>(
+        `/sessions/${sessionId}/shares/${encodeURIComponent(username)}`
+      );
+      setShares(response.data || []);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove share');
+      return false;
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    role,
+    shares,
+    isLoading,
+    error,
+    refresh,
+    shareWith,
+    removeShare
+  };
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+
+export type SessionTemplateScope = 'user' | 'repository';
+
+export interface SessionTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  scope: SessionTemplateScope;
+  ownerId: string;
+  repositoryName?: string;
+  image?: string;
+  setupCommands: string[];
+  environment: Record<string, string>;
+  initialPrompt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SessionTemplateInput {
+  name: string;
+  scope: SessionTemplateScope;
+  description?: string;
+  repositoryName?: string;
+  image?: string;
+  setupCommands?: string[];
+  environment?: Record<string, string>;
+  initialPrompt?: string;
+}
+
+export interface UseSessionTemplatesReturn {
+  templates: SessionTemplate[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createTemplate: (input: SessionTemplateInput) => Promise<SessionTemplate | null>;
+  deleteTemplate: (templateId: string) => Promise<boolean>;
+}
+
+/**
+ * List the templates a user can start a session for a repository from
+ */
+export function useSessionTemplates(repositoryName: string | undefined): UseSessionTemplatesReturn {
+  const [templates, setTemplates] = useState<SessionTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const query = repositoryName ? `?repository=${encodeURIComponent(repositoryName)}` : '';
+      const response = await api.get<SessionTemplate[]>(`/templates${query}`);
+      setTemplates(response.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [repositoryName]);
+
+  const createTemplate = useCallback(async (input: SessionTemplateInput) => {
+    try {
+      const response = await api.post<SessionTemplate>('/templates', input);
+      await refresh();
+      return response.data || null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create template');
+      return null;
+    }
+  }, [refresh]);
+
+  const deleteTemplate = useCallback(async (templateId: string) => {
+    try {
+      await api.delete(`/templates/${templateId}`);
+      await refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+      return false;
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    templates,
+    isLoading,
+    error,
+    refresh,
+    createTemplate,
+    deleteTemplate
+  };
+}
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+
+export interface SessionThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  archivedAt?: string;
+  isActive: boolean;
+  messageCount: number;
+  lastMessageTime?: string;
+}
+
+interface SessionThreadsResponse {
+  threads: SessionThread[];
+}
+
+interface SessionThreadResponse {
+  thread: SessionThread;
+}
+
+export interface UseSessionThreadsReturn {
+  threads: SessionThread[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createThread: (title?: string) => Promise<SessionThread | null>;
+  switchThread: (threadId: string) => Promise<boolean>;
+  archiveThread: (threadId: string) => Promise<boolean>;
+}
+
+/**
+ * List and manage the amp threads that belong to a session
+ */
+export function useSessionThreads(sessionId: string | undefined): UseSessionThreadsReturn {
+  const [threads, setThreads] = useState<SessionThread[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!sessionId) {
+      setThreads([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const response = await api.get(`/sessions/${sessionId}/threads`) as unknown as SessionThreadsResponse;
+      setThreads(response.threads || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load threads');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  const createThread = useCallback(async (title?: string) => {
+    if (!sessionId) return null;
+
+    try {
+      const response = await api.post(`/sessions/${sessionId}/threads`, title ? { title } : {}) as unknown as SessionThreadResponse;
+      await refresh();
+      return response.thread;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create thread');
+      return null;
+    }
+  }, [sessionId, refresh]);
+
+  const runThreadAction = useCallback(async (threadId: string, action: 'activate' | 'archive') => {
+    if (!sessionId) return false;
+
+    try {
+      await api.post(`/sessions/${sessionId}/threads/${threadId}/${action}`);
+      await refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} thread`);
+      return false;
+    }
+  }, [sessionId, refresh]);
+
+  const switchThread = useCallback(
+    (threadId: string) => runThreadAction(threadId, 'activate'),
+    [runThreadAction]
+  );
+
+  const archiveThread = useCallback(
+    (threadId: string) => runThreadAction(threadId, 'archive'),
+    [runThreadAction]
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { threads, isLoading, error, refresh, createThread, switchThread, archiveThread };
+}
@@ -14,6 +14,20 @@ export interface Session {
   lastAccessedAt: string;
   expiresAt: string;
   metadata: SessionMetadata;
+  shares?: SessionShare[];
+  role?: SessionRole; // the current user's role, when the session was fetched on its own or shared
+  ownerUsername?: string; // set on sessions shared with the current user
+}
+
+export type SessionRole = 'owner' | 'collaborator' | 'viewer';
+
+export type ShareRole = Exclude<SessionRole, 'owner'>;
+
+export interface SessionShare {
+  username: string;
+  role: ShareRole;
+  invitedBy: string;
+  invitedAt: string;
 }
 
 export enum SessionStatus {
@@ -48,6 +62,7 @@ export interface SessionSummary {
 
 export interface UseSessionsReturn {
   sessions: Session[];
+  sharedSessions: Session[]; // other users' sessions shared with the current user
   loading: boolean;
   error: string | null;
   refreshSessions: () => Promise<void>;
@@ -64,6 +79,7 @@ export interface UseSessionsReturn {
 
 export const useSessions = (): UseSessionsReturn => {
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [sharedSessions, setSharedSessions] = useState<Session[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -72,8 +88,15 @@ export const useSessions = (): UseSessionsReturn => {
       setLoading(true);
       setError(null);
       
-      const response = await api.get('/sessions');
+      const [response, sharedResponse] = await Promise.all([
+        api.get('/sessions'),
+        api.get<Session[]>('/sessions/shared').catch(() => null)
+      ]);
       
+      if (sharedResponse?.success && sharedResponse.data) {
+        setSharedSessions(sharedResponse.data);
+      }
+
       if (response.success && response.data) {
         setSessions(response.data);
       } else {
@@ -212,6 +235,7 @@ export const useSessions = (): UseSessionsReturn => {
 
   return {
     sessions,
+    sharedSessions,
     loading,
     error,
     refreshSessions,
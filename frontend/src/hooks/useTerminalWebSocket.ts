@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { TerminalWebSocketClient, TerminalWebSocketConfig, TerminalWebSocketCallbacks } from '../services/terminalWebSocket';
+import { TerminalState, DriverAction } from '../types/terminal';
 
 export interface UseTerminalWebSocketOptions {
   /**
@@ -28,6 +29,11 @@ export interface UseTerminalWebSocketReturn {
    * Last error that occurred
    */
   error: Error | null;
+
+  /**
+   * Who shares the terminal and who holds its input lock
+   */
+  terminalState: TerminalState | null;
   
   /**
    * Connect to the WebSocket
@@ -53,6 +59,11 @@ export interface UseTerminalWebSocketReturn {
    * Send control signal
    */
   sendControlSignal: (signal: 'SIGINT' | 'SIGTERM' | 'SIGKILL' | 'SIGTSTP' | 'SIGCONT' | 'SIGQUIT') => boolean;
+
+  /**
+   * Request, release or hand over the input lock
+   */
+  sendDriverAction: (action: DriverAction, connectionId?: string) => boolean;
   
   /**
    * Clear error state
@@ -96,6 +107,7 @@ export const useTerminalWebSocket = (
   // State
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  const [terminalState, setTerminalState] = useState<TerminalState | null>(null);
 
   // Refs
   const clientRef = useRef<TerminalWebSocketClient | null>(null);
@@ -116,6 +128,8 @@ export const useTerminalWebSocket = (
           }
         });
       },
+
+      onState: setTerminalState,
       
       onConnect: () => {
         setIsConnected(true);
@@ -132,6 +146,7 @@ export const useTerminalWebSocket = (
       
       onDisconnect: () => {
         setIsConnected(false);
+        setTerminalState(null);
         
         disconnectCallbacksRef.current.forEach(callback => {
           try {
@@ -214,6 +229,14 @@ export const useTerminalWebSocket = (
     return clientRef.current.sendControlSignal(signal);
   }, []);
 
+  const sendDriverAction = useCallback((action: DriverAction, connectionId?: string): boolean => {
+    if (!clientRef.current) {
+      setError(new Error('Terminal WebSocket client not initialized'));
+      return false;
+    }
+    return clientRef.current.sendDriverAction(action, connectionId);
+  }, []);
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -257,11 +280,13 @@ export const useTerminalWebSocket = (
   return {
     isConnected,
     error,
+    terminalState,
     connect,
     disconnect,
     sendInput,
     sendResize,
     sendControlSignal,
+    sendDriverAction,
     clearError,
     onOutput,
     onConnect,
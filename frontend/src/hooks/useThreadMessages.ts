@@ -1,7 +1,7 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { ThreadMessage } from '../types/threadMessage';
 import { useWebSocket } from './useWebSocket';
-import { ConnectionState } from '../services/threadWebSocket';
+import { ConnectionState, ThreadMessageDelta } from '../services/threadWebSocket';
 
 export interface UseThreadMessagesOptions {
   /**
@@ -56,6 +56,11 @@ export interface UseThreadMessagesReturn {
    */
   isSending: boolean;
   
+  /**
+   * Whether amp is currently working on a turn
+   */
+  isProcessing: boolean;
+  
   /**
    * Last error that occurred
    */
@@ -66,6 +71,11 @@ export interface UseThreadMessagesReturn {
    */
   sendMessage: (content: string) => Promise<boolean>;
   
+  /**
+   * Stop the amp turn that is currently running
+   */
+  cancelTurn: () => boolean;
+  
   /**
    * Load message history from the server
    */
@@ -87,6 +97,21 @@ export interface UseThreadMessagesReturn {
   reconnect: () => void;
 }
 
+/**
+ * Convert a streamed delta into a draft message that can be rendered like any other
+ */
+const deltaToDraft = (delta: ThreadMessageDelta): ThreadMessage => ({
+  id: delta.id,
+  role: delta.type === 'user' ? 'user' : delta.type === 'system' ? 'system' : 'amp',
+  content: delta.content,
+  ts: delta.timestamp,
+  metadata: {
+    ...delta.metadata,
+    stream_id: delta.id,
+    streaming: true
+  }
+});
+
 /**
  * Custom hook for managing thread messages with WebSocket communication
  */
@@ -109,12 +134,16 @@ export const useThreadMessages = (options: UseThreadMessagesOptions): UseThreadM
     isConnected,
     connectionState,
     isSending,
+    isProcessing,
+    threadId,
     error: wsError,
     sendMessage: wsSendMessage,
+    cancelTurn,
     clearMessages: wsClearMessages,
     clearError: wsClearError,
     connect,
-    disconnect
+    disconnect,
+    onMessageDelta
   } = useWebSocket(sessionId, {
     autoConnect,
     storeMessages: true,
@@ -125,6 +154,9 @@ export const useThreadMessages = (options: UseThreadMessagesOptions): UseThreadM
   const loadHistoryRef = useRef<() => Promise<void>>();
   const [localError, setLocalError] = useState<Error | null>(null);
 
+  // In-progress messages keyed by stream id, replaced once the final message arrives
+  const [drafts, setDrafts] = useState<Map<string, ThreadMessage>>(new Map());
+
   // Combined error state
   const error = wsError || localError;
 
@@ -181,6 +213,7 @@ export const useThreadMessages = (options: UseThreadMessagesOptions): UseThreadM
    */
   const clearMessages = useCallback(() => {
     wsClearMessages();
+    setDrafts(new Map());
     setHistoryLoaded(false);
   }, [wsClearMessages]);
 
@@ -203,6 +236,55 @@ export const useThreadMessages = (options: UseThreadMessagesOptions): UseThreadM
     }, 1000);
   }, [clearError, disconnect, connect]);
 
+  // Accumulate streamed deltas into drafts
+  useEffect(() => {
+    return onMessageDelta((delta) => {
+      setDrafts(prev => new Map(prev).set(delta.id, deltaToDraft(delta)));
+    });
+  }, [onMessageDelta]);
+
+  // Drafts belong to the previous thread once the server switches threads
+  useEffect(() => {
+    if (threadId) {
+      setDrafts(new Map());
+    }
+  }, [threadId]);
+
+  // Show drafts after the stored messages until their final message supersedes them
+  const messages = useMemo(() => {
+    if (drafts.size === 0) {
+      return wsMessages;
+    }
+
+    const completed = new Set(
+      wsMessages.map(message => message.metadata?.stream_id).filter(Boolean)
+    );
+    const pending = Array.from(drafts.values()).filter(draft => !completed.has(draft.id));
+    return pending.length > 0 ? [...wsMessages, ...pending] : wsMessages;
+  }, [wsMessages, drafts]);
+
+  // Drop drafts once their final message has arrived, or all of them if the turn was cancelled
+  useEffect(() => {
+    if (drafts.size === 0) return;
+
+    if (wsMessages[wsMessages.length - 1]?.metadata?.type === 'turn_cancelled') {
+      setDrafts(new Map());
+      return;
+    }
+
+    const completed = wsMessages
+      .map(message => message.metadata?.stream_id)
+      .filter((id): id is string => !!id && drafts.has(id));
+
+    if (completed.length > 0) {
+      setDrafts(prev => {
+        const next = new Map(prev);
+        completed.forEach(id => next.delete(id));
+        return next;
+      });
+    }
+  }, [wsMessages, drafts]);
+
   // Load history when component mounts and connection is established
   useEffect(() => {
     if (shouldLoadHistory && isConnected && !historyLoaded && !isLoading) {
@@ -211,13 +293,15 @@ export const useThreadMessages = (options: UseThreadMessagesOptions): UseThreadM
   }, [shouldLoadHistory, isConnected, historyLoaded, isLoading]);
 
   return {
-    messages: wsMessages,
+    messages,
     isConnected,
     connectionState,
     isLoading,
     isSending,
+    isProcessing,
     error,
     sendMessage,
+    cancelTurn,
     loadHistory,
     clearMessages,
     clearError,
@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface ThreadSearchResult {
+  sessionId: string;
+  repositoryName: string;
+  messageId: string;
+  messageType: string;
+  timestamp: string;
+  field: 'content' | 'tool' | 'file';
+  snippet: string;
+  highlights: SearchHighlight[];
+  link: string;
+}
+
+interface ThreadSearchResponse {
+  query: string;
+  results: ThreadSearchResult[];
+}
+
+export interface UseThreadSearchReturn {
+  results: ThreadSearchResult[];
+  isSearching: boolean;
+  error: string | null;
+}
+
+/**
+ * Search thread history across the user's sessions, debouncing keystrokes
+ */
+export function useThreadSearch(query: string, debounceMs: number = 300): UseThreadSearchReturn {
+  const [results, setResults] = useState<ThreadSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+
+    if (!trimmed) {
+      setResults([]);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await api.get(`/threads/search?q=${encodeURIComponent(trimmed)}`) as unknown as ThreadSearchResponse;
+        if (!cancelled) {
+          setResults(response.results || []);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setResults([]);
+          setError(err instanceof Error ? err.message : 'Search failed');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, debounceMs]);
+
+  return { results, isSearching, error };
+}
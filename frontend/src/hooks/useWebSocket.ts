@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { ThreadWebSocketClient, ConnectionState, ThreadWebSocketConfig, ThreadWebSocketCallbacks } from '../services/threadWebSocket';
+import { ThreadWebSocketClient, ConnectionState, ThreadWebSocketConfig, ThreadWebSocketCallbacks, ThreadMessageDelta } from '../services/threadWebSocket';
 import { ThreadMessage } from '../types/threadMessage';
 
 export interface UseWebSocketOptions {
@@ -55,6 +55,16 @@ export interface UseWebSocketReturn {
    */
   isSending: boolean;
   
+  /**
+   * Whether amp is currently working on a turn
+   */
+  isProcessing: boolean;
+  
+  /**
+   * Thread the server last switched this session to, if it has switched
+   */
+  threadId: string | null;
+  
   /**
    * Connect to the WebSocket
    */
@@ -70,6 +80,11 @@ export interface UseWebSocketReturn {
    */
   sendMessage: (content: string) => Promise<boolean>;
   
+  /**
+   * Stop the amp turn that is currently running
+   */
+  cancelTurn: () => boolean;
+  
   /**
    * Clear stored messages
    */
@@ -85,6 +100,11 @@ export interface UseWebSocketReturn {
    */
   onMessage: (callback: (message: ThreadMessage) => void) => void;
   
+  /**
+   * Add a callback for partial messages streamed while amp is writing
+   */
+  onMessageDelta: (callback: (delta: ThreadMessageDelta) => void) => () => void;
+  
   /**
    * Add a callback for connection state changes
    */
@@ -116,10 +136,13 @@ export const useWebSocket = (
   const [messages, setMessages] = useState<ThreadMessage[]>([]);
   const [error, setError] = useState<Error | null>(null);
   const [isSending, setIsSending] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [threadId, setThreadId] = useState<string | null>(null);
 
   // Refs
   const clientRef = useRef<ThreadWebSocketClient | null>(null);
   const messageCallbacksRef = useRef<Set<(message: ThreadMessage) => void>>(new Set());
+  const deltaCallbacksRef = useRef<Set<(delta: ThreadMessageDelta) => void>>(new Set());
   const connectionCallbacksRef = useRef<Set<(state: ConnectionState) => void>>(new Set());
   const errorCallbacksRef = useRef<Set<(error: Error) => void>>(new Set());
 
@@ -149,12 +172,36 @@ export const useWebSocket = (
         });
       },
       
+      onMessageDelta: (delta: ThreadMessageDelta) => {
+        deltaCallbacksRef.current.forEach(callback => {
+          try {
+            callback(delta);
+          } catch (err) {
+            console.error('Error in message delta callback:', err);
+          }
+        });
+      },
+      
+      onThreadSwitched: (nextThreadId: string) => {
+        // The server replays the new thread's history after switching
+        setThreadId(nextThreadId);
+        if (storeMessages) {
+          setMessages([]);
+        }
+      },
+      
+      onStatusUpdate: (status) => {
+        setIsProcessing(status.status === 'processing');
+      },
+      
       onConnectionChange: (state: ConnectionState) => {
         setConnectionState(state);
         
         // Clear error when successfully connected
         if (state === ConnectionState.CONNECTED) {
           setError(null);
+        } else {
+          setIsProcessing(false);
         }
         
         // Call registered callbacks
@@ -221,6 +268,23 @@ export const useWebSocket = (
           });
         },
         
+        onMessageDelta: (delta: ThreadMessageDelta) => {
+          deltaCallbacksRef.current.forEach(callback => {
+            try {
+              callback(delta);
+            } catch (err) {
+              console.error('Error in message delta callback:', err);
+            }
+          });
+        },
+        
+        onThreadSwitched: (nextThreadId: string) => {
+          setThreadId(nextThreadId);
+          if (storeMessages) {
+            setMessages([]);
+          }
+        },
+        
         onConnectionChange: (state: ConnectionState) => {
           setConnectionState(state);
           
@@ -279,6 +343,15 @@ export const useWebSocket = (
     }
   }, []);
 
+  const cancelTurn = useCallback((): boolean => {
+    if (!clientRef.current) {
+      setError(new Error('WebSocket client not initialized'));
+      return false;
+    }
+
+    return clientRef.current.cancelTurn();
+  }, []);
+
   const clearMessages = useCallback(() => {
     setMessages([]);
   }, []);
@@ -296,6 +369,15 @@ export const useWebSocket = (
     };
   }, []);
 
+  const onMessageDelta = useCallback((callback: (delta: ThreadMessageDelta) => void) => {
+    deltaCallbacksRef.current.add(callback);
+    
+    // Return cleanup function
+    return () => {
+      deltaCallbacksRef.current.delete(callback);
+    };
+  }, []);
+
   const onConnectionChange = useCallback((callback: (state: ConnectionState) => void) => {
     connectionCallbacksRef.current.add(callback);
     
@@ -320,12 +402,16 @@ export const useWebSocket = (
     messages,
     error,
     isSending,
+    isProcessing,
+    threadId,
     connect,
     disconnect,
     sendMessage,
+    cancelTurn,
     clearMessages,
     clearError,
     onMessage,
+    onMessageDelta,
     onConnectionChange,
     onError
   };
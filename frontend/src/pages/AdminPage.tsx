@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { useAdmin, ContainerInspection } from '../hooks/useAdmin';
+import { NoticeLevel } from '../hooks/useNotices';
+import { SessionStatus } from '../hooks/useSessions';
+import { SessionCard } from '../components/SessionCard';
+
+const inputClassName = `
+  w-full px-3 py-2 border-2 border-gray-200 dark:border-gray-600 rounded-xl
+  bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm
+  focus:ring-4 focus:ring-blue-500/20 focus:border-blue-500 focus:outline-none
+`;
+
+const panelClassName = 'p-6 bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700';
+
+/**
+ * Format a byte count with a binary unit
+ */
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return 'unlimited';
+  const units = ['B', 'KiB', 'MiB', 'GiB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Math.round(value * 10) / 10} ${units[unit]}`;
+}
+
+const ContainerDetails: React.FC<{ container: ContainerInspection }> = ({ container }) => (
+  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-300">
+    <dt className="font-medium">Container</dt>
+    <dd className="font-mono">{container.name} ({container.id.substring(0, 12)})</dd>
+    <dt className="font-medium">Image</dt>
+    <dd className="font-mono">{container.image}</dd>
+    <dt className="font-medium">State</dt>
+    <dd>
+      {container.status}
+      {container.state.oomKilled && ' (OOM killed)'}
+      {!container.state.running && ` · exit ${container.state.exitCode}`}
+    </dd>
+    <dt className="font-medium">Started</dt>
+    <dd>{new Date(container.state.startedAt).toLocaleString()}</dd>
+    <dt className="font-medium">Limits</dt>
+    <dd>
+      {formatBytes(container.resources.memory)} memory · {container.resources.cpus || 'unlimited'} CPUs
+      {container.resources.pidsLimit !== null && ` · ${container.resources.pidsLimit} processes`}
+    </dd>
+    <dt className="font-medium">Networks</dt>
+    <dd>{container.networks.join(', ') || 'none'}</dd>
+    <dt className="font-medium">Mounts</dt>
+    <dd className="font-mono">
+      {container.mounts.map(mount => `${mount.source} → ${mount.destination}`).join(', ') || 'none'}
+    </dd>
+  </dl>
+);
+
+export const AdminPage: React.FC = () => {
+  const {
+    sessions,
+    stats,
+    statusCounts,
+    cleanup,
+    notices,
+    isLoading,
+    error,
+    stopSession,
+    deleteSession,
+    inspectContainer,
+    runCleanup,
+    postNotice,
+    removeNotice
+  } = useAdmin();
+  const [containers, setContainers] = useState<Record<string, ContainerInspection>>({});
+  const [noticeMessage, setNoticeMessage] = useState('');
+  const [noticeLevel, setNoticeLevel] = useState<NoticeLevel>('warning');
+
+  const handleInspect = async (sessionId: string) => {
+    const container = await inspectContainer(sessionId);
+    if (container) {
+      setContainers(prev => ({ ...prev, [sessionId]: container }));
+    }
+  };
+
+  const handlePostNotice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await postNotice(noticeMessage.trim(), noticeLevel)) {
+      setNoticeMessage('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 dark:from-gray-900 dark:to-slate-900 py-8 px-4">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Admin</h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            Sessions across all users, cleanup runs and maintenance notices.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {/* Overview */}
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Sessions', value: stats.totalSessions },
+              { label: 'Active', value: stats.activeSessions },
+              { label: 'Users', value: stats.userSessions },
+              { label: 'Connections', value: stats.activeConnections }
+            ].map(({ label, value }) => (
+              <div key={label} className={panelClassName}>
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">{label}</p>
+                <p className="text-2xl font-semibold text-gray-900 dark:text-white">{value}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Sessions */}
+        <section className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">All sessions</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {Object.values(SessionStatus)
+                .filter(status => statusCounts[status])
+                .map(status => `${statusCounts[status]} ${status}`)
+                .join(' · ')}
+            </p>
+          </div>
+
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {isLoading ? 'Loading sessions...' : 'No sessions.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {sessions.map(session => (
+                <div key={session.id} className="space-y-2">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Owned by <span className="font-medium">{session.ownerUsername}</span>
+                  </p>
+                  <SessionCard
+                    session={session}
+                    onStop={stopSession}
+                    onDelete={deleteSession}
+                    allowOpen={false}
+                  />
+                  {session.containerId && (
+                    containers[session.id] ? (
+                      <ContainerDetails container={containers[session.id]!} />
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => handleInspect(session.id)}
+                        className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Inspect container
+                      </button>
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Cleanup */}
+        <section className={`${panelClassName} space-y-3`}>
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Cleanup runs</h2>
+            <button
+              type="button"
+              onClick={runCleanup}
+              disabled={!cleanup?.isRunning}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Run cleanup now
+            </button>
+          </div>
+          {cleanup && !cleanup.isRunning && (
+            <p className="text-sm text-yellow-700 dark:text-yellow-300">The cleanup service is not running.</p>
+          )}
+          {cleanup?.runs.length ? (
+            <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+              <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="py-1">Started</th>
+                  <th className="py-1">Trigger</th>
+                  <th className="py-1">Hibernated</th>
+                  <th className="py-1">Expired</th>
+                  <th className="py-1">Cleaned</th>
+                  <th className="py-1">Failed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cleanup.runs.map(run => (
+                  <tr key={run.startedAt} className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="py-1">{new Date(run.startedAt).toLocaleString()}</td>
+                    <td className="py-1">{run.trigger}</td>
+                    <td className="py-1">{run.hibernatedSessions}</td>
+                    <td className="py-1">{run.expiredSessions}</td>
+                    <td className="py-1">{run.cleanedSessions}</td>
+                    <td className="py-1">{run.error ? <span className="text-red-600">{run.error}</span> : run.failedSessions}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No cleanup runs since the server started.</p>
+          )}
+        </section>
+
+        {/* Notices */}
+        <section className={`${panelClassName} space-y-3`}>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Maintenance notices</h2>
+          {notices.map(notice => (
+            <div key={notice.id} className="flex items-center justify-between text-sm">
+              <span className="text-gray-700 dark:text-gray-300">
+                <span className="font-medium capitalize">{notice.level}:</span> {notice.message}
+                <span className="text-xs text-gray-500"> · {notice.createdBy}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => removeNotice(notice.id)}
+                className="text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <form onSubmit={handlePostNotice} className="flex items-center space-x-2">
+            <input
+              type="text"
+              aria-label="Notice message"
+              placeholder="e.g. Sessions restart at 18:00 UTC for a Docker upgrade"
+              value={noticeMessage}
+              onChange={(e) => setNoticeMessage(e.target.value)}
+              maxLength={500}
+              className={inputClassName}
+            />
+            <select
+              aria-label="Notice level"
+              value={noticeLevel}
+              onChange={(e) => setNoticeLevel(e.target.value as NoticeLevel)}
+              className={`${inputClassName} w-32`}
+            >
+              <option value="info">Info</option>
+              <option value="warning">Warning</option>
+            </select>
+            <button
+              type="submit"
+              disabled={!noticeMessage.trim()}
+              className="px-4 py-2 text-sm font-semibold text-white whitespace-nowrap bg-blue-600 rounded-xl hover:bg-blue-700 disabled:opacity-50"
+            >
+              Broadcast
+            </button>
+          </form>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -3,12 +3,23 @@ import { useNavigate } from 'react-router-dom';
 import { Repository } from '../hooks/useGitHub';
 import { RepoSelector } from '../components/RepoSelector';
 import { BranchSelector } from '../components/BranchSelector';
+import { TemplateSelector } from '../components/TemplateSelector';
 import { api } from '../utils/api';
 
 interface SessionData {
   sessionName: string;
   repository: Repository | null;
   branch: string;
+  templateId: string;
+}
+
+// One line of the streamed POST /api/sessions response
+interface CreateSessionEvent {
+  type: 'progress' | 'result' | 'error';
+  stage?: string;
+  message?: string;
+  output?: string;
+  data?: { id: string };
 }
 
 interface ValidationErrors {
@@ -23,10 +34,13 @@ export const CreateSessionPage: React.FC = () => {
     sessionName: '',
     repository: null,
     branch: '',
+    templateId: '',
   });
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [progressMessage, setProgressMessage] = useState<string | null>(null);
+  const [setupOutput, setSetupOutput] = useState('');
 
   // Validation function
   const validateForm = useCallback((): ValidationErrors => {
@@ -56,7 +70,7 @@ export const CreateSessionPage: React.FC = () => {
     setFormData(prev => ({ ...prev, [field]: value }));
     
     // Clear error for this field when user starts typing
-    if (errors[field]) {
+    if (field !== 'templateId' && errors[field]) {
       setErrors(prev => ({ ...prev, [field]: '' }));
     }
     setSubmitError(null);
@@ -74,19 +88,38 @@ export const CreateSessionPage: React.FC = () => {
 
     setIsSubmitting(true);
     setSubmitError(null);
+    setProgressMessage(null);
+    setSetupOutput('');
 
     try {
-      const response = await api.post('/sessions', {
+      let sessionId: string | null = null;
+      let failure: string | null = null;
+
+      // Progress is streamed while the container starts and template setup runs
+      await api.postStream<CreateSessionEvent>('/sessions', {
         sessionName: formData.sessionName,
         repositoryUrl: formData.repository!.cloneUrl, // Use HTTPS clone URL
         branch: formData.branch,
+        ...(formData.templateId && { templateId: formData.templateId }),
+      }, (event) => {
+        if (event.type === 'progress') {
+          if (event.output) {
+            setSetupOutput(prev => prev + event.output);
+          } else {
+            setProgressMessage(event.message || null);
+          }
+        } else if (event.type === 'result' && event.data) {
+          sessionId = event.data.id;
+        } else if (event.type === 'error') {
+          failure = event.message || 'Failed to create session';
+        }
       });
 
-      if (response.success && response.data) {
+      if (sessionId) {
         // Navigate to the session terminal page
-        navigate(`/terminal/${response.data.id}`);
+        navigate(`/terminal/${sessionId}`);
       } else {
-        setSubmitError(response.message || 'Failed to create session');
+        setSubmitError(failure || 'Failed to create session');
       }
     } catch (error: any) {
       console.error('Error creating session:', error);
@@ -104,6 +137,7 @@ export const CreateSessionPage: React.FC = () => {
       ...prev,
       repository,
       branch: repository?.defaultBranch || '', // Auto-select default branch
+      templateId: '', // Repository templates belong to the previous repository
     }));
     
     if (errors.repository) {
@@ -285,6 +319,41 @@ export const CreateSessionPage: React.FC = () => {
 
 
 
+        {/* Template Selection */}
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <svg className="w-4 h-4 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v2a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM4 13a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zM16 13a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z" />
+            </svg>
+            <label htmlFor="template" className="text-base font-semibold text-gray-900 dark:text-white">
+              Template
+            </label>
+          </div>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Optionally pick an image, setup commands, environment and first prompt for the session
+          </p>
+          <TemplateSelector
+            repositoryName={formData.repository?.fullName}
+            value={formData.templateId}
+            onChange={handleInputChange('templateId')}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        {/* Setup Progress */}
+        {isSubmitting && (progressMessage || setupOutput) && (
+          <div className="space-y-2" aria-live="polite">
+            {progressMessage && (
+              <p className="text-sm text-gray-700 dark:text-gray-300">{progressMessage}…</p>
+            )}
+            {setupOutput && (
+              <pre className="max-h-64 overflow-auto p-3 text-xs font-mono text-gray-100 bg-gray-900 rounded-xl whitespace-pre-wrap">
+                {setupOutput}
+              </pre>
+            )}
+          </div>
+        )}
+
         {/* Submit Error */}
         {submitError && (
           <div className="p-6 bg-gradient-to-r from-red-50 to-pink-50 dark:from-red-900/20 dark:to-pink-900/20 border border-red-200 dark:border-red-800 rounded-xl">
@@ -11,6 +11,7 @@ export const DiffPage: React.FC = () => {
   const navigate = useNavigate();
   const [showGitOperations, setShowGitOperations] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [pullRequestUrl, setPullRequestUrl] = useState<string | null>(null);
   const [diffData, setDiffData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -23,6 +24,7 @@ export const DiffPage: React.FC = () => {
     lastCommitHash,
     commit,
     push,
+    getPullRequestDefaults,
     clearError: clearGitError
   } = useGit();
 
@@ -101,10 +103,12 @@ export const DiffPage: React.FC = () => {
     
     clearGitError();
     setSuccessMessage(null);
+    setPullRequestUrl(null);
     
     const result = await push(sessionId, pushOptions);
     if (result.success) {
-      setSuccessMessage(`Changes pushed successfully${result.pullRequestUrl ? ` - ${result.pullRequestUrl}` : ''}`);
+      setSuccessMessage(result.pullRequestUrl ? 'Changes pushed and pull request opened' : 'Changes pushed successfully');
+      setPullRequestUrl(result.pullRequestUrl || null);
       // After successful push, we no longer have unpushed commits
       setHasUnpushedCommits(false);
     }
@@ -185,6 +189,16 @@ export const DiffPage: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
               </svg>
               <span className="text-green-800 dark:text-green-200">{successMessage}</span>
+              {pullRequestUrl && (
+                <a
+                  href={pullRequestUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="ml-3 text-sm font-medium text-green-700 dark:text-green-300 underline hover:text-green-900 dark:hover:text-green-100"
+                >
+                  View pull request
+                </a>
+              )}
             </div>
           )}
           
@@ -214,6 +228,7 @@ export const DiffPage: React.FC = () => {
             
             <GitActions
               onPush={handlePush}
+              onLoadPullRequestDefaults={() => getPullRequestDefaults(sessionId)}
               pushing={pushing}
               hasCommits={!!lastCommitHash || hasUnpushedCommits}
               disabled={committing || pushing}
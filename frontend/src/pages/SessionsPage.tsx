@@ -6,6 +6,7 @@ import { SessionCard } from '../components/SessionCard';
 export const SessionsPage: React.FC = () => {
   const {
     sessions,
+    sharedSessions,
     loading,
     error,
     refreshSessions,
@@ -298,6 +299,23 @@ export const SessionsPage: React.FC = () => {
             )}
           </div>
         )}
+
+        {/* Sessions shared with the user */}
+        {sharedSessions.length > 0 && (
+          <section className="mt-12 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Shared with you</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {sharedSessions.map((session) => (
+                <div key={session.id} className="space-y-2">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Shared by <span className="font-medium">{session.ownerUsername}</span> · {session.role}
+                  </p>
+                  <SessionCard session={session} />
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
       </div>
     </div>
   );
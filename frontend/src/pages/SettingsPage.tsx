@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { useSecrets, Secret, SecretInput, SecretScope, SecretTarget } from '../hooks/useSecrets';
+import AmpApiKeySettings from '../components/AmpApiKeySettings';
+
+interface SecretFormState {
+  name: string;
+  value: string;
+  scope: SecretScope;
+  repositoryName: string;
+  target: SecretTarget;
+  filePath: string;
+}
+
+const emptyForm: SecretFormState = {
+  name: '',
+  value: '',
+  scope: 'user',
+  repositoryName: '',
+  target: 'environment',
+  filePath: '',
+};
+
+const inputClassName = `
+  w-full px-3 py-2 border-2 border-gray-200 dark:border-gray-600 rounded-xl
+  bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm
+  focus:ring-4 focus:ring-blue-500/20 focus:border-blue-500 focus:outline-none
+`;
+
+/**
+ * Describe where a secret ends up in the session container
+ */
+function describeTarget(secret: Secret): string {
+  return secret.target === 'file' ? `File ${secret.filePath}` : `$${secret.name}`;
+}
+
+export const SettingsPage: React.FC = () => {
+  const { secrets, isLoading, error, createSecret, updateSecret, deleteSecret } = useSecrets();
+  const [form, setForm] = useState<SecretFormState>(emptyForm);
+  const [replacingId, setReplacingId] = useState<string | null>(null);
+  const [replacementValue, setReplacementValue] = useState('');
+
+  const updateForm = (field: keyof SecretFormState) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const canSave = form.name.trim() && form.value &&
+    (form.scope === 'user' || form.repositoryName.trim()) &&
+    (form.target === 'environment' || form.filePath.trim());
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input: SecretInput = {
+      name: form.name.trim(),
+      value: form.value,
+      scope: form.scope,
+      target: form.target,
+      ...(form.scope === 'repository' && { repositoryName: form.repositoryName.trim() }),
+      ...(form.target === 'file' && { filePath: form.filePath.trim() }),
+    };
+
+    if (await createSecret(input)) {
+      setForm(emptyForm);
+    }
+  };
+
+  const handleReplace = async (secret: Secret) => {
+    const updated = await updateSecret(secret.id, {
+      name: secret.name,
+      value: replacementValue,
+      scope: secret.scope,
+      target: secret.target,
+      ...(secret.repositoryName && { repositoryName: secret.repositoryName }),
+      ...(secret.filePath && { filePath: secret.filePath }),
+    });
+
+    if (updated) {
+      setReplacingId(null);
+      setReplacementValue('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 dark:from-gray-900 dark:to-slate-900 py-8 px-4">
+      <div className="max-w-4xl mx-auto space-y-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+            Settings
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            Credentials for your sessions. They are encrypted at rest, added to containers when a
+            session starts and hidden from the terminal and thread. Values can't be viewed once saved.
+          </p>
+        </div>
+
+        <AmpApiKeySettings />
+
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Secrets</h2>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+          {secrets.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              {isLoading ? 'Loading secrets...' : 'No secrets yet.'}
+            </p>
+          ) : secrets.map(secret => (
+            <div key={secret.id} className="p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-mono text-sm text-gray-900 dark:text-white">{secret.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {secret.scope === 'repository' ? secret.repositoryName : 'All repositories'} · {describeTarget(secret)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => setReplacingId(replacingId === secret.id ? null : secret.id)}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {replacingId === secret.id ? 'Cancel' : 'Replace value'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteSecret(secret.id)}
+                    aria-label={`Delete ${secret.name}`}
+                    className="text-red-600 hover:underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {replacingId === secret.id && (
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="password"
+                    aria-label={`New value for ${secret.name}`}
+                    value={replacementValue}
+                    onChange={(e) => setReplacementValue(e.target.value)}
+                    className={inputClassName}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleReplace(secret)}
+                    disabled={!replacementValue}
+                    className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-xl hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form
+          onSubmit={handleCreate}
+          className="p-6 space-y-3 bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700"
+        >
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Add a secret</h2>
+          <input
+            type="text"
+            aria-label="Secret name"
+            placeholder="Name, e.g. NPM_TOKEN"
+            value={form.name}
+            onChange={updateForm('name')}
+            className={`${inputClassName} font-mono`}
+          />
+          <textarea
+            aria-label="Secret value"
+            placeholder="Value"
+            value={form.value}
+            onChange={updateForm('value')}
+            rows={form.target === 'file' ? 4 : 1}
+            autoComplete="off"
+            className={`${inputClassName} font-mono`}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <select aria-label="Secret scope" value={form.scope} onChange={updateForm('scope')} className={inputClassName}>
+              <option value="user">All my sessions</option>
+              <option value="repository">One repository</option>
+            </select>
+            <select aria-label="Secret target" value={form.target} onChange={updateForm('target')} className={inputClassName}>
+              <option value="environment">Environment variable</option>
+              <option value="file">File</option>
+            </select>
+          </div>
+          {form.scope === 'repository' && (
+            <input
+              type="text"
+              aria-label="Repository"
+              placeholder="owner/repo"
+              value={form.repositoryName}
+              onChange={updateForm('repositoryName')}
+              className={inputClassName}
+            />
+          )}
+          {form.target === 'file' && (
+            <input
+              type="text"
+              aria-label="File path"
+              placeholder="~/.npmrc"
+              value={form.filePath}
+              onChange={updateForm('filePath')}
+              className={`${inputClassName} font-mono`}
+            />
+          )}
+          <button
+            type="submit"
+            disabled={!canSave}
+            className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-xl hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save secret
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
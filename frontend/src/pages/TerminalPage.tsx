@@ -1,15 +1,42 @@
 import { useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import Terminal from '../components/Terminal';
 import DevThreadView from '../components/task/DevThreadView';
+import ThreadView from '../components/task/ThreadView';
 import GitDiff from '../components/task/GitDiff';
+import PreviewPanel from '../components/task/PreviewPanel';
+import RecordingsPanel from '../components/task/RecordingsPanel';
 import TaskTabs from '../components/task/TaskTabs';
+import PresenceIndicator from '../components/PresenceIndicator';
+import ShareSessionPanel from '../components/ShareSessionPanel';
 import { TabType } from '../types/tabs';
+import { useScrollToMessage } from '../hooks/useScrollToMessage';
+import { useRepoConfig } from '../hooks/useRepoConfig';
+import { useSessionSharing } from '../hooks/useSessionSharing';
+import { useSessionPresence } from '../hooks/useSessionPresence';
+
+const TAB_TYPES: TabType[] = ['thread', 'terminal', 'gitdiff', 'preview', 'recordings'];
+const NO_PORTS: number[] = [];
 
 const TerminalPage = () => {
   const { sessionId } = useParams<{ sessionId: string }>();
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<TabType>('terminal');
+  const [searchParams] = useSearchParams();
+  const requestedTab = searchParams.get('tab') as TabType | null;
+  const [activeTab, setActiveTab] = useState<TabType>(
+    requestedTab && TAB_TYPES.includes(requestedTab) ? requestedTab : 'terminal'
+  );
+
+  const repoConfig = useRepoConfig(sessionId);
+  const previewPorts = repoConfig?.previewPorts ?? NO_PORTS;
+
+  const { role, shares, error: sharingError, shareWith, removeShare } = useSessionSharing(sessionId);
+  const participants = useSessionPresence(sessionId);
+  const [showSharing, setShowSharing] = useState(false);
+  const readOnly = role === 'viewer';
+
+  // Deep links from thread search point at a specific message
+  useScrollToMessage(activeTab === 'thread' ? searchParams.get('message') : null);
 
   const handleViewDiff = () => {
     if (sessionId) {
@@ -29,6 +56,10 @@ const TerminalPage = () => {
         return 'terminal';
       case 'gitdiff':
         return 'git diff';
+      case 'preview':
+        return 'preview';
+      case 'recordings':
+        return 'recordings';
       default:
         return 'terminal';
     }
@@ -48,6 +79,18 @@ const TerminalPage = () => {
 
     switch (activeTab) {
       case 'thread':
+        // Teammates follow the session's real thread rather than the dev one
+        if (role && role !== 'owner') {
+          return (
+            <ThreadView
+              sessionId={sessionId}
+              readOnly={readOnly}
+              onError={(error) => {
+                console.error('Thread error:', error);
+              }}
+            />
+          );
+        }
         return (
           <DevThreadView 
             onError={(error) => {
@@ -60,6 +103,7 @@ const TerminalPage = () => {
           <Terminal 
             className="h-full w-full"
             sessionId={sessionId}
+            readOnly={readOnly}
             onReady={(_terminal) => {
               // Terminal ready
             }}
@@ -76,11 +120,27 @@ const TerminalPage = () => {
           <GitDiff 
             sessionId={sessionId}
             className="h-full"
+            readOnly={readOnly}
             onError={(error) => {
               console.error('Git diff error:', error);
             }}
           />
         );
+      case 'preview':
+        return (
+          <PreviewPanel 
+            sessionId={sessionId}
+            declaredPorts={previewPorts}
+            className="h-full"
+          />
+        );
+      case 'recordings':
+        return (
+          <RecordingsPanel
+            sessionId={sessionId}
+            className="h-full"
+          />
+        );
       default:
         return null;
     }
@@ -103,9 +163,21 @@ const TerminalPage = () => {
                 Session: {sessionId}
               </span>
             )}
+            {readOnly && (
+              <span className="text-xs text-yellow-300 bg-yellow-900/40 px-2 py-1 rounded">Read-only</span>
+            )}
           </div>
           <div className="flex items-center space-x-3">
+            <PresenceIndicator participants={participants} />
             <div className="text-xs text-gray-500">amplify@container:/workspace</div>
+            {role === 'owner' && (
+              <button
+                onClick={() => setShowSharing(!showSharing)}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-300 bg-gray-700/50 border border-gray-600 rounded-lg hover:bg-gray-600/50 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 transition-all duration-200"
+              >
+                {showSharing ? 'Hide Sharing' : 'Share'}
+              </button>
+            )}
             <button
               onClick={handleViewDiff}
               className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-300 bg-gray-700/50 border border-gray-600 rounded-lg hover:bg-gray-600/50 hover:text-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 transition-all duration-200"
@@ -118,12 +190,34 @@ const TerminalPage = () => {
           </div>
         </div>
 
+        {role === 'owner' && showSharing && (
+          <ShareSessionPanel
+            shares={shares}
+            error={sharingError}
+            onShare={shareWith}
+            onRemove={removeShare}
+          />
+        )}
+
         {/* Tab Navigation */}
         <TaskTabs 
           activeTab={activeTab}
           onTabChange={handleTabChange}
+          previewPorts={previewPorts}
           className="flex-shrink-0"
         />
+
+        {/* .amplify.yml problems; an invalid file is ignored entirely */}
+        {repoConfig && repoConfig.errors.length > 0 && (
+          <div className="px-4 py-2 border-b border-yellow-700/50 bg-yellow-900/20 text-sm text-yellow-300 flex-shrink-0">
+            <div className="font-medium">{repoConfig.file} was not applied:</div>
+            <ul className="list-disc list-inside text-yellow-200/80">
+              {repoConfig.errors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
         
         {/* Tab Content */}
         <div className="flex-1 bg-gray-900 overflow-hidden">
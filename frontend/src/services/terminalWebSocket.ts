@@ -1,4 +1,4 @@
-import { TerminalMessage } from '../types/terminal';
+import { TerminalMessage, TerminalState, DriverAction } from '../types/terminal';
 
 export interface TerminalWebSocketConfig {
   /**
@@ -24,6 +24,7 @@ export interface TerminalWebSocketConfig {
 
 export interface TerminalWebSocketCallbacks {
   onOutput?: (data: string) => void;
+  onState?: (state: TerminalState) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
   onError?: (error: Error) => void;
@@ -175,6 +176,30 @@ export class TerminalWebSocketClient {
     }
   }
 
+  /**
+   * Request, release or hand over the shared terminal's input lock
+   */
+  sendDriverAction(action: DriverAction, connectionId?: string): boolean {
+    if (!this.isConnected || !this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      console.warn('Terminal WebSocket not connected');
+      return false;
+    }
+
+    try {
+      const message: TerminalMessage = {
+        type: 'driver',
+        data: { action, ...(connectionId && { connectionId }) },
+        timestamp: Date.now()
+      };
+
+      this.ws.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.error('Failed to send driver action:', error);
+      return false;
+    }
+  }
+
   /**
    * Check if WebSocket is connected
    */
@@ -209,6 +234,11 @@ export class TerminalWebSocketClient {
           this.callbacks.onOutput(message.data);
         }
       }
+
+      // Handle who shares the terminal and who drives it
+      if (message.type === 'state' && typeof message.data === 'object') {
+        this.callbacks.onState?.(message.data as TerminalState);
+      }
     } catch (error) {
       console.error('Failed to parse terminal WebSocket message:', error);
     }
@@ -2,7 +2,7 @@ import { ThreadMessage } from '../types/threadMessage';
 
 // WebSocket message types matching backend interface
 export interface ThreadWebSocketMessage {
-  type: 'user_message' | 'thread_message' | 'connection_status' | 'error' | 'ping' | 'pong';
+  type: 'user_message' | 'cancel' | 'thread_message' | 'thread_message_delta' | 'thread_switched' | 'connection_status' | 'error' | 'ping' | 'pong';
   data?: any;
   timestamp?: string;
   id?: string;
@@ -18,6 +18,31 @@ export interface ThreadMessageEvent {
   data: ThreadMessage;
 }
 
+/**
+ * Partial output for a message amp is still writing. The completed message
+ * arrives later as a thread_message whose metadata.stream_id equals `id`.
+ */
+export interface ThreadMessageDelta {
+  id: string;
+  type: string;
+  delta: string;
+  content: string;
+  timestamp: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ThreadMessageDeltaEvent {
+  type: 'thread_message_delta';
+  data: ThreadMessageDelta;
+}
+
+export interface ThreadSwitchedEvent {
+  type: 'thread_switched';
+  data: {
+    threadId: string;
+  };
+}
+
 export interface ConnectionStatusEvent {
   type: 'connection_status';
   data: {
@@ -36,7 +61,7 @@ export interface ErrorEvent {
   };
 }
 
-export type ThreadWebSocketEvent = ThreadMessageEvent | ConnectionStatusEvent | ErrorEvent;
+export type ThreadWebSocketEvent = ThreadMessageEvent | ThreadMessageDeltaEvent | ThreadSwitchedEvent | ConnectionStatusEvent | ErrorEvent;
 
 export enum ConnectionState {
   CONNECTING = 'connecting',
@@ -86,6 +111,8 @@ export interface ThreadWebSocketConfig {
 
 export interface ThreadWebSocketCallbacks {
   onMessage?: (message: ThreadMessage) => void;
+  onMessageDelta?: (delta: ThreadMessageDelta) => void;
+  onThreadSwitched?: (threadId: string) => void;
   onConnectionChange?: (state: ConnectionState) => void;
   onError?: (error: Error) => void;
   onStatusUpdate?: (status: ConnectionStatusEvent['data']) => void;
@@ -201,6 +228,31 @@ export class ThreadWebSocketClient {
     }
   }
 
+  /**
+   * Ask the server to stop the amp turn that is currently running
+   */
+  cancelTurn(): boolean {
+    if (!this.isConnected()) {
+      this.handleError(new Error('WebSocket is not connected'));
+      return false;
+    }
+
+    try {
+      const message: ThreadWebSocketMessage = {
+        type: 'cancel',
+        data: { sessionId: this.sessionId },
+        timestamp: new Date().toISOString(),
+        id: this.generateMessageId()
+      };
+
+      this.ws!.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      this.handleError(error instanceof Error ? error : new Error('Failed to cancel turn'));
+      return false;
+    }
+  }
+
   /**
    * Get current connection state
    */
@@ -240,6 +292,18 @@ export class ThreadWebSocketClient {
             this.callbacks.onMessage(message.data as ThreadMessage);
           }
           break;
+
+        case 'thread_message_delta':
+          if (this.callbacks.onMessageDelta && message.data) {
+            this.callbacks.onMessageDelta(message.data as ThreadMessageDelta);
+          }
+          break;
+
+        case 'thread_switched':
+          if (this.callbacks.onThreadSwitched && message.data) {
+            this.callbacks.onThreadSwitched(message.data.threadId);
+          }
+          break;
           
         case 'connection_status':
           if (this.callbacks.onStatusUpdate && message.data) {
@@ -1,4 +1,4 @@
-export type TabType = 'thread' | 'terminal' | 'gitdiff';
+export type TabType = 'thread' | 'terminal' | 'gitdiff' | 'preview' | 'recordings';
 
 export interface Tab {
   id: TabType;
@@ -10,5 +10,6 @@ export interface Tab {
 export interface TabsProps {
   activeTab: TabType;
   onTabChange: (tab: TabType) => void;
+  previewPorts?: number[];
   className?: string;
 }
@@ -1,6 +1,6 @@
 export interface TerminalMessage {
-  type: 'input' | 'output' | 'resize' | 'control';
-  data: string | ResizeData | ControlData;
+  type: 'input' | 'output' | 'resize' | 'control' | 'driver' | 'state';
+  data: string | ResizeData | ControlData | DriverData | TerminalState;
   timestamp: number;
 }
 
@@ -13,6 +13,31 @@ export interface ControlData {
   signal: 'SIGINT' | 'SIGTERM' | 'SIGKILL' | 'SIGTSTP' | 'SIGCONT' | 'SIGQUIT';
 }
 
+export type DriverAction = 'request' | 'release' | 'handover';
+
+export interface DriverData {
+  action: DriverAction;
+  connectionId?: string;
+}
+
+export interface TerminalClientInfo {
+  connectionId: string;
+  username?: string;
+  canDrive: boolean;
+}
+
+/**
+ * Who shares the terminal and who holds its input lock, as seen by this client
+ */
+export interface TerminalState {
+  connectionId: string;
+  driverId: string | null;
+  canDrive: boolean;
+  requests: string[];
+  clients: TerminalClientInfo[];
+  size: ResizeData | null;
+}
+
 export interface WebSocketHookState {
   socket: WebSocket | null;
   isConnected: boolean;
@@ -32,4 +57,5 @@ export interface TerminalProps {
   onReady?: (terminal: import('@xterm/xterm').Terminal) => void;
   onData?: (data: string) => void;
   onResize?: (data: ResizeData) => void;
+  readOnly?: boolean;
 }
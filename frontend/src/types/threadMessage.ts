@@ -4,15 +4,20 @@ export interface ThreadMessage {
   content: string;
   ts: string; // ISO date string
   metadata?: {
-    type?: 'text' | 'code' | 'error' | 'file_change';
+    type?: 'text' | 'code' | 'error' | 'file_change' | 'turn_cancelled';
     files?: string[];
     exitCode?: number;
+    stream_id?: string; // Set on completed messages that were streamed as deltas
+    streaming?: boolean; // Set on drafts still being built from deltas
+    snapshot_ref?: string; // Workspace snapshot taken before a user message was sent to amp
   };
 }
 
 export interface MessageBubbleProps {
   message: ThreadMessage;
   className?: string;
+  onRevert?: (message: ThreadMessage) => void;
+  isReverting?: boolean;
 }
 
 export type MessageRole = 'user' | 'amp' | 'system';
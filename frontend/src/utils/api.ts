@@ -5,6 +5,7 @@ interface ApiResponse<T = any> {
   data?: T;
   message?: string;
   error?: string;
+  meta?: Record<string, any>;
 }
 
 class ApiClient {
@@ -79,6 +80,52 @@ class ApiClient {
     });
   }
 
+  /**
+   * POST to an endpoint that streams newline-delimited JSON events, calling onEvent
+   * for each one as it arrives
+   */
+  async postStream<E = any>(
+    endpoint: string,
+    data: any,
+    onEvent: (event: E) => void
+  ): Promise<void> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/x-ndjson',
+      },
+      credentials: 'include',
+      body: JSON.stringify(data),
+    });
+
+    // Errors raised before streaming starts (e.g. validation) come back as plain JSON
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || body.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)));
+
+      if (done) {
+        if (buffered.trim()) {
+          onEvent(JSON.parse(buffered));
+        }
+        return;
+      }
+    }
+  }
+
   async put<T = any>(
     endpoint: string,
     data?: any,
@@ -112,3 +159,6 @@ class ApiClient {
 }
 
 export const api = new ApiClient();
+
+// Account endpoints are served under /auth rather than the API prefix
+export const authApi = new ApiClient('/auth');
@@ -0,0 +1,64 @@
+export interface AsciicastHeader {
+  version: number;
+  width: number;
+  height: number;
+  timestamp?: number;
+  title?: string;
+}
+
+export interface AsciicastEvent {
+  time: number; // seconds from the start
+  type: 'o' | 'i' | 'r' | 'm';
+  data: string;
+}
+
+export interface Asciicast {
+  header: AsciicastHeader;
+  events: AsciicastEvent[];
+  duration: number;
+}
+
+/**
+ * Parse an asciicast v2 file; a half-written last line is skipped
+ */
+export const parseAsciicast = (text: string): Asciicast => {
+  const lines = text.split('\n').filter(line => line.trim());
+  const header = JSON.parse(lines[0] || '{}') as AsciicastHeader;
+  if (header.version !== 2) {
+    throw new Error('Unsupported recording format');
+  }
+
+  const events: AsciicastEvent[] = [];
+  for (const line of lines.slice(1)) {
+    try {
+      const [time, type, data] = JSON.parse(line);
+      if (typeof time === 'number' && typeof data === 'string') {
+        events.push({ time, type, data });
+      }
+    } catch {
+      // Recordings still being written may end mid-line
+    }
+  }
+
+  return {
+    header,
+    events,
+    duration: events.length > 0 ? events[events.length - 1]!.time : 0
+  };
+};
+
+/**
+ * Parse the "COLSxROWS" data of a resize event
+ */
+export const parseResize = (data: string): { cols: number; rows: number } | null => {
+  const match = data.match(/^(\d+)x(\d+)$/);
+  return match ? { cols: Number(match[1]), rows: Number(match[2]) } : null;
+};
+
+/**
+ * Format seconds as m:ss
+ */
+export const formatPlaybackTime = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
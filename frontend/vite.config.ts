@@ -16,6 +16,7 @@ export default defineConfig({
         target: 'http://localhost:3000',
         changeOrigin: true,
         secure: false,
+        ws: true, // session previews
       },
       '/auth': {
         target: 'http://localhost:3000',